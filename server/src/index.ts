@@ -11,8 +11,17 @@ import { connectMongoDB } from './config/database';
 import { connectRedis } from './config/redis';
 import { setupRoutes } from './routes';
 import { setupSocketHandlers } from './socket';
+import { setupSnapshotCompactor, snapshotCompactor } from './services/snapshotCompactor';
+import { setupDiagramStateBroadcaster } from './services/diagramStateBroadcaster';
+import { setupDiagramRoleSync } from './services/diagramRoleSync';
 import { errorHandler } from './middleware/errorHandler';
 import { logger } from './utils/logger';
+import type {
+  ClientToServerEvents,
+  InterServerEvents,
+  ServerToClientEvents,
+  SocketData
+} from '../../shared/socketEvents';
 
 // Load environment variables
 dotenv.config();
@@ -21,7 +30,7 @@ const app = express();
 const server = createServer(app);
 
 // Socket.IO 서버 설정
-const io = new SocketIOServer(server, {
+const io = new SocketIOServer<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>(server, {
   cors: {
     origin: process.env.CORS_ORIGIN || "http://localhost:3000",
     methods: ["GET", "POST"],
@@ -54,6 +63,9 @@ setupRoutes(app);
 
 // Socket.IO 핸들러 설정
 setupSocketHandlers(io);
+setupSnapshotCompactor(io);
+setupDiagramStateBroadcaster(io);
+setupDiagramRoleSync(io);
 
 // 에러 핸들링 미들웨어
 app.use(errorHandler);
@@ -82,15 +94,19 @@ async function startServer() {
 }
 
 // Graceful shutdown
-process.on('SIGTERM', () => {
+process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully');
+  // 대기 중인 operation을 스냅샷에 반영
+  await snapshotCompactor.flushAll();
   server.close(() => {
     logger.info('Process terminated');
   });
 });
 
-process.on('SIGINT', () => {
+process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down gracefully');
+  // 대기 중인 operation을 스냅샷에 반영
+  await snapshotCompactor.flushAll();
   server.close(() => {
     logger.info('Process terminated');
   });
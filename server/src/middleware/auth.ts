@@ -0,0 +1,38 @@
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from './errorHandler';
+import { extractBearerToken, verifyAccessToken } from '../utils/token';
+
+export interface AuthUser {
+  id: string;
+  username: string;
+}
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+// Bearer 토큰을 검증하고 req.user를 설정 (토큰이 없으면 401)
+export function requireAuth(req: Request, res: Response, next: NextFunction): void {
+  const token = extractBearerToken(req.get('Authorization'));
+
+  if (!token) {
+    const error: AppError = new Error('Authentication required');
+    error.statusCode = 401;
+    return next(error);
+  }
+
+  try {
+    const payload = verifyAccessToken(token);
+    req.user = { id: payload.sub, username: payload.username };
+    next();
+  } catch (error) {
+    // JsonWebTokenError / TokenExpiredError는 errorHandler에서 401로 변환됨
+    next(error);
+  }
+}
+
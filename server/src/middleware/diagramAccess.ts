@@ -0,0 +1,46 @@
+import { Request, Response, NextFunction } from 'express';
+import { Diagram, IDiagram, DiagramRole } from '../models';
+import { AppError } from './errorHandler';
+import { getDiagramRole, hasRole } from '../utils/permissions';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      diagram?: IDiagram;
+      diagramRole?: DiagramRole;
+    }
+  }
+}
+
+// :id 다이어그램을 조회하고 요청 사용자의 역할이 required 이상인지 확인
+// requireAuth 이후에 사용해야 하며, req.diagram / req.diagramRole을 설정함
+export function requireDiagramRole(required: DiagramRole) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const diagram = await Diagram.findById(req.params.id);
+
+      if (!diagram) {
+        const error: AppError = new Error('Diagram not found');
+        error.statusCode = 404;
+        return next(error);
+      }
+
+      const role = getDiagramRole(diagram, req.user?.id);
+
+      if (!hasRole(role, required)) {
+        const error: AppError = new Error(
+          role ? `This action requires the ${required} role` : 'Access to this diagram is denied'
+        );
+        error.statusCode = 403;
+        return next(error);
+      }
+
+      req.diagram = diagram;
+      req.diagramRole = role!;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
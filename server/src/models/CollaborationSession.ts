@@ -10,7 +10,10 @@ export interface ICollaborationSession extends Document {
     cursor?: {
       x: number;
       y: number;
+      elementId?: string;
+      rootId?: string;
     };
+    selection?: string[];
   }>;
   isActive: boolean;
   createdAt: Date;
@@ -39,8 +42,11 @@ const CollaborationSessionSchema = new Schema<ICollaborationSession>({
     },
     cursor: {
       x: { type: Number },
-      y: { type: Number }
-    }
+      y: { type: Number },
+      elementId: { type: String },
+      rootId: { type: String }
+    },
+    selection: [{ type: String }]
   }],
   isActive: {
     type: Boolean,
@@ -1,14 +1,29 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+export type CollaboratorRole = 'editor' | 'commenter' | 'viewer';
+export type DiagramRole = 'owner' | CollaboratorRole;
+
+export const COLLABORATOR_ROLES: CollaboratorRole[] = ['editor', 'commenter', 'viewer'];
+
+export interface IDiagramCollaborator {
+  userId: string;
+  role: CollaboratorRole;
+  addedAt: Date;
+}
+
 export interface IDiagram extends Document {
   _id: string;
   title: string;
   description?: string;
   bpmnXml: string;
   owner: string;
-  collaborators: string[];
+  collaborators: IDiagramCollaborator[];
   isPublic: boolean;
   version: number;
+  lastSeq: number;
+  snapshotSeq: number;
+  snapshotAt?: Date;
+  crdtStamps: Record<string, Record<string, { clock: number; clientId: string }>>;
   lastModified: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -36,8 +51,21 @@ const DiagramSchema = new Schema<IDiagram>({
     ref: 'User'
   },
   collaborators: [{
-    type: String,
-    ref: 'User'
+    _id: false,
+    userId: {
+      type: String,
+      required: true,
+      ref: 'User'
+    },
+    role: {
+      type: String,
+      enum: COLLABORATOR_ROLES,
+      default: 'editor'
+    },
+    addedAt: {
+      type: Date,
+      default: Date.now
+    }
   }],
   isPublic: {
     type: Boolean,
@@ -47,6 +75,25 @@ const DiagramSchema = new Schema<IDiagram>({
     type: Number,
     default: 1
   },
+  // 실시간 협업 operation 로그의 마지막 시퀀스 번호
+  lastSeq: {
+    type: Number,
+    default: 0
+  },
+  // bpmnXml 스냅샷에 반영된 마지막 operation 시퀀스 번호
+  snapshotSeq: {
+    type: Number,
+    default: 0
+  },
+  // 서버 압축기가 마지막으로 스냅샷을 만든 시각 (사용자 저장과 달리 version은 올리지 않음)
+  snapshotAt: {
+    type: Date
+  },
+  // 스냅샷에 반영된 요소 필드별 CRDT 스탬프 (요소 ID -> 필드 -> 스탬프)
+  crdtStamps: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
   lastModified: {
     type: Date,
     default: Date.now
@@ -65,7 +112,7 @@ const DiagramSchema = new Schema<IDiagram>({
 
 // 인덱스 설정
 DiagramSchema.index({ owner: 1 });
-DiagramSchema.index({ collaborators: 1 });
+DiagramSchema.index({ 'collaborators.userId': 1 });
 DiagramSchema.index({ isPublic: 1 });
 DiagramSchema.index({ title: 'text', description: 'text' });
 
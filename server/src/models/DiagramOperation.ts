@@ -0,0 +1,61 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IDiagramOperation extends Document {
+  _id: string;
+  diagramId: string;
+  seq: number;
+  userId: string;
+  username?: string;
+  changes: any[];
+  clientOpId?: string;
+  baseSeq?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DiagramOperationSchema = new Schema<IDiagramOperation>({
+  diagramId: {
+    type: String,
+    required: true,
+    ref: 'Diagram'
+  },
+  seq: {
+    type: Number,
+    required: true
+  },
+  userId: {
+    type: String,
+    required: true,
+    ref: 'User'
+  },
+  username: {
+    type: String
+  },
+  changes: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  // 클라이언트가 생성한 operation 식별자 (ack 매칭용)
+  clientOpId: {
+    type: String
+  },
+  // 클라이언트가 변경을 만들 당시 마지막으로 적용한 시퀀스 번호
+  baseSeq: {
+    type: Number
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// 인덱스 설정
+DiagramOperationSchema.index({ diagramId: 1, seq: 1 }, { unique: true });
+
+export const DiagramOperation = mongoose.model<IDiagramOperation>('DiagramOperation', DiagramOperationSchema);
@@ -0,0 +1,57 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IDiagramVersion extends Document {
+  _id: string;
+  diagramId: string;
+  version: number;
+  bpmnXml: string;
+  author: string;
+  label?: string;
+  restoredFrom?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DiagramVersionSchema = new Schema<IDiagramVersion>({
+  diagramId: {
+    type: String,
+    required: true,
+    ref: 'Diagram'
+  },
+  version: {
+    type: Number,
+    required: true
+  },
+  bpmnXml: {
+    type: String,
+    required: true
+  },
+  author: {
+    type: String,
+    required: true,
+    ref: 'User'
+  },
+  label: {
+    type: String,
+    trim: true,
+    maxlength: 100
+  },
+  restoredFrom: {
+    type: Number
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// 인덱스 설정
+DiagramVersionSchema.index({ diagramId: 1, version: -1 }, { unique: true });
+
+export const DiagramVersion = mongoose.model<IDiagramVersion>('DiagramVersion', DiagramVersionSchema);
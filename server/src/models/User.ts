@@ -1,14 +1,19 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import bcrypt from 'bcryptjs';
+
+const PASSWORD_SALT_ROUNDS = 10;
 
 export interface IUser extends Document {
   _id: string;
   username: string;
   email: string;
+  password?: string;
   avatar?: string;
   isOnline: boolean;
   lastSeen: Date;
   createdAt: Date;
   updatedAt: Date;
+  comparePassword(candidate: string): Promise<boolean>;
 }
 
 const UserSchema = new Schema<IUser>({
@@ -27,6 +32,11 @@ const UserSchema = new Schema<IUser>({
     trim: true,
     lowercase: true
   },
+  password: {
+    type: String,
+    minlength: 8,
+    select: false // 기본 조회에서 제외
+  },
   avatar: {
     type: String,
     default: null
@@ -46,11 +56,34 @@ const UserSchema = new Schema<IUser>({
       ret.id = ret._id;
       delete ret._id;
       delete ret.__v;
+      delete ret.password;
       return ret;
     }
   }
 });
 
+// 비밀번호 해싱
+UserSchema.pre('save', async function(next) {
+  if (!this.isModified('password') || !this.password) {
+    return next();
+  }
+
+  try {
+    this.password = await bcrypt.hash(this.password, PASSWORD_SALT_ROUNDS);
+    next();
+  } catch (error) {
+    next(error as Error);
+  }
+});
+
+// 비밀번호 비교 (password 필드를 select('+password')로 조회한 경우에만 사용 가능)
+UserSchema.methods.comparePassword = async function(candidate: string): Promise<boolean> {
+  if (!this.password) {
+    return false;
+  }
+  return bcrypt.compare(candidate, this.password);
+};
+
 // 인덱스 설정
 UserSchema.index({ username: 1 });
 UserSchema.index({ email: 1 });
@@ -1,3 +1,5 @@
 export { User, IUser } from './User';
-export { Diagram, IDiagram } from './Diagram';
-export { CollaborationSession, ICollaborationSession } from './CollaborationSession';
\ No newline at end of file
+export { Diagram, IDiagram, IDiagramCollaborator, DiagramRole, CollaboratorRole, COLLABORATOR_ROLES } from './Diagram';
+export { CollaborationSession, ICollaborationSession } from './CollaborationSession';
+export { DiagramVersion, IDiagramVersion } from './DiagramVersion';
+export { DiagramOperation, IDiagramOperation } from './DiagramOperation';
@@ -0,0 +1,230 @@
+import request from 'supertest';
+import { authHeader, createFakeRedis, createTestApp } from '../test/helpers';
+import { authRouter } from './auth';
+import { User } from '../models';
+import { getRedisClient } from '../config/redis';
+import { verifyAccessToken, verifyRefreshToken } from '../utils/token';
+
+jest.mock('../utils/logger');
+jest.mock('../config/redis', () => ({ getRedisClient: jest.fn() }));
+jest.mock('../models', () => ({
+  User: Object.assign(
+    jest.fn(function (this: any, data: any) {
+      Object.assign(this, data, { _id: 'user-new' });
+      this.save = jest.fn().mockResolvedValue(this);
+    }),
+    { findOne: jest.fn(), findById: jest.fn() }
+  )
+}));
+
+const mockedUser = User as unknown as jest.Mock & { findOne: jest.Mock; findById: jest.Mock };
+
+// findOne(...).select('+password') 체인
+function findOneReturning(user: any) {
+  mockedUser.findOne.mockReturnValue({ select: jest.fn().mockResolvedValue(user) });
+}
+
+const alice = {
+  _id: 'user-1',
+  username: 'alice',
+  email: 'alice@example.com',
+  comparePassword: jest.fn(async (password: string) => password === 'correct-password')
+};
+
+describe('auth routes', () => {
+  const app = createTestApp('/api/auth', authRouter);
+  let redis: ReturnType<typeof createFakeRedis>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    redis = createFakeRedis();
+    (getRedisClient as jest.Mock).mockReturnValue(redis);
+  });
+
+  const login = async () => {
+    findOneReturning(alice);
+    const res = await request(app)
+      .post('/api/auth/login')
+      .send({ username: 'alice', password: 'correct-password' });
+    expect(res.status).toBe(200);
+    return res.body as { accessToken: string; refreshToken: string };
+  };
+
+  describe('POST /register', () => {
+    it('새 사용자를 만들고 토큰을 발급해야 한다', async () => {
+      mockedUser.findOne.mockResolvedValue(null);
+
+      const res = await request(app)
+        .post('/api/auth/register')
+        .send({ username: 'bob', email: 'bob@example.com', password: 'long-enough' });
+
+      expect(res.status).toBe(201);
+      expect(verifyAccessToken(res.body.accessToken).sub).toBe('user-new');
+      expect(redis.store.get(`refresh:${verifyRefreshToken(res.body.refreshToken).jti}`)).toBe('user-new');
+    });
+
+    it('짧은 비밀번호는 거부해야 한다', async () => {
+      const res = await request(app)
+        .post('/api/auth/register')
+        .send({ username: 'bob', email: 'bob@example.com', password: 'short' });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('문자열이 아닌 사용자 이름이나 이메일은 쿼리 전에 거부해야 한다', async () => {
+      const res = await request(app)
+        .post('/api/auth/register')
+        .send({ username: { $ne: null }, email: 'bob@example.com', password: 'long-enough' });
+
+      expect(res.status).toBe(400);
+      expect(mockedUser.findOne).not.toHaveBeenCalled();
+    });
+
+    it('이미 있는 사용자 이름이나 이메일은 409를 반환해야 한다', async () => {
+      mockedUser.findOne.mockResolvedValue(alice);
+
+      const res = await request(app)
+        .post('/api/auth/register')
+        .send({ username: 'alice', email: 'alice@example.com', password: 'long-enough' });
+
+      expect(res.status).toBe(409);
+    });
+  });
+
+  describe('POST /login', () => {
+    it('올바른 자격 증명이면 access/refresh 토큰을 발급해야 한다', async () => {
+      const tokens = await login();
+
+      const access = verifyAccessToken(tokens.accessToken);
+      expect(access).toMatchObject({ sub: 'user-1', username: 'alice', type: 'access' });
+
+      // refresh 토큰 jti가 폐기 추적용으로 저장됨
+      const refresh = verifyRefreshToken(tokens.refreshToken);
+      expect(redis.store.get(`refresh:${refresh.jti}`)).toBe('user-1');
+    });
+
+    it('이메일로도 로그인할 수 있어야 한다', async () => {
+      findOneReturning(alice);
+
+      const res = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'alice@example.com', password: 'correct-password' });
+
+      expect(res.status).toBe(200);
+      expect(mockedUser.findOne).toHaveBeenCalledWith({ email: 'alice@example.com' });
+    });
+
+    it('비밀번호가 틀리면 401을 반환해야 한다', async () => {
+      findOneReturning(alice);
+
+      const res = await request(app)
+        .post('/api/auth/login')
+        .send({ username: 'alice', password: 'wrong-password' });
+
+      expect(res.status).toBe(401);
+      expect(res.body.accessToken).toBeUndefined();
+    });
+
+    it.each([
+      ['username', { username: { $ne: null }, password: 'correct-password' }],
+      ['email', { email: { $gt: '' }, password: 'correct-password' }],
+      ['password', { username: 'alice', password: { $ne: null } }]
+    ])('문자열이 아닌 %s는 쿼리 전에 거부해야 한다', async (_field, body) => {
+      const res = await request(app).post('/api/auth/login').send(body);
+
+      expect(res.status).toBe(400);
+      expect(mockedUser.findOne).not.toHaveBeenCalled();
+    });
+
+    it('필수 값이 없으면 400을 반환해야 한다', async () => {
+      const res = await request(app).post('/api/auth/login').send({ username: 'alice' });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('POST /refresh', () => {
+    it('refresh 토큰을 회전시켜 새 토큰을 발급해야 한다', async () => {
+      const tokens = await login();
+      mockedUser.findById.mockResolvedValue(alice);
+
+      const res = await request(app).post('/api/auth/refresh').send({ refreshToken: tokens.refreshToken });
+
+      expect(res.status).toBe(200);
+      expect(verifyAccessToken(res.body.accessToken).sub).toBe('user-1');
+
+      // 사용한 refresh 토큰은 폐기되고 새 토큰만 유효
+      const oldJti = verifyRefreshToken(tokens.refreshToken).jti;
+      const newJti = verifyRefreshToken(res.body.refreshToken).jti;
+      expect(redis.store.has(`refresh:${oldJti}`)).toBe(false);
+      expect(redis.store.get(`refresh:${newJti}`)).toBe('user-1');
+    });
+
+    it('이미 사용한 refresh 토큰은 거부해야 한다', async () => {
+      const tokens = await login();
+      mockedUser.findById.mockResolvedValue(alice);
+      await request(app).post('/api/auth/refresh').send({ refreshToken: tokens.refreshToken });
+
+      const res = await request(app).post('/api/auth/refresh').send({ refreshToken: tokens.refreshToken });
+
+      expect(res.status).toBe(401);
+      expect(res.body.error).toBe('Refresh token has been revoked');
+    });
+
+    it('같은 refresh 토큰으로 동시에 요청하면 한 요청만 성공해야 한다', async () => {
+      const tokens = await login();
+      mockedUser.findById.mockResolvedValue(alice);
+
+      const responses = await Promise.all([
+        request(app).post('/api/auth/refresh').send({ refreshToken: tokens.refreshToken }),
+        request(app).post('/api/auth/refresh').send({ refreshToken: tokens.refreshToken })
+      ]);
+
+      expect(responses.map(res => res.status).sort()).toEqual([200, 401]);
+    });
+
+    it('access 토큰이나 잘못된 토큰은 401을 반환해야 한다', async () => {
+      const tokens = await login();
+
+      const res = await request(app).post('/api/auth/refresh').send({ refreshToken: tokens.accessToken });
+
+      expect(res.status).toBe(401);
+      expect(res.body.error).toBe('Invalid refresh token');
+    });
+  });
+
+  describe('POST /logout', () => {
+    it('refresh 토큰을 폐기해 더 이상 갱신할 수 없어야 한다', async () => {
+      const tokens = await login();
+
+      const res = await request(app).post('/api/auth/logout').send({ refreshToken: tokens.refreshToken });
+      expect(res.status).toBe(200);
+
+      const refreshed = await request(app).post('/api/auth/refresh').send({ refreshToken: tokens.refreshToken });
+      expect(refreshed.status).toBe(401);
+    });
+
+    it('잘못된 토큰으로 로그아웃해도 성공으로 응답해야 한다', async () => {
+      const res = await request(app).post('/api/auth/logout').send({ refreshToken: 'not-a-token' });
+
+      expect(res.status).toBe(200);
+    });
+  });
+
+  describe('GET /me', () => {
+    it('토큰이 없으면 401을 반환해야 한다', async () => {
+      const res = await request(app).get('/api/auth/me');
+
+      expect(res.status).toBe(401);
+    });
+
+    it('인증된 사용자를 반환해야 한다', async () => {
+      mockedUser.findById.mockResolvedValue({ id: 'user-1', username: 'alice' });
+
+      const res = await request(app).get('/api/auth/me').set('Authorization', authHeader('user-1', 'alice'));
+
+      expect(res.status).toBe(200);
+      expect(mockedUser.findById).toHaveBeenCalledWith('user-1');
+    });
+  });
+});
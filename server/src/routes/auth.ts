@@ -0,0 +1,180 @@
+import { Router } from 'express';
+import { User, IUser } from '../models';
+import { getRedisClient } from '../config/redis';
+import { requireAuth } from '../middleware/auth';
+import {
+  signAccessToken,
+  signRefreshToken,
+  verifyRefreshToken
+} from '../utils/token';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// Refresh 토큰 jti를 Redis에 저장 (로그아웃/회전 시 삭제하여 폐기)
+async function issueTokens(user: IUser) {
+  const userId = user._id.toString();
+  const accessToken = signAccessToken(userId, user.username);
+  const refresh = signRefreshToken(userId);
+
+  const redisClient = getRedisClient();
+  await redisClient.setEx(`refresh:${refresh.jti}`, refresh.expiresInSeconds, userId);
+
+  return { accessToken, refreshToken: refresh.token };
+}
+
+// 문자열이 아닌 값(예: { "$ne": null })이 쿼리 연산자로 해석되지 않도록 자격 증명 형식 확인
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || typeof value === 'string';
+}
+
+function isTokenError(error: any): boolean {
+  return error?.name === 'JsonWebTokenError' || error?.name === 'TokenExpiredError';
+}
+
+// 회원가입
+router.post('/register', async (req, res) => {
+  try {
+    const { username, email, password } = req.body;
+
+    if (!username || !email || !password) {
+      return res.status(400).json({ error: 'Username, email, and password are required' });
+    }
+
+    if (typeof username !== 'string' || typeof email !== 'string') {
+      return res.status(400).json({ error: 'Username and email must be strings' });
+    }
+
+    if (typeof password !== 'string' || password.length < 8) {
+      return res.status(400).json({ error: 'Password must be at least 8 characters long' });
+    }
+
+    const existingUser = await User.findOne({
+      $or: [{ username }, { email }]
+    });
+
+    if (existingUser) {
+      return res.status(409).json({ error: 'Username or email already exists' });
+    }
+
+    const user = new User({ username, email, password });
+    await user.save();
+
+    const tokens = await issueTokens(user);
+    res.status(201).json({ user, ...tokens });
+    return;
+  } catch (error) {
+    logger.error('Error registering user:', error);
+    res.status(500).json({ error: 'Failed to register user' });
+    return;
+  }
+});
+
+// 로그인 (username 또는 email)
+router.post('/login', async (req, res) => {
+  try {
+    const { username, email, password } = req.body;
+
+    if ((!username && !email) || !password) {
+      return res.status(400).json({ error: 'Username or email, and password are required' });
+    }
+
+    if (!isOptionalString(username) || !isOptionalString(email) || typeof password !== 'string') {
+      return res.status(400).json({ error: 'Username, email, and password must be strings' });
+    }
+
+    const user = await User.findOne(email ? { email } : { username }).select('+password');
+
+    if (!user || !(await user.comparePassword(password))) {
+      return res.status(401).json({ error: 'Invalid credentials' });
+    }
+
+    const tokens = await issueTokens(user);
+    res.json({ user, ...tokens });
+    return;
+  } catch (error) {
+    logger.error('Error logging in:', error);
+    res.status(500).json({ error: 'Failed to log in' });
+    return;
+  }
+});
+
+// 토큰 갱신 (refresh 토큰 회전)
+router.post('/refresh', async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      return res.status(400).json({ error: 'Refresh token is required' });
+    }
+
+    const payload = verifyRefreshToken(refreshToken);
+    const redisClient = getRedisClient();
+    // 조회와 폐기를 한 번에 처리 - 같은 토큰으로 동시에 요청해도 한 요청만 통과
+    const storedUserId = await redisClient.getDel(`refresh:${payload.jti}`);
+
+    if (storedUserId !== payload.sub) {
+      return res.status(401).json({ error: 'Refresh token has been revoked' });
+    }
+
+    const user = await User.findById(payload.sub);
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const tokens = await issueTokens(user);
+    res.json({ user, ...tokens });
+    return;
+  } catch (error) {
+    if (isTokenError(error)) {
+      return res.status(401).json({ error: 'Invalid refresh token' });
+    }
+    logger.error('Error refreshing token:', error);
+    res.status(500).json({ error: 'Failed to refresh token' });
+    return;
+  }
+});
+
+// 로그아웃 (refresh 토큰 폐기)
+router.post('/logout', async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      return res.status(400).json({ error: 'Refresh token is required' });
+    }
+
+    const payload = verifyRefreshToken(refreshToken);
+    const redisClient = getRedisClient();
+    await redisClient.del(`refresh:${payload.jti}`);
+
+    res.json({ message: 'Logged out successfully' });
+    return;
+  } catch (error) {
+    if (isTokenError(error)) {
+      // 이미 만료되었거나 잘못된 토큰은 폐기할 필요가 없음
+      return res.json({ message: 'Logged out successfully' });
+    }
+    logger.error('Error logging out:', error);
+    res.status(500).json({ error: 'Failed to log out' });
+    return;
+  }
+});
+
+// 현재 사용자 조회
+router.get('/me', requireAuth, async (req, res) => {
+  try {
+    const user = await User.findById(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    res.json(user);
+    return;
+  } catch (error) {
+    logger.error('Error fetching current user:', error);
+    res.status(500).json({ error: 'Failed to fetch current user' });
+    return;
+  }
+});
+
+export { router as authRouter };
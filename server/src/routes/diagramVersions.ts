@@ -0,0 +1,149 @@
+import { Router } from 'express';
+import { Diagram, DiagramVersion } from '../models';
+import { requireDiagramRole } from '../middleware/diagramAccess';
+import { diagramVersionService } from '../services/diagramVersionService';
+import { diagramStateBroadcaster } from '../services/diagramStateBroadcaster';
+import { formatVersionETag, getExpectedVersion } from '../utils/etag';
+import { logger } from '../utils/logger';
+
+// /api/diagrams/:id/versions 하위 라우터 (:id 파라미터 공유)
+const router = Router({ mergeParams: true });
+
+function parseVersion(value: string): number | null {
+  const version = parseInt(value, 10);
+  return Number.isInteger(version) && version > 0 ? version : null;
+}
+
+// 버전 목록 조회 (XML 제외, 최신순)
+router.get('/', requireDiagramRole('viewer'), async (req, res) => {
+  try {
+    const versions = await DiagramVersion.find({ diagramId: req.params.id })
+      .select('-bpmnXml')
+      .sort({ version: -1 });
+
+    res.json(versions);
+  } catch (error) {
+    logger.error('Error fetching diagram versions:', error);
+    res.status(500).json({ error: 'Failed to fetch diagram versions' });
+  }
+});
+
+// 특정 버전 조회 (XML 포함)
+router.get('/:version', requireDiagramRole('viewer'), async (req, res) => {
+  try {
+    const version = parseVersion(req.params.version);
+    if (!version) {
+      return res.status(400).json({ error: 'Invalid version number' });
+    }
+
+    const diagramVersion = await DiagramVersion.findOne({ diagramId: req.params.id, version });
+    if (!diagramVersion) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    res.json(diagramVersion);
+    return;
+  } catch (error) {
+    logger.error('Error fetching diagram version:', error);
+    res.status(500).json({ error: 'Failed to fetch diagram version' });
+    return;
+  }
+});
+
+// 이전 버전을 새 최신 버전으로 복원 (editor 이상)
+router.post('/:version/restore', requireDiagramRole('editor'), async (req, res) => {
+  try {
+    const version = parseVersion(req.params.version);
+    if (!version) {
+      return res.status(400).json({ error: 'Invalid version number' });
+    }
+
+    const diagramVersion = await DiagramVersion.findOne({ diagramId: req.params.id, version });
+    if (!diagramVersion) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    // 기대 version이 주어진 경우 낙관적 동시성 검사
+    const expectedVersion = getExpectedVersion(req.body, req.get('If-Match'));
+    const filter: any = { _id: req.params.id };
+    if (expectedVersion !== null) {
+      filter.version = expectedVersion;
+    }
+
+    // 복원한 XML이 새 스냅샷 - 그때까지의 operation과 필드 스탬프는 더 이상 적용하지 않음
+    const diagram = await Diagram.findOneAndUpdate(
+      filter,
+      {
+        bpmnXml: diagramVersion.bpmnXml,
+        snapshotSeq: req.diagram!.lastSeq,
+        crdtStamps: {},
+        lastModified: new Date(),
+        $inc: { version: 1 }
+      },
+      { new: true }
+    );
+
+    if (!diagram) {
+      const current = await Diagram.findById(req.params.id, { version: 1 });
+      if (!current) {
+        return res.status(404).json({ error: 'Diagram not found' });
+      }
+      return res.status(409).json({
+        error: 'Diagram has been modified by another user',
+        expectedVersion,
+        currentVersion: current.version
+      });
+    }
+
+    await diagramVersionService.recordVersion(diagram, req.user!.id, {
+      label: req.body?.label,
+      restoredFrom: version
+    });
+
+    // 열려 있는 편집기가 복원된 상태를 다시 불러오도록 전체 상태 전송
+    await diagramStateBroadcaster.broadcastState(diagram.id);
+
+    res.set('ETag', formatVersionETag(diagram.version));
+    res.json(diagram);
+    return;
+  } catch (error) {
+    logger.error('Error restoring diagram version:', error);
+    res.status(500).json({ error: 'Failed to restore diagram version' });
+    return;
+  }
+});
+
+// 버전 레이블/릴리스명 설정 (빈 값이면 제거)
+router.put('/:version/label', requireDiagramRole('editor'), async (req, res) => {
+  try {
+    const version = parseVersion(req.params.version);
+    if (!version) {
+      return res.status(400).json({ error: 'Invalid version number' });
+    }
+
+    const { label } = req.body;
+    if (label !== undefined && label !== null && typeof label !== 'string') {
+      return res.status(400).json({ error: 'Label must be a string' });
+    }
+
+    const update = label ? { $set: { label } } : { $unset: { label: 1 } };
+    const diagramVersion = await DiagramVersion.findOneAndUpdate(
+      { diagramId: req.params.id, version },
+      update,
+      { new: true, runValidators: true }
+    ).select('-bpmnXml');
+
+    if (!diagramVersion) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    res.json(diagramVersion);
+    return;
+  } catch (error) {
+    logger.error('Error labeling diagram version:', error);
+    res.status(500).json({ error: 'Failed to label diagram version' });
+    return;
+  }
+});
+
+export { router as diagramVersionRouter };
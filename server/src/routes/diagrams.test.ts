@@ -0,0 +1,383 @@
+import request from 'supertest';
+import { authHeader, createTestApp } from '../test/helpers';
+import { diagramRouter } from './diagrams';
+import { Diagram, DiagramVersion } from '../models';
+import { diagramVersionService } from '../services/diagramVersionService';
+import { diagramRoleSync } from '../services/diagramRoleSync';
+import { diagramStateBroadcaster } from '../services/diagramStateBroadcaster';
+
+jest.mock('../utils/logger');
+jest.mock('../models', () => ({
+  COLLABORATOR_ROLES: ['viewer', 'commenter', 'editor'],
+  Diagram: {
+    findById: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+    findByIdAndDelete: jest.fn()
+  },
+  DiagramVersion: { findOne: jest.fn() }
+}));
+jest.mock('../services/diagramVersionService', () => ({
+  diagramVersionService: { recordVersion: jest.fn(), deleteVersions: jest.fn() }
+}));
+jest.mock('../services/operationLogService', () => ({
+  operationLogService: { deleteOperations: jest.fn() }
+}));
+jest.mock('../services/diagramRoleSync', () => ({
+  diagramRoleSync: { syncRoles: jest.fn() }
+}));
+jest.mock('../services/diagramStateBroadcaster', () => ({
+  diagramStateBroadcaster: { broadcastState: jest.fn() }
+}));
+
+const mockedDiagram = Diagram as unknown as Record<string, jest.Mock>;
+const mockedDiagramVersion = DiagramVersion as unknown as Record<string, jest.Mock>;
+
+// owner: 소유자, bob: editor, carol: commenter, dave: viewer, eve: 접근 권한 없음
+function createDiagramDoc(overrides: Record<string, any> = {}) {
+  const data = {
+    _id: 'diagram-1',
+    title: 'Order process',
+    bpmnXml: '<definitions v3 />',
+    owner: 'owner',
+    collaborators: [
+      { userId: 'bob', role: 'editor' },
+      { userId: 'carol', role: 'commenter' },
+      { userId: 'dave', role: 'viewer' }
+    ],
+    isPublic: false,
+    version: 3,
+    lastSeq: 12,
+    snapshotSeq: 8,
+    ...overrides
+  };
+  return { ...data, id: data._id, toJSON: () => data };
+}
+
+describe('diagram routes', () => {
+  const app = createTestApp('/api/diagrams', diagramRouter);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedDiagram.findById.mockResolvedValue(createDiagramDoc());
+  });
+
+  // 조회는 성공하고 저장 결과로 version이 하나 증가한 문서를 돌려줌
+  const acceptUpdate = () => {
+    mockedDiagram.findOneAndUpdate.mockImplementation(async (_filter: any, update: any) =>
+      createDiagramDoc({ ...update, version: 4 })
+    );
+  };
+
+  describe('인증', () => {
+    it('토큰이 없으면 401을 반환해야 한다', async () => {
+      const res = await request(app).get('/api/diagrams/diagram-1');
+
+      expect(res.status).toBe(401);
+      expect(mockedDiagram.findById).not.toHaveBeenCalled();
+    });
+
+    it('잘못된 토큰이면 401을 반환해야 한다', async () => {
+      const res = await request(app).get('/api/diagrams/diagram-1').set('Authorization', 'Bearer invalid');
+
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('역할 기반 접근 제어', () => {
+    it('비공개 다이어그램은 협업자가 아니면 조회할 수 없어야 한다', async () => {
+      const res = await request(app).get('/api/diagrams/diagram-1').set('Authorization', authHeader('eve'));
+
+      expect(res.status).toBe(403);
+      expect(res.body.error).toBe('Access to this diagram is denied');
+    });
+
+    it('공개 다이어그램은 누구나 viewer로 조회할 수 있어야 한다', async () => {
+      mockedDiagram.findById.mockResolvedValue(createDiagramDoc({ isPublic: true }));
+
+      const res = await request(app).get('/api/diagrams/diagram-1').set('Authorization', authHeader('eve'));
+
+      expect(res.status).toBe(200);
+      expect(res.body.role).toBe('viewer');
+    });
+
+    it('없는 다이어그램은 404를 반환해야 한다', async () => {
+      mockedDiagram.findById.mockResolvedValue(null);
+
+      const res = await request(app).get('/api/diagrams/missing').set('Authorization', authHeader('owner'));
+
+      expect(res.status).toBe(404);
+    });
+
+    it.each([
+      ['viewer', 'dave'],
+      ['commenter', 'carol']
+    ])('%s는 내용을 수정할 수 없어야 한다', async (_role, userId) => {
+      const res = await request(app)
+        .put('/api/diagrams/diagram-1')
+        .set('Authorization', authHeader(userId))
+        .send({ bpmnXml: '<definitions />', expectedVersion: 3 });
+
+      expect(res.status).toBe(403);
+      expect(res.body.error).toBe('This action requires the editor role');
+      expect(mockedDiagram.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('editor는 공개 여부를 바꿀 수 없어야 한다', async () => {
+      const res = await request(app)
+        .put('/api/diagrams/diagram-1')
+        .set('Authorization', authHeader('bob'))
+        .send({ isPublic: true });
+
+      expect(res.status).toBe(403);
+      expect(mockedDiagram.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('owner는 공개 여부를 바꿀 수 있어야 한다', async () => {
+      acceptUpdate();
+
+      const res = await request(app)
+        .put('/api/diagrams/diagram-1')
+        .set('Authorization', authHeader('owner'))
+        .send({ isPublic: true });
+
+      expect(res.status).toBe(200);
+      expect(res.body.isPublic).toBe(true);
+    });
+
+    it('editor는 다이어그램을 삭제할 수 없어야 한다', async () => {
+      const res = await request(app).delete('/api/diagrams/diagram-1').set('Authorization', authHeader('bob'));
+
+      expect(res.status).toBe(403);
+      expect(mockedDiagram.findByIdAndDelete).not.toHaveBeenCalled();
+    });
+
+    it('owner는 다이어그램을 삭제할 수 있어야 한다', async () => {
+      mockedDiagram.findByIdAndDelete.mockResolvedValue(createDiagramDoc());
+
+      const res = await request(app).delete('/api/diagrams/diagram-1').set('Authorization', authHeader('owner'));
+
+      expect(res.status).toBe(200);
+      expect(diagramVersionService.deleteVersions).toHaveBeenCalledWith('diagram-1');
+    });
+
+    it('owner가 아니면 협업자를 추가할 수 없어야 한다', async () => {
+      const res = await request(app)
+        .post('/api/diagrams/diagram-1/collaborators')
+        .set('Authorization', authHeader('bob'))
+        .send({ userId: 'eve', role: 'editor' });
+
+      expect(res.status).toBe(403);
+    });
+
+    it('협업자 역할을 바꾸면 참여 중인 소켓의 역할도 갱신해야 한다', async () => {
+      const updated = createDiagramDoc({ collaborators: [{ userId: 'bob', role: 'viewer' }] });
+      mockedDiagram.findOneAndUpdate.mockResolvedValue(updated);
+
+      const res = await request(app)
+        .put('/api/diagrams/diagram-1/collaborators/bob')
+        .set('Authorization', authHeader('owner'))
+        .send({ role: 'viewer' });
+
+      expect(res.status).toBe(200);
+      expect(diagramRoleSync.syncRoles).toHaveBeenCalledWith(updated);
+    });
+
+    it('owner가 아니어도 자신은 협업자에서 빠질 수 있어야 한다', async () => {
+      mockedDiagram.findByIdAndUpdate.mockResolvedValue(createDiagramDoc());
+
+      const own = await request(app)
+        .delete('/api/diagrams/diagram-1/collaborators/dave')
+        .set('Authorization', authHeader('dave'));
+      const other = await request(app)
+        .delete('/api/diagrams/diagram-1/collaborators/bob')
+        .set('Authorization', authHeader('dave'));
+
+      expect(own.status).toBe(200);
+      expect(other.status).toBe(403);
+      expect(diagramRoleSync.syncRoles).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('버전 충돌', () => {
+    it('조회 시 현재 version을 ETag로 반환해야 한다', async () => {
+      const res = await request(app).get('/api/diagrams/diagram-1').set('Authorization', authHeader('dave'));
+
+      expect(res.status).toBe(200);
+      expect(res.headers.etag).toBe('"v3"');
+    });
+
+    it('If-None-Match가 현재 version과 같으면 304를 반환해야 한다', async () => {
+      const res = await request(app)
+        .get('/api/diagrams/diagram-1')
+        .set('Authorization', authHeader('dave'))
+        .set('If-None-Match', '"v3"');
+
+      expect(res.status).toBe(304);
+    });
+
+    it('기대 version 없이 내용을 저장하면 428을 반환해야 한다', async () => {
+      const res = await request(app)
+        .put('/api/diagrams/diagram-1')
+        .set('Authorization', authHeader('bob'))
+        .send({ bpmnXml: '<definitions />' });
+
+      expect(res.status).toBe(428);
+      expect(res.body.currentVersion).toBe(3);
+      expect(mockedDiagram.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('내용 없이 제목만 바꿀 때는 기대 version이 필요 없어야 한다', async () => {
+      acceptUpdate();
+
+      const res = await request(app)
+        .put('/api/diagrams/diagram-1')
+        .set('Authorization', authHeader('bob'))
+        .send({ title: 'Renamed' });
+
+      expect(res.status).toBe(200);
+      expect(mockedDiagram.findOneAndUpdate.mock.calls[0][0]).toEqual({ _id: 'diagram-1' });
+    });
+
+    it('기대 version이 맞으면 저장하고 새 version을 ETag로 반환해야 한다', async () => {
+      acceptUpdate();
+
+      const res = await request(app)
+        .put('/api/diagrams/diagram-1')
+        .set('Authorization', authHeader('bob'))
+        .send({ bpmnXml: '<definitions v4 />', expectedVersion: 3, snapshotSeq: 10 });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.etag).toBe('"v4"');
+
+      const [filter, update] = mockedDiagram.findOneAndUpdate.mock.calls[0];
+      expect(filter).toEqual({ _id: 'diagram-1', version: 3 });
+      expect(update).toMatchObject({ $inc: { version: 1 }, snapshotSeq: 10, crdtStamps: {} });
+      expect(diagramVersionService.recordVersion).toHaveBeenCalledTimes(1);
+      expect(diagramStateBroadcaster.broadcastState).not.toHaveBeenCalled();
+    });
+
+    it('자동 저장은 버전 히스토리에 기록하지 않아야 한다', async () => {
+      acceptUpdate();
+
+      const res = await request(app)
+        .put('/api/diagrams/diagram-1')
+        .set('Authorization', authHeader('bob'))
+        .send({ bpmnXml: '<definitions v4 />', expectedVersion: 3, autosave: true });
+
+      expect(res.status).toBe(200);
+      expect(mockedDiagram.findOneAndUpdate.mock.calls[0][1]).toMatchObject({ $inc: { version: 1 } });
+      expect(diagramVersionService.recordVersion).not.toHaveBeenCalled();
+    });
+
+    it('If-Match 헤더를 기대 version으로 사용해야 한다', async () => {
+      acceptUpdate();
+
+      const res = await request(app)
+        .put('/api/diagrams/diagram-1')
+        .set('Authorization', authHeader('bob'))
+        .set('If-Match', '"v3"')
+        .send({ bpmnXml: '<definitions v4 />' });
+
+      expect(res.status).toBe(200);
+      expect(mockedDiagram.findOneAndUpdate.mock.calls[0][0]).toEqual({ _id: 'diagram-1', version: 3 });
+    });
+
+    it('다른 사용자가 먼저 저장했으면 409와 현재 상태를 반환해야 한다', async () => {
+      mockedDiagram.findOneAndUpdate.mockResolvedValue(null);
+      mockedDiagram.findById
+        .mockResolvedValueOnce(createDiagramDoc())
+        .mockResolvedValueOnce(createDiagramDoc({ version: 5, bpmnXml: '<definitions v5 />' }));
+
+      const res = await request(app)
+        .put('/api/diagrams/diagram-1')
+        .set('Authorization', authHeader('bob'))
+        .send({ bpmnXml: '<definitions v4 />', expectedVersion: 3 });
+
+      expect(res.status).toBe(409);
+      expect(res.headers.etag).toBe('"v5"');
+      expect(res.body).toMatchObject({
+        expectedVersion: 3,
+        currentVersion: 5,
+        bpmnXml: '<definitions v5 />'
+      });
+      expect(diagramVersionService.recordVersion).not.toHaveBeenCalled();
+    });
+
+    it('클라이언트가 보낸 snapshotSeq는 lastSeq를 넘지 않아야 한다', async () => {
+      acceptUpdate();
+
+      await request(app)
+        .put('/api/diagrams/diagram-1')
+        .set('Authorization', authHeader('bob'))
+        .send({ bpmnXml: '<definitions v4 />', expectedVersion: 3, snapshotSeq: 99 });
+
+      expect(mockedDiagram.findOneAndUpdate.mock.calls[0][1].snapshotSeq).toBe(12);
+    });
+
+    it('내용 교체 저장은 모든 operation을 버리고 전체 상태를 전송해야 한다', async () => {
+      acceptUpdate();
+
+      const res = await request(app)
+        .put('/api/diagrams/diagram-1')
+        .set('Authorization', authHeader('bob'))
+        .send({ bpmnXml: '<imported />', expectedVersion: 3, snapshotSeq: 10, replace: true });
+
+      expect(res.status).toBe(200);
+      expect(mockedDiagram.findOneAndUpdate.mock.calls[0][1].snapshotSeq).toBe(12);
+      expect(diagramStateBroadcaster.broadcastState).toHaveBeenCalledWith('diagram-1');
+    });
+  });
+
+  describe('버전 복원', () => {
+    beforeEach(() => {
+      mockedDiagramVersion.findOne.mockResolvedValue({ diagramId: 'diagram-1', version: 2, bpmnXml: '<definitions v2 />' });
+    });
+
+    it('viewer는 복원할 수 없어야 한다', async () => {
+      const res = await request(app)
+        .post('/api/diagrams/diagram-1/versions/2/restore')
+        .set('Authorization', authHeader('dave'));
+
+      expect(res.status).toBe(403);
+    });
+
+    it('복원한 XML을 새 스냅샷으로 저장하고 전체 상태를 전송해야 한다', async () => {
+      acceptUpdate();
+
+      const res = await request(app)
+        .post('/api/diagrams/diagram-1/versions/2/restore')
+        .set('Authorization', authHeader('bob'))
+        .send({ expectedVersion: 3 });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.etag).toBe('"v4"');
+
+      const [filter, update] = mockedDiagram.findOneAndUpdate.mock.calls[0];
+      expect(filter).toEqual({ _id: 'diagram-1', version: 3 });
+      expect(update).toMatchObject({ bpmnXml: '<definitions v2 />', snapshotSeq: 12, crdtStamps: {} });
+      expect(diagramVersionService.recordVersion).toHaveBeenCalledWith(
+        expect.anything(),
+        'bob',
+        expect.objectContaining({ restoredFrom: 2 })
+      );
+      expect(diagramStateBroadcaster.broadcastState).toHaveBeenCalledWith('diagram-1');
+    });
+
+    it('기대 version이 맞지 않으면 409를 반환해야 한다', async () => {
+      mockedDiagram.findOneAndUpdate.mockResolvedValue(null);
+      mockedDiagram.findById
+        .mockResolvedValueOnce(createDiagramDoc())
+        .mockResolvedValueOnce(createDiagramDoc({ version: 5 }));
+
+      const res = await request(app)
+        .post('/api/diagrams/diagram-1/versions/2/restore')
+        .set('Authorization', authHeader('bob'))
+        .send({ expectedVersion: 3 });
+
+      expect(res.status).toBe(409);
+      expect(res.body.currentVersion).toBe(5);
+      expect(diagramStateBroadcaster.broadcastState).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,77 +1,184 @@
 import { Router } from 'express';
-import { Diagram } from '../models';
+import { Diagram, COLLABORATOR_ROLES, CollaboratorRole } from '../models';
+import { requireAuth } from '../middleware/auth';
+import { requireDiagramRole } from '../middleware/diagramAccess';
+import { accessibleDiagramsFilter, getDiagramRole } from '../utils/permissions';
+import { formatVersionETag, getExpectedVersion, parseVersionETag } from '../utils/etag';
+import { diagramVersionService } from '../services/diagramVersionService';
+import { diagramStateBroadcaster } from '../services/diagramStateBroadcaster';
+import { diagramRoleSync } from '../services/diagramRoleSync';
+import { operationLogService } from '../services/operationLogService';
+import { diagramVersionRouter } from './diagramVersions';
 import { logger } from '../utils/logger';
 
 const router = Router();
 
-// 다이어그램 목록 조회
+// 모든 다이어그램 API는 인증 필요
+router.use(requireAuth);
+
+// 버전 히스토리
+router.use('/:id/versions', diagramVersionRouter);
+
+// 목록 정렬 옵션 (relevance는 검색어가 있을 때만 사용 가능)
+const LIST_SORTS: Record<string, Record<string, 1 | -1>> = {
+  '-lastModified': { lastModified: -1 },
+  lastModified: { lastModified: 1 },
+  '-createdAt': { createdAt: -1 },
+  createdAt: { createdAt: 1 },
+  title: { title: 1 },
+  '-title': { title: -1 }
+};
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 100;
+
+function parsePositiveInt(value: unknown, defaultValue: number): number | null {
+  if (value === undefined || value === '') {
+    return defaultValue;
+  }
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+// 다이어그램 목록 조회 (q: 제목/설명 전문 검색, page/limit: 페이지네이션, sort: 정렬)
 router.get('/', async (req, res) => {
   try {
     const { owner, isPublic } = req.query;
-    const filter: any = {};
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+
+    const page = parsePositiveInt(req.query.page, 1);
+    const requestedLimit = parsePositiveInt(req.query.limit, DEFAULT_LIST_LIMIT);
+    if (page === null || requestedLimit === null) {
+      return res.status(400).json({ error: 'page and limit must be positive integers' });
+    }
+    const limit = Math.min(requestedLimit, MAX_LIST_LIMIT);
+
+    const sort = typeof req.query.sort === 'string' ? req.query.sort : (q ? 'relevance' : '-lastModified');
+    if (!(sort in LIST_SORTS) && !(sort === 'relevance' && q)) {
+      return res.status(400).json({
+        error: `Sort must be one of: ${Object.keys(LIST_SORTS).join(', ')}, relevance (with q)`
+      });
+    }
+
+    // 접근 가능한 다이어그램만 조회
+    const filter: any = accessibleDiagramsFilter(req.user!.id);
 
     if (owner) {
-      filter.owner = owner;
+      // owner=me는 인증된 사용자 (클라이언트가 자신의 ID를 몰라도 됨)
+      filter.owner = owner === 'me' ? req.user!.id : owner;
     }
     if (isPublic !== undefined) {
       filter.isPublic = isPublic === 'true';
     }
+    if (q) {
+      filter.$text = { $search: q };
+    }
+
+    // XML과 CRDT 스탬프는 목록에서 제외
+    const projection: any = { bpmnXml: 0, crdtStamps: 0 };
+    const sortSpec: any = { ...(LIST_SORTS[sort] || {}) };
+    if (sort === 'relevance') {
+      projection.score = { $meta: 'textScore' };
+      sortSpec.score = { $meta: 'textScore' };
+      sortSpec.lastModified = -1;
+    }
+    // 같은 값끼리 페이지 경계에서 순서가 바뀌지 않도록 _id로 정렬 고정
+    sortSpec._id = 1;
 
-    const diagrams = await Diagram.find(filter)
-      .select('-bpmnXml') // XML 데이터는 목록에서 제외
-      .sort({ lastModified: -1 });
+    const [diagrams, total] = await Promise.all([
+      Diagram.find(filter, projection)
+        .sort(sortSpec)
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Diagram.countDocuments(filter)
+    ]);
 
-    res.json(diagrams);
+    // 목록 화면에서 이름 변경/삭제 가능 여부를 표시할 수 있도록 역할 포함
+    res.json({
+      diagrams: diagrams.map(diagram => ({
+        ...diagram.toJSON(),
+        role: getDiagramRole(diagram, req.user!.id)
+      })),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    });
+    return;
   } catch (error) {
     logger.error('Error fetching diagrams:', error);
     res.status(500).json({ error: 'Failed to fetch diagrams' });
+    return;
   }
 });
 
 // 다이어그램 생성
 router.post('/', async (req, res) => {
   try {
-    const { title, description, bpmnXml, owner, isPublic } = req.body;
+    const { title, description, bpmnXml, isPublic } = req.body;
 
-    if (!title || !bpmnXml || !owner) {
-      return res.status(400).json({ error: 'Title, BPMN XML, and owner are required' });
+    if (!title || !bpmnXml) {
+      return res.status(400).json({ error: 'Title and BPMN XML are required' });
     }
 
+    // 소유자는 요청 본문이 아닌 인증된 사용자로 설정
     const diagram = new Diagram({
       title,
       description,
       bpmnXml,
-      owner,
+      owner: req.user!.id,
       isPublic: isPublic || false
     });
 
     await diagram.save();
+    await diagramVersionService.recordVersion(diagram, req.user!.id);
+
+    res.set('ETag', formatVersionETag(diagram.version));
     res.status(201).json(diagram);
+    return;
   } catch (error) {
     logger.error('Error creating diagram:', error);
     res.status(500).json({ error: 'Failed to create diagram' });
+    return;
   }
 });
 
-// 다이어그램 조회
-router.get('/:id', async (req, res) => {
+// 다이어그램 조회 (viewer 이상, If-None-Match 조건부 조회 지원)
+router.get('/:id', requireDiagramRole('viewer'), async (req, res) => {
   try {
-    const diagram = await Diagram.findById(req.params.id);
-    if (!diagram) {
-      return res.status(404).json({ error: 'Diagram not found' });
+    const diagram = req.diagram!;
+    res.set('ETag', formatVersionETag(diagram.version));
+
+    if (parseVersionETag(req.get('If-None-Match')) === diagram.version) {
+      return res.status(304).end();
     }
-    res.json(diagram);
+
+    res.json({ ...req.diagram!.toJSON(), role: req.diagramRole });
+    return;
   } catch (error) {
     logger.error('Error fetching diagram:', error);
     res.status(500).json({ error: 'Failed to fetch diagram' });
+    return;
   }
 });
 
-// 다이어그램 업데이트
-router.put('/:id', async (req, res) => {
+// 다이어그램 업데이트 (editor 이상, 공개 여부 변경은 owner만)
+router.put('/:id', requireDiagramRole('editor'), async (req, res) => {
   try {
-    const { title, description, bpmnXml, isPublic } = req.body;
-    
+    const { title, description, bpmnXml, isPublic, versionLabel, replace, autosave } = req.body;
+
+    if (isPublic !== undefined && req.diagramRole !== 'owner') {
+      return res.status(403).json({ error: 'Only the owner can change diagram visibility' });
+    }
+
+    // 낙관적 동시성 제어: 내용 변경 시 클라이언트가 기준으로 삼은 version 필요
+    const expectedVersion = getExpectedVersion(req.body, req.get('If-Match'));
+    if (bpmnXml && expectedVersion === null) {
+      return res.status(428).json({
+        error: 'Expected version is required (expectedVersion or If-Match header)',
+        currentVersion: req.diagram!.version
+      });
+    }
+
     const updateData: any = {
       lastModified: new Date()
     };
@@ -81,52 +188,114 @@ router.put('/:id', async (req, res) => {
     if (bpmnXml) {
       updateData.bpmnXml = bpmnXml;
       updateData.$inc = { version: 1 };
+      // 클라이언트가 XML에 반영한 마지막 operation 시퀀스 (없으면 현재 lastSeq로 간주)
+      // 가져오기처럼 내용을 통째로 바꾸는 저장(replace)은 그때까지의 operation을 모두 버림
+      const requestedSnapshotSeq = Number(req.body.snapshotSeq);
+      updateData.snapshotSeq = Number.isInteger(requestedSnapshotSeq) && replace !== true
+        ? Math.min(Math.max(requestedSnapshotSeq, 0), req.diagram!.lastSeq)
+        : req.diagram!.lastSeq;
+      // 새 스냅샷에는 이전 필드 스탬프가 반영되어 있으므로 초기화
+      updateData.crdtStamps = {};
     }
     if (isPublic !== undefined) updateData.isPublic = isPublic;
 
-    const diagram = await Diagram.findByIdAndUpdate(
-      req.params.id,
+    const filter: any = { _id: req.params.id };
+    if (expectedVersion !== null) {
+      filter.version = expectedVersion;
+    }
+
+    const diagram = await Diagram.findOneAndUpdate(
+      filter,
       updateData,
       { new: true, runValidators: true }
     );
 
     if (!diagram) {
-      return res.status(404).json({ error: 'Diagram not found' });
+      // version 불일치 (다른 사용자가 먼저 저장함) - 현재 상태를 함께 반환
+      const current = await Diagram.findById(req.params.id);
+      if (!current) {
+        return res.status(404).json({ error: 'Diagram not found' });
+      }
+
+      res.set('ETag', formatVersionETag(current.version));
+      return res.status(409).json({
+        error: 'Diagram has been modified by another user',
+        expectedVersion,
+        currentVersion: current.version,
+        bpmnXml: current.bpmnXml,
+        lastModified: current.lastModified
+      });
     }
 
+    // 내용이 바뀐 경우 버전 히스토리에 기록 (자동 저장은 히스토리를 채우지 않도록 제외)
+    if (bpmnXml && autosave !== true) {
+      await diagramVersionService.recordVersion(diagram, req.user!.id, { label: versionLabel });
+    }
+
+    // 비공개로 바뀌면 협업자가 아닌 참여자를 룸에서 내보냄
+    if (isPublic !== undefined) {
+      await diagramRoleSync.syncRoles(diagram);
+    }
+
+    // 내용을 통째로 바꾼 경우 열려 있는 편집기가 다시 불러오도록 전체 상태 전송
+    if (bpmnXml && replace === true) {
+      await diagramStateBroadcaster.broadcastState(diagram.id);
+    }
+
+    res.set('ETag', formatVersionETag(diagram.version));
     res.json(diagram);
+    return;
   } catch (error) {
     logger.error('Error updating diagram:', error);
     res.status(500).json({ error: 'Failed to update diagram' });
+    return;
   }
 });
 
-// 다이어그램 삭제
-router.delete('/:id', async (req, res) => {
+// 다이어그램 삭제 (owner만)
+router.delete('/:id', requireDiagramRole('owner'), async (req, res) => {
   try {
     const diagram = await Diagram.findByIdAndDelete(req.params.id);
     if (!diagram) {
       return res.status(404).json({ error: 'Diagram not found' });
     }
+    await diagramVersionService.deleteVersions(req.params.id);
+    await operationLogService.deleteOperations(req.params.id);
     res.json({ message: 'Diagram deleted successfully' });
+    return;
   } catch (error) {
     logger.error('Error deleting diagram:', error);
     res.status(500).json({ error: 'Failed to delete diagram' });
+    return;
   }
 });
 
-// 협업자 추가
-router.post('/:id/collaborators', async (req, res) => {
+// 협업자 추가 (owner만)
+router.post('/:id/collaborators', requireDiagramRole('owner'), async (req, res) => {
   try {
     const { userId } = req.body;
+    const role: CollaboratorRole = req.body.role || 'editor';
     
     if (!userId) {
       return res.status(400).json({ error: 'User ID is required' });
     }
 
-    const diagram = await Diagram.findByIdAndUpdate(
+    if (!COLLABORATOR_ROLES.includes(role)) {
+      return res.status(400).json({ error: `Role must be one of: ${COLLABORATOR_ROLES.join(', ')}` });
+    }
+
+    if (userId === req.diagram!.owner) {
+      return res.status(400).json({ error: 'The owner cannot be added as a collaborator' });
+    }
+
+    // 이미 협업자인 경우 역할만 갱신
+    const diagram = await Diagram.findOneAndUpdate(
+      { _id: req.params.id, 'collaborators.userId': userId },
+      { $set: { 'collaborators.$.role': role } },
+      { new: true }
+    ) || await Diagram.findByIdAndUpdate(
       req.params.id,
-      { $addToSet: { collaborators: userId } },
+      { $push: { collaborators: { userId, role, addedAt: new Date() } } },
       { new: true }
     );
 
@@ -134,19 +303,59 @@ router.post('/:id/collaborators', async (req, res) => {
       return res.status(404).json({ error: 'Diagram not found' });
     }
 
+    // 참여 중인 소켓의 역할도 갱신
+    await diagramRoleSync.syncRoles(diagram);
+
     res.json(diagram);
+    return;
   } catch (error) {
     logger.error('Error adding collaborator:', error);
     res.status(500).json({ error: 'Failed to add collaborator' });
+    return;
   }
 });
 
-// 협업자 제거
-router.delete('/:id/collaborators/:userId', async (req, res) => {
+// 협업자 역할 변경 (owner만)
+router.put('/:id/collaborators/:userId', requireDiagramRole('owner'), async (req, res) => {
   try {
+    const { role } = req.body;
+
+    if (!COLLABORATOR_ROLES.includes(role)) {
+      return res.status(400).json({ error: `Role must be one of: ${COLLABORATOR_ROLES.join(', ')}` });
+    }
+
+    const diagram = await Diagram.findOneAndUpdate(
+      { _id: req.params.id, 'collaborators.userId': req.params.userId },
+      { $set: { 'collaborators.$.role': role } },
+      { new: true }
+    );
+
+    if (!diagram) {
+      return res.status(404).json({ error: 'Collaborator not found' });
+    }
+
+    // 강등된 사용자가 열어 둔 편집기에서 계속 편집하지 못하도록 소켓 역할 갱신
+    await diagramRoleSync.syncRoles(diagram);
+
+    res.json(diagram);
+    return;
+  } catch (error) {
+    logger.error('Error updating collaborator role:', error);
+    res.status(500).json({ error: 'Failed to update collaborator role' });
+    return;
+  }
+});
+
+// 협업자 제거 (owner, 또는 본인 탈퇴)
+router.delete('/:id/collaborators/:userId', requireDiagramRole('viewer'), async (req, res) => {
+  try {
+    if (req.diagramRole !== 'owner' && req.params.userId !== req.user!.id) {
+      return res.status(403).json({ error: 'Only the owner can remove other collaborators' });
+    }
+
     const diagram = await Diagram.findByIdAndUpdate(
       req.params.id,
-      { $pull: { collaborators: req.params.userId } },
+      { $pull: { collaborators: { userId: req.params.userId } } },
       { new: true }
     );
 
@@ -154,10 +363,15 @@ router.delete('/:id/collaborators/:userId', async (req, res) => {
       return res.status(404).json({ error: 'Diagram not found' });
     }
 
+    // 제거된 사용자는 룸에서 내보냄 (공개 다이어그램이면 viewer로 남음)
+    await diagramRoleSync.syncRoles(diagram);
+
     res.json(diagram);
+    return;
   } catch (error) {
     logger.error('Error removing collaborator:', error);
     res.status(500).json({ error: 'Failed to remove collaborator' });
+    return;
   }
 });
 
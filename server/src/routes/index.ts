@@ -1,5 +1,6 @@
 import { Express } from 'express';
 import { healthRouter } from './health';
+import { authRouter } from './auth';
 import { userRouter } from './users';
 import { diagramRouter } from './diagrams';
 
@@ -8,6 +9,7 @@ export function setupRoutes(app: Express): void {
   app.use('/api/health', healthRouter);
   
   // API routes
+  app.use('/api/auth', authRouter);
   app.use('/api/users', userRouter);
   app.use('/api/diagrams', diagramRouter);
   
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { User } from '../models';
+import { requireAuth } from '../middleware/auth';
 import { logger } from '../utils/logger';
 
 const router = Router();
@@ -36,9 +37,11 @@ router.post('/', async (req, res) => {
     await user.save();
 
     res.status(201).json(user);
+    return;
   } catch (error) {
     logger.error('Error creating user:', error);
     res.status(500).json({ error: 'Failed to create user' });
+    return;
   }
 });
 
@@ -50,15 +53,21 @@ router.get('/:id', async (req, res) => {
       return res.status(404).json({ error: 'User not found' });
     }
     res.json(user);
+    return;
   } catch (error) {
     logger.error('Error fetching user:', error);
     res.status(500).json({ error: 'Failed to fetch user' });
+    return;
   }
 });
 
-// 사용자 업데이트
-router.put('/:id', async (req, res) => {
+// 사용자 업데이트 (본인만 가능)
+router.put('/:id', requireAuth, async (req, res) => {
   try {
+    if (req.user!.id !== req.params.id) {
+      return res.status(403).json({ error: 'You can only update your own profile' });
+    }
+
     const { username, email, avatar } = req.body;
     const user = await User.findByIdAndUpdate(
       req.params.id,
@@ -71,9 +80,11 @@ router.put('/:id', async (req, res) => {
     }
 
     res.json(user);
+    return;
   } catch (error) {
     logger.error('Error updating user:', error);
     res.status(500).json({ error: 'Failed to update user' });
+    return;
   }
 });
 
@@ -0,0 +1,485 @@
+/// <reference path="../types/bpmn-moddle.d.ts" />
+import BpmnModdle, { ModdleElement } from 'bpmn-moddle';
+import type { ChangeEvent, ElementStamps } from '../../../shared/socketEvents';
+import { mergeChangeStamps } from './elementStateMerge';
+import { logger } from '../utils/logger';
+
+// 클라이언트 CollaborationEventManager가 보내는 변경사항 형식 (공유 소켓 이벤트 계약)
+export type DiagramChange = ChangeEvent;
+
+interface ApplyContext {
+  moddle: BpmnModdle;
+  definitions: ModdleElement;
+  elementsById: Record<string, ModdleElement>;
+}
+
+// 모델에 직접 쓰면 안 되는 속성 (식별자 및 moddle 내부 속성)
+const PROTECTED_PROPERTIES = ['id', '$type', '$parent', '$attrs'];
+
+// JSON 값을 moddle 값으로 변환 (클라이언트 ModdleProperties 직렬화 형식)
+// - { $type } 객체는 moddle 요소로 생성 ($ns가 있으면 등록되지 않은 확장 요소)
+// - { $ref } 객체는 ID로 참조 대상을 찾고, 없으면 $root로 루트 요소를 생성
+// - 찾을 수 없는 참조는 undefined
+function toModdleValue(ctx: ApplyContext, value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(item => toModdleValue(ctx, item)).filter(item => item !== undefined);
+  }
+
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  if (typeof value.$ref === 'string') {
+    return resolveReference(ctx, value);
+  }
+
+  if (typeof value.$type === 'string') {
+    return createModdleElement(ctx, value);
+  }
+
+  return value;
+}
+
+function createModdleElement(ctx: ApplyContext, value: any): ModdleElement {
+  const element = value.$ns ? ctx.moddle.createAny(value.$type, value.$ns) : ctx.moddle.create(value.$type);
+
+  Object.keys(value).forEach(key => {
+    if (key === '$ns' || (PROTECTED_PROPERTIES.includes(key) && key !== 'id')) {
+      return;
+    }
+
+    const child = toModdleValue(ctx, value[key]);
+    if (child === undefined) {
+      return;
+    }
+    element.set(key, child);
+    (Array.isArray(child) ? child : [child]).forEach(item => {
+      if (item && typeof item === 'object' && item.$type && !item.$parent) {
+        item.$parent = element;
+      }
+    });
+  });
+
+  return element;
+}
+
+function resolveReference(ctx: ApplyContext, value: any): ModdleElement | undefined {
+  const existing = ctx.elementsById[value.$ref];
+  if (existing || !value.$root) {
+    return existing;
+  }
+
+  // Message, Signal 등 아직 없는 루트 요소는 definitions에 추가
+  const rootElement = createModdleElement(ctx, value.$root);
+  ctx.definitions.get('rootElements').push(rootElement);
+  rootElement.$parent = ctx.definitions;
+  ctx.elementsById[value.$ref] = rootElement;
+
+  return rootElement;
+}
+
+function getPlanes(ctx: ApplyContext): ModdleElement[] {
+  return (ctx.definitions.get('diagrams') || [])
+    .map((diagram: ModdleElement) => diagram.plane)
+    .filter(Boolean);
+}
+
+// 요소가 그려질 plane (rootId는 plane이 가리키는 프로세스/협업/서브프로세스 ID, 없으면 첫 번째 plane)
+// 펼쳐 볼 수 있는 서브프로세스에 아직 plane이 없으면 bpmn-js처럼 새 BPMNDiagram을 만듦
+function getPlane(ctx: ApplyContext, rootId?: string): ModdleElement | undefined {
+  const planes = getPlanes(ctx);
+  if (!rootId) {
+    return planes[0];
+  }
+
+  const plane = planes.find(candidate => candidate.bpmnElement?.id === rootId);
+  if (plane) {
+    return plane;
+  }
+
+  const subProcess = ctx.elementsById[rootId];
+  if (!subProcess?.$instanceOf('bpmn:SubProcess')) {
+    return planes[0];
+  }
+
+  const newPlane = ctx.moddle.create('bpmndi:BPMNPlane', { id: `${rootId}_plane`, bpmnElement: subProcess });
+  const diagram = ctx.moddle.create('bpmndi:BPMNDiagram', { id: `${rootId}_diagram`, plane: newPlane });
+  newPlane.$parent = diagram;
+  diagram.$parent = ctx.definitions;
+  ctx.definitions.get('diagrams').push(diagram);
+  return newPlane;
+}
+
+// bpmnElement가 elementId인 DI 요소(BPMNShape/BPMNEdge) 찾기
+function findDiagramElement(ctx: ApplyContext, elementId: string): ModdleElement | undefined {
+  for (const plane of getPlanes(ctx)) {
+    const di = (plane.get('planeElement') || []).find(
+      (candidate: ModdleElement) => candidate.bpmnElement?.id === elementId
+    );
+    if (di) {
+      return di;
+    }
+  }
+  return undefined;
+}
+
+// 새 요소를 넣을 기본 컨테이너 (plane이 가리키는 프로세스/서브프로세스, 없으면 첫 프로세스)
+function getDefaultContainer(ctx: ApplyContext, plane?: ModdleElement): ModdleElement | undefined {
+  const planeElement = plane?.bpmnElement;
+  if (planeElement?.$instanceOf('bpmn:Process') || planeElement?.$instanceOf('bpmn:SubProcess')) {
+    return planeElement;
+  }
+  if (planeElement?.$instanceOf('bpmn:Collaboration')) {
+    const participant = (planeElement.get('participants') || []).find((p: ModdleElement) => p.processRef);
+    if (participant) {
+      return participant.processRef;
+    }
+  }
+  return (ctx.definitions.get('rootElements') || []).find((el: ModdleElement) => el.$instanceOf('bpmn:Process'));
+}
+
+// 부모의 컬렉션 속성에서 요소 제거
+function detachFromParent(element: ModdleElement): void {
+  const parent = element.$parent;
+  if (!parent) {
+    return;
+  }
+
+  parent.$descriptor.properties
+    .filter(property => property.isMany && !property.isReference)
+    .forEach(property => {
+      const collection = parent.get(property.name);
+      const index = collection ? collection.indexOf(element) : -1;
+      if (index !== -1) {
+        collection.splice(index, 1);
+      }
+    });
+}
+
+// 부모 요소 ID를 실제 의미상 컨테이너로 바꿔 요소를 옮김 (bpmn-js BpmnUpdater와 같은 규칙)
+// Participant는 processRef, Lane은 상위 프로세스/서브프로세스가 컨테이너
+function setSemanticParent(ctx: ApplyContext, element: ModdleElement, parentId: string): boolean {
+  let container: ModdleElement | undefined = ctx.elementsById[parentId];
+  let collectionName = 'flowElements';
+
+  if (element.$instanceOf('bpmn:Artifact')) {
+    while (
+      container &&
+      !container.$instanceOf('bpmn:Process') &&
+      !container.$instanceOf('bpmn:SubProcess') &&
+      !container.$instanceOf('bpmn:Collaboration')
+    ) {
+      container = container.$instanceOf('bpmn:Participant') ? container.processRef : container.$parent;
+    }
+    collectionName = 'artifacts';
+  } else if (element.$instanceOf('bpmn:MessageFlow')) {
+    collectionName = 'messageFlows';
+  } else {
+    if (container?.$instanceOf('bpmn:Participant')) {
+      container = container.processRef;
+    }
+    while (container?.$instanceOf('bpmn:Lane')) {
+      container = container.$parent?.$parent;
+    }
+  }
+
+  if (!container || !container.$descriptor.properties.some(property => property.name === collectionName)) {
+    return false;
+  }
+  if (element.$parent !== container) {
+    detachFromParent(element);
+    container.get(collectionName).push(element);
+    element.$parent = container;
+  }
+  return true;
+}
+
+// 레인 소속 변경 (모든 레인의 flowNodeRef에서 빼고 지정한 레인에 추가)
+function setLanes(ctx: ApplyContext, element: ModdleElement, laneIds: string[]): void {
+  Object.values(ctx.elementsById)
+    .filter(candidate => candidate.$instanceOf('bpmn:Lane'))
+    .forEach(lane => removeFromCollection(lane.get('flowNodeRef'), element));
+
+  laneIds.forEach(laneId => {
+    const lane = ctx.elementsById[laneId];
+    if (lane?.$instanceOf('bpmn:Lane')) {
+      lane.get('flowNodeRef').push(element);
+    }
+  });
+}
+
+// 포함 관계 변경 (부모, 경계 이벤트 호스트, 레인 소속)
+function applyContainment(ctx: ApplyContext, element: ModdleElement, change: DiagramChange): void {
+  if (change.parentId) {
+    setSemanticParent(ctx, element, change.parentId);
+  }
+
+  const host = change.hostId ? ctx.elementsById[change.hostId] : undefined;
+  if (host && element.$instanceOf('bpmn:BoundaryEvent')) {
+    element.set('attachedToRef', host);
+  }
+
+  if (change.laneIds && element.$instanceOf('bpmn:FlowNode')) {
+    setLanes(ctx, element, change.laneIds);
+  }
+}
+
+function applyPropertyChange(ctx: ApplyContext, change: DiagramChange): void {
+  const element = ctx.elementsById[change.elementId];
+  if (!element || !change.properties) {
+    return;
+  }
+
+  Object.keys(change.properties).forEach(key => {
+    if (PROTECTED_PROPERTIES.includes(key)) {
+      return;
+    }
+
+    const value = change.properties![key];
+    // null은 속성 삭제
+    if (value === null) {
+      element.set(key, undefined);
+      return;
+    }
+    // $type/$ref 없이 직렬화된 객체는 원래 moddle 타입을 알 수 없으므로 건너뜀
+    if (typeof value === 'object' && !Array.isArray(value) && !value.$type && !value.$ref) {
+      return;
+    }
+
+    const moddleValue = toModdleValue(ctx, value);
+    if (moddleValue !== undefined) {
+      element.set(key, moddleValue);
+    }
+  });
+}
+
+// 컬렉션에서 요소 제거
+function removeFromCollection(collection: ModdleElement[] | undefined, element: ModdleElement): void {
+  const index = collection ? collection.indexOf(element) : -1;
+  if (index !== -1) {
+    collection!.splice(index, 1);
+  }
+}
+
+// 연결 요소의 한쪽 끝을 다른 요소로 변경 (sourceRef/targetRef와 outgoing/incoming 갱신)
+function reconnectEnd(
+  ctx: ApplyContext,
+  connection: ModdleElement,
+  end: 'source' | 'target',
+  elementId: string
+): void {
+  const newEnd = ctx.elementsById[elementId];
+  const refName = end === 'source' ? 'sourceRef' : 'targetRef';
+  const collectionName = end === 'source' ? 'outgoing' : 'incoming';
+  const oldEnd = connection.get(refName);
+
+  if (!newEnd || newEnd === oldEnd) {
+    return;
+  }
+
+  removeFromCollection(oldEnd?.get(collectionName), connection);
+  connection.set(refName, newEnd);
+  newEnd.get(collectionName)?.push(connection);
+}
+
+function setLabelBounds(ctx: ApplyContext, di: ModdleElement, label: NonNullable<DiagramChange['label']>): void {
+  if (!di.label) {
+    di.set('label', ctx.moddle.create('bpmndi:BPMNLabel'));
+    di.label.$parent = di;
+  }
+  if (!di.label.bounds) {
+    di.label.set('bounds', ctx.moddle.create('dc:Bounds'));
+    di.label.bounds.$parent = di.label;
+  }
+
+  (['x', 'y', 'width', 'height'] as const).forEach(key => {
+    if (typeof label[key] === 'number') {
+      di.label.bounds.set(key, label[key]);
+    }
+  });
+}
+
+function applyPositionChange(ctx: ApplyContext, change: DiagramChange): void {
+  const di = findDiagramElement(ctx, change.elementId);
+  const element = ctx.elementsById[change.elementId];
+
+  if (element) {
+    applyContainment(ctx, element, change);
+  }
+
+  // 재연결 (연결선의 source/target 변경)
+  if (element && change.sourceId) {
+    reconnectEnd(ctx, element, 'source', change.sourceId);
+  }
+  if (element && change.targetId) {
+    reconnectEnd(ctx, element, 'target', change.targetId);
+  }
+
+  if (di && change.waypoints && di.$instanceOf('bpmndi:BPMNEdge')) {
+    di.set(
+      'waypoint',
+      change.waypoints.map(point => ctx.moddle.create('dc:Point', { x: point.x, y: point.y }))
+    );
+  }
+
+  // 외부 라벨 위치 (BPMNShape/BPMNEdge의 BPMNLabel bounds)
+  if (di && change.label) {
+    setLabelBounds(ctx, di, change.label);
+  }
+
+  const bounds = di?.bounds;
+  if (!bounds) {
+    return;
+  }
+
+  (['x', 'y', 'width', 'height'] as const).forEach(key => {
+    if (typeof change[key] === 'number') {
+      bounds.set(key, change[key]);
+    }
+  });
+}
+
+function applyCreateChange(ctx: ApplyContext, change: DiagramChange): void {
+  const data = change.elementData || {};
+  const elementId = data.id || change.elementId;
+  const type = data.type || change.elementType;
+
+  if (!elementId || !type || ctx.elementsById[elementId]) {
+    return;
+  }
+
+  const plane = getPlane(ctx, change.rootId);
+  const container = getDefaultContainer(ctx, plane);
+  if (!container || !plane) {
+    return;
+  }
+
+  const properties: Record<string, any> = {};
+  Object.keys(data.properties || {}).forEach(key => {
+    const value = PROTECTED_PROPERTIES.includes(key) ? undefined : toModdleValue(ctx, data.properties[key]);
+    if (value !== undefined && value !== null) {
+      properties[key] = value;
+    }
+  });
+
+  const element = ctx.moddle.create(type, { ...properties, id: elementId });
+  // 부모가 없거나 찾을 수 없으면 기본 컨테이너에 추가
+  if (!change.parentId || !setSemanticParent(ctx, element, change.parentId)) {
+    const collectionName = element.$instanceOf('bpmn:Artifact') ? 'artifacts' : 'flowElements';
+    container.get(collectionName).push(element);
+    element.$parent = container;
+  }
+
+  const source = change.sourceId ? ctx.elementsById[change.sourceId] : undefined;
+  const target = change.targetId ? ctx.elementsById[change.targetId] : undefined;
+  let di: ModdleElement;
+
+  if (source && target) {
+    // 연결 요소: source/target 참조와 BPMNEdge 생성
+    element.set('sourceRef', source);
+    element.set('targetRef', target);
+    source.get('outgoing')?.push(element);
+    target.get('incoming')?.push(element);
+
+    const waypoints = (data.waypoints || []).map((point: { x: number; y: number }) =>
+      ctx.moddle.create('dc:Point', { x: point.x, y: point.y })
+    );
+    di = ctx.moddle.create('bpmndi:BPMNEdge', { id: `${elementId}_di`, bpmnElement: element, waypoint: waypoints });
+  } else {
+    const bounds = ctx.moddle.create('dc:Bounds', {
+      x: data.x || 0,
+      y: data.y || 0,
+      width: data.width || 100,
+      height: data.height || 80
+    });
+    di = ctx.moddle.create('bpmndi:BPMNShape', { id: `${elementId}_di`, bpmnElement: element, bounds });
+  }
+
+  plane.get('planeElement').push(di);
+  di.$parent = plane;
+  ctx.elementsById[elementId] = element;
+
+  applyContainment(ctx, element, { ...change, parentId: undefined });
+}
+
+function applyRemoveChange(ctx: ApplyContext, change: DiagramChange): void {
+  const element = ctx.elementsById[change.elementId];
+  if (!element) {
+    return;
+  }
+
+  detachFromParent(element);
+
+  // 연결 요소인 경우 source/target의 incoming/outgoing에서 제거
+  removeFromCollection(element.sourceRef?.get('outgoing'), element);
+  removeFromCollection(element.targetRef?.get('incoming'), element);
+
+  getPlanes(ctx).forEach(plane => {
+    const planeElements: ModdleElement[] = plane.get('planeElement');
+    for (let i = planeElements.length - 1; i >= 0; i--) {
+      if (planeElements[i].bpmnElement === element) {
+        planeElements.splice(i, 1);
+      }
+    }
+  });
+
+  // 펼쳐 볼 수 있는 서브프로세스의 plane(BPMNDiagram)도 제거
+  const diagrams: ModdleElement[] = ctx.definitions.get('diagrams');
+  for (let i = diagrams.length - 1; i >= 0; i--) {
+    if (diagrams[i].plane?.bpmnElement === element) {
+      diagrams.splice(i, 1);
+    }
+  }
+
+  delete ctx.elementsById[change.elementId];
+}
+
+function applyChange(ctx: ApplyContext, change: DiagramChange): void {
+  switch (change.type) {
+    case 'property':
+      applyPropertyChange(ctx, change);
+      break;
+    case 'position':
+      applyPositionChange(ctx, change);
+      break;
+    case 'create':
+    case 'connection':
+      applyCreateChange(ctx, change);
+      break;
+    case 'remove':
+      applyRemoveChange(ctx, change);
+      break;
+    default:
+      logger.warn(`Unknown change type in operation log: ${(change as any).type}`);
+  }
+}
+
+// 스냅샷 XML에 operation들을 순서대로 적용한 새 XML 반환
+// stamps(스냅샷에 반영된 필드별 CRDT 스탬프)보다 오래된 필드 쓰기는 건너뛰며, stamps는 갱신됨
+export async function applyOperationsToXml(
+  xml: string,
+  operations: Array<{ seq: number; changes: DiagramChange[] }>,
+  stamps: ElementStamps = {}
+): Promise<string> {
+  const moddle = new BpmnModdle();
+  const { rootElement, elementsById } = await moddle.fromXML(xml, 'bpmn:Definitions');
+  const ctx: ApplyContext = { moddle, definitions: rootElement, elementsById };
+
+  operations.forEach(operation => {
+    (operation.changes || []).forEach(change => {
+      try {
+        // 클라이언트와 같은 LWW 규칙으로 병합해야 스냅샷이 클라이언트 상태와 수렴함
+        const merged = mergeChangeStamps(change, stamps);
+        if (merged) {
+          applyChange(ctx, merged);
+        }
+      } catch (error) {
+        // 하나의 변경 실패가 전체 스냅샷 생성을 막지 않도록 건너뜀
+        logger.warn(`Skipping change for ${change.elementId} in operation ${operation.seq}:`, error);
+      }
+    });
+  });
+
+  const { xml: result } = await moddle.toXML(rootElement, { format: true });
+  return result;
+}
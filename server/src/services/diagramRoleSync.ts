@@ -0,0 +1,71 @@
+import { IDiagram } from '../models';
+import { getDiagramRole, hasRole } from '../utils/permissions';
+import { handleCollaboration } from '../socket/collaborationHandler';
+import { elementLockService } from './elementLockService';
+import { logger } from '../utils/logger';
+import { CollaborationServer } from '../socket/types';
+
+let io: CollaborationServer | null = null;
+
+type DiagramAccess = Pick<IDiagram, 'id' | 'owner' | 'collaborators' | 'isPublic'>;
+
+export const diagramRoleSync = {
+  // 협업자/공개 여부 변경 후 룸에 참여 중인 소켓의 역할을 다시 계산
+  // 소켓 이벤트는 join 시 기록한 역할로 권한을 확인하므로, 강등되거나 제외된 사용자가 재연결 전까지 편집하지 못하도록 갱신
+  async syncRoles(diagram: DiagramAccess): Promise<void> {
+    if (!io) {
+      return;
+    }
+
+    try {
+      const diagramId = diagram.id;
+      const room = `diagram:${diagramId}`;
+      const sockets = await io.in(room).fetchSockets();
+
+      for (const socket of sockets) {
+        const { userId } = socket.data;
+        const previousRole = socket.data.diagramRoles?.[diagramId];
+        if (!userId || !previousRole) {
+          continue;
+        }
+
+        const role = getDiagramRole(diagram, userId);
+        if (role === previousRole) {
+          continue;
+        }
+
+        // 편집 권한을 잃으면 보유한 잠금 해제
+        if (!hasRole(role, 'editor')) {
+          const released = await elementLockService.releaseSocketLocks(socket.id, diagramId);
+          released.forEach(({ elementId, userId: lockUserId }) => {
+            io?.to(room).emit('element_unlocked', { diagramId, elementId, userId: lockUserId });
+          });
+        }
+
+        if (role) {
+          socket.data.diagramRoles = { ...socket.data.diagramRoles, [diagramId]: role };
+          continue;
+        }
+
+        // 접근 권한을 잃은 사용자는 룸에서 내보냄
+        delete socket.data.diagramRoles![diagramId];
+        socket.leave(room);
+        await handleCollaboration.removeParticipant(diagramId, userId);
+        socket.emit('error', { message: 'Access to this diagram is denied', diagramId });
+        io.to(room).emit('user_left', {
+          userId,
+          username: socket.data.username,
+          timestamp: new Date().toISOString()
+        });
+      }
+    } catch (error) {
+      // 요청은 이미 성공했으므로 실패해도 전파하지 않음
+      logger.error('Error syncing diagram roles:', error);
+    }
+  }
+};
+
+// 참여 중인 소켓을 조회할 Socket.IO 서버 등록
+export function setupDiagramRoleSync(server: CollaborationServer): void {
+  io = server;
+}
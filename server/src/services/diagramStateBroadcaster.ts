@@ -0,0 +1,29 @@
+import { handleCollaboration } from '../socket/collaborationHandler';
+import { logger } from '../utils/logger';
+import { CollaborationServer } from '../socket/types';
+
+let io: CollaborationServer | null = null;
+
+export const diagramStateBroadcaster = {
+  // 내용이 통째로 바뀐 다이어그램(버전 복원 등)의 전체 상태를 룸에 전송 - 열려 있는 편집기가 다시 불러옴
+  async broadcastState(diagramId: string): Promise<void> {
+    if (!io) {
+      return;
+    }
+
+    try {
+      const state = await handleCollaboration.getDiagramState(diagramId);
+      if (state) {
+        io.to(`diagram:${diagramId}`).emit('diagram_state', state);
+      }
+    } catch (error) {
+      // 요청은 이미 성공했으므로 실패해도 전파하지 않음 (다음 join 때 동기화됨)
+      logger.error('Error broadcasting diagram state:', error);
+    }
+  }
+};
+
+// 전체 상태를 브로드캐스트할 Socket.IO 서버 등록
+export function setupDiagramStateBroadcaster(server: CollaborationServer): void {
+  io = server;
+}
@@ -0,0 +1,38 @@
+import { DiagramVersion, IDiagram } from '../models';
+import { logger } from '../utils/logger';
+
+export const diagramVersionService = {
+  // 다이어그램의 현재 상태(bpmnXml, version)를 버전 히스토리에 기록
+  async recordVersion(
+    diagram: Pick<IDiagram, '_id' | 'bpmnXml' | 'version'>,
+    author: string,
+    options: { label?: string; restoredFrom?: number } = {}
+  ) {
+    try {
+      const version = await DiagramVersion.create({
+        diagramId: diagram._id.toString(),
+        version: diagram.version,
+        bpmnXml: diagram.bpmnXml,
+        author,
+        label: options.label,
+        restoredFrom: options.restoredFrom
+      });
+
+      logger.debug(`Recorded version ${diagram.version} of diagram ${diagram._id}`);
+      return version;
+    } catch (error) {
+      logger.error('Error recording diagram version:', error);
+      throw error;
+    }
+  },
+
+  // 다이어그램 삭제 시 모든 버전 제거
+  async deleteVersions(diagramId: string) {
+    try {
+      await DiagramVersion.deleteMany({ diagramId });
+    } catch (error) {
+      logger.error('Error deleting diagram versions:', error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,118 @@
+import { elementLockService } from './elementLockService';
+import { getRedisClient } from '../config/redis';
+
+jest.mock('../utils/logger');
+jest.mock('../config/redis', () => ({ getRedisClient: jest.fn() }));
+
+// 잠금 스크립트의 동작(소켓 ID 비교 후 설정/삭제)을 흉내 내는 메모리 Redis
+function createLockRedis() {
+  const store = new Map<string, string>();
+  const sets = new Map<string, Set<string>>();
+  const set = (key: string) => sets.get(key) || sets.set(key, new Set()).get(key)!;
+
+  return {
+    store,
+    sets,
+    eval: jest.fn(async (script: string, { keys, arguments: args }: { keys: string[]; arguments: string[] }) => {
+      const current = store.get(keys[0]) ?? null;
+      const heldByOther = current !== null && JSON.parse(current).socketId !== args[0];
+
+      if (script.includes("'DEL'")) {
+        if (current === null || heldByOther) {
+          return null;
+        }
+        store.delete(keys[0]);
+        return current;
+      }
+
+      if (heldByOther) {
+        return current;
+      }
+      store.set(keys[0], args[1]);
+      return null;
+    }),
+    sAdd: jest.fn(async (key: string, member: string) => set(key).add(member).size),
+    sRem: jest.fn(async (key: string, member: string) => (set(key).delete(member) ? 1 : 0)),
+    sMembers: jest.fn(async (key: string) => Array.from(set(key))),
+    expire: jest.fn(async () => true),
+    mGet: jest.fn(async (keys: string[]) => keys.map(key => store.get(key) ?? null))
+  };
+}
+
+const alice = { userId: 'user-1', username: 'alice', socketId: 'socket-1' };
+const bob = { userId: 'user-2', username: 'bob', socketId: 'socket-2' };
+
+describe('elementLockService', () => {
+  let redis: ReturnType<typeof createLockRedis>;
+
+  beforeEach(() => {
+    redis = createLockRedis();
+    (getRedisClient as jest.Mock).mockReturnValue(redis);
+  });
+
+  it('잠금 획득은 확인과 설정을 하나의 스크립트로 실행해야 한다', async () => {
+    const result = await elementLockService.acquireLock('diagram-1', 'Task_1', alice);
+
+    expect(result).toMatchObject({ acquired: true, lock: { elementId: 'Task_1', userId: 'user-1' } });
+    expect(redis.eval).toHaveBeenCalledWith(expect.stringContaining("'PX'"), {
+      keys: ['lock:diagram-1:Task_1'],
+      arguments: ['socket-1', expect.any(String), '30000']
+    });
+    expect(redis.sets.get('socket:socket-1:locks')).toEqual(new Set(['diagram-1:Task_1']));
+  });
+
+  it('다른 소켓이 보유한 잠금은 현재 보유자를 반환해야 한다', async () => {
+    await elementLockService.acquireLock('diagram-1', 'Task_1', alice);
+
+    const result = await elementLockService.acquireLock('diagram-1', 'Task_1', bob);
+
+    expect(result).toMatchObject({ acquired: false, lock: { userId: 'user-1', username: 'alice' } });
+    expect(redis.sets.get('socket:socket-2:locks')).toBeUndefined();
+  });
+
+  it('같은 소켓은 잠금을 갱신할 수 있어야 한다', async () => {
+    await elementLockService.acquireLock('diagram-1', 'Task_1', alice);
+
+    const result = await elementLockService.acquireLock('diagram-1', 'Task_1', alice);
+
+    expect(result.acquired).toBe(true);
+  });
+
+  it('다른 소켓의 잠금은 해제하지 않아야 한다', async () => {
+    await elementLockService.acquireLock('diagram-1', 'Task_1', alice);
+
+    await expect(elementLockService.releaseLock('diagram-1', 'Task_1', 'socket-2')).resolves.toBeNull();
+    expect(redis.store.has('lock:diagram-1:Task_1')).toBe(true);
+  });
+
+  it('보유한 잠금을 해제하면 해제된 잠금 정보를 반환해야 한다', async () => {
+    await elementLockService.acquireLock('diagram-1', 'Task_1', alice);
+
+    await expect(elementLockService.releaseLock('diagram-1', 'Task_1', 'socket-1')).resolves.toEqual({
+      diagramId: 'diagram-1',
+      elementId: 'Task_1',
+      userId: 'user-1'
+    });
+    expect(redis.store.has('lock:diagram-1:Task_1')).toBe(false);
+    expect(redis.sets.get('socket:socket-1:locks')?.size).toBe(0);
+  });
+
+  it('소켓의 잠금을 다이어그램별로 해제할 수 있어야 한다', async () => {
+    await elementLockService.acquireLock('diagram-1', 'Task_1', alice);
+    await elementLockService.acquireLock('diagram-2', 'Task_2', alice);
+
+    const released = await elementLockService.releaseSocketLocks('socket-1', 'diagram-1');
+
+    expect(released).toEqual([{ diagramId: 'diagram-1', elementId: 'Task_1', userId: 'user-1' }]);
+    expect(redis.store.has('lock:diagram-2:Task_2')).toBe(true);
+  });
+
+  it('다른 사용자가 잠근 요소만 반환해야 한다', async () => {
+    await elementLockService.acquireLock('diagram-1', 'Task_1', alice);
+    await elementLockService.acquireLock('diagram-1', 'Task_2', bob);
+
+    const locks = await elementLockService.getLocksHeldByOthers('diagram-1', 'user-1', ['Task_1', 'Task_2', 'Task_2']);
+
+    expect(locks.map(lock => lock.elementId)).toEqual(['Task_2']);
+  });
+});
@@ -0,0 +1,244 @@
+import type { ElementLock } from '../../../shared/socketEvents';
+import { getRedisClient } from '../config/redis';
+import { logger } from '../utils/logger';
+
+const DEFAULT_LOCK_TTL_MS = 30000; // 30초 (보유자가 주기적으로 갱신)
+const SOCKET_LOCKS_TTL_SECONDS = 3600;
+
+// Redis에 저장되는 잠금 정보 (같은 사용자의 다른 탭과 구분하기 위해 소켓 ID 포함)
+interface StoredLock {
+  userId: string;
+  username?: string;
+  socketId: string;
+  expiresAt: string;
+}
+
+export interface LockHolder {
+  userId: string;
+  username?: string;
+  socketId: string;
+}
+
+export interface LockResult {
+  acquired: boolean;
+  lock: ElementLock;
+}
+
+export interface ReleasedLock {
+  diagramId: string;
+  elementId: string;
+  userId: string;
+}
+
+// 잠금 획득/갱신 - 비어 있거나 같은 소켓의 잠금이면 새 값과 TTL로 설정하고 nil,
+// 다른 소켓이 보유 중이면 현재 값을 반환 (조회와 설정 사이에 보유자가 바뀌지 않도록 하나의 스크립트로 실행)
+// KEYS[1]: 잠금 키, ARGV[1]: 소켓 ID, ARGV[2]: 잠금 값, ARGV[3]: TTL(ms)
+const ACQUIRE_LOCK_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if current then
+  local ok, lock = pcall(cjson.decode, current)
+  if ok and type(lock) == 'table' and lock.socketId ~= ARGV[1] then
+    return current
+  end
+end
+redis.call('SET', KEYS[1], ARGV[2], 'PX', ARGV[3])
+return false
+`;
+
+// 잠금 해제 - 같은 소켓의 잠금일 때만 삭제하고 삭제한 값을 반환 (아니면 nil)
+// TTL 만료 후 다른 사용자가 획득한 잠금을 지우지 않도록 비교와 삭제를 하나의 스크립트로 실행
+// KEYS[1]: 잠금 키, ARGV[1]: 소켓 ID
+const RELEASE_LOCK_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if not current then
+  return false
+end
+local ok, lock = pcall(cjson.decode, current)
+if not ok or type(lock) ~= 'table' or lock.socketId ~= ARGV[1] then
+  return false
+end
+redis.call('DEL', KEYS[1])
+return current
+`;
+
+function getLockTtlMs(): number {
+  return parseInt(process.env.ELEMENT_LOCK_TTL_MS || String(DEFAULT_LOCK_TTL_MS));
+}
+
+function lockKey(diagramId: string, elementId: string): string {
+  return `lock:${diagramId}:${elementId}`;
+}
+
+// 연결 해제 시 정리할 수 있도록 소켓별로 보유한 잠금을 기록
+function socketLocksKey(socketId: string): string {
+  return `socket:${socketId}:locks`;
+}
+
+function parseLock(value: string | null): StoredLock | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    return JSON.parse(value) as StoredLock;
+  } catch (error) {
+    logger.warn('Ignoring malformed element lock value:', error);
+    return null;
+  }
+}
+
+function toElementLock(elementId: string, stored: StoredLock): ElementLock {
+  return {
+    elementId,
+    userId: stored.userId,
+    username: stored.username,
+    expiresAt: stored.expiresAt
+  };
+}
+
+export const elementLockService = {
+  // 잠금 획득 또는 갱신 - 다른 소켓이 보유 중이면 현재 보유자 정보를 반환
+  async acquireLock(diagramId: string, elementId: string, holder: LockHolder): Promise<LockResult> {
+    try {
+      const redisClient = getRedisClient();
+      const key = lockKey(diagramId, elementId);
+      const ttl = getLockTtlMs();
+      const stored: StoredLock = {
+        userId: holder.userId,
+        username: holder.username,
+        socketId: holder.socketId,
+        expiresAt: new Date(Date.now() + ttl).toISOString()
+      };
+      const value = JSON.stringify(stored);
+
+      // 새로 획득하거나 본인 잠금의 TTL 갱신 (다른 소켓이 보유 중이면 보유자 반환)
+      const current = parseLock(
+        (await redisClient.eval(ACQUIRE_LOCK_SCRIPT, {
+          keys: [key],
+          arguments: [holder.socketId, value, String(ttl)]
+        })) as string | null
+      );
+      if (current) {
+        return { acquired: false, lock: toElementLock(elementId, current) };
+      }
+
+      await redisClient.sAdd(socketLocksKey(holder.socketId), `${diagramId}:${elementId}`);
+      await redisClient.expire(socketLocksKey(holder.socketId), SOCKET_LOCKS_TTL_SECONDS);
+
+      return { acquired: true, lock: toElementLock(elementId, stored) };
+    } catch (error) {
+      logger.error('Error acquiring element lock:', error);
+      throw error;
+    }
+  },
+
+  // 잠금 해제 (해당 소켓이 보유한 경우에만)
+  async releaseLock(diagramId: string, elementId: string, socketId: string): Promise<ReleasedLock | null> {
+    try {
+      const redisClient = getRedisClient();
+      const key = lockKey(diagramId, elementId);
+      const released = parseLock(
+        (await redisClient.eval(RELEASE_LOCK_SCRIPT, {
+          keys: [key],
+          arguments: [socketId]
+        })) as string | null
+      );
+
+      await redisClient.sRem(socketLocksKey(socketId), `${diagramId}:${elementId}`);
+
+      if (!released) {
+        return null;
+      }
+
+      return { diagramId, elementId, userId: released.userId };
+    } catch (error) {
+      logger.error('Error releasing element lock:', error);
+      throw error;
+    }
+  },
+
+  // 소켓이 보유한 모든 잠금 해제 (다이어그램을 지정하면 해당 다이어그램만)
+  async releaseSocketLocks(socketId: string, diagramId?: string): Promise<ReleasedLock[]> {
+    try {
+      const redisClient = getRedisClient();
+      const members = await redisClient.sMembers(socketLocksKey(socketId));
+      const released: ReleasedLock[] = [];
+
+      for (const member of members) {
+        const separator = member.indexOf(':');
+        const lockDiagramId = member.slice(0, separator);
+        const elementId = member.slice(separator + 1);
+
+        if (diagramId && lockDiagramId !== diagramId) {
+          continue;
+        }
+
+        const result = await this.releaseLock(lockDiagramId, elementId, socketId);
+        if (result) {
+          released.push(result);
+        }
+      }
+
+      return released;
+    } catch (error) {
+      logger.error('Error releasing socket locks:', error);
+      throw error;
+    }
+  },
+
+  // 다이어그램의 현재 잠금 목록
+  async getLocks(diagramId: string): Promise<ElementLock[]> {
+    try {
+      const redisClient = getRedisClient();
+      const prefix = lockKey(diagramId, '');
+      const keys: string[] = [];
+
+      for await (const key of redisClient.scanIterator({ MATCH: `${prefix}*` })) {
+        keys.push(key);
+      }
+
+      if (keys.length === 0) {
+        return [];
+      }
+
+      const values = await redisClient.mGet(keys);
+      const locks: ElementLock[] = [];
+      values.forEach((value, index) => {
+        const stored = parseLock(value);
+        if (stored) {
+          locks.push(toElementLock(keys[index].slice(prefix.length), stored));
+        }
+      });
+
+      return locks;
+    } catch (error) {
+      logger.error('Error getting element locks:', error);
+      throw error;
+    }
+  },
+
+  // 다른 사용자가 잠근 요소 조회 (diagram_change 거부 판단용)
+  async getLocksHeldByOthers(diagramId: string, userId: string, elementIds: string[]): Promise<ElementLock[]> {
+    try {
+      const uniqueIds = Array.from(new Set(elementIds));
+      if (uniqueIds.length === 0) {
+        return [];
+      }
+
+      const redisClient = getRedisClient();
+      const values = await redisClient.mGet(uniqueIds.map(elementId => lockKey(diagramId, elementId)));
+      const locks: ElementLock[] = [];
+
+      values.forEach((value, index) => {
+        const stored = parseLock(value);
+        if (stored && stored.userId !== userId) {
+          locks.push(toElementLock(uniqueIds[index], stored));
+        }
+      });
+
+      return locks;
+    } catch (error) {
+      logger.error('Error checking element locks:', error);
+      throw error;
+    }
+  }
+};
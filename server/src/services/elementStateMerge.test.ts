@@ -0,0 +1,100 @@
+import { compareStamps, mergeChangeStamps } from './elementStateMerge';
+import type { ElementStamps } from '../../../shared/socketEvents';
+import { DiagramChange } from './bpmnOperationApplier';
+
+const stamp = (clock: number, clientId = 'client-a') => ({ clock, clientId });
+
+describe('elementStateMerge', () => {
+  describe('compareStamps', () => {
+    it('Lamport 시계가 크면 더 최신이고 같으면 클라이언트 ID로 정해야 한다', () => {
+      expect(compareStamps(stamp(2), stamp(1, 'client-z'))).toBeGreaterThan(0);
+      expect(compareStamps(stamp(1, 'client-a'), stamp(1, 'client-b'))).toBeLessThan(0);
+      expect(compareStamps(stamp(1), stamp(1))).toBe(0);
+    });
+  });
+
+  describe('mergeChangeStamps', () => {
+    it('더 오래된 스탬프의 속성 변경은 버려야 한다', () => {
+      const stamps: ElementStamps = { Task_1: { 'prop:name': stamp(5) } };
+      const change: DiagramChange = {
+        type: 'property',
+        elementId: 'Task_1',
+        properties: { name: 'Stale' },
+        timestamp: 1,
+        stamps: { 'prop:name': stamp(3, 'client-b') }
+      };
+
+      expect(mergeChangeStamps(change, stamps)).toBeNull();
+      expect(stamps.Task_1['prop:name']).toEqual(stamp(5));
+    });
+
+    it('일부 필드만 이긴 경우 이긴 필드만 남기고 스탬프를 갱신해야 한다', () => {
+      const stamps: ElementStamps = { Task_1: { 'prop:name': stamp(5) } };
+      const change: DiagramChange = {
+        type: 'property',
+        elementId: 'Task_1',
+        properties: { name: 'Older', assignee: 'kim' },
+        timestamp: 1,
+        stamps: { 'prop:name': stamp(3, 'client-b'), 'prop:assignee': stamp(3, 'client-b') }
+      };
+
+      expect(mergeChangeStamps(change, stamps)?.properties).toEqual({ assignee: 'kim' });
+      expect(stamps.Task_1).toEqual({ 'prop:name': stamp(5), 'prop:assignee': stamp(3, 'client-b') });
+    });
+
+    it('삭제 이후 더 오래된 생성은 적용하지 않아야 한다', () => {
+      const stamps: ElementStamps = {};
+      mergeChangeStamps({ type: 'remove', elementId: 'Task_1', timestamp: 1, stamps: { alive: stamp(4) } }, stamps);
+
+      const result = mergeChangeStamps(
+        {
+          type: 'create',
+          elementId: 'Task_1',
+          elementData: { type: 'bpmn:Task' },
+          timestamp: 1,
+          stamps: { alive: stamp(2, 'client-b'), type: stamp(2, 'client-b') }
+        },
+        stamps
+      );
+
+      expect(result).toBeNull();
+    });
+
+    it('이동 변경사항에서 진 필드만 제거해야 한다', () => {
+      const stamps: ElementStamps = { Task_1: { parent: stamp(9) } };
+      const change: DiagramChange = {
+        type: 'position',
+        elementId: 'Task_1',
+        x: 100,
+        y: 200,
+        parentId: 'Sub_1',
+        timestamp: 1,
+        stamps: { position: stamp(3, 'client-b'), parent: stamp(3, 'client-b') }
+      };
+
+      const result = mergeChangeStamps(change, stamps);
+
+      expect(result).toMatchObject({ x: 100, y: 200 });
+      expect(result).not.toHaveProperty('parentId');
+    });
+
+    it('스탬프 없는 변경사항은 스탬프된 쓰기에 져야 한다', () => {
+      const stamps: ElementStamps = { Task_1: { 'prop:name': stamp(1) } };
+
+      const result = mergeChangeStamps(
+        { type: 'property', elementId: 'Task_1', properties: { name: 'Legacy' }, timestamp: 1 },
+        stamps
+      );
+
+      expect(result).toBeNull();
+    });
+
+    it('스탬프 기록이 없는 요소의 변경사항은 그대로 적용해야 한다', () => {
+      const stamps: ElementStamps = {};
+      const change: DiagramChange = { type: 'property', elementId: 'Task_1', properties: { name: 'New' }, timestamp: 1 };
+
+      expect(mergeChangeStamps(change, stamps)).toEqual(change);
+      expect(stamps.Task_1['prop:name']).toEqual({ clock: 0, clientId: '' });
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import type { CRDTStamp, ElementStamps } from '../../../shared/socketEvents';
+import { DiagramChange } from './bpmnOperationApplier';
+
+// 스탬프가 없는 변경사항에 사용하는 스탬프 (어떤 스탬프된 쓰기보다도 앞섬)
+const ZERO_STAMP: CRDTStamp = { clock: 0, clientId: '' };
+
+const PROPERTY_FIELD_PREFIX = 'prop:';
+
+// 두 스탬프 비교 (Lamport 시계 우선, 같으면 클라이언트 ID) - 클라이언트 ElementStateCRDT와 동일한 규칙
+export function compareStamps(a: CRDTStamp, b: CRDTStamp): number {
+  if (a.clock !== b.clock) {
+    return a.clock - b.clock;
+  }
+  if (a.clientId === b.clientId) {
+    return 0;
+  }
+  return a.clientId < b.clientId ? -1 : 1;
+}
+
+// 변경사항이 쓰는 CRDT 필드 목록
+function getChangeFields(change: DiagramChange): string[] {
+  const fields: string[] = [];
+  const data = change.elementData || {};
+
+  const addGeometry = (source: any) => {
+    if (source.x !== undefined || source.y !== undefined) fields.push('position');
+    if (source.width !== undefined || source.height !== undefined) fields.push('size');
+    if (source.waypoints !== undefined) fields.push('waypoints');
+    if (source.label !== undefined) fields.push('label');
+  };
+
+  // 연결선의 양 끝 (생성 시 또는 재연결 시)
+  const addEnds = () => {
+    if (change.sourceId !== undefined) fields.push('source');
+    if (change.targetId !== undefined) fields.push('target');
+  };
+
+  switch (change.type) {
+    case 'create':
+    case 'connection':
+      fields.push('alive', 'type');
+      addGeometry(data);
+      Object.keys(data.properties || {}).forEach(key => fields.push(PROPERTY_FIELD_PREFIX + key));
+      addEnds();
+      break;
+    case 'remove':
+      fields.push('alive');
+      break;
+    case 'property':
+      Object.keys(change.properties || {}).forEach(key => fields.push(PROPERTY_FIELD_PREFIX + key));
+      break;
+    case 'position':
+      addGeometry(change);
+      addEnds();
+      break;
+  }
+
+  // 포함 관계 (부모, 경계 이벤트 호스트, 레인 소속)
+  if (change.parentId !== undefined) fields.push('parent');
+  if (change.rootId !== undefined) fields.push('root');
+  if (change.hostId !== undefined) fields.push('host');
+  if (change.laneIds !== undefined) fields.push('lanes');
+
+  return fields;
+}
+
+// 스탬프를 비교하여 이긴 필드만 남긴 변경사항 반환 (적용할 내용이 없으면 null)
+// elementStamps는 이긴 필드의 스탬프로 갱신됨
+export function mergeChangeStamps(change: DiagramChange, elementStamps: ElementStamps): DiagramChange | null {
+  const fields = getChangeFields(change);
+  if (fields.length === 0) {
+    return change;
+  }
+
+  const current = elementStamps[change.elementId] || (elementStamps[change.elementId] = {});
+  const winners = new Set<string>();
+
+  fields.forEach(field => {
+    const stamp = change.stamps?.[field] || ZERO_STAMP;
+    if (current[field] && compareStamps(stamp, current[field]) < 0) {
+      return;
+    }
+    current[field] = stamp;
+    winners.add(field);
+  });
+
+  const filtered: DiagramChange = { ...change };
+  if (change.parentId !== undefined && !winners.has('parent')) {
+    delete filtered.parentId;
+  }
+  if (change.rootId !== undefined && !winners.has('root')) {
+    delete filtered.rootId;
+  }
+  if (change.hostId !== undefined && !winners.has('host')) {
+    delete filtered.hostId;
+  }
+  if (change.laneIds !== undefined && !winners.has('lanes')) {
+    delete filtered.laneIds;
+  }
+
+  switch (change.type) {
+    case 'create':
+    case 'connection':
+    case 'remove':
+      return winners.has('alive') ? filtered : null;
+    case 'property': {
+      const properties: Record<string, any> = {};
+      Object.keys(change.properties || {}).forEach(key => {
+        if (winners.has(PROPERTY_FIELD_PREFIX + key)) {
+          properties[key] = change.properties![key];
+        }
+      });
+      filtered.properties = properties;
+      return Object.keys(properties).length > 0 ? filtered : null;
+    }
+    case 'position':
+      if (!winners.has('position')) {
+        delete filtered.x;
+        delete filtered.y;
+      }
+      if (!winners.has('size')) {
+        delete filtered.width;
+        delete filtered.height;
+      }
+      if (!winners.has('waypoints')) {
+        delete filtered.waypoints;
+      }
+      if (!winners.has('label')) {
+        delete filtered.label;
+      }
+      if (!winners.has('source')) {
+        delete filtered.sourceId;
+      }
+      if (!winners.has('target')) {
+        delete filtered.targetId;
+      }
+      return winners.size > 0 ? filtered : null;
+    default:
+      return filtered;
+  }
+}
@@ -0,0 +1,113 @@
+import type { ChangeEvent, SequencedOperation } from '../../../shared/socketEvents';
+import { Diagram, DiagramOperation } from '../models';
+import { logger } from '../utils/logger';
+
+export type { SequencedOperation };
+
+// 다이어그램별 append 직렬화 (같은 프로세스 내에서 시퀀스 순서대로 브로드캐스트되도록 보장)
+const appendQueues = new Map<string, Promise<unknown>>();
+
+function enqueue<T>(diagramId: string, task: () => Promise<T>): Promise<T> {
+  const previous = appendQueues.get(diagramId) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+
+  appendQueues.set(diagramId, next);
+  next.finally(() => {
+    if (appendQueues.get(diagramId) === next) {
+      appendQueues.delete(diagramId);
+    }
+  }).catch(() => undefined);
+
+  return next;
+}
+
+function toSequencedOperation(operation: any): SequencedOperation {
+  return {
+    diagramId: operation.diagramId,
+    seq: operation.seq,
+    userId: operation.userId,
+    username: operation.username,
+    changes: operation.changes,
+    clientOpId: operation.clientOpId,
+    baseSeq: operation.baseSeq,
+    timestamp: new Date(operation.createdAt).toISOString()
+  };
+}
+
+export const operationLogService = {
+  // 변경사항에 다음 시퀀스 번호를 부여하고 operation 로그에 추가
+  async appendOperation(
+    diagramId: string,
+    userId: string,
+    username: string | undefined,
+    changes: ChangeEvent[],
+    meta: { clientOpId?: string; baseSeq?: number } = {}
+  ): Promise<SequencedOperation | null> {
+    return enqueue(diagramId, async () => {
+      try {
+        // 다이어그램 문서의 lastSeq를 원자적으로 증가시켜 시퀀스 할당
+        const diagram = await Diagram.findByIdAndUpdate(
+          diagramId,
+          { $inc: { lastSeq: 1 } },
+          { new: true, projection: { lastSeq: 1 } }
+        );
+
+        if (!diagram) {
+          return null;
+        }
+
+        const operation = await DiagramOperation.create({
+          diagramId,
+          seq: diagram.lastSeq,
+          userId,
+          username,
+          changes,
+          clientOpId: meta.clientOpId,
+          baseSeq: meta.baseSeq
+        });
+
+        logger.debug(`Appended operation ${operation.seq} to diagram ${diagramId}`);
+        return toSequencedOperation(operation);
+      } catch (error) {
+        logger.error('Error appending diagram operation:', error);
+        throw error;
+      }
+    });
+  },
+
+  // 특정 시퀀스 이후의 operation 조회 (시퀀스 오름차순)
+  async getOperationsSince(diagramId: string, sinceSeq: number, limit = 1000): Promise<SequencedOperation[]> {
+    try {
+      const operations = await DiagramOperation.find({ diagramId, seq: { $gt: sinceSeq } })
+        .sort({ seq: 1 })
+        .limit(limit)
+        .lean();
+
+      return operations.map(toSequencedOperation);
+    } catch (error) {
+      logger.error('Error fetching diagram operations:', error);
+      throw error;
+    }
+  },
+
+  // 스냅샷에 반영된 operation 제거 (seq <= uptoSeq)
+  async trimOperations(diagramId: string, uptoSeq: number) {
+    try {
+      const result = await DiagramOperation.deleteMany({ diagramId, seq: { $lte: uptoSeq } });
+      logger.debug(`Trimmed ${result.deletedCount} operations of diagram ${diagramId}`);
+    } catch (error) {
+      logger.error('Error trimming diagram operations:', error);
+      throw error;
+    }
+  },
+
+  // 다이어그램 삭제 시 operation 로그 제거
+  async deleteOperations(diagramId: string) {
+    try {
+      await DiagramOperation.deleteMany({ diagramId });
+    } catch (error) {
+      logger.error('Error deleting diagram operations:', error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,116 @@
+import { setupSnapshotCompactor, snapshotCompactor } from './snapshotCompactor';
+import { CollaborationServer } from '../socket/types';
+import { Diagram } from '../models';
+import { applyOperationsToXml } from './bpmnOperationApplier';
+import { operationLogService } from './operationLogService';
+
+jest.mock('../utils/logger');
+jest.mock('../models', () => ({
+  Diagram: { findById: jest.fn(), findOneAndUpdate: jest.fn() }
+}));
+jest.mock('./bpmnOperationApplier', () => ({ applyOperationsToXml: jest.fn() }));
+jest.mock('./operationLogService', () => ({
+  operationLogService: { getOperationsSince: jest.fn(), trimOperations: jest.fn() }
+}));
+
+const mockedDiagram = Diagram as unknown as Record<string, jest.Mock>;
+const mockedOperationLog = operationLogService as unknown as Record<string, jest.Mock>;
+
+describe('snapshotCompactor', () => {
+  const roomEmit = jest.fn();
+  const io = { to: jest.fn(() => ({ emit: roomEmit })) };
+
+  beforeAll(() => {
+    setupSnapshotCompactor(io as unknown as CollaborationServer);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedDiagram.findById.mockResolvedValue({
+      bpmnXml: '<definitions />',
+      version: 3,
+      snapshotSeq: 10,
+      crdtStamps: {}
+    });
+    mockedOperationLog.getOperationsSince.mockResolvedValue([{ seq: 11 }, { seq: 12 }]);
+    (applyOperationsToXml as jest.Mock).mockResolvedValue('<definitions compacted />');
+    mockedDiagram.findOneAndUpdate.mockResolvedValue({ _id: 'diagram-1' });
+  });
+
+  describe('compactDiagram', () => {
+    it('operation을 스냅샷에 반영하되 version은 바꾸지 않아야 한다', async () => {
+      await expect(snapshotCompactor.compactDiagram('diagram-1')).resolves.toBe(true);
+
+      const [filter, update] = mockedDiagram.findOneAndUpdate.mock.calls[0];
+      expect(filter).toEqual({ _id: 'diagram-1', version: 3, snapshotSeq: 10 });
+      expect(update).toMatchObject({ bpmnXml: '<definitions compacted />', snapshotSeq: 12 });
+      expect(update).not.toHaveProperty('version');
+      expect(update).not.toHaveProperty('$inc');
+
+      expect(mockedOperationLog.trimOperations).toHaveBeenCalledWith('diagram-1', 12);
+      expect(io.to).toHaveBeenCalledWith('diagram:diagram-1');
+      expect(roomEmit).toHaveBeenCalledWith('snapshot_created', {
+        diagramId: 'diagram-1',
+        snapshotSeq: 12,
+        timestamp: expect.any(String)
+      });
+    });
+
+    it('새 operation이 없으면 스냅샷을 만들지 않아야 한다', async () => {
+      mockedOperationLog.getOperationsSince.mockResolvedValue([]);
+
+      await expect(snapshotCompactor.compactDiagram('diagram-1')).resolves.toBe(false);
+
+      expect(mockedDiagram.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('압축 중 스냅샷이 바뀌었으면 operation 로그를 정리하지 않아야 한다', async () => {
+      mockedDiagram.findOneAndUpdate.mockResolvedValue(null);
+
+      await expect(snapshotCompactor.compactDiagram('diagram-1')).resolves.toBe(false);
+
+      expect(mockedOperationLog.trimOperations).not.toHaveBeenCalled();
+      expect(roomEmit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('notifyOperation', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      process.env.SNAPSHOT_OP_THRESHOLD = '3';
+      process.env.SNAPSHOT_IDLE_MS = '1000';
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      delete process.env.SNAPSHOT_OP_THRESHOLD;
+      delete process.env.SNAPSHOT_IDLE_MS;
+    });
+
+    it('임계치에 도달하면 바로 압축해야 한다', () => {
+      const compact = jest.spyOn(snapshotCompactor, 'compactDiagram').mockResolvedValue(true);
+
+      snapshotCompactor.notifyOperation('diagram-1');
+      snapshotCompactor.notifyOperation('diagram-1');
+      expect(compact).not.toHaveBeenCalled();
+
+      snapshotCompactor.notifyOperation('diagram-1');
+      expect(compact).toHaveBeenCalledWith('diagram-1');
+
+      compact.mockRestore();
+    });
+
+    it('임계치 전이면 유휴 시간이 지난 뒤 압축해야 한다', () => {
+      const compact = jest.spyOn(snapshotCompactor, 'compactDiagram').mockResolvedValue(true);
+
+      snapshotCompactor.notifyOperation('diagram-2');
+      jest.advanceTimersByTime(999);
+      expect(compact).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1);
+      expect(compact).toHaveBeenCalledWith('diagram-2');
+
+      compact.mockRestore();
+    });
+  });
+});
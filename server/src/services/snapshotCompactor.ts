@@ -0,0 +1,120 @@
+import { Diagram } from '../models';
+import { applyOperationsToXml } from './bpmnOperationApplier';
+import { operationLogService } from './operationLogService';
+import { logger } from '../utils/logger';
+import { CollaborationServer } from '../socket/types';
+
+const DEFAULT_OP_THRESHOLD = 100;
+const DEFAULT_IDLE_MS = 10000; // 10초
+
+let io: CollaborationServer | null = null;
+const idleTimers = new Map<string, NodeJS.Timeout>();
+// 마지막 스냅샷 이후 이 서버에서 추가된 operation 수
+const pendingCounts = new Map<string, number>();
+const compactingDiagrams = new Set<string>();
+
+function getOpThreshold(): number {
+  return parseInt(process.env.SNAPSHOT_OP_THRESHOLD || String(DEFAULT_OP_THRESHOLD));
+}
+
+function getIdleMs(): number {
+  return parseInt(process.env.SNAPSHOT_IDLE_MS || String(DEFAULT_IDLE_MS));
+}
+
+function clearIdleTimer(diagramId: string): void {
+  const timer = idleTimers.get(diagramId);
+  if (timer) {
+    clearTimeout(timer);
+    idleTimers.delete(diagramId);
+  }
+}
+
+export const snapshotCompactor = {
+  // 새 operation이 추가될 때 호출 - 임계치 도달 시 즉시, 아니면 유휴 시간 후 스냅샷 생성
+  notifyOperation(diagramId: string) {
+    clearIdleTimer(diagramId);
+
+    const pending = (pendingCounts.get(diagramId) || 0) + 1;
+    pendingCounts.set(diagramId, pending);
+
+    if (pending >= getOpThreshold()) {
+      void this.compactDiagram(diagramId);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      idleTimers.delete(diagramId);
+      void this.compactDiagram(diagramId);
+    }, getIdleMs());
+    idleTimers.set(diagramId, timer);
+  },
+
+  // 누적된 operation을 bpmnXml에 적용하여 새 스냅샷을 만들고 operation 로그를 정리
+  // (이미 실시간으로 공유된 내용을 저장만 하므로 version과 버전 히스토리는 바꾸지 않음)
+  async compactDiagram(diagramId: string): Promise<boolean> {
+    if (compactingDiagrams.has(diagramId)) {
+      return false;
+    }
+    compactingDiagrams.add(diagramId);
+    pendingCounts.delete(diagramId);
+
+    try {
+      const diagram = await Diagram.findById(diagramId, { bpmnXml: 1, version: 1, snapshotSeq: 1, crdtStamps: 1 });
+      if (!diagram) {
+        return false;
+      }
+
+      const operations = await operationLogService.getOperationsSince(diagramId, diagram.snapshotSeq, Number.MAX_SAFE_INTEGER);
+      if (operations.length === 0) {
+        return false;
+      }
+
+      const snapshotSeq = operations[operations.length - 1].seq;
+      const crdtStamps = { ...(diagram.crdtStamps || {}) };
+      const bpmnXml = await applyOperationsToXml(diagram.bpmnXml, operations, crdtStamps);
+
+      // 그 사이 REST 저장이나 다른 압축으로 스냅샷이 바뀌었다면 이번 스냅샷은 포기 (다음 알림 때 다시 시도)
+      const snapshotAt = new Date();
+      const updated = await Diagram.findOneAndUpdate(
+        { _id: diagramId, version: diagram.version, snapshotSeq: diagram.snapshotSeq },
+        { bpmnXml, snapshotSeq, crdtStamps, snapshotAt },
+        { new: true, projection: { _id: 1 } }
+      );
+
+      if (!updated) {
+        logger.debug(`Skipped snapshot of diagram ${diagramId}: snapshot changed during compaction`);
+        return false;
+      }
+
+      await operationLogService.trimOperations(diagramId, snapshotSeq);
+
+      io?.to(`diagram:${diagramId}`).emit('snapshot_created', {
+        diagramId,
+        snapshotSeq,
+        timestamp: snapshotAt.toISOString()
+      });
+
+      logger.info(`Compacted ${operations.length} operations into snapshot (seq ${snapshotSeq}) of diagram ${diagramId}`);
+      return true;
+    } catch (error) {
+      logger.error('Error compacting diagram operations:', error);
+      return false;
+    } finally {
+      compactingDiagrams.delete(diagramId);
+    }
+  },
+
+  // 대기 중인 유휴 타이머를 모두 즉시 실행 (서버 종료 시)
+  async flushAll() {
+    const diagramIds = Array.from(idleTimers.keys());
+    diagramIds.forEach(clearIdleTimer);
+    pendingCounts.clear();
+    await Promise.all(diagramIds.map(diagramId => this.compactDiagram(diagramId)));
+  }
+};
+
+// 스냅샷 생성 알림을 브로드캐스트할 Socket.IO 서버 등록
+export function setupSnapshotCompactor(server: CollaborationServer): void {
+  io = server;
+  logger.info(`Snapshot compactor enabled (every ${getOpThreshold()} ops or ${getIdleMs()}ms idle)`);
+}
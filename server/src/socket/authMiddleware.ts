@@ -0,0 +1,35 @@
+import { extractBearerToken, verifyAccessToken } from '../utils/token';
+import { logger } from '../utils/logger';
+import { CollaborationSocket } from './types';
+
+// 핸드셰이크에서 토큰 추출 (auth.token 우선, Authorization 헤더 대체)
+function getHandshakeToken(socket: CollaborationSocket): string | null {
+  const authToken = socket.handshake.auth?.token;
+  if (typeof authToken === 'string' && authToken) {
+    return authToken;
+  }
+  return extractBearerToken(socket.handshake.headers.authorization);
+}
+
+// 핸드셰이크 단계에서 토큰을 검증하고 socket.data에 사용자 정보 저장
+export function socketAuthMiddleware(socket: CollaborationSocket, next: (err?: Error) => void): void {
+  const token = getHandshakeToken(socket);
+
+  if (!token) {
+    const error: any = new Error('Authentication required');
+    error.data = { code: 'AUTH_REQUIRED' };
+    return next(error);
+  }
+
+  try {
+    const payload = verifyAccessToken(token);
+    socket.data.userId = payload.sub;
+    socket.data.username = payload.username;
+    next();
+  } catch (err: any) {
+    logger.warn(`Socket authentication failed (${socket.id}): ${err.message}`);
+    const error: any = new Error(err.name === 'TokenExpiredError' ? 'Token expired' : 'Invalid token');
+    error.data = { code: err.name === 'TokenExpiredError' ? 'TOKEN_EXPIRED' : 'INVALID_TOKEN' };
+    next(error);
+  }
+}
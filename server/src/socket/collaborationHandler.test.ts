@@ -0,0 +1,82 @@
+import { handleCollaboration } from './collaborationHandler';
+import { Diagram } from '../models';
+import { operationLogService } from '../services/operationLogService';
+
+jest.mock('../utils/logger');
+jest.mock('../models', () => ({
+  Diagram: { findById: jest.fn() },
+  CollaborationSession: {}
+}));
+jest.mock('../services/operationLogService', () => ({
+  operationLogService: { getOperationsSince: jest.fn() }
+}));
+
+const findById = Diagram.findById as jest.Mock;
+const getOperationsSince = operationLogService.getOperationsSince as jest.Mock;
+
+describe('handleCollaboration', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getUserRole', () => {
+    const diagram = { owner: 'owner', collaborators: [{ userId: 'bob', role: 'commenter' }], isPublic: false };
+
+    it('소유자, 협업자 역할을 반환하고 접근할 수 없으면 null이어야 한다', async () => {
+      findById.mockResolvedValue(diagram);
+
+      await expect(handleCollaboration.getUserRole('diagram-1', 'owner')).resolves.toBe('owner');
+      await expect(handleCollaboration.getUserRole('diagram-1', 'bob')).resolves.toBe('commenter');
+      await expect(handleCollaboration.getUserRole('diagram-1', 'eve')).resolves.toBeNull();
+    });
+
+    it('없는 다이어그램은 null을 반환해야 한다', async () => {
+      findById.mockResolvedValue(null);
+
+      await expect(handleCollaboration.getUserRole('missing', 'owner')).resolves.toBeNull();
+    });
+  });
+
+  describe('getDiagramState', () => {
+    it('스냅샷과 스냅샷 이후의 operation을 함께 반환해야 한다', async () => {
+      const operations = [{ seq: 11 }, { seq: 12 }];
+      findById.mockResolvedValue({
+        bpmnXml: '<definitions />',
+        version: 3,
+        snapshotSeq: 10,
+        lastSeq: 12,
+        crdtStamps: { Task_1: { 'prop:name': { clock: 2, clientId: 'client-a' } } }
+      });
+      getOperationsSince.mockResolvedValue(operations);
+
+      const state = await handleCollaboration.getDiagramState('diagram-1');
+
+      expect(getOperationsSince).toHaveBeenCalledWith('diagram-1', 10);
+      expect(state).toEqual({
+        diagramId: 'diagram-1',
+        bpmnXml: '<definitions />',
+        version: 3,
+        snapshotSeq: 10,
+        lastSeq: 12,
+        operations,
+        stamps: { Task_1: { 'prop:name': { clock: 2, clientId: 'client-a' } } }
+      });
+    });
+
+    it('스탬프가 없으면 빈 객체를 반환해야 한다', async () => {
+      findById.mockResolvedValue({ bpmnXml: '<definitions />', version: 1, snapshotSeq: 0, lastSeq: 0 });
+      getOperationsSince.mockResolvedValue([]);
+
+      const state = await handleCollaboration.getDiagramState('diagram-1');
+
+      expect(state?.stamps).toEqual({});
+    });
+
+    it('없는 다이어그램은 null을 반환해야 한다', async () => {
+      findById.mockResolvedValue(null);
+
+      await expect(handleCollaboration.getDiagramState('missing')).resolves.toBeNull();
+      expect(getOperationsSince).not.toHaveBeenCalled();
+    });
+  });
+});
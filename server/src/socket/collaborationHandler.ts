@@ -1,7 +1,49 @@
-import { CollaborationSession } from '../models';
+import type { CursorPosition, DiagramStateSnapshot, Participant } from '../../../shared/socketEvents';
+import { CollaborationSession, Diagram, DiagramRole } from '../models';
+import { getDiagramRole } from '../utils/permissions';
+import { operationLogService } from '../services/operationLogService';
 import { logger } from '../utils/logger';
 
 export const handleCollaboration = {
+  // 다이어그램에 대한 사용자 역할 조회 (다이어그램이 없거나 접근 불가 시 null)
+  async getUserRole(diagramId: string, userId: string): Promise<DiagramRole | null> {
+    try {
+      const diagram = await Diagram.findById(diagramId, { owner: 1, collaborators: 1, isPublic: 1 });
+      if (!diagram) {
+        return null;
+      }
+      return getDiagramRole(diagram, userId);
+    } catch (error) {
+      logger.error('Error resolving diagram role:', error);
+      throw error;
+    }
+  },
+
+  // 최신 스냅샷과 스냅샷 이후의 operation 조회 (join 시 상태 동기화용)
+  async getDiagramState(diagramId: string): Promise<DiagramStateSnapshot | null> {
+    try {
+      const diagram = await Diagram.findById(diagramId, { bpmnXml: 1, version: 1, snapshotSeq: 1, lastSeq: 1, crdtStamps: 1 });
+      if (!diagram) {
+        return null;
+      }
+
+      const operations = await operationLogService.getOperationsSince(diagramId, diagram.snapshotSeq);
+
+      return {
+        diagramId,
+        bpmnXml: diagram.bpmnXml,
+        version: diagram.version,
+        snapshotSeq: diagram.snapshotSeq,
+        lastSeq: diagram.lastSeq,
+        operations,
+        stamps: diagram.crdtStamps || {}
+      };
+    } catch (error) {
+      logger.error('Error getting diagram state:', error);
+      throw error;
+    }
+  },
+
   // 협업 세션에 참가자 추가
   async addParticipant(diagramId: string, userId: string, socketId: string) {
     try {
@@ -92,7 +134,7 @@ export const handleCollaboration = {
   },
 
   // 협업 세션 참가자 목록 조회
-  async getParticipants(diagramId: string) {
+  async getParticipants(diagramId: string): Promise<Participant[]> {
     try {
       const session = await CollaborationSession.findOne({ diagramId, isActive: true })
         .populate('participants.userId', 'username email avatar');
@@ -101,12 +143,18 @@ export const handleCollaboration = {
         return [];
       }
 
-      return session.participants.map(p => ({
-        userId: p.userId,
-        socketId: p.socketId,
-        joinedAt: p.joinedAt,
-        cursor: p.cursor
-      }));
+      // populate된 사용자 문서에서 ID와 사용자명 추출 (사용자가 삭제된 경우 null)
+      return session.participants.map(p => {
+        const user: any = p.userId;
+        return {
+          userId: user && typeof user === 'object' ? String(user._id) : String(user),
+          username: user && typeof user === 'object' ? user.username : undefined,
+          socketId: p.socketId,
+          joinedAt: new Date(p.joinedAt).toISOString(),
+          cursor: p.cursor,
+          selection: p.selection
+        };
+      });
     } catch (error) {
       logger.error('Error getting collaboration participants:', error);
       throw error;
@@ -114,7 +162,7 @@ export const handleCollaboration = {
   },
 
   // 커서 위치 업데이트
-  async updateCursor(diagramId: string, userId: string, cursor: { x: number; y: number }) {
+  async updateCursor(diagramId: string, userId: string, cursor: CursorPosition) {
     try {
       const session = await CollaborationSession.findOne({ diagramId, isActive: true });
       
@@ -133,6 +181,26 @@ export const handleCollaboration = {
     }
   },
 
+  // 선택한 요소 업데이트
+  async updateSelection(diagramId: string, userId: string, elementIds: string[]) {
+    try {
+      const session = await CollaborationSession.findOne({ diagramId, isActive: true });
+
+      if (!session) {
+        return;
+      }
+
+      const participant = session.participants.find(p => p.userId === userId);
+      if (participant) {
+        participant.selection = elementIds;
+        await session.save();
+      }
+    } catch (error) {
+      logger.error('Error updating selection:', error);
+      throw error;
+    }
+  },
+
   // 활성 협업 세션 조회
   async getActiveSession(diagramId: string) {
     try {
@@ -0,0 +1,350 @@
+import { setupSocketHandlers } from './index';
+import { diagramRoleSync, setupDiagramRoleSync } from '../services/diagramRoleSync';
+import { CollaborationServer } from './types';
+import { Diagram } from '../models';
+import { handleCollaboration } from './collaborationHandler';
+import { operationLogService } from '../services/operationLogService';
+import { snapshotCompactor } from '../services/snapshotCompactor';
+import { elementLockService } from '../services/elementLockService';
+
+jest.mock('../utils/logger');
+jest.mock('../models', () => ({
+  Diagram: { findById: jest.fn() }
+}));
+jest.mock('./authMiddleware', () => ({ socketAuthMiddleware: jest.fn() }));
+jest.mock('./presenceHandler', () => ({
+  handleUserPresence: { setUserOnline: jest.fn(), setUserOffline: jest.fn() }
+}));
+jest.mock('./collaborationHandler', () => ({
+  handleCollaboration: {
+    getUserRole: jest.fn(),
+    addParticipant: jest.fn(),
+    removeParticipant: jest.fn(),
+    getParticipants: jest.fn(),
+    getDiagramState: jest.fn()
+  }
+}));
+jest.mock('../services/operationLogService', () => ({
+  operationLogService: { appendOperation: jest.fn(), getOperationsSince: jest.fn() }
+}));
+jest.mock('../services/snapshotCompactor', () => ({
+  snapshotCompactor: { notifyOperation: jest.fn() }
+}));
+jest.mock('../services/elementLockService', () => ({
+  elementLockService: {
+    getLocks: jest.fn(),
+    getLocksHeldByOthers: jest.fn(),
+    acquireLock: jest.fn(),
+    releaseLock: jest.fn(),
+    releaseSocketLocks: jest.fn()
+  }
+}));
+
+const mocked = <T>(value: T) => value as unknown as { [K in keyof T]: jest.Mock };
+const diagramModel = mocked(Diagram);
+const collaboration = mocked(handleCollaboration);
+const operationLog = mocked(operationLogService);
+const locks = mocked(elementLockService);
+
+// 등록된 이벤트 핸들러를 직접 호출할 수 있는 소켓
+function createFakeSocket(data: Record<string, any>) {
+  const handlers = new Map<string, (payload?: any) => Promise<void> | void>();
+  const roomEmit = jest.fn();
+
+  return {
+    id: 'socket-1',
+    data,
+    roomEmit,
+    emit: jest.fn(),
+    on: jest.fn((event: string, handler: any) => handlers.set(event, handler)),
+    to: jest.fn(() => ({ emit: roomEmit })),
+    join: jest.fn(),
+    leave: jest.fn(),
+    trigger: async (event: string, payload?: any) => handlers.get(event)!(payload)
+  };
+}
+
+// 소켓이 emit한 특정 이벤트의 payload 목록
+function emitted(socket: ReturnType<typeof createFakeSocket>, event: string) {
+  return socket.emit.mock.calls.filter(([name]) => name === event).map(([, payload]) => payload);
+}
+
+const diagramState = {
+  diagramId: 'diagram-1',
+  bpmnXml: '<definitions />',
+  version: 3,
+  snapshotSeq: 10,
+  lastSeq: 12,
+  operations: [],
+  stamps: {}
+};
+
+const change = { type: 'property', elementId: 'Task_1', properties: { name: 'A' }, timestamp: 1 };
+
+describe('socket handlers', () => {
+  let io: { use: jest.Mock; on: jest.Mock; to: jest.Mock; in: jest.Mock };
+  let sockets: ReturnType<typeof createFakeSocket>[];
+  let ioRoomEmit: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    ioRoomEmit = jest.fn();
+    io = {
+      use: jest.fn(),
+      on: jest.fn(),
+      to: jest.fn(() => ({ emit: ioRoomEmit })),
+      in: jest.fn(() => ({ fetchSockets: async () => sockets }))
+    };
+    sockets = [];
+    setupSocketHandlers(io as unknown as CollaborationServer);
+    setupDiagramRoleSync(io as unknown as CollaborationServer);
+
+    collaboration.getDiagramState.mockResolvedValue(diagramState);
+    locks.getLocksHeldByOthers.mockResolvedValue([]);
+  });
+
+  // 연결된 소켓 (diagramRoles: join_diagram에서 확인된 역할)
+  const connect = (diagramRoles?: Record<string, string>) => {
+    const socket = createFakeSocket({ userId: 'user-1', username: 'alice', diagramRoles });
+    const [, onConnection] = io.on.mock.calls.find(([event]) => event === 'connection')!;
+    onConnection(socket);
+    sockets.push(socket);
+    return socket;
+  };
+
+  describe('join_diagram', () => {
+    it('접근 권한이 없으면 룸에 참여시키지 않아야 한다', async () => {
+      collaboration.getUserRole.mockResolvedValue(null);
+      const socket = connect();
+
+      await socket.trigger('join_diagram', { diagramId: 'diagram-1' });
+
+      expect(emitted(socket, 'error')).toEqual([{ message: 'Access to this diagram is denied', diagramId: 'diagram-1' }]);
+      expect(socket.join).not.toHaveBeenCalled();
+    });
+
+    it('역할을 기록하고 현재 상태를 보내야 한다', async () => {
+      collaboration.getUserRole.mockResolvedValue('viewer');
+      collaboration.getParticipants.mockResolvedValue([]);
+      locks.getLocks.mockResolvedValue([]);
+      const socket = connect();
+
+      await socket.trigger('join_diagram', { diagramId: 'diagram-1' });
+
+      expect(socket.data.diagramRoles).toEqual({ 'diagram-1': 'viewer' });
+      expect(socket.join).toHaveBeenCalledWith('diagram:diagram-1');
+      expect(emitted(socket, 'diagram_joined')).toEqual([{ diagramId: 'diagram-1', role: 'viewer' }]);
+      expect(emitted(socket, 'diagram_state')).toEqual([diagramState]);
+    });
+  });
+
+  describe('diagram_change', () => {
+    it('viewer의 변경사항은 거부해야 한다', async () => {
+      const socket = connect({ 'diagram-1': 'viewer' });
+
+      await socket.trigger('diagram_change', { diagramId: 'diagram-1', clientOpId: 'op-1', changes: [change] });
+
+      expect(emitted(socket, 'change_rejected')).toEqual([
+        { diagramId: 'diagram-1', clientOpId: 'op-1', reason: 'Insufficient permissions to edit this diagram' }
+      ]);
+      expect(operationLog.appendOperation).not.toHaveBeenCalled();
+    });
+
+    it('참여하지 않은 다이어그램의 변경사항은 거부해야 한다', async () => {
+      const socket = connect({ 'diagram-2': 'editor' });
+
+      await socket.trigger('diagram_change', { diagramId: 'diagram-1', clientOpId: 'op-1', changes: [change] });
+
+      expect(emitted(socket, 'change_rejected')[0].reason).toBe('Not joined to this diagram');
+      expect(operationLog.appendOperation).not.toHaveBeenCalled();
+    });
+
+    it('다른 사용자가 잠근 요소의 변경사항은 거부해야 한다', async () => {
+      locks.getLocksHeldByOthers.mockResolvedValue([{ elementId: 'Task_1', userId: 'user-2', username: 'bob' }]);
+      const socket = connect({ 'diagram-1': 'editor' });
+
+      await socket.trigger('diagram_change', { diagramId: 'diagram-1', clientOpId: 'op-1', changes: [change] });
+
+      expect(emitted(socket, 'change_rejected')).toEqual([
+        {
+          diagramId: 'diagram-1',
+          clientOpId: 'op-1',
+          reason: 'Element Task_1 is being edited by bob',
+          lockedElementIds: ['Task_1']
+        }
+      ]);
+      expect(operationLog.appendOperation).not.toHaveBeenCalled();
+    });
+
+    it('editor의 변경사항은 시퀀스를 부여해 확인하고 룸에 전달해야 한다', async () => {
+      const operation = { diagramId: 'diagram-1', seq: 13, clientOpId: 'op-1', changes: [change] };
+      operationLog.appendOperation.mockResolvedValue(operation);
+      const socket = connect({ 'diagram-1': 'editor' });
+
+      await socket.trigger('diagram_change', { diagramId: 'diagram-1', clientOpId: 'op-1', baseSeq: 12, changes: [change] });
+
+      expect(operationLog.appendOperation).toHaveBeenCalledWith('diagram-1', 'user-1', 'alice', [change], {
+        clientOpId: 'op-1',
+        baseSeq: 12
+      });
+      expect(emitted(socket, 'change_ack')).toEqual([{ diagramId: 'diagram-1', clientOpId: 'op-1', seq: 13 }]);
+      expect(socket.to).toHaveBeenCalledWith('diagram:diagram-1');
+      expect(socket.roomEmit).toHaveBeenCalledWith('diagram_updated', operation);
+      expect(snapshotCompactor.notifyOperation).toHaveBeenCalledWith('diagram-1');
+    });
+
+    it('잘못된 payload는 validation_error로 거부해야 한다', async () => {
+      const socket = connect({ 'diagram-1': 'editor' });
+
+      await socket.trigger('diagram_change', { diagramId: 'diagram-1', clientOpId: 'op-1', changes: [] });
+
+      expect(emitted(socket, 'validation_error')[0]).toMatchObject({ event: 'diagram_change', clientOpId: 'op-1' });
+      expect(operationLog.appendOperation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('request_operations (시퀀스 갭 복구)', () => {
+    it('참여하지 않은 다이어그램은 거부해야 한다', async () => {
+      const socket = connect();
+
+      await socket.trigger('request_operations', { diagramId: 'diagram-1', sinceSeq: 10 });
+
+      expect(emitted(socket, 'error')).toEqual([{ message: 'Not joined to this diagram' }]);
+      expect(operationLog.getOperationsSince).not.toHaveBeenCalled();
+    });
+
+    it('스냅샷 이후 구간이면 누락된 operation을 보내야 한다', async () => {
+      const operations = [{ seq: 11 }, { seq: 12 }];
+      diagramModel.findById.mockResolvedValue({ snapshotSeq: 10 });
+      operationLog.getOperationsSince.mockResolvedValue(operations);
+      const socket = connect({ 'diagram-1': 'viewer' });
+
+      await socket.trigger('request_operations', { diagramId: 'diagram-1', sinceSeq: 10 });
+
+      expect(operationLog.getOperationsSince).toHaveBeenCalledWith('diagram-1', 10);
+      expect(emitted(socket, 'operations')).toEqual([{ diagramId: 'diagram-1', sinceSeq: 10, operations }]);
+      expect(emitted(socket, 'diagram_state')).toEqual([]);
+    });
+
+    it('요청 구간이 스냅샷으로 압축되었으면 전체 상태를 보내야 한다', async () => {
+      diagramModel.findById.mockResolvedValue({ snapshotSeq: 10 });
+      const socket = connect({ 'diagram-1': 'viewer' });
+
+      await socket.trigger('request_operations', { diagramId: 'diagram-1', sinceSeq: 4 });
+
+      expect(emitted(socket, 'diagram_state')).toEqual([diagramState]);
+      expect(emitted(socket, 'operations')).toEqual([]);
+      expect(operationLog.getOperationsSince).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('request_diagram_state', () => {
+    it('참여한 다이어그램의 전체 상태를 보내야 한다', async () => {
+      const socket = connect({ 'diagram-1': 'editor' });
+
+      await socket.trigger('request_diagram_state', { diagramId: 'diagram-1' });
+
+      expect(collaboration.getDiagramState).toHaveBeenCalledWith('diagram-1');
+      expect(emitted(socket, 'diagram_state')).toEqual([diagramState]);
+    });
+
+    it('참여하지 않은 다이어그램은 거부해야 한다', async () => {
+      const socket = connect();
+
+      await socket.trigger('request_diagram_state', { diagramId: 'diagram-1' });
+
+      expect(emitted(socket, 'error')).toEqual([{ message: 'Not joined to this diagram' }]);
+      expect(collaboration.getDiagramState).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('element_lock', () => {
+    it('viewer는 잠금을 요청할 수 없어야 한다', async () => {
+      const socket = connect({ 'diagram-1': 'viewer' });
+
+      await socket.trigger('element_lock', { diagramId: 'diagram-1', elementId: 'Task_1' });
+
+      expect(locks.acquireLock).not.toHaveBeenCalled();
+    });
+
+    it('다른 사용자가 잠근 요소면 lock_denied를 보내야 한다', async () => {
+      const lock = { elementId: 'Task_1', userId: 'user-2', username: 'bob', socketId: 'socket-2', expiresAt: 1 };
+      locks.acquireLock.mockResolvedValue({ acquired: false, lock });
+      const socket = connect({ 'diagram-1': 'editor' });
+
+      await socket.trigger('element_lock', { diagramId: 'diagram-1', elementId: 'Task_1' });
+
+      expect(emitted(socket, 'lock_denied')).toEqual([{ diagramId: 'diagram-1', elementId: 'Task_1', lock }]);
+      expect(ioRoomEmit).not.toHaveBeenCalled();
+    });
+
+    it('잠금을 얻으면 룸 전체에 알려야 한다', async () => {
+      const lock = { elementId: 'Task_1', userId: 'user-1', username: 'alice', socketId: 'socket-1', expiresAt: 1 };
+      locks.acquireLock.mockResolvedValue({ acquired: true, lock });
+      const socket = connect({ 'diagram-1': 'editor' });
+
+      await socket.trigger('element_lock', { diagramId: 'diagram-1', elementId: 'Task_1' });
+
+      expect(io.to).toHaveBeenCalledWith('diagram:diagram-1');
+      expect(ioRoomEmit).toHaveBeenCalledWith('element_locked', { diagramId: 'diagram-1', ...lock });
+    });
+  });
+
+  describe('참여 중 역할 변경', () => {
+    const diagram = (collaborators: { userId: string; role: string }[], isPublic = false) =>
+      ({ id: 'diagram-1', owner: 'owner', collaborators, isPublic }) as any;
+
+    beforeEach(() => {
+      locks.releaseSocketLocks.mockResolvedValue([{ diagramId: 'diagram-1', elementId: 'Task_1', userId: 'user-1' }]);
+    });
+
+    it('viewer로 강등되면 이후 변경사항을 거부하고 보유한 잠금을 해제해야 한다', async () => {
+      const socket = connect({ 'diagram-1': 'editor' });
+
+      await diagramRoleSync.syncRoles(diagram([{ userId: 'user-1', role: 'viewer' }]));
+      await socket.trigger('diagram_change', { diagramId: 'diagram-1', clientOpId: 'op-1', changes: [change] });
+
+      expect(socket.data.diagramRoles).toEqual({ 'diagram-1': 'viewer' });
+      expect(emitted(socket, 'change_rejected')[0].reason).toBe('Insufficient permissions to edit this diagram');
+      expect(operationLog.appendOperation).not.toHaveBeenCalled();
+      expect(locks.releaseSocketLocks).toHaveBeenCalledWith('socket-1', 'diagram-1');
+      expect(ioRoomEmit).toHaveBeenCalledWith('element_unlocked', {
+        diagramId: 'diagram-1',
+        elementId: 'Task_1',
+        userId: 'user-1'
+      });
+    });
+
+    it('협업자에서 제거되면 룸에서 내보내야 한다', async () => {
+      const socket = connect({ 'diagram-1': 'editor' });
+
+      await diagramRoleSync.syncRoles(diagram([]));
+      await socket.trigger('request_operations', { diagramId: 'diagram-1', sinceSeq: 0 });
+
+      expect(socket.leave).toHaveBeenCalledWith('diagram:diagram-1');
+      expect(collaboration.removeParticipant).toHaveBeenCalledWith('diagram-1', 'user-1');
+      expect(emitted(socket, 'error')).toEqual([
+        { message: 'Access to this diagram is denied', diagramId: 'diagram-1' },
+        { message: 'Not joined to this diagram' }
+      ]);
+    });
+
+    it('공개 다이어그램에서 제거되면 viewer로 남아야 한다', async () => {
+      const socket = connect({ 'diagram-1': 'editor' });
+
+      await diagramRoleSync.syncRoles(diagram([], true));
+
+      expect(socket.data.diagramRoles).toEqual({ 'diagram-1': 'viewer' });
+      expect(socket.leave).not.toHaveBeenCalled();
+    });
+
+    it('역할이 그대로인 소켓은 건드리지 않아야 한다', async () => {
+      const socket = connect({ 'diagram-1': 'editor' });
+
+      await diagramRoleSync.syncRoles(diagram([{ userId: 'user-1', role: 'editor' }]));
+
+      expect(locks.releaseSocketLocks).not.toHaveBeenCalled();
+      expect(socket.emit).not.toHaveBeenCalled();
+    });
+  });
+});
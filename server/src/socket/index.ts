@@ -1,25 +1,60 @@
-import { Server as SocketIOServer } from 'socket.io';
+import { Diagram, DiagramRole } from '../models';
+import { hasRole } from '../utils/permissions';
 import { logger } from '../utils/logger';
 import { handleCollaboration } from './collaborationHandler';
 import { handleUserPresence } from './presenceHandler';
+import { socketAuthMiddleware } from './authMiddleware';
+import { operationLogService } from '../services/operationLogService';
+import { snapshotCompactor } from '../services/snapshotCompactor';
+import { elementLockService, ReleasedLock } from '../services/elementLockService';
+import { verifyAccessToken } from '../utils/token';
+import { CollaborationServer, CollaborationSocket } from './types';
+import { validatePayload } from './validation';
+
+// join_diagram 시 확인된 역할 조회 (참여하지 않은 다이어그램이면 undefined)
+function getJoinedRole(socket: CollaborationSocket, diagramId: string): DiagramRole | undefined {
+  return socket.data.diagramRoles?.[diagramId];
+}
+
+// 해제된 잠금을 각 다이어그램 룸에 알림
+function broadcastReleasedLocks(io: CollaborationServer, released: ReleasedLock[]): void {
+  released.forEach(({ diagramId, elementId, userId }) => {
+    io.to(`diagram:${diagramId}`).emit('element_unlocked', { diagramId, elementId, userId });
+  });
+}
+
+export function setupSocketHandlers(io: CollaborationServer): void {
+  // 핸드셰이크 시 JWT 검증
+  io.use(socketAuthMiddleware);
 
-export function setupSocketHandlers(io: SocketIOServer): void {
   io.on('connection', (socket) => {
     logger.info(`Client connected: ${socket.id}`);
 
     // 사용자 인증 및 초기 설정
+    // 신원은 핸드셰이크에서 검증된 토큰으로 결정되며, 클라이언트가 보낸 userId/username은 신뢰하지 않음
     socket.on('authenticate', async (data) => {
       try {
-        const { userId, username } = data;
-        
-        if (!userId || !username) {
-          socket.emit('auth_error', { message: 'User ID and username are required' });
+        if (!validatePayload(socket, 'authenticate', data)) {
           return;
         }
 
-        // 소켓에 사용자 정보 저장
-        socket.data.userId = userId;
-        socket.data.username = username;
+        // 장시간 연결된 소켓에서 새 토큰으로 재인증하는 경우
+        if (data?.token) {
+          const payload = verifyAccessToken(data.token);
+          if (socket.data.userId && socket.data.userId !== payload.sub) {
+            socket.emit('auth_error', { message: 'Token does not match the connected user' });
+            return;
+          }
+          socket.data.userId = payload.sub;
+          socket.data.username = payload.username;
+        }
+
+        const { userId, username } = socket.data;
+
+        if (!userId) {
+          socket.emit('auth_error', { message: 'User not authenticated' });
+          return;
+        }
 
         // 사용자 온라인 상태 업데이트
         await handleUserPresence.setUserOnline(userId, socket.id);
@@ -40,6 +75,10 @@ export function setupSocketHandlers(io: SocketIOServer): void {
     // 다이어그램 룸 참여
     socket.on('join_diagram', async (data) => {
       try {
+        if (!validatePayload(socket, 'join_diagram', data)) {
+          return;
+        }
+
         const { diagramId } = data;
         const { userId, username } = socket.data;
 
@@ -48,11 +87,15 @@ export function setupSocketHandlers(io: SocketIOServer): void {
           return;
         }
 
-        if (!diagramId) {
-          socket.emit('error', { message: 'Diagram ID is required' });
+        // 다이어그램 접근 권한 확인 (viewer 이상)
+        const role = await handleCollaboration.getUserRole(diagramId, userId);
+        if (!role) {
+          socket.emit('error', { message: 'Access to this diagram is denied', diagramId });
           return;
         }
 
+        socket.data.diagramRoles = { ...socket.data.diagramRoles, [diagramId]: role };
+
         // 다이어그램 룸에 참여
         await socket.join(`diagram:${diagramId}`);
         
@@ -63,14 +106,25 @@ export function setupSocketHandlers(io: SocketIOServer): void {
         socket.to(`diagram:${diagramId}`).emit('user_joined', {
           userId,
           username,
-          timestamp: new Date()
+          timestamp: new Date().toISOString()
         });
 
         // 현재 참가자 목록 전송
         const participants = await handleCollaboration.getParticipants(diagramId);
         socket.emit('participants_updated', { participants });
+        socket.emit('diagram_joined', { diagramId, role });
+
+        // 다른 사용자가 편집 중인 요소의 잠금 목록
+        const locks = await elementLockService.getLocks(diagramId);
+        socket.emit('element_locks', { diagramId, locks });
 
-        logger.info(`User ${username} joined diagram ${diagramId}`);
+        // 늦게 참여한 사용자를 위한 상태 동기화: 최신 스냅샷 + 이후 operation
+        const state = await handleCollaboration.getDiagramState(diagramId);
+        if (state) {
+          socket.emit('diagram_state', state);
+        }
+
+        logger.info(`User ${username} joined diagram ${diagramId} as ${role}`);
       } catch (error) {
         logger.error('Error joining diagram:', error);
         socket.emit('error', { message: 'Failed to join diagram' });
@@ -80,6 +134,10 @@ export function setupSocketHandlers(io: SocketIOServer): void {
     // 다이어그램 룸 떠나기
     socket.on('leave_diagram', async (data) => {
       try {
+        if (!validatePayload(socket, 'leave_diagram', data)) {
+          return;
+        }
+
         const { diagramId } = data;
         const { userId, username } = socket.data;
 
@@ -88,13 +146,19 @@ export function setupSocketHandlers(io: SocketIOServer): void {
         }
 
         await socket.leave(`diagram:${diagramId}`);
+        if (socket.data.diagramRoles) {
+          delete socket.data.diagramRoles[diagramId];
+        }
         await handleCollaboration.removeParticipant(diagramId, userId);
 
+        // 떠난 다이어그램에서 보유한 잠금 해제
+        broadcastReleasedLocks(io, await elementLockService.releaseSocketLocks(socket.id, diagramId));
+
         // 룸의 다른 사용자들에게 참가자 떠남 알림
         socket.to(`diagram:${diagramId}`).emit('user_left', {
           userId,
           username,
-          timestamp: new Date()
+          timestamp: new Date().toISOString()
         });
 
         logger.info(`User ${username} left diagram ${diagramId}`);
@@ -103,10 +167,14 @@ export function setupSocketHandlers(io: SocketIOServer): void {
       }
     });
 
-    // 다이어그램 변경사항 브로드캐스트
+    // 다이어그램 변경사항 시퀀싱 및 브로드캐스트
     socket.on('diagram_change', async (data) => {
       try {
-        const { diagramId, changes, version } = data;
+        if (!validatePayload(socket, 'diagram_change', data)) {
+          return;
+        }
+
+        const { diagramId, changes, clientOpId, baseSeq } = data;
         const { userId, username } = socket.data;
 
         if (!userId || !diagramId) {
@@ -114,28 +182,132 @@ export function setupSocketHandlers(io: SocketIOServer): void {
           return;
         }
 
-        // 변경사항을 룸의 다른 사용자들에게 브로드캐스트
-        socket.to(`diagram:${diagramId}`).emit('diagram_updated', {
-          changes,
-          version,
+        // 편집 권한 확인 (viewer/commenter의 변경사항은 거부)
+        const role = getJoinedRole(socket, diagramId);
+        if (!hasRole(role, 'editor')) {
+          socket.emit('change_rejected', {
+            diagramId,
+            clientOpId,
+            reason: role ? 'Insufficient permissions to edit this diagram' : 'Not joined to this diagram'
+          });
+          return;
+        }
+
+        // 다른 사용자가 잠근 요소를 변경하는 operation은 거부
+        const lockedByOthers = await elementLockService.getLocksHeldByOthers(
+          diagramId,
           userId,
-          username,
-          timestamp: new Date()
+          changes.map(change => change.elementId)
+        );
+        if (lockedByOthers.length > 0) {
+          const [lock] = lockedByOthers;
+          socket.emit('change_rejected', {
+            diagramId,
+            clientOpId,
+            reason: `Element ${lock.elementId} is being edited by ${lock.username || lock.userId}`,
+            lockedElementIds: lockedByOthers.map(locked => locked.elementId)
+          });
+          return;
+        }
+
+        // 서버 권한으로 시퀀스 번호를 부여하고 operation 로그에 저장
+        const operation = await operationLogService.appendOperation(diagramId, userId, username, changes, {
+          clientOpId,
+          baseSeq
         });
 
-        logger.debug(`Diagram ${diagramId} updated by ${username}`);
+        if (!operation) {
+          socket.emit('change_rejected', { diagramId, clientOpId, reason: 'Diagram not found' });
+          return;
+        }
+
+        // 보낸 클라이언트에게 할당된 시퀀스 번호 확인
+        socket.emit('change_ack', { diagramId, clientOpId, seq: operation.seq });
+
+        // 시퀀싱된 operation을 룸의 다른 사용자들에게 브로드캐스트
+        socket.to(`diagram:${diagramId}`).emit('diagram_updated', operation);
+
+        // 누적된 operation을 주기적으로 스냅샷에 반영
+        snapshotCompactor.notifyOperation(diagramId);
+
+        logger.debug(`Diagram ${diagramId} updated by ${username} (seq ${operation.seq})`);
+      } catch (error) {
+        logger.error('Error sequencing diagram change:', error);
+        socket.emit('change_rejected', {
+          diagramId: data?.diagramId,
+          clientOpId: data?.clientOpId,
+          reason: 'Failed to apply change'
+        });
+      }
+    });
+
+    // 누락된 operation 요청 (시퀀스 갭 복구)
+    socket.on('request_operations', async (data) => {
+      try {
+        if (!validatePayload(socket, 'request_operations', data)) {
+          return;
+        }
+
+        const { diagramId, sinceSeq } = data;
+
+        if (!diagramId || !getJoinedRole(socket, diagramId)) {
+          socket.emit('error', { message: 'Not joined to this diagram' });
+          return;
+        }
+
+        // 요청한 구간이 이미 스냅샷으로 압축되었다면 전체 상태를 다시 전송
+        const diagram = await Diagram.findById(diagramId, { snapshotSeq: 1 });
+        if (diagram && sinceSeq < diagram.snapshotSeq) {
+          const state = await handleCollaboration.getDiagramState(diagramId);
+          if (state) {
+            socket.emit('diagram_state', state);
+          }
+          return;
+        }
+
+        const operations = await operationLogService.getOperationsSince(diagramId, sinceSeq);
+        socket.emit('operations', { diagramId, sinceSeq, operations });
       } catch (error) {
-        logger.error('Error broadcasting diagram change:', error);
+        logger.error('Error fetching operations:', error);
+        socket.emit('error', { message: 'Failed to fetch operations' });
+      }
+    });
+
+    // 전체 상태 재요청 (거부된 로컬 변경사항을 버리고 서버 상태로 재동기화)
+    socket.on('request_diagram_state', async (data) => {
+      try {
+        if (!validatePayload(socket, 'request_diagram_state', data)) {
+          return;
+        }
+
+        const { diagramId } = data;
+
+        if (!diagramId || !getJoinedRole(socket, diagramId)) {
+          socket.emit('error', { message: 'Not joined to this diagram' });
+          return;
+        }
+
+        const state = await handleCollaboration.getDiagramState(diagramId);
+        if (state) {
+          socket.emit('diagram_state', state);
+        }
+      } catch (error) {
+        logger.error('Error fetching diagram state:', error);
+        socket.emit('error', { message: 'Failed to fetch diagram state' });
       }
     });
 
     // 커서 위치 업데이트
     socket.on('cursor_move', async (data) => {
       try {
-        const { diagramId, x, y } = data;
+        if (!validatePayload(socket, 'cursor_move', data)) {
+          return;
+        }
+
+        const { diagramId, x, y, elementId, rootId } = data;
         const { userId, username } = socket.data;
 
-        if (!userId || !diagramId) {
+        if (!userId || !diagramId || !getJoinedRole(socket, diagramId)) {
           return;
         }
 
@@ -145,16 +317,96 @@ export function setupSocketHandlers(io: SocketIOServer): void {
           username,
           x,
           y,
-          timestamp: new Date()
+          elementId,
+          rootId,
+          timestamp: new Date().toISOString()
         });
 
         // 협업 세션에 커서 위치 업데이트
-        await handleCollaboration.updateCursor(diagramId, userId, { x, y });
+        await handleCollaboration.updateCursor(diagramId, userId, { x, y, elementId, rootId });
       } catch (error) {
         logger.error('Error updating cursor:', error);
       }
     });
 
+    // 요소 선택 업데이트 (viewer도 선택은 공유)
+    socket.on('element_select', async (data) => {
+      try {
+        if (!validatePayload(socket, 'element_select', data)) {
+          return;
+        }
+
+        const { diagramId, elementIds } = data;
+        const { userId, username } = socket.data;
+
+        if (!userId || !getJoinedRole(socket, diagramId)) {
+          return;
+        }
+
+        socket.to(`diagram:${diagramId}`).emit('selection_updated', {
+          userId,
+          username,
+          elementIds,
+          timestamp: new Date().toISOString()
+        });
+
+        // 늦게 참여한 사용자가 participants_updated로 받을 수 있도록 저장
+        await handleCollaboration.updateSelection(diagramId, userId, elementIds);
+      } catch (error) {
+        logger.error('Error updating selection:', error);
+      }
+    });
+
+    // 요소 잠금 획득/갱신 (직접 편집 또는 속성 패널 포커스 시)
+    socket.on('element_lock', async (data) => {
+      try {
+        if (!validatePayload(socket, 'element_lock', data)) {
+          return;
+        }
+
+        const { diagramId, elementId } = data;
+        const { userId, username } = socket.data;
+
+        if (!userId || !hasRole(getJoinedRole(socket, diagramId), 'editor')) {
+          return;
+        }
+
+        const result = await elementLockService.acquireLock(diagramId, elementId, {
+          userId,
+          username,
+          socketId: socket.id
+        });
+
+        if (!result.acquired) {
+          socket.emit('lock_denied', { diagramId, elementId, lock: result.lock });
+          return;
+        }
+
+        // 갱신된 만료 시각도 함께 알림
+        io.to(`diagram:${diagramId}`).emit('element_locked', { diagramId, ...result.lock });
+      } catch (error) {
+        logger.error('Error locking element:', error);
+        socket.emit('error', { message: 'Failed to lock element', diagramId: data?.diagramId });
+      }
+    });
+
+    // 요소 잠금 해제 (편집 종료 시)
+    socket.on('element_unlock', async (data) => {
+      try {
+        if (!validatePayload(socket, 'element_unlock', data)) {
+          return;
+        }
+
+        const { diagramId, elementId } = data;
+        const released = await elementLockService.releaseLock(diagramId, elementId, socket.id);
+        if (released) {
+          broadcastReleasedLocks(io, [released]);
+        }
+      } catch (error) {
+        logger.error('Error unlocking element:', error);
+      }
+    });
+
     // 연결 해제 처리
     socket.on('disconnect', async () => {
       try {
@@ -167,6 +419,9 @@ export function setupSocketHandlers(io: SocketIOServer): void {
           // 모든 협업 세션에서 제거
           await handleCollaboration.removeParticipantFromAllSessions(userId);
 
+          // 연결이 끊긴 소켓이 보유한 잠금 해제
+          broadcastReleasedLocks(io, await elementLockService.releaseSocketLocks(socket.id));
+
           logger.info(`User ${username} (${userId}) disconnected`);
         }
 
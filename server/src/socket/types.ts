@@ -0,0 +1,11 @@
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import type {
+  ClientToServerEvents,
+  InterServerEvents,
+  ServerToClientEvents,
+  SocketData
+} from '../../../shared/socketEvents';
+
+// 공유 이벤트 계약으로 타입이 지정된 Socket.IO 서버/소켓
+export type CollaborationServer = SocketIOServer<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+export type CollaborationSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
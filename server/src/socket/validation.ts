@@ -0,0 +1,261 @@
+import type {
+  ClientToServerEvents,
+  ValidationIssue
+} from '../../../shared/socketEvents';
+import { CollaborationSocket } from './types';
+import { logger } from '../utils/logger';
+
+type ClientEventName = keyof ClientToServerEvents;
+type ClientEventPayload<E extends ClientEventName> = Parameters<ClientToServerEvents[E]>[0];
+type Validator = (data: any, issues: ValidationIssue[]) => void;
+
+const CHANGE_TYPES = ['property', 'position', 'create', 'remove', 'connection'];
+const MAX_CHANGES_PER_OPERATION = 500;
+const MAX_SELECTED_ELEMENTS = 500;
+
+// ==================== 기본 검사 ====================
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function requireObject(data: unknown, path: string, issues: ValidationIssue[]): data is Record<string, any> {
+  if (!isPlainObject(data)) {
+    issues.push({ path, message: 'Must be an object' });
+    return false;
+  }
+  return true;
+}
+
+function requireString(value: unknown, path: string, issues: ValidationIssue[]): void {
+  if (typeof value !== 'string' || value.length === 0) {
+    issues.push({ path, message: 'Must be a non-empty string' });
+  }
+}
+
+function optionalString(value: unknown, path: string, issues: ValidationIssue[]): void {
+  if (value !== undefined && typeof value !== 'string') {
+    issues.push({ path, message: 'Must be a string' });
+  }
+}
+
+function requireNumber(value: unknown, path: string, issues: ValidationIssue[]): void {
+  if (!isFiniteNumber(value)) {
+    issues.push({ path, message: 'Must be a finite number' });
+  }
+}
+
+function optionalNumber(value: unknown, path: string, issues: ValidationIssue[]): void {
+  if (value !== undefined) {
+    requireNumber(value, path, issues);
+  }
+}
+
+function requireSeq(value: unknown, path: string, issues: ValidationIssue[]): void {
+  if (!(Number.isInteger(value) && (value as number) >= 0)) {
+    issues.push({ path, message: 'Must be a non-negative integer' });
+  }
+}
+
+function optionalSeq(value: unknown, path: string, issues: ValidationIssue[]): void {
+  if (value !== undefined) {
+    requireSeq(value, path, issues);
+  }
+}
+
+// ==================== 변경사항 검사 ====================
+
+function validatePoints(value: unknown, path: string, issues: ValidationIssue[]): void {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'Must be an array of points' });
+    return;
+  }
+  value.forEach((point, index) => {
+    if (requireObject(point, `${path}[${index}]`, issues)) {
+      requireNumber(point.x, `${path}[${index}].x`, issues);
+      requireNumber(point.y, `${path}[${index}].y`, issues);
+    }
+  });
+}
+
+function validateStamps(value: unknown, path: string, issues: ValidationIssue[]): void {
+  if (!requireObject(value, path, issues)) {
+    return;
+  }
+  Object.keys(value).forEach(field => {
+    const stamp = value[field];
+    if (requireObject(stamp, `${path}.${field}`, issues)) {
+      requireSeq(stamp.clock, `${path}.${field}.clock`, issues);
+      optionalString(stamp.clientId, `${path}.${field}.clientId`, issues);
+    }
+  });
+}
+
+function validateChange(change: unknown, path: string, issues: ValidationIssue[]): void {
+  if (!requireObject(change, path, issues)) {
+    return;
+  }
+
+  if (!CHANGE_TYPES.includes(change.type)) {
+    issues.push({ path: `${path}.type`, message: `Must be one of ${CHANGE_TYPES.join(', ')}` });
+  }
+  requireString(change.elementId, `${path}.elementId`, issues);
+  optionalString(change.elementType, `${path}.elementType`, issues);
+  optionalString(change.sourceId, `${path}.sourceId`, issues);
+  optionalString(change.targetId, `${path}.targetId`, issues);
+  optionalString(change.parentId, `${path}.parentId`, issues);
+  optionalString(change.hostId, `${path}.hostId`, issues);
+  optionalString(change.rootId, `${path}.rootId`, issues);
+  if (change.laneIds !== undefined) {
+    if (Array.isArray(change.laneIds)) {
+      change.laneIds.forEach((laneId: unknown, index: number) =>
+        requireString(laneId, `${path}.laneIds[${index}]`, issues)
+      );
+    } else {
+      issues.push({ path: `${path}.laneIds`, message: 'Must be an array' });
+    }
+  }
+  (['x', 'y', 'width', 'height', 'timestamp'] as const).forEach(key => {
+    optionalNumber(change[key], `${path}.${key}`, issues);
+  });
+
+  if (change.properties !== undefined && !isPlainObject(change.properties)) {
+    issues.push({ path: `${path}.properties`, message: 'Must be an object' });
+  }
+  if (change.elementData !== undefined && !isPlainObject(change.elementData)) {
+    issues.push({ path: `${path}.elementData`, message: 'Must be an object' });
+  }
+  if (change.waypoints !== undefined) {
+    validatePoints(change.waypoints, `${path}.waypoints`, issues);
+  }
+  if (change.label !== undefined && requireObject(change.label, `${path}.label`, issues)) {
+    requireNumber(change.label.x, `${path}.label.x`, issues);
+    requireNumber(change.label.y, `${path}.label.y`, issues);
+    optionalNumber(change.label.width, `${path}.label.width`, issues);
+    optionalNumber(change.label.height, `${path}.label.height`, issues);
+  }
+  if (change.stamps !== undefined) {
+    validateStamps(change.stamps, `${path}.stamps`, issues);
+  }
+}
+
+// ==================== 이벤트별 스키마 ====================
+
+const validators: { [E in ClientEventName]: Validator } = {
+  authenticate: (data, issues) => {
+    // payload 생략 허용 (핸드셰이크 토큰 사용)
+    if (data === undefined || data === null) {
+      return;
+    }
+    if (requireObject(data, '', issues)) {
+      optionalString(data.token, 'token', issues);
+    }
+  },
+  join_diagram: (data, issues) => {
+    if (requireObject(data, '', issues)) {
+      requireString(data.diagramId, 'diagramId', issues);
+    }
+  },
+  leave_diagram: (data, issues) => {
+    if (requireObject(data, '', issues)) {
+      requireString(data.diagramId, 'diagramId', issues);
+    }
+  },
+  diagram_change: (data, issues) => {
+    if (!requireObject(data, '', issues)) {
+      return;
+    }
+    requireString(data.diagramId, 'diagramId', issues);
+    optionalString(data.clientOpId, 'clientOpId', issues);
+    optionalSeq(data.baseSeq, 'baseSeq', issues);
+
+    if (!Array.isArray(data.changes) || data.changes.length === 0) {
+      issues.push({ path: 'changes', message: 'Must be a non-empty array' });
+      return;
+    }
+    if (data.changes.length > MAX_CHANGES_PER_OPERATION) {
+      issues.push({ path: 'changes', message: `Must contain at most ${MAX_CHANGES_PER_OPERATION} changes` });
+      return;
+    }
+    data.changes.forEach((change: unknown, index: number) => validateChange(change, `changes[${index}]`, issues));
+  },
+  request_operations: (data, issues) => {
+    if (requireObject(data, '', issues)) {
+      requireString(data.diagramId, 'diagramId', issues);
+      requireSeq(data.sinceSeq, 'sinceSeq', issues);
+    }
+  },
+  request_diagram_state: (data, issues) => {
+    if (requireObject(data, '', issues)) {
+      requireString(data.diagramId, 'diagramId', issues);
+    }
+  },
+  cursor_move: (data, issues) => {
+    if (requireObject(data, '', issues)) {
+      requireString(data.diagramId, 'diagramId', issues);
+      requireNumber(data.x, 'x', issues);
+      requireNumber(data.y, 'y', issues);
+      optionalString(data.elementId, 'elementId', issues);
+      optionalString(data.rootId, 'rootId', issues);
+    }
+  },
+  element_select: (data, issues) => {
+    if (!requireObject(data, '', issues)) {
+      return;
+    }
+    requireString(data.diagramId, 'diagramId', issues);
+
+    // 빈 배열은 선택 해제
+    if (!Array.isArray(data.elementIds)) {
+      issues.push({ path: 'elementIds', message: 'Must be an array' });
+      return;
+    }
+    if (data.elementIds.length > MAX_SELECTED_ELEMENTS) {
+      issues.push({ path: 'elementIds', message: `Must contain at most ${MAX_SELECTED_ELEMENTS} elements` });
+      return;
+    }
+    data.elementIds.forEach((elementId: unknown, index: number) => requireString(elementId, `elementIds[${index}]`, issues));
+  },
+  element_lock: (data, issues) => {
+    if (requireObject(data, '', issues)) {
+      requireString(data.diagramId, 'diagramId', issues);
+      requireString(data.elementId, 'elementId', issues);
+    }
+  },
+  element_unlock: (data, issues) => {
+    if (requireObject(data, '', issues)) {
+      requireString(data.diagramId, 'diagramId', issues);
+      requireString(data.elementId, 'elementId', issues);
+    }
+  }
+};
+
+// 클라이언트 이벤트 payload 검증 - 실패 시 validation_error를 보내고 false 반환
+export function validatePayload<E extends ClientEventName>(
+  socket: CollaborationSocket,
+  event: E,
+  data: unknown
+): data is ClientEventPayload<E> {
+  const issues: ValidationIssue[] = [];
+  validators[event](data, issues);
+
+  if (issues.length === 0) {
+    return true;
+  }
+
+  logger.debug(`Rejected ${event} payload from ${socket.id}: ${issues.map(issue => issue.path || '(root)').join(', ')}`);
+
+  socket.emit('validation_error', {
+    event,
+    message: `Invalid ${event} payload`,
+    issues,
+    diagramId: isPlainObject(data) && typeof data.diagramId === 'string' ? data.diagramId : undefined,
+    clientOpId: isPlainObject(data) && typeof data.clientOpId === 'string' ? data.clientOpId : undefined
+  });
+
+  return false;
+}
@@ -0,0 +1,44 @@
+import express, { Router } from 'express';
+import { errorHandler } from '../middleware/errorHandler';
+import { signAccessToken } from '../utils/token';
+
+// 테스트용 JWT 비밀 키 (토큰 발급/검증 시점에 읽힘)
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-jwt-secret';
+
+// 라우터 하나만 마운트한 Express 앱 (실제 서버와 같은 JSON 파서/에러 처리)
+export function createTestApp(path: string, router: Router) {
+  const app = express();
+  app.use(express.json());
+  app.use(path, router);
+  app.use(errorHandler);
+  return app;
+}
+
+// 인증 헤더 값 (Bearer access 토큰)
+export function authHeader(userId: string, username = userId): string {
+  return `Bearer ${signAccessToken(userId, username)}`;
+}
+
+// 라우트가 사용하는 명령만 구현한 메모리 Redis
+export function createFakeRedis() {
+  const store = new Map<string, string>();
+
+  return {
+    store,
+    get: jest.fn(async (key: string) => store.get(key) ?? null),
+    set: jest.fn(async (key: string, value: string) => {
+      store.set(key, value);
+      return 'OK';
+    }),
+    setEx: jest.fn(async (key: string, _seconds: number, value: string) => {
+      store.set(key, value);
+      return 'OK';
+    }),
+    getDel: jest.fn(async (key: string) => {
+      const value = store.get(key) ?? null;
+      store.delete(key);
+      return value;
+    }),
+    del: jest.fn(async (key: string) => (store.delete(key) ? 1 : 0))
+  };
+}
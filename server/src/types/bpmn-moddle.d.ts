@@ -0,0 +1,30 @@
+// bpmn-moddle은 타입 정의를 제공하지 않으므로 서버에서 사용하는 부분만 선언
+declare module 'bpmn-moddle' {
+  export interface ModdleElement {
+    $type: string;
+    $parent?: ModdleElement;
+    $descriptor: {
+      properties: Array<{ name: string; isMany?: boolean; isReference?: boolean }>;
+    };
+    id?: string;
+    get(name: string): any;
+    set(name: string, value: any): void;
+    $instanceOf(type: string): boolean;
+    [key: string]: any;
+  }
+
+  export interface FromXMLResult {
+    rootElement: ModdleElement;
+    elementsById: Record<string, ModdleElement>;
+    references: any[];
+    warnings: any[];
+  }
+
+  export default class BpmnModdle {
+    constructor(packages?: any, options?: any);
+    fromXML(xml: string, typeName?: string, options?: any): Promise<FromXMLResult>;
+    toXML(element: ModdleElement, options?: { format?: boolean }): Promise<{ xml: string }>;
+    create(type: string, attrs?: any): ModdleElement;
+    createAny(name: string, nsUri: string, properties?: any): ModdleElement;
+  }
+}
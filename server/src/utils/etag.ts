@@ -0,0 +1,25 @@
+// 다이어그램 version 기반 ETag 유틸리티
+
+// version → ETag 문자열 (예: "v3")
+export function formatVersionETag(version: number): string {
+  return `"v${version}"`;
+}
+
+// If-Match / If-None-Match 헤더에서 version 추출 (W/ 접두사 및 따옴표 허용)
+export function parseVersionETag(header?: string): number | null {
+  if (!header) {
+    return null;
+  }
+
+  const match = header.trim().match(/^(?:W\/)?"?v?(\d+)"?$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+// 요청의 기대 version 결정 (본문 expectedVersion 우선, If-Match 헤더 대체)
+export function getExpectedVersion(body: any, ifMatchHeader?: string): number | null {
+  if (body?.expectedVersion !== undefined && body.expectedVersion !== null) {
+    const version = Number(body.expectedVersion);
+    return Number.isInteger(version) ? version : null;
+  }
+  return parseVersionETag(ifMatchHeader);
+}
@@ -0,0 +1,47 @@
+import { IDiagram, DiagramRole } from '../models';
+
+// 역할 권한 순서 (높을수록 더 많은 권한)
+const ROLE_RANK: Record<DiagramRole, number> = {
+  viewer: 1,
+  commenter: 2,
+  editor: 3,
+  owner: 4
+};
+
+type DiagramAccessFields = Pick<IDiagram, 'owner' | 'collaborators' | 'isPublic'>;
+
+// 사용자의 다이어그램 역할 계산 (접근 불가 시 null)
+export function getDiagramRole(diagram: DiagramAccessFields, userId?: string): DiagramRole | null {
+  if (userId) {
+    if (diagram.owner === userId) {
+      return 'owner';
+    }
+
+    const collaborator = diagram.collaborators.find(c => c.userId === userId);
+    if (collaborator) {
+      return collaborator.role;
+    }
+  }
+
+  // 공개 다이어그램은 누구나 조회 가능
+  return diagram.isPublic ? 'viewer' : null;
+}
+
+// 역할이 요구 역할 이상인지 확인
+export function hasRole(role: DiagramRole | null | undefined, required: DiagramRole): boolean {
+  if (!role) {
+    return false;
+  }
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+// 사용자가 접근 가능한 다이어그램 조회 조건
+export function accessibleDiagramsFilter(userId: string) {
+  return {
+    $or: [
+      { owner: userId },
+      { 'collaborators.userId': userId },
+      { isPublic: true }
+    ]
+  };
+}
@@ -0,0 +1,89 @@
+import jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
+
+export interface AccessTokenPayload {
+  sub: string;
+  username: string;
+  type: 'access';
+}
+
+export interface RefreshTokenPayload {
+  sub: string;
+  jti: string;
+  type: 'refresh';
+}
+
+export interface IssuedRefreshToken {
+  token: string;
+  jti: string;
+  expiresInSeconds: number;
+}
+
+const DEFAULT_ACCESS_TOKEN_TTL = '15m';
+const DEFAULT_REFRESH_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60; // 7일
+
+function getJwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT secret is not defined in environment variables');
+  }
+  return secret;
+}
+
+function getRefreshSecret(): string {
+  return process.env.JWT_REFRESH_SECRET || getJwtSecret();
+}
+
+export function getRefreshTokenTtlSeconds(): number {
+  return parseInt(
+    process.env.JWT_REFRESH_EXPIRES_IN_SECONDS || String(DEFAULT_REFRESH_TOKEN_TTL_SECONDS)
+  );
+}
+
+// Access 토큰 발급
+export function signAccessToken(userId: string, username: string): string {
+  const payload: AccessTokenPayload = { sub: userId, username, type: 'access' };
+  return jwt.sign(payload, getJwtSecret(), {
+    expiresIn: (process.env.JWT_EXPIRES_IN || DEFAULT_ACCESS_TOKEN_TTL) as jwt.SignOptions['expiresIn']
+  });
+}
+
+// Refresh 토큰 발급 (jti로 Redis에서 폐기 여부를 추적)
+export function signRefreshToken(userId: string): IssuedRefreshToken {
+  const jti = randomUUID();
+  const expiresInSeconds = getRefreshTokenTtlSeconds();
+  const payload: RefreshTokenPayload = { sub: userId, jti, type: 'refresh' };
+  const token = jwt.sign(payload, getRefreshSecret(), { expiresIn: expiresInSeconds });
+
+  return { token, jti, expiresInSeconds };
+}
+
+// Access 토큰 검증 - 실패 시 JsonWebTokenError / TokenExpiredError를 던짐
+export function verifyAccessToken(token: string): AccessTokenPayload {
+  const payload = jwt.verify(token, getJwtSecret()) as jwt.JwtPayload;
+  if (payload.type !== 'access' || typeof payload.sub !== 'string') {
+    throw new jwt.JsonWebTokenError('Invalid token type');
+  }
+  return payload as AccessTokenPayload;
+}
+
+// Refresh 토큰 검증
+export function verifyRefreshToken(token: string): RefreshTokenPayload {
+  const payload = jwt.verify(token, getRefreshSecret()) as jwt.JwtPayload;
+  if (payload.type !== 'refresh' || typeof payload.sub !== 'string' || !payload.jti) {
+    throw new jwt.JsonWebTokenError('Invalid token type');
+  }
+  return payload as RefreshTokenPayload;
+}
+
+// Authorization 헤더에서 Bearer 토큰 추출
+export function extractBearerToken(header?: string): string | null {
+  if (!header) {
+    return null;
+  }
+  const [scheme, token] = header.split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    return null;
+  }
+  return token;
+}
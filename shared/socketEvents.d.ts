@@ -0,0 +1,308 @@
+// 클라이언트와 서버가 공유하는 Socket.IO 이벤트 계약
+// 클라이언트(`src/types`)와 서버(`server/src/socket`)가 모두 이 파일의 타입으로
+// 소켓을 제네릭 타입 지정하므로, 이벤트 이름이나 payload가 어긋나면 컴파일 시 오류가 납니다.
+// 타입 전용 선언 파일이므로 `import type`으로만 가져옵니다.
+
+// ==================== CRDT ====================
+
+// CRDT 필드 쓰기 시점 (Lamport 시계 + 쓴 클라이언트 ID)
+export interface CRDTStamp {
+  clock: number;
+  clientId: string;
+}
+
+// 필드 이름 -> 마지막 쓰기 스탬프
+export interface CRDTStamps {
+  [field: string]: CRDTStamp;
+}
+
+// 요소 ID -> 필드별 스탬프
+export interface ElementStamps {
+  [elementId: string]: CRDTStamps;
+}
+
+// ==================== 변경사항 / operation ====================
+
+export type ChangeType =
+  | 'property'
+  | 'position'
+  | 'create'
+  | 'remove'
+  | 'connection';
+
+// 요소 단위 변경사항
+export interface ChangeEvent {
+  type: ChangeType;
+  elementId: string;
+  elementType?: string;
+  // 바뀐 비즈니스 속성 (이름 → 값, null은 삭제)
+  // 하위 요소는 { $type, ...속성 } (등록되지 않은 확장 요소는 $ns 포함),
+  // 참조는 { $ref: id } (루트 요소 참조는 $root에 요소 전체 포함)
+  properties?: any;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  elementData?: any;
+  sourceId?: string;
+  targetId?: string;
+  waypoints?: Array<{ x: number; y: number }>;
+  // 외부 라벨 위치 (이벤트, 게이트웨이, 연결선 등; elementId는 라벨의 소유 요소)
+  label?: { x: number; y: number; width?: number; height?: number };
+  // 포함 관계: 부모 요소(프로세스/참여자/서브프로세스), 경계 이벤트의 호스트, 소속 레인
+  parentId?: string;
+  // 요소가 그려진 plane의 루트 BPMN 요소 ID (프로세스/협업, 펼쳐 볼 수 있는 서브프로세스)
+  // parentId가 rootId와 같으면 부모는 plane 루트 자체
+  rootId?: string;
+  hostId?: string;
+  laneIds?: string[];
+  timestamp: number;
+  userId?: string;
+  isRemote?: boolean;
+  stamps?: CRDTStamps;
+}
+
+// 서버가 시퀀스 번호를 부여한 operation
+export interface SequencedOperation {
+  diagramId: string;
+  seq: number;
+  userId: string;
+  username?: string;
+  changes: ChangeEvent[];
+  clientOpId?: string;
+  baseSeq?: number;
+  timestamp: string;
+}
+
+// join_diagram 시 서버가 보내는 상태 스냅샷 (스냅샷 XML + 이후 operation)
+export interface DiagramStateSnapshot {
+  diagramId: string;
+  bpmnXml: string;
+  version: number;
+  snapshotSeq: number;
+  lastSeq: number;
+  operations: SequencedOperation[];
+  // 스냅샷 XML에 반영된 필드들의 CRDT 스탬프
+  stamps?: ElementStamps;
+}
+
+// ==================== 참가자 ====================
+
+// 다이어그램 역할 (서버 권한 모델과 동일)
+export type DiagramRole = 'owner' | 'editor' | 'commenter' | 'viewer';
+
+export interface CursorPosition {
+  x: number;
+  y: number;
+  elementId?: string;
+  // 사용자가 보고 있는 plane의 루트 BPMN 요소 ID
+  rootId?: string;
+}
+
+// 협업 세션 참가자 정보
+export interface Participant {
+  userId: string;
+  username?: string;
+  socketId: string;
+  joinedAt: string;
+  cursor?: CursorPosition;
+  // 현재 선택한 요소 ID 목록
+  selection?: string[];
+}
+
+// 사용자 참여/떠남 알림
+export interface PresenceEvent {
+  userId: string;
+  username?: string;
+  timestamp: string;
+}
+
+// 원격 사용자 커서 위치
+export interface CursorUpdateEvent extends CursorPosition {
+  userId: string;
+  username?: string;
+  timestamp: string;
+}
+
+// 원격 사용자 요소 선택 (빈 배열이면 선택 해제)
+export interface SelectionUpdateEvent {
+  userId: string;
+  username?: string;
+  elementIds: string[];
+  timestamp: string;
+}
+
+// ==================== 요소 잠금 ====================
+
+// 편집 중인 요소의 소프트 잠금 (TTL이 지나면 자동 해제되므로 보유자가 주기적으로 갱신)
+export interface ElementLock {
+  elementId: string;
+  userId: string;
+  username?: string;
+  expiresAt: string;
+}
+
+// ==================== 클라이언트 -> 서버 payload ====================
+
+export interface AuthenticatePayload {
+  // 장시간 연결된 소켓의 재인증용 토큰 (생략 시 핸드셰이크 토큰 사용)
+  token?: string;
+}
+
+export interface DiagramRoomPayload {
+  diagramId: string;
+}
+
+export interface DiagramChangePayload {
+  diagramId: string;
+  changes: ChangeEvent[];
+  clientOpId?: string;
+  baseSeq?: number;
+}
+
+export interface RequestOperationsPayload {
+  diagramId: string;
+  sinceSeq: number;
+}
+
+export interface CursorMovePayload {
+  diagramId: string;
+  x: number;
+  y: number;
+  // 포인터 아래에 있는 요소
+  elementId?: string;
+  // 보고 있는 plane의 루트 BPMN 요소 ID
+  rootId?: string;
+}
+
+export interface ElementSelectPayload {
+  diagramId: string;
+  elementIds: string[];
+}
+
+// 잠금 획득/갱신 및 해제
+export interface ElementLockPayload {
+  diagramId: string;
+  elementId: string;
+}
+
+// ==================== 서버 -> 클라이언트 payload ====================
+
+export interface AuthenticatedPayload {
+  message: string;
+  userId: string;
+  username?: string;
+}
+
+export interface ChangeAckPayload {
+  diagramId: string;
+  clientOpId?: string;
+  seq: number;
+}
+
+export interface ChangeRejectedPayload {
+  diagramId: string;
+  clientOpId?: string;
+  reason: string;
+  // 다른 사용자가 잠근 요소 때문에 거부된 경우
+  lockedElementIds?: string[];
+}
+
+export interface OperationsPayload {
+  diagramId: string;
+  sinceSeq: number;
+  operations: SequencedOperation[];
+}
+
+export interface SnapshotCreatedPayload {
+  diagramId: string;
+  snapshotSeq: number;
+  timestamp: string;
+}
+
+export interface ElementLockedPayload extends ElementLock {
+  diagramId: string;
+}
+
+export interface ElementUnlockedPayload {
+  diagramId: string;
+  elementId: string;
+  userId: string;
+}
+
+// 다른 사용자가 이미 잠근 요소에 대한 잠금 요청 거부
+export interface LockDeniedPayload {
+  diagramId: string;
+  elementId: string;
+  lock: ElementLock;
+}
+
+export interface ValidationIssue {
+  // payload 내 위치 (예: `changes[0].elementId`)
+  path: string;
+  message: string;
+}
+
+// 스키마 검증에 실패한 payload에 대한 응답
+export interface ValidationErrorPayload {
+  event: keyof ClientToServerEvents;
+  message: string;
+  issues: ValidationIssue[];
+  diagramId?: string;
+  clientOpId?: string;
+}
+
+export interface ErrorPayload {
+  message: string;
+  diagramId?: string;
+}
+
+// ==================== 이벤트 맵 ====================
+
+// 클라이언트 -> 서버 이벤트
+export interface ClientToServerEvents {
+  authenticate: (payload: AuthenticatePayload) => void;
+  join_diagram: (payload: DiagramRoomPayload) => void;
+  leave_diagram: (payload: DiagramRoomPayload) => void;
+  diagram_change: (payload: DiagramChangePayload) => void;
+  request_operations: (payload: RequestOperationsPayload) => void;
+  request_diagram_state: (payload: DiagramRoomPayload) => void;
+  cursor_move: (payload: CursorMovePayload) => void;
+  element_select: (payload: ElementSelectPayload) => void;
+  element_lock: (payload: ElementLockPayload) => void;
+  element_unlock: (payload: ElementLockPayload) => void;
+}
+
+// 서버 -> 클라이언트 이벤트
+export interface ServerToClientEvents {
+  authenticated: (payload: AuthenticatedPayload) => void;
+  auth_error: (payload: { message: string }) => void;
+  diagram_joined: (payload: { diagramId: string; role: DiagramRole }) => void;
+  diagram_state: (state: DiagramStateSnapshot) => void;
+  diagram_updated: (operation: SequencedOperation) => void;
+  change_ack: (payload: ChangeAckPayload) => void;
+  change_rejected: (payload: ChangeRejectedPayload) => void;
+  operations: (payload: OperationsPayload) => void;
+  snapshot_created: (payload: SnapshotCreatedPayload) => void;
+  cursor_updated: (payload: CursorUpdateEvent) => void;
+  selection_updated: (payload: SelectionUpdateEvent) => void;
+  element_locks: (payload: { diagramId: string; locks: ElementLock[] }) => void;
+  element_locked: (payload: ElementLockedPayload) => void;
+  element_unlocked: (payload: ElementUnlockedPayload) => void;
+  lock_denied: (payload: LockDeniedPayload) => void;
+  user_joined: (payload: PresenceEvent) => void;
+  user_left: (payload: PresenceEvent) => void;
+  participants_updated: (payload: { participants: Participant[] }) => void;
+  validation_error: (payload: ValidationErrorPayload) => void;
+  error: (payload: ErrorPayload) => void;
+}
+
+// 서버 간 이벤트 (현재 없음)
+export interface InterServerEvents {}
+
+// 서버 소켓별 데이터 (핸드셰이크 인증 및 join_diagram에서 설정)
+export interface SocketData {
+  userId?: string;
+  username?: string;
+  diagramRoles?: { [diagramId: string]: DiagramRole };
+}
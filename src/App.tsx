@@ -1,13 +1,81 @@
-import React, { useRef, useState } from 'react';
-import { BPMNEditor } from './components';
-import { ElementChangeEvent, BPMNEditorRef } from './types/bpmn';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  CollaborationManager,
+  CollaborationManagerRef,
+  DiagramLibrary,
+  LoginScreen,
+} from './components';
+import { ElementChangeEvent } from './types/bpmn';
+import { AuthUser } from './types/auth';
+import { Diagram } from './types/diagram';
+import { AuthApi, DiagramApi } from './services/api';
+import { AuthSession } from './services/auth';
+import { useRoute } from './hooks';
 import './App.css';
 
+const headerButtonStyle: React.CSSProperties = {
+  padding: '8px 16px',
+  backgroundColor: '#61dafb',
+  color: '#282c34',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer',
+};
+
 function App() {
-  const editorRef = useRef<BPMNEditorRef>(null);
+  const editorRef = useRef<CollaborationManagerRef>(null);
+  const [route, navigate] = useRoute();
+  const session = useMemo(() => new AuthSession({ api: new AuthApi() }), []);
+  const [user, setUser] = useState<AuthUser | null>(() =>
+    session.isAuthenticated() ? session.getUser() : null
+  );
+  const getToken = () => session.getAccessToken();
+  const refreshToken = () => session.refresh();
+  const api = useMemo(
+    () =>
+      new DiagramApi({
+        getToken: () => session.getAccessToken(),
+        refreshToken: () => session.refresh(),
+      }),
+    [session]
+  );
+  const [diagram, setDiagram] = useState<Diagram | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [selectedElement, setSelectedElement] = useState<string>('');
   const [changeLog, setChangeLog] = useState<ElementChangeEvent[]>([]);
 
+  const diagramId = route.name === 'diagram' ? route.diagramId : null;
+  const isSignedIn = !!user;
+
+  // Back to the login screen when signing out or once the session can't be
+  // refreshed any more
+  useEffect(() => session.onChange(setUser), [session]);
+
+  // Fetch the diagram before mounting the editor so it opens with its saved XML
+  useEffect(() => {
+    setDiagram(null);
+    setLoadError(null);
+    setSelectedElement('');
+    setChangeLog([]);
+    if (!diagramId || !isSignedIn) return;
+
+    let cancelled = false;
+    api
+      .getDiagram(diagramId)
+      .then(result => {
+        if (!cancelled) setDiagram(result);
+      })
+      .catch(error => {
+        if (!cancelled) {
+          setLoadError(`Failed to open diagram: ${error.message}`);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [api, diagramId, isSignedIn]);
+
   const handleElementChange = (event: ElementChangeEvent) => {
     console.log('Element changed:', event);
     setChangeLog(prev => [...prev.slice(-9), event]); // Keep last 10 changes
@@ -29,7 +97,7 @@ function App() {
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = 'diagram.bpmn';
+        a.download = `${diagram?.title || 'diagram'}.bpmn`;
         document.body.appendChild(a);
         a.click();
         document.body.removeChild(a);
@@ -49,7 +117,7 @@ function App() {
       if (file && editorRef.current) {
         try {
           const xml = await file.text();
-          await editorRef.current.importXML(xml);
+          await editorRef.current.importDiagram(xml);
           console.log('Imported XML successfully');
         } catch (error) {
           console.error('Failed to import XML:', error);
@@ -75,135 +143,172 @@ function App() {
           alignItems: 'center',
         }}
       >
-        <h1 style={{ margin: 0, fontSize: '1.5rem' }}>
-          BPMN Collaboration Tool
-        </h1>
-        <div style={{ display: 'flex', gap: '10px' }}>
-          <button
-            onClick={handleExportXML}
-            style={{
-              padding: '8px 16px',
-              backgroundColor: '#61dafb',
-              color: '#282c34',
-              border: 'none',
-              borderRadius: '4px',
-              cursor: 'pointer',
-            }}
-          >
-            Export BPMN
-          </button>
-          <button
-            onClick={handleImportXML}
-            style={{
-              padding: '8px 16px',
-              backgroundColor: '#61dafb',
-              color: '#282c34',
-              border: 'none',
-              borderRadius: '4px',
-              cursor: 'pointer',
-            }}
-          >
-            Import BPMN
-          </button>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '16px' }}>
+          <h1 style={{ margin: 0, fontSize: '1.5rem' }}>
+            BPMN Collaboration Tool
+          </h1>
+          {user && diagramId && (
+            <>
+              <button
+                onClick={() => navigate({ name: 'library' })}
+                style={{
+                  ...headerButtonStyle,
+                  backgroundColor: 'transparent',
+                  color: 'white',
+                  border: '1px solid #61dafb',
+                }}
+              >
+                All diagrams
+              </button>
+              {diagram && <span>{diagram.title}</span>}
+            </>
+          )}
         </div>
+        {user && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+            {diagram && (
+              <>
+                <button onClick={handleExportXML} style={headerButtonStyle}>
+                  Export BPMN
+                </button>
+                <button onClick={handleImportXML} style={headerButtonStyle}>
+                  Import BPMN
+                </button>
+              </>
+            )}
+            <span>{user.username}</span>
+            <button
+              onClick={() => session.logout()}
+              style={{
+                ...headerButtonStyle,
+                backgroundColor: 'transparent',
+                color: 'white',
+                border: '1px solid #61dafb',
+              }}
+            >
+              Sign out
+            </button>
+          </div>
+        )}
       </header>
 
       {/* Main content */}
-      <div style={{ flex: 1, display: 'flex' }}>
-        {/* BPMN Editor */}
-        <div style={{ flex: 1 }}>
-          <BPMNEditor
-            ref={editorRef}
-            diagramId="test-diagram-1"
-            onElementChange={handleElementChange}
-            onSelectionChange={handleSelectionChange}
+      {!user ? (
+        <div style={{ flex: 1, overflow: 'auto', backgroundColor: '#fafafa' }}>
+          <LoginScreen session={session} />
+        </div>
+      ) : !diagramId ? (
+        <div style={{ flex: 1, overflow: 'auto', backgroundColor: '#fafafa' }}>
+          <DiagramLibrary
+            api={api}
+            onOpenDiagram={id => navigate({ name: 'diagram', diagramId: id })}
           />
         </div>
+      ) : !diagram ? (
+        <div style={{ padding: '20px', color: loadError ? '#c62828' : '#666' }}>
+          {loadError || 'Opening diagram...'}
+        </div>
+      ) : (
+        <div style={{ flex: 1, display: 'flex' }}>
+          {/* BPMN Editor with realtime collaboration */}
+          <div style={{ flex: 1 }}>
+            <CollaborationManager
+              key={diagram.id}
+              ref={editorRef}
+              diagramId={diagram.id}
+              initialXML={diagram.bpmnXml}
+              getToken={getToken}
+              refreshToken={refreshToken}
+              onElementChange={handleElementChange}
+              onSelectionChange={handleSelectionChange}
+            />
+          </div>
 
-        {/* Side panel for debugging */}
-        <div
-          style={{
-            width: '300px',
-            backgroundColor: '#f5f5f5',
-            borderLeft: '1px solid #ddd',
-            padding: '10px',
-            overflow: 'auto',
-          }}
-        >
-          <h3 style={{ margin: '0 0 10px 0' }}>Debug Panel</h3>
-
-          <div style={{ marginBottom: '15px' }}>
-            <strong>Selected Element:</strong>
-            <div
-              style={{
-                padding: '5px',
-                backgroundColor: 'white',
-                border: '1px solid #ddd',
-                borderRadius: '3px',
-                fontSize: '12px',
-                marginTop: '5px',
-              }}
-            >
-              {selectedElement || 'None'}
+          {/* Side panel for debugging */}
+          <div
+            style={{
+              width: '300px',
+              backgroundColor: '#f5f5f5',
+              borderLeft: '1px solid #ddd',
+              padding: '10px',
+              overflow: 'auto',
+            }}
+          >
+            <h3 style={{ margin: '0 0 10px 0' }}>Debug Panel</h3>
+
+            <div style={{ marginBottom: '15px' }}>
+              <strong>Selected Element:</strong>
+              <div
+                style={{
+                  padding: '5px',
+                  backgroundColor: 'white',
+                  border: '1px solid #ddd',
+                  borderRadius: '3px',
+                  fontSize: '12px',
+                  marginTop: '5px',
+                }}
+              >
+                {selectedElement || 'None'}
+              </div>
             </div>
-          </div>
 
-          <div>
-            <strong>Recent Changes:</strong>
-            <div
-              style={{
-                maxHeight: '400px',
-                overflow: 'auto',
-                marginTop: '5px',
-              }}
-            >
-              {changeLog.length === 0 ? (
-                <div
-                  style={{
-                    padding: '10px',
-                    backgroundColor: 'white',
-                    border: '1px solid #ddd',
-                    borderRadius: '3px',
-                    fontSize: '12px',
-                    color: '#666',
-                  }}
-                >
-                  No changes yet. Try adding, moving, or modifying elements in
-                  the diagram.
-                </div>
-              ) : (
-                changeLog
-                  .slice()
-                  .reverse()
-                  .map((change, index) => (
-                    <div
-                      key={index}
-                      style={{
-                        padding: '8px',
-                        backgroundColor: 'white',
-                        border: '1px solid #ddd',
-                        borderRadius: '3px',
-                        marginBottom: '5px',
-                        fontSize: '11px',
-                      }}
-                    >
-                      <div>
-                        <strong>Type:</strong> {change.type}
-                      </div>
-                      <div>
-                        <strong>Element:</strong> {change.elementId}
-                      </div>
-                      <div>
-                        <strong>Time:</strong>{' '}
-                        {new Date(change.timestamp).toLocaleTimeString()}
+            <div>
+              <strong>Recent Changes:</strong>
+              <div
+                style={{
+                  maxHeight: '400px',
+                  overflow: 'auto',
+                  marginTop: '5px',
+                }}
+              >
+                {changeLog.length === 0 ? (
+                  <div
+                    style={{
+                      padding: '10px',
+                      backgroundColor: 'white',
+                      border: '1px solid #ddd',
+                      borderRadius: '3px',
+                      fontSize: '12px',
+                      color: '#666',
+                    }}
+                  >
+                    No changes yet. Try adding, moving, or modifying elements in
+                    the diagram.
+                  </div>
+                ) : (
+                  changeLog
+                    .slice()
+                    .reverse()
+                    .map((change, index) => (
+                      <div
+                        key={index}
+                        style={{
+                          padding: '8px',
+                          backgroundColor: 'white',
+                          border: '1px solid #ddd',
+                          borderRadius: '3px',
+                          marginBottom: '5px',
+                          fontSize: '11px',
+                        }}
+                      >
+                        <div>
+                          <strong>Type:</strong> {change.type}
+                        </div>
+                        <div>
+                          <strong>Element:</strong> {change.elementId}
+                        </div>
+                        <div>
+                          <strong>Time:</strong>{' '}
+                          {new Date(change.timestamp).toLocaleTimeString()}
+                        </div>
                       </div>
-                    </div>
-                  ))
-              )}
+                    ))
+                )}
+              </div>
             </div>
           </div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
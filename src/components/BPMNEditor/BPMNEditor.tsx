@@ -12,12 +12,22 @@ import {
   BPMNEditorRef,
   Canvas,
   EventBus,
+  CollaborationEventManager as CollaborationEventManagerType,
+  CollaborativeUndoManager as CollaborativeUndoManagerType,
 } from '../../types/bpmn';
+import { SaveStatus } from '../../types/diagram';
+import { DiagramStateSnapshot } from '../../types/collaboration';
 import {
   SilentCommandStackModule,
   SilentModelingModule,
+  RemoteCursorsModule,
+  RemoteSelectionsModule,
+  ElementLocksModule,
   SilentCommandStack,
   SilentModeling,
+  SilentUpdateService,
+  CollaborationEventManager,
+  CollaborativeUndoManager,
 } from '../../services/bpmn';
 
 // Import bpmn-js CSS
@@ -46,10 +56,29 @@ const DEFAULT_BPMN_XML = `<?xml version="1.0" encoding="UTF-8"?>
   </bpmndi:BPMNDiagram>
 </bpmn2:definitions>`;
 
+const SAVE_STATUS_LABELS: { [status in SaveStatus]: string } = {
+  saved: 'All changes saved',
+  saving: 'Saving...',
+  unsaved: 'Unsaved changes',
+  conflict: 'Save conflict',
+};
+
 const BPMNEditor = forwardRef<BPMNEditorRef, BPMNEditorProps>((props, ref) => {
-  const { diagramId, initialXML, onElementChange, onSelectionChange } = props;
+  const {
+    diagramId,
+    initialXML,
+    onElementChange,
+    onSelectionChange,
+    offlineStatus,
+    saveStatus,
+    onResolveSaveConflict,
+  } = props;
   const containerRef = useRef<HTMLDivElement>(null);
   const modelerRef = useRef<BpmnModeler | null>(null);
+  const collaborationManagerRef = useRef<CollaborationEventManager | null>(
+    null
+  );
+  const undoManagerRef = useRef<CollaborativeUndoManager | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -62,11 +91,29 @@ const BPMNEditor = forwardRef<BPMNEditorRef, BPMNEditorProps>((props, ref) => {
       keyboard: {
         bindTo: window,
       },
-      additionalModules: [SilentCommandStackModule, SilentModelingModule],
+      additionalModules: [
+        SilentCommandStackModule,
+        SilentModelingModule,
+        RemoteCursorsModule,
+        RemoteSelectionsModule,
+        ElementLocksModule,
+      ],
     });
 
     modelerRef.current = modeler;
 
+    // 협업 이벤트 관리자 (로컬/원격 변경사항 구분)
+    collaborationManagerRef.current = new CollaborationEventManager(
+      modeler,
+      new SilentUpdateService(modeler)
+    );
+
+    // Per-user undo/redo: only reverts this user's changes, replaces Ctrl+Z/Ctrl+Y
+    undoManagerRef.current = new CollaborativeUndoManager(
+      modeler,
+      collaborationManagerRef.current
+    );
+
     // Load initial diagram
     const xmlToLoad = initialXML || DEFAULT_BPMN_XML;
 
@@ -93,6 +140,14 @@ const BPMNEditor = forwardRef<BPMNEditorRef, BPMNEditorProps>((props, ref) => {
 
     // Cleanup function
     return () => {
+      if (undoManagerRef.current) {
+        undoManagerRef.current.cleanup();
+        undoManagerRef.current = null;
+      }
+      if (collaborationManagerRef.current) {
+        collaborationManagerRef.current.cleanup();
+        collaborationManagerRef.current = null;
+      }
       if (modelerRef.current) {
         modelerRef.current.destroy();
         modelerRef.current = null;
@@ -340,6 +395,26 @@ const BPMNEditor = forwardRef<BPMNEditorRef, BPMNEditorProps>((props, ref) => {
     return (modelerRef.current as any).get('silentModeling') as SilentModeling;
   };
 
+  const getCollaborationEventManager =
+    (): CollaborationEventManagerType | null => collaborationManagerRef.current;
+
+  const getCollaborativeUndoManager = (): CollaborativeUndoManagerType | null =>
+    undoManagerRef.current;
+
+  // Late-joiner sync: load the persisted snapshot, then replay sequenced ops
+  const loadDiagramState = async (
+    state: DiagramStateSnapshot
+  ): Promise<void> => {
+    await importXML(state.bpmnXml);
+
+    const collaborationManager = collaborationManagerRef.current;
+    if (collaborationManager) {
+      collaborationManager.resetSequence(state.snapshotSeq);
+      collaborationManager.resetElementState(state.stamps);
+      collaborationManager.applySequencedOperations(state.operations);
+    }
+  };
+
   // Expose methods to parent component
   useImperativeHandle(ref, () => ({
     exportXML,
@@ -352,8 +427,15 @@ const BPMNEditor = forwardRef<BPMNEditorRef, BPMNEditorProps>((props, ref) => {
     applySilentBatchUpdates,
     getSilentCommandStack,
     getSilentModeling,
+    getCollaborationEventManager,
+    getCollaborativeUndoManager,
+    loadDiagramState,
   }));
 
+  const showOfflineIndicator =
+    !!offlineStatus &&
+    (offlineStatus.isOffline || offlineStatus.queuedChanges > 0);
+
   return (
     <div
       className="bpmn-editor"
@@ -380,7 +462,58 @@ const BPMNEditor = forwardRef<BPMNEditorRef, BPMNEditorProps>((props, ref) => {
         <button onClick={zoomToFit} disabled={isLoading}>
           Fit to Screen
         </button>
-        <span style={{ marginLeft: 'auto', fontSize: '12px', color: '#666' }}>
+        {showOfflineIndicator && offlineStatus && (
+          <span
+            className="bpmn-offline-indicator"
+            title="Changes are saved locally and sent when the connection returns"
+            style={{
+              marginLeft: 'auto',
+              padding: '2px 8px',
+              fontSize: '12px',
+              borderRadius: '3px',
+              backgroundColor: offlineStatus.isOffline ? '#ffebee' : '#fff8e1',
+              color: offlineStatus.isOffline ? '#c62828' : '#f57f17',
+            }}
+          >
+            {offlineStatus.isOffline ? 'Offline' : 'Syncing'}
+            {offlineStatus.queuedChanges > 0 &&
+              ` (${offlineStatus.queuedChanges} queued change${
+                offlineStatus.queuedChanges === 1 ? '' : 's'
+              })`}
+          </span>
+        )}
+        {saveStatus && (
+          <span
+            className="bpmn-save-status"
+            style={{
+              marginLeft: showOfflineIndicator ? undefined : 'auto',
+              fontSize: '12px',
+              color: saveStatus === 'conflict' ? '#c62828' : '#666',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '4px',
+            }}
+          >
+            {SAVE_STATUS_LABELS[saveStatus]}
+            {saveStatus === 'conflict' && onResolveSaveConflict && (
+              <>
+                <button onClick={() => onResolveSaveConflict('overwrite')}>
+                  Keep mine
+                </button>
+                <button onClick={() => onResolveSaveConflict('reload')}>
+                  Load theirs
+                </button>
+              </>
+            )}
+          </span>
+        )}
+        <span
+          style={{
+            marginLeft: showOfflineIndicator || saveStatus ? undefined : 'auto',
+            fontSize: '12px',
+            color: '#666',
+          }}
+        >
           Diagram: {diagramId}
         </span>
       </div>
@@ -0,0 +1,304 @@
+/**
+ * CollaborationManager 테스트
+ */
+
+import { createRef } from 'react';
+import { act, render } from '@testing-library/react';
+import CollaborationManager, {
+  CollaborationManagerRef,
+} from './CollaborationManager';
+
+// 캔버스를 XML 문자열 하나로 표현하는 Mock 에디터
+let canvasXML = '';
+let mockEditor: any;
+
+jest.mock('../BPMNEditor/BPMNEditor', () => {
+  const { forwardRef, useImperativeHandle } = jest.requireActual('react');
+  return {
+    __esModule: true,
+    default: forwardRef((_props: any, ref: any) => {
+      useImperativeHandle(ref, () => mockEditor);
+      return null;
+    }),
+  };
+});
+
+// 등록된 서버 이벤트 핸들러를 직접 호출할 수 있는 Mock 클라이언트
+const mockClients: any[] = [];
+
+jest.mock('../../services/realtime', () => ({
+  RealtimeClient: class {
+    handlers = new Map<string, any>();
+    requestDiagramState = jest.fn();
+    sendChanges = jest.fn(() => true);
+
+    constructor() {
+      mockClients.push(this);
+    }
+
+    on(event: string, handler: any) {
+      this.handlers.set(event, handler);
+      return () => this.handlers.delete(event);
+    }
+
+    emitServerEvent(event: string, payload: any) {
+      this.handlers.get(event)?.(payload);
+    }
+
+    onConnectionStateChange() {
+      return () => {};
+    }
+
+    connect() {
+      return Promise.resolve({ userId: 'user-1' });
+    }
+
+    connected = true;
+
+    isConnected() {
+      return this.connected;
+    }
+
+    joinDiagram() {}
+    leaveDiagram() {}
+    requestOperations() {}
+    cleanup() {}
+  },
+  OfflineQueue: class {
+    count() {
+      return Promise.resolve(0);
+    }
+    enqueue() {
+      return Promise.resolve();
+    }
+    getAll() {
+      return Promise.resolve([]);
+    }
+    clear() {
+      return Promise.resolve();
+    }
+    close() {}
+  },
+}));
+
+// 저장 요청을 확인할 수 있는 Mock API (자동 저장은 실제 서비스 사용)
+const mockApi = {
+  getDiagram: jest.fn(),
+  updateDiagram: jest.fn(),
+};
+
+jest.mock('../../services/api', () => ({
+  ...jest.requireActual('../../services/api'),
+  DiagramApi: class {
+    getDiagram = mockApi.getDiagram;
+    updateDiagram = mockApi.updateDiagram;
+  },
+}));
+
+const serverState = {
+  diagramId: 'diagram1',
+  bpmnXml: '<server-state />',
+  version: 3,
+  snapshotSeq: 5,
+  stamps: {},
+  operations: [],
+};
+
+describe('CollaborationManager', () => {
+  // 캔버스 변경 구독자 (로컬 편집 발생을 흉내)
+  let observers: any[];
+
+  beforeEach(() => {
+    mockClients.length = 0;
+    mockApi.getDiagram.mockResolvedValue({ version: 3 });
+    mockApi.updateDiagram.mockResolvedValue({ version: 4 });
+    // 서버가 거부할 로컬 편집이 이미 캔버스에 반영된 상태
+    canvasXML = '<rejected-local-edit />';
+    observers = [];
+    mockEditor = {
+      getModeler: () => null,
+      getCollaborationEventManager: () => ({
+        getLastAppliedSeq: () => 5,
+        onLocalChange: jest.fn(),
+        onSequenceGap: jest.fn(),
+        observeChanges: (observer: any) => {
+          observers.push(observer);
+          return () => {};
+        },
+        applySequencedOperations: jest.fn(),
+        acknowledgeLocalOperation: jest.fn(),
+      }),
+      exportXML: jest.fn(() => Promise.resolve(canvasXML)),
+      importXML: jest.fn((xml: string) => {
+        canvasXML = xml;
+        return Promise.resolve();
+      }),
+      loadDiagramState: jest.fn((state: any) => {
+        canvasXML = state.bpmnXml;
+        return Promise.resolve();
+      }),
+    };
+  });
+
+  const mountManager = async () => {
+    render(
+      <CollaborationManager diagramId="diagram1" getToken={() => 'token'} />
+    );
+    // 연결 완료 처리
+    await act(() => Promise.resolve());
+    return mockClients[mockClients.length - 1];
+  };
+
+  describe('거부된 변경사항', () => {
+    it('거부되면 서버 상태를 다시 받아 캔버스를 서버와 일치시켜야 한다', async () => {
+      const client = await mountManager();
+
+      act(() => {
+        client.emitServerEvent('change_rejected', {
+          diagramId: 'diagram1',
+          clientOpId: 'op-1',
+          reason: 'Insufficient permissions to edit this diagram',
+        });
+      });
+
+      expect(client.requestDiagramState).toHaveBeenCalledWith('diagram1');
+
+      await act(async () => {
+        client.emitServerEvent('diagram_state', serverState);
+      });
+
+      expect(mockEditor.loadDiagramState).toHaveBeenCalledWith(serverState);
+      expect(canvasXML).toBe(serverState.bpmnXml);
+    });
+
+    it('재동기화 중에 도착한 거부는 상태를 한 번만 요청해야 한다', async () => {
+      const client = await mountManager();
+
+      act(() => {
+        client.emitServerEvent('change_rejected', {
+          diagramId: 'diagram1',
+          clientOpId: 'op-1',
+          reason: 'Failed to apply change',
+        });
+        client.emitServerEvent('change_rejected', {
+          diagramId: 'diagram1',
+          clientOpId: 'op-2',
+          reason: 'Failed to apply change',
+        });
+      });
+
+      expect(client.requestDiagramState).toHaveBeenCalledTimes(1);
+
+      // 상태를 받은 이후의 거부는 다시 요청
+      await act(async () => {
+        client.emitServerEvent('diagram_state', serverState);
+      });
+      act(() => {
+        client.emitServerEvent('change_rejected', {
+          diagramId: 'diagram1',
+          clientOpId: 'op-3',
+          reason: 'Failed to apply change',
+        });
+      });
+
+      expect(client.requestDiagramState).toHaveBeenCalledTimes(2);
+    });
+
+    it('다른 다이어그램의 거부는 무시해야 한다', async () => {
+      const client = await mountManager();
+
+      act(() => {
+        client.emitServerEvent('change_rejected', {
+          diagramId: 'diagram2',
+          clientOpId: 'op-1',
+          reason: 'Failed to apply change',
+        });
+      });
+
+      expect(client.requestDiagramState).not.toHaveBeenCalled();
+      expect(canvasXML).toBe('<rejected-local-edit />');
+    });
+  });
+
+  describe('가져오기', () => {
+    it('가져온 XML을 불러온 뒤 세션 상태를 바꾸는 저장을 요청해야 한다', async () => {
+      const ref = createRef<CollaborationManagerRef>();
+      render(
+        <CollaborationManager
+          ref={ref}
+          diagramId="diagram1"
+          getToken={() => 'token'}
+        />
+      );
+      await act(() => Promise.resolve());
+
+      await act(() => ref.current!.importDiagram('<imported />'));
+
+      expect(mockEditor.importXML).toHaveBeenCalledWith('<imported />');
+      expect(canvasXML).toBe('<imported />');
+      expect(mockApi.updateDiagram).toHaveBeenCalledWith(
+        'diagram1',
+        expect.objectContaining({ bpmnXml: '<imported />', replace: true }),
+        { keepalive: undefined }
+      );
+    });
+  });
+
+  describe('마지막 저장', () => {
+    it('연결이 끊긴 상태에서 저장하지 않은 변경이 있으면 언마운트할 때 현재 XML을 저장해야 한다', async () => {
+      const { unmount } = render(
+        <CollaborationManager diagramId="diagram1" getToken={() => 'token'} />
+      );
+      await act(() => Promise.resolve());
+      mockClients[0].connected = false;
+
+      act(() => {
+        canvasXML = '<unsaved-edit />';
+        observers.forEach(observer => observer.onLocalChange());
+      });
+      unmount();
+      // 편집기가 정리된 뒤에도 언마운트 시점에 내보낸 XML로 저장
+      canvasXML = '';
+      await act(() => new Promise(resolve => setTimeout(resolve)));
+
+      expect(mockApi.updateDiagram).toHaveBeenCalledTimes(1);
+      expect(mockApi.updateDiagram).toHaveBeenCalledWith(
+        'diagram1',
+        expect.objectContaining({
+          bpmnXml: '<unsaved-edit />',
+          expectedVersion: 3,
+          autosave: true,
+        }),
+        { keepalive: undefined }
+      );
+    });
+
+    it('실시간 세션에 연결되어 있으면 변경을 XML로 다시 저장하지 않아야 한다', async () => {
+      const { unmount } = render(
+        <CollaborationManager diagramId="diagram1" getToken={() => 'token'} />
+      );
+      await act(() => Promise.resolve());
+
+      act(() => {
+        observers.forEach(observer => observer.onLocalChange());
+      });
+      unmount();
+      await act(() => new Promise(resolve => setTimeout(resolve)));
+
+      expect(mockApi.updateDiagram).not.toHaveBeenCalled();
+    });
+
+    it('변경이 없으면 언마운트할 때 저장하지 않아야 한다', async () => {
+      const { unmount } = render(
+        <CollaborationManager diagramId="diagram1" getToken={() => 'token'} />
+      );
+      await act(() => Promise.resolve());
+
+      unmount();
+      await act(() => new Promise(resolve => setTimeout(resolve)));
+
+      expect(mockEditor.exportXML).not.toHaveBeenCalled();
+      expect(mockApi.updateDiagram).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,807 @@
+import {
+  forwardRef,
+  useEffect,
+  useImperativeHandle,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from 'react';
+import BPMNEditor from '../BPMNEditor/BPMNEditor';
+import { BPMNEditorRef, ElementChangeEvent } from '../../types/bpmn';
+import { Participant, User } from '../../types/collaboration';
+import { ChangeEvent } from '../../types/bpmn';
+import { SaveStatus } from '../../types/diagram';
+import {
+  ConnectionState,
+  OfflineQueue,
+  RealtimeClient,
+} from '../../services/realtime';
+import { DiagramApi } from '../../services/api';
+import { DiagramPersistenceService } from '../../services/persistence';
+import {
+  ElementLocks,
+  RemoteCursors,
+  RemoteSelections,
+} from '../../services/bpmn';
+import {
+  AWAY_TIMEOUT_MS,
+  CURSOR_THROTTLE_MS,
+  ELEMENT_LOCK_RENEW_MS,
+} from '../../constants';
+import { getUserColor } from '../../utils';
+
+export interface CollaborationManagerRef extends BPMNEditorRef {
+  // Replace the diagram for everyone: saved right away, other editors reload
+  importDiagram: (xml: string) => Promise<void>;
+}
+
+export interface CollaborationManagerProps {
+  diagramId: string;
+  initialXML?: string;
+  // Access token for the socket handshake (read on every (re)connect)
+  getToken: () => string | null;
+  // Renews an expired access token; resolves null when the session is over
+  refreshToken?: () => Promise<string | null>;
+  onElementChange?: (event: ElementChangeEvent) => void;
+  onSelectionChange?: (elementId: string) => void;
+}
+
+const CONNECTION_LABELS: { [state in ConnectionState]: string } = {
+  disconnected: 'Offline',
+  connecting: 'Connecting...',
+  connected: 'Connected',
+  reconnecting: 'Reconnecting...',
+};
+
+const CONNECTION_COLORS: { [state in ConnectionState]: string } = {
+  disconnected: '#c62828',
+  connecting: '#f9a825',
+  connected: '#2e7d32',
+  reconnecting: '#f9a825',
+};
+
+// How often away status is re-evaluated
+const PRESENCE_CHECK_INTERVAL_MS = 10000;
+
+const toRosterUser = (userId: string, username?: string): User => ({
+  id: userId,
+  name: username || userId,
+  color: getUserColor(userId),
+  isActive: true,
+});
+
+const CollaborationManager = forwardRef<
+  CollaborationManagerRef,
+  CollaborationManagerProps
+>((props, ref) => {
+  const {
+    diagramId,
+    initialXML,
+    getToken,
+    refreshToken,
+    onElementChange,
+    onSelectionChange,
+  } = props;
+  const editorRef = useRef<BPMNEditorRef>(null);
+  const clientRef = useRef<RealtimeClient | null>(null);
+  const persistenceRef = useRef<DiagramPersistenceService | null>(null);
+  const getTokenRef = useRef(getToken);
+  const refreshTokenRef = useRef(refreshToken);
+  const currentUserIdRef = useRef<string | null>(null);
+  // userId -> last time we saw activity (join, cursor move, change)
+  const lastActivityRef = useRef(new Map<string, number>());
+  const resolveSaveConflictRef = useRef<
+    ((resolution: 'overwrite' | 'reload') => void) | null
+  >(null);
+  const importDiagramRef = useRef<((xml: string) => Promise<void>) | null>(
+    null
+  );
+
+  const [connectionState, setConnectionState] =
+    useState<ConnectionState>('disconnected');
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [users, setUsers] = useState<User[]>([]);
+  const [lastError, setLastError] = useState<string | null>(null);
+  const [queuedChanges, setQueuedChanges] = useState(0);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('saved');
+
+  getTokenRef.current = getToken;
+  refreshTokenRef.current = refreshToken;
+
+  // Parents talk to the wrapped editor directly
+  useImperativeHandle(ref, () => ({
+    ...(editorRef.current as BPMNEditorRef),
+    importDiagram: xml =>
+      importDiagramRef.current
+        ? importDiagramRef.current(xml)
+        : Promise.reject(new Error('Editor is not ready')),
+  }));
+
+  useEffect(() => {
+    const collaborationManager =
+      editorRef.current?.getCollaborationEventManager();
+    const modeler = editorRef.current?.getModeler();
+    const remoteCursors: RemoteCursors | undefined =
+      modeler?.get('remoteCursors');
+    const remoteSelections: RemoteSelections | undefined =
+      modeler?.get('remoteSelections');
+    const elementLocks: ElementLocks | undefined = modeler?.get('elementLocks');
+    // Re-sent after (re)joining so the server knows what we have selected
+    let localSelection: string[] = [];
+    const renewToken = () =>
+      refreshTokenRef.current?.() ?? Promise.resolve(null);
+    const client = new RealtimeClient({
+      getToken: () => getTokenRef.current(),
+      refreshToken: renewToken,
+    });
+    // Outgoing changes made while disconnected, replayed after resync
+    const offlineQueue = new OfflineQueue();
+    let queuedCount = 0;
+    let isReplaying = false;
+    // Local changes made while the queue is being replayed
+    let deferredChanges: ChangeEvent[] = [];
+    // Whether the server state has been loaded since the last (re)connect
+    let isStateLoaded = false;
+    // Whether a full state reload has been requested to undo rejected changes
+    let isResyncing = false;
+    const lastActivity = lastActivityRef.current;
+    clientRef.current = client;
+    lastActivity.clear();
+    remoteCursors?.clear();
+    remoteSelections?.clear();
+    elementLocks?.clear();
+    setUsers([]);
+    setLastError(null);
+    setQueuedChanges(0);
+    setSaveStatus('saved');
+
+    // Autosave the full XML only while our changes can't reach the realtime
+    // session (disconnected or still queued); otherwise the operation log and
+    // its snapshot compaction already persist them. When a save does happen
+    // in sync with the session our XML contains everyone's sequenced changes,
+    // so version conflicts can be resolved by saving again on top of the
+    // latest version
+    const persistence = new DiagramPersistenceService({
+      diagramId,
+      api: new DiagramApi({
+        getToken: () => getTokenRef.current(),
+        refreshToken: renewToken,
+      }),
+      exportXML: () =>
+        editorRef.current
+          ? editorRef.current.exportXML()
+          : Promise.reject(new Error('Editor is not ready')),
+      getSnapshotSeq: () => collaborationManager?.getLastAppliedSeq() ?? 0,
+      canOverwriteOnConflict: () => client.isConnected() && queuedCount === 0,
+      shouldAutoSave: () => !client.isConnected() || queuedCount > 0,
+    });
+    persistenceRef.current = persistence;
+
+    const queueChanges = (changes: ChangeEvent[]) => {
+      queuedCount += changes.length;
+      setQueuedChanges(queuedCount);
+      offlineQueue.enqueue(diagramId, changes).catch(error => {
+        setLastError(`Failed to queue offline changes: ${error.message}`);
+      });
+    };
+
+    const sendOrQueue = (changes: ChangeEvent[]) => {
+      if (isReplaying) {
+        deferredChanges.push(...changes);
+        return;
+      }
+      // Keep order: once something is queued, later changes queue behind it
+      const sent =
+        queuedCount === 0 &&
+        client.sendChanges(
+          diagramId,
+          changes,
+          collaborationManager?.getLastAppliedSeq()
+        );
+      if (!sent) {
+        queueChanges(changes);
+      }
+    };
+
+    // Rebase queued changes onto the freshly loaded server state and send them
+    const replayOfflineChanges = async () => {
+      if (
+        isReplaying ||
+        queuedCount === 0 ||
+        !isStateLoaded ||
+        !collaborationManager
+      ) {
+        return;
+      }
+
+      isReplaying = true;
+      try {
+        const changes = await offlineQueue.getAll(diagramId);
+        const { applied, rejected } =
+          collaborationManager.rebaseLocalChanges(changes);
+
+        // Dropped again: keep the queue and retry after the next resync
+        if (
+          applied.length > 0 &&
+          !client.sendChanges(
+            diagramId,
+            applied,
+            collaborationManager.getLastAppliedSeq()
+          )
+        ) {
+          return;
+        }
+
+        await offlineQueue.clear(diagramId);
+        queuedCount = 0;
+        setQueuedChanges(0);
+
+        if (rejected.length > 0) {
+          setLastError(
+            `${rejected.length} offline change${
+              rejected.length === 1 ? '' : 's'
+            } could not be applied because the elements were changed or removed by others`
+          );
+        }
+      } catch (error: any) {
+        setLastError(`Failed to sync offline changes: ${error.message}`);
+      } finally {
+        isReplaying = false;
+        const deferred = deferredChanges;
+        deferredChanges = [];
+        if (deferred.length > 0) {
+          sendOrQueue(deferred);
+        }
+      }
+    };
+
+    // Changes queued in an earlier session (e.g. reloaded while offline)
+    offlineQueue
+      .count(diagramId)
+      .then(count => {
+        queuedCount += count;
+        setQueuedChanges(queuedCount);
+        replayOfflineChanges();
+      })
+      .catch(error => {
+        setLastError(`Failed to read offline changes: ${error.message}`);
+      });
+
+    const markActive = (userId: string, username?: string) => {
+      lastActivity.set(userId, Date.now());
+      setUsers(prev => {
+        const existing = prev.find(user => user.id === userId);
+        if (!existing) {
+          return [...prev, toRosterUser(userId, username)];
+        }
+        if (existing.isActive && (!username || existing.name === username)) {
+          return prev;
+        }
+        return prev.map(user =>
+          user.id === userId
+            ? { ...user, name: username || user.name, isActive: true }
+            : user
+        );
+      });
+    };
+
+    // Remember which diagram plane a collaborator is looking at
+    const setUserRoot = (userId: string, rootId?: string) => {
+      setUsers(prev =>
+        prev.some(user => user.id === userId && user.rootId !== rootId)
+          ? prev.map(user => (user.id === userId ? { ...user, rootId } : user))
+          : prev
+      );
+    };
+
+    resolveSaveConflictRef.current = resolution => {
+      if (resolution === 'overwrite') {
+        persistence.overwrite();
+        return;
+      }
+
+      // Drop our unsent changes along with the unsaved ones
+      queuedCount = 0;
+      setQueuedChanges(0);
+      offlineQueue.clear(diagramId).catch(error => {
+        setLastError(`Failed to clear offline changes: ${error.message}`);
+      });
+      const conflict = persistence.discardLocalChanges();
+      if (conflict) {
+        editorRef.current?.importXML(conflict.bpmnXml).catch(error => {
+          setLastError(`Failed to load saved diagram: ${error.message}`);
+        });
+      }
+    };
+
+    // Imports bypass change tracking, so save the new XML as a replacement of
+    // the session state instead of waiting for a local change
+    importDiagramRef.current = async xml => {
+      if (!editorRef.current) {
+        throw new Error('Editor is not ready');
+      }
+      await editorRef.current.importXML(xml);
+      await persistence.replace();
+    };
+
+    // Kept until the persistence is destroyed so a failed final save is reported
+    persistence.onError(error => {
+      setLastError(`Autosave failed: ${error.message}`);
+    });
+
+    const unsubscribers = [
+      persistence.onStatusChange(setSaveStatus),
+
+      client.onConnectionStateChange(state => {
+        if (state !== 'connected') {
+          isStateLoaded = false;
+          isResyncing = false;
+        }
+        setConnectionState(state);
+      }),
+
+      client.on('participants_updated', ({ participants }) => {
+        const now = Date.now();
+        const roster = new Map<string, User>();
+        remoteSelections?.clear();
+        participants.forEach((participant: Participant) => {
+          if (
+            participant.selection &&
+            participant.userId !== currentUserIdRef.current
+          ) {
+            remoteSelections?.setSelection({
+              userId: participant.userId,
+              name: participant.username || participant.userId,
+              color: getUserColor(participant.userId),
+              elementIds: participant.selection,
+            });
+          }
+          lastActivity.set(
+            participant.userId,
+            lastActivity.get(participant.userId) || now
+          );
+          roster.set(participant.userId, {
+            ...toRosterUser(participant.userId, participant.username),
+            rootId: participant.cursor?.rootId,
+          });
+        });
+        setUsers(Array.from(roster.values()));
+      }),
+
+      client.on('user_joined', ({ userId, username }) => {
+        markActive(userId, username);
+      }),
+
+      client.on('user_left', ({ userId }) => {
+        lastActivity.delete(userId);
+        remoteCursors?.removeCursor(userId);
+        remoteSelections?.removeSelection(userId);
+        setUsers(prev => prev.filter(user => user.id !== userId));
+      }),
+
+      client.on(
+        'cursor_updated',
+        ({ userId, username, x, y, elementId, rootId }) => {
+          markActive(userId, username);
+          setUserRoot(userId, rootId);
+          remoteCursors?.updateCursor({
+            userId,
+            name: username || userId,
+            color: getUserColor(userId),
+            x,
+            y,
+            elementId,
+            rootId,
+          });
+        }
+      ),
+
+      client.on('selection_updated', ({ userId, username, elementIds }) => {
+        markActive(userId, username);
+        remoteSelections?.setSelection({
+          userId,
+          name: username || userId,
+          color: getUserColor(userId),
+          elementIds,
+        });
+      }),
+
+      client.on('diagram_joined', ({ diagramId: id }) => {
+        if (id !== diagramId) {
+          return;
+        }
+        if (localSelection.length > 0) {
+          client.selectElements(diagramId, localSelection);
+        }
+        // Locks are dropped by the server when the socket disconnects
+        elementLocks?.getHeldLocks().forEach(elementId => {
+          client.lockElement(diagramId, elementId);
+        });
+      }),
+
+      client.on('element_locks', ({ diagramId: id, locks }) => {
+        if (id !== diagramId) {
+          return;
+        }
+        elementLocks?.clear();
+        locks.forEach(lock => {
+          if (lock.userId !== currentUserIdRef.current) {
+            elementLocks?.setLock({
+              ...lock,
+              name: lock.username || lock.userId,
+              color: getUserColor(lock.userId),
+            });
+          }
+        });
+      }),
+
+      client.on('element_locked', ({ diagramId: id, ...lock }) => {
+        if (id === diagramId && lock.userId !== currentUserIdRef.current) {
+          markActive(lock.userId, lock.username);
+          elementLocks?.setLock({
+            ...lock,
+            name: lock.username || lock.userId,
+            color: getUserColor(lock.userId),
+          });
+        }
+      }),
+
+      client.on('element_unlocked', ({ diagramId: id, elementId, userId }) => {
+        if (id === diagramId && userId !== currentUserIdRef.current) {
+          elementLocks?.removeLock(elementId);
+        }
+      }),
+
+      client.on('lock_denied', ({ diagramId: id, lock }) => {
+        if (id !== diagramId) {
+          return;
+        }
+        const name = lock.username || lock.userId;
+        elementLocks?.handleLockDenied({
+          ...lock,
+          name,
+          color: getUserColor(lock.userId),
+        });
+        setLastError(`${name} is already editing this element`);
+      }),
+
+      client.on('diagram_state', state => {
+        if (state.diagramId !== diagramId) {
+          return;
+        }
+        isResyncing = false;
+        persistence.setVersion(state.version);
+        editorRef.current
+          ?.loadDiagramState(state)
+          .then(() => {
+            isStateLoaded = true;
+            return replayOfflineChanges();
+          })
+          .catch(error => {
+            setLastError(`Failed to load diagram state: ${error.message}`);
+          });
+      }),
+
+      client.on('diagram_updated', operation => {
+        if (operation.diagramId !== diagramId) {
+          return;
+        }
+        markActive(operation.userId, operation.username);
+        collaborationManager?.applySequencedOperations([operation]);
+      }),
+
+      client.on('operations', ({ diagramId: id, operations }) => {
+        if (id === diagramId) {
+          collaborationManager?.applySequencedOperations(operations);
+        }
+      }),
+
+      client.on('change_ack', ({ diagramId: id, seq }) => {
+        if (id === diagramId) {
+          collaborationManager?.acknowledgeLocalOperation(seq);
+        }
+      }),
+
+      client.on('change_rejected', ({ diagramId: id, reason }) => {
+        if (id !== diagramId) {
+          return;
+        }
+        setLastError(`Change rejected: ${reason}`);
+        // The rejected edit is still on our canvas; reload the server state
+        // (one reload covers every rejection that arrives before it)
+        if (!isResyncing) {
+          isResyncing = true;
+          client.requestDiagramState(diagramId);
+        }
+      }),
+
+      client.on('validation_error', ({ message }) => {
+        setLastError(message);
+      }),
+
+      client.on('error', ({ message }) => {
+        setLastError(message);
+      }),
+    ];
+
+    // Share our pointer position in diagram coordinates
+    if (remoteCursors) {
+      unsubscribers.push(
+        remoteCursors.trackLocalCursor(({ x, y, elementId, rootId }) => {
+          client.moveCursor(diagramId, x, y, elementId, rootId);
+        }, CURSOR_THROTTLE_MS)
+      );
+    }
+
+    // Share every selected element, not only the primary one
+    if (remoteSelections) {
+      unsubscribers.push(
+        remoteSelections.trackLocalSelection(elementIds => {
+          localSelection = elementIds;
+          client.selectElements(diagramId, elementIds);
+        })
+      );
+    }
+
+    // Lock elements while we edit them so others can't overwrite the edit
+    if (elementLocks) {
+      unsubscribers.push(
+        elementLocks.trackLocalEditing(
+          {
+            acquire: elementId => client.lockElement(diagramId, elementId),
+            release: elementId => client.unlockElement(diagramId, elementId),
+          },
+          ELEMENT_LOCK_RENEW_MS
+        )
+      );
+    }
+
+    // Local edits go to the server (or the offline queue); missing sequence
+    // numbers are re-requested
+    collaborationManager?.onLocalChange(change => sendOrQueue([change]));
+    if (collaborationManager) {
+      unsubscribers.push(
+        collaborationManager.observeChanges({
+          onLocalChange: () => persistence.markDirty(),
+        })
+      );
+    }
+    collaborationManager?.onSequenceGap(lastAppliedSeq => {
+      client.requestOperations(diagramId, lastAppliedSeq);
+    });
+
+    persistence.start();
+    client.joinDiagram(diagramId);
+    client
+      .connect()
+      .then(user => {
+        currentUserIdRef.current = user.userId;
+        setCurrentUserId(user.userId);
+      })
+      .catch(error => setLastError(`Connection failed: ${error.message}`));
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      client.leaveDiagram(diagramId);
+      client.cleanup();
+      offlineQueue.close();
+      clientRef.current = null;
+      persistenceRef.current = null;
+      resolveSaveConflictRef.current = null;
+      importDiagramRef.current = null;
+      persistence.destroy();
+    };
+  }, [diagramId, initialXML]);
+
+  // Flush pending edits before switching diagrams or unmounting. This runs as
+  // a layout cleanup because by the time the effect above is cleaned up the
+  // editor ref is detached and the realtime client may already be closed;
+  // serializing the XML here captures the canvas while it still exists.
+  useLayoutEffect(
+    () => () => {
+      const persistence = persistenceRef.current;
+      if (persistence?.hasUnsavedChanges() && editorRef.current) {
+        persistence.flush(editorRef.current.exportXML());
+      }
+    },
+    [diagramId, initialXML]
+  );
+
+  // Mark users as away when we haven't seen activity for a while
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const now = Date.now();
+      setUsers(prev => {
+        let changed = false;
+        const next = prev.map(user => {
+          // We are always online in our own roster
+          if (user.id === currentUserIdRef.current) {
+            return user;
+          }
+          const lastSeen = lastActivityRef.current.get(user.id) || 0;
+          const isActive = now - lastSeen < AWAY_TIMEOUT_MS;
+          if (isActive === user.isActive) {
+            return user;
+          }
+          changed = true;
+          return { ...user, isActive };
+        });
+        return changed ? next : prev;
+      });
+    }, PRESENCE_CHECK_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, []);
+
+  // Display name of a diagram plane, only shown when there is more than one
+  // (collaboration/participant diagrams, drilled-down subprocesses)
+  const getPlaneName = (rootId?: string): string | undefined => {
+    const canvas = editorRef.current?.getModeler()?.get('canvas');
+    const roots: any[] = canvas?.getRootElements?.() || [];
+    if (!rootId || roots.length < 2) {
+      return undefined;
+    }
+    const root = roots.find(
+      element => (element.businessObject?.id || element.id) === rootId
+    );
+    return root?.businessObject?.name || rootId;
+  };
+
+  const sortedUsers = users
+    .slice()
+    .sort((a, b) =>
+      a.id === currentUserId ? -1 : b.id === currentUserId ? 1 : 0
+    );
+
+  return (
+    <div
+      className="collaboration-manager"
+      style={{ width: '100%', height: '100%', display: 'flex' }}
+    >
+      <div style={{ flex: 1, minWidth: 0 }}>
+        <BPMNEditor
+          ref={editorRef}
+          diagramId={diagramId}
+          initialXML={initialXML}
+          onElementChange={event => onElementChange?.(event)}
+          onSelectionChange={elementId => onSelectionChange?.(elementId)}
+          offlineStatus={{
+            isOffline:
+              connectionState === 'disconnected' ||
+              connectionState === 'reconnecting',
+            queuedChanges,
+          }}
+          saveStatus={saveStatus}
+          onResolveSaveConflict={resolution =>
+            resolveSaveConflictRef.current?.(resolution)
+          }
+        />
+      </div>
+
+      {/* Participant roster */}
+      <aside
+        className="collaboration-roster"
+        style={{
+          width: '220px',
+          borderLeft: '1px solid #ddd',
+          backgroundColor: '#fff',
+          padding: '10px',
+          overflow: 'auto',
+          textAlign: 'left',
+        }}
+      >
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '6px',
+            fontSize: '12px',
+            marginBottom: '10px',
+          }}
+        >
+          <span
+            style={{
+              width: '8px',
+              height: '8px',
+              borderRadius: '50%',
+              backgroundColor: CONNECTION_COLORS[connectionState],
+            }}
+          />
+          {CONNECTION_LABELS[connectionState]}
+        </div>
+
+        <strong style={{ fontSize: '14px' }}>
+          Participants ({users.length})
+        </strong>
+        <ul style={{ listStyle: 'none', margin: '8px 0 0', padding: 0 }}>
+          {sortedUsers.map(user => {
+            const planeName = getPlaneName(user.rootId);
+            return (
+              <li
+                key={user.id}
+                title={user.isActive ? 'Online' : 'Away'}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '8px',
+                  padding: '4px 0',
+                  fontSize: '13px',
+                  opacity: user.isActive ? 1 : 0.5,
+                }}
+              >
+                <span
+                  style={{
+                    width: '24px',
+                    height: '24px',
+                    borderRadius: '50%',
+                    backgroundColor: user.color,
+                    color: '#fff',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    fontSize: '12px',
+                    fontWeight: 'bold',
+                    flexShrink: 0,
+                  }}
+                >
+                  {user.name.charAt(0).toUpperCase()}
+                </span>
+                <span
+                  style={{
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                  }}
+                >
+                  {user.name}
+                  {user.id === currentUserId && ' (you)'}
+                  {planeName && (
+                    <span
+                      title="Diagram the user is viewing"
+                      style={{
+                        display: 'block',
+                        fontSize: '11px',
+                        color: '#666',
+                      }}
+                    >
+                      in {planeName}
+                    </span>
+                  )}
+                </span>
+                <span
+                  style={{
+                    marginLeft: 'auto',
+                    fontSize: '11px',
+                    color: '#666',
+                  }}
+                >
+                  {user.isActive ? 'online' : 'away'}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+
+        {lastError && (
+          <div
+            style={{
+              marginTop: '10px',
+              padding: '6px',
+              fontSize: '12px',
+              backgroundColor: '#ffebee',
+              color: '#c62828',
+              border: '1px solid #ef5350',
+              borderRadius: '3px',
+            }}
+          >
+            {lastError}
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+});
+
+CollaborationManager.displayName = 'CollaborationManager';
+
+export default CollaborationManager;
@@ -1,3 +1,6 @@
 // Collaboration Manager component exports
-// TODO: Implement CollaborationManager component
-export {};
+export { default as CollaborationManager } from './CollaborationManager';
+export type {
+  CollaborationManagerProps,
+  CollaborationManagerRef,
+} from './CollaborationManager';
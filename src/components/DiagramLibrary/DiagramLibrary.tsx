@@ -0,0 +1,455 @@
+import React, { useEffect, useState } from 'react';
+import { DiagramApi } from '../../services/api';
+import {
+  Diagram,
+  DiagramListFilters,
+  DiagramListSort,
+} from '../../types/diagram';
+import { DEFAULT_BPMN_XML } from '../../constants';
+
+export interface DiagramLibraryProps {
+  api: DiagramApi;
+  onOpenDiagram: (diagramId: string) => void;
+}
+
+type OwnerFilter = 'all' | 'mine';
+type VisibilityFilter = 'all' | 'public' | 'private';
+// 'default' lets the server pick: best match when searching, else most recent
+type SortOption = 'default' | Exclude<DiagramListSort, 'relevance'>;
+
+const PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const SORT_LABELS: { [sort in Exclude<SortOption, 'default'>]: string } = {
+  '-lastModified': 'Recently modified',
+  lastModified: 'Least recently modified',
+  '-createdAt': 'Newest',
+  createdAt: 'Oldest',
+  title: 'Title A-Z',
+  '-title': 'Title Z-A',
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  border: '1px solid #ccc',
+  borderRadius: '4px',
+  backgroundColor: 'white',
+  cursor: 'pointer',
+};
+
+const primaryButtonStyle: React.CSSProperties = {
+  ...buttonStyle,
+  border: 'none',
+  backgroundColor: '#61dafb',
+  color: '#282c34',
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  border: '1px solid #ccc',
+  borderRadius: '4px',
+};
+
+const toListFilters = (
+  query: string,
+  owner: OwnerFilter,
+  visibility: VisibilityFilter,
+  sort: SortOption,
+  page: number
+): DiagramListFilters => ({
+  q: query || undefined,
+  owner: owner === 'mine' ? 'me' : undefined,
+  isPublic: visibility === 'all' ? undefined : visibility === 'public',
+  sort: sort === 'default' ? undefined : sort,
+  page,
+  limit: PAGE_SIZE,
+});
+
+const DiagramLibrary: React.FC<DiagramLibraryProps> = ({
+  api,
+  onOpenDiagram,
+}) => {
+  const [diagrams, setDiagrams] = useState<Diagram[]>([]);
+  const [total, setTotal] = useState(0);
+  const [totalPages, setTotalPages] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [ownerFilter, setOwnerFilter] = useState<OwnerFilter>('all');
+  const [visibilityFilter, setVisibilityFilter] =
+    useState<VisibilityFilter>('all');
+  const [sort, setSort] = useState<SortOption>('default');
+  const [page, setPage] = useState(1);
+  // Bumped to refetch the current page (e.g. after a delete)
+  const [reloadCount, setReloadCount] = useState(0);
+  const [newTitle, setNewTitle] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameTitle, setRenameTitle] = useState('');
+
+  // Only search once the user stops typing
+  useEffect(() => {
+    const next = search.trim();
+    if (next === query) return;
+
+    const timer = setTimeout(() => {
+      setQuery(next);
+      setPage(1);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [search, query]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    api
+      .listDiagrams(
+        toListFilters(query, ownerFilter, visibilityFilter, sort, page)
+      )
+      .then(result => {
+        if (!cancelled) {
+          setDiagrams(result.diagrams);
+          setTotal(result.total);
+          setTotalPages(result.totalPages);
+          setError(null);
+        }
+      })
+      .catch(err => {
+        if (!cancelled) {
+          setError(`Failed to load diagrams: ${err.message}`);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [api, query, ownerFilter, visibilityFilter, sort, page, reloadCount]);
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const title = newTitle.trim();
+    if (!title) return;
+
+    setIsCreating(true);
+    try {
+      const diagram = await api.createDiagram({
+        title,
+        bpmnXml: DEFAULT_BPMN_XML,
+      });
+      setNewTitle('');
+      onOpenDiagram(diagram.id);
+    } catch (err: any) {
+      setError(`Failed to create diagram: ${err.message}`);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const startRename = (diagram: Diagram) => {
+    setRenamingId(diagram.id);
+    setRenameTitle(diagram.title);
+  };
+
+  const handleRename = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const title = renameTitle.trim();
+    if (!renamingId || !title) return;
+
+    try {
+      const updated = await api.updateDiagram(renamingId, { title });
+      setDiagrams(prev =>
+        prev.map(diagram =>
+          diagram.id === updated.id
+            ? {
+                ...diagram,
+                title: updated.title,
+                lastModified: updated.lastModified,
+              }
+            : diagram
+        )
+      );
+      setRenamingId(null);
+    } catch (err: any) {
+      setError(`Failed to rename diagram: ${err.message}`);
+    }
+  };
+
+  const handleDelete = async (diagram: Diagram) => {
+    if (!window.confirm(`Delete "${diagram.title}"? This cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      await api.deleteDiagram(diagram.id);
+      // Step back if this was the last diagram on the last page
+      if (diagrams.length === 1 && page > 1) {
+        setPage(page - 1);
+      } else {
+        setReloadCount(count => count + 1);
+      }
+    } catch (err: any) {
+      setError(`Failed to delete diagram: ${err.message}`);
+    }
+  };
+
+  const canRename = (diagram: Diagram) =>
+    diagram.role === 'owner' || diagram.role === 'editor';
+
+  return (
+    <div style={{ padding: '20px', maxWidth: '960px', margin: '0 auto' }}>
+      {/* Create */}
+      <form
+        onSubmit={handleCreate}
+        style={{ display: 'flex', gap: '8px', marginBottom: '20px' }}
+      >
+        <input
+          type="text"
+          placeholder="New diagram title"
+          value={newTitle}
+          onChange={e => setNewTitle(e.target.value)}
+          style={{ ...inputStyle, flex: 1 }}
+        />
+        <button
+          type="submit"
+          disabled={isCreating || !newTitle.trim()}
+          style={primaryButtonStyle}
+        >
+          {isCreating ? 'Creating...' : 'New diagram'}
+        </button>
+      </form>
+
+      {/* Search, filters and sort */}
+      <div
+        style={{
+          display: 'flex',
+          gap: '8px',
+          marginBottom: '12px',
+          flexWrap: 'wrap',
+        }}
+      >
+        <input
+          type="search"
+          placeholder="Search diagrams"
+          aria-label="Search diagrams"
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          style={{ ...inputStyle, flex: 1, minWidth: '200px' }}
+        />
+        <select
+          aria-label="Owner"
+          value={ownerFilter}
+          onChange={e => {
+            setOwnerFilter(e.target.value as OwnerFilter);
+            setPage(1);
+          }}
+          style={inputStyle}
+        >
+          <option value="all">All diagrams</option>
+          <option value="mine">Owned by me</option>
+        </select>
+        <select
+          aria-label="Visibility"
+          value={visibilityFilter}
+          onChange={e => {
+            setVisibilityFilter(e.target.value as VisibilityFilter);
+            setPage(1);
+          }}
+          style={inputStyle}
+        >
+          <option value="all">Public and private</option>
+          <option value="public">Public only</option>
+          <option value="private">Private only</option>
+        </select>
+        <select
+          aria-label="Sort"
+          value={sort}
+          onChange={e => {
+            setSort(e.target.value as SortOption);
+            setPage(1);
+          }}
+          style={inputStyle}
+        >
+          <option value="default">
+            {query ? 'Best match' : 'Recently modified'}
+          </option>
+          {(Object.keys(SORT_LABELS) as Exclude<SortOption, 'default'>[])
+            .filter(option => query || option !== '-lastModified')
+            .map(option => (
+              <option key={option} value={option}>
+                {SORT_LABELS[option]}
+              </option>
+            ))}
+        </select>
+      </div>
+
+      {error && (
+        <div
+          style={{
+            padding: '8px 12px',
+            marginBottom: '12px',
+            backgroundColor: '#ffebee',
+            color: '#c62828',
+            borderRadius: '4px',
+            fontSize: '14px',
+          }}
+        >
+          {error}
+        </div>
+      )}
+
+      {/* List */}
+      {isLoading ? (
+        <div style={{ color: '#666' }}>Loading diagrams...</div>
+      ) : diagrams.length === 0 ? (
+        <div style={{ color: '#666' }}>
+          {query ? 'No diagrams match your search.' : 'No diagrams yet.'}
+        </div>
+      ) : (
+        <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+          {diagrams.map(diagram => (
+            <li
+              key={diagram.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                padding: '10px 12px',
+                border: '1px solid #ddd',
+                borderRadius: '4px',
+                marginBottom: '8px',
+                backgroundColor: 'white',
+              }}
+            >
+              {renamingId === diagram.id ? (
+                <form
+                  onSubmit={handleRename}
+                  style={{ display: 'flex', gap: '8px', flex: 1 }}
+                >
+                  <input
+                    type="text"
+                    aria-label="Diagram title"
+                    value={renameTitle}
+                    onChange={e => setRenameTitle(e.target.value)}
+                    autoFocus
+                    style={{ ...inputStyle, flex: 1 }}
+                  />
+                  <button
+                    type="submit"
+                    disabled={!renameTitle.trim()}
+                    style={primaryButtonStyle}
+                  >
+                    Save
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setRenamingId(null)}
+                    style={buttonStyle}
+                  >
+                    Cancel
+                  </button>
+                </form>
+              ) : (
+                <>
+                  <div
+                    style={{ flex: 1, cursor: 'pointer' }}
+                    onClick={() => onOpenDiagram(diagram.id)}
+                  >
+                    <div style={{ fontWeight: 'bold' }}>
+                      {diagram.title}
+                      {diagram.isPublic && (
+                        <span
+                          style={{
+                            marginLeft: '8px',
+                            fontSize: '11px',
+                            fontWeight: 'normal',
+                            color: '#2e7d32',
+                          }}
+                        >
+                          Public
+                        </span>
+                      )}
+                    </div>
+                    <div style={{ fontSize: '12px', color: '#666' }}>
+                      {diagram.description && `${diagram.description} · `}
+                      Modified {new Date(diagram.lastModified).toLocaleString()}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => onOpenDiagram(diagram.id)}
+                    style={primaryButtonStyle}
+                  >
+                    Open
+                  </button>
+                  {canRename(diagram) && (
+                    <button
+                      onClick={() => startRename(diagram)}
+                      style={buttonStyle}
+                    >
+                      Rename
+                    </button>
+                  )}
+                  {diagram.role === 'owner' && (
+                    <button
+                      onClick={() => handleDelete(diagram)}
+                      style={{ ...buttonStyle, color: '#c62828' }}
+                    >
+                      Delete
+                    </button>
+                  )}
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Pagination */}
+      {!isLoading && total > 0 && (
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            fontSize: '14px',
+            color: '#666',
+          }}
+        >
+          <span>
+            {total} {total === 1 ? 'diagram' : 'diagrams'}
+          </span>
+          {totalPages > 1 && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+                style={buttonStyle}
+              >
+                Previous
+              </button>
+              <span>
+                Page {page} of {totalPages}
+              </span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= totalPages}
+                style={buttonStyle}
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiagramLibrary;
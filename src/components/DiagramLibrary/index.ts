@@ -0,0 +1,3 @@
+// Diagram Library component exports
+export { default as DiagramLibrary } from './DiagramLibrary';
+export type { DiagramLibraryProps } from './DiagramLibrary';
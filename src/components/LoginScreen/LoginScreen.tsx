@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { AuthSession } from '../../services/auth';
+
+export interface LoginScreenProps {
+  session: AuthSession;
+}
+
+type Mode = 'login' | 'register';
+
+const inputStyle: React.CSSProperties = {
+  padding: '8px',
+  border: '1px solid #ccc',
+  borderRadius: '4px',
+};
+
+const submitButtonStyle: React.CSSProperties = {
+  padding: '8px 16px',
+  border: 'none',
+  borderRadius: '4px',
+  backgroundColor: '#61dafb',
+  color: '#282c34',
+  cursor: 'pointer',
+};
+
+const linkButtonStyle: React.CSSProperties = {
+  padding: 0,
+  border: 'none',
+  background: 'none',
+  color: '#1976d2',
+  cursor: 'pointer',
+};
+
+// The app re-renders from the session's change event once signed in
+const LoginScreen: React.FC<LoginScreenProps> = ({ session }) => {
+  const [mode, setMode] = useState<Mode>('login');
+  const [username, setUsername] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setError(null);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      if (mode === 'register') {
+        await session.register({ username: username.trim(), email, password });
+      } else {
+        // One field accepts either the username or the email address
+        const login = username.trim();
+        await session.login(
+          login.includes('@')
+            ? { email: login, password }
+            : { username: login, password }
+        );
+      }
+    } catch (err: any) {
+      setError(err.message);
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div style={{ padding: '40px 20px', maxWidth: '360px', margin: '0 auto' }}>
+      <h2 style={{ marginTop: 0 }}>
+        {mode === 'login' ? 'Sign in' : 'Create an account'}
+      </h2>
+
+      <form
+        onSubmit={handleSubmit}
+        style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}
+      >
+        <input
+          type="text"
+          placeholder={mode === 'login' ? 'Username or email' : 'Username'}
+          aria-label={mode === 'login' ? 'Username or email' : 'Username'}
+          autoComplete="username"
+          value={username}
+          onChange={e => setUsername(e.target.value)}
+          required
+          style={inputStyle}
+        />
+        {mode === 'register' && (
+          <input
+            type="email"
+            placeholder="Email"
+            aria-label="Email"
+            autoComplete="email"
+            value={email}
+            onChange={e => setEmail(e.target.value)}
+            required
+            style={inputStyle}
+          />
+        )}
+        <input
+          type="password"
+          placeholder="Password"
+          aria-label="Password"
+          autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+          minLength={mode === 'register' ? 8 : undefined}
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          required
+          style={inputStyle}
+        />
+
+        {error && (
+          <div
+            style={{
+              padding: '8px 12px',
+              backgroundColor: '#ffebee',
+              color: '#c62828',
+              borderRadius: '4px',
+              fontSize: '14px',
+            }}
+          >
+            {error}
+          </div>
+        )}
+
+        <button type="submit" disabled={isSubmitting} style={submitButtonStyle}>
+          {isSubmitting
+            ? 'Please wait...'
+            : mode === 'login'
+              ? 'Sign in'
+              : 'Create account'}
+        </button>
+      </form>
+
+      <p style={{ fontSize: '14px', color: '#666' }}>
+        {mode === 'login' ? (
+          <>
+            No account yet?{' '}
+            <button
+              type="button"
+              onClick={() => switchMode('register')}
+              style={linkButtonStyle}
+            >
+              Create one
+            </button>
+          </>
+        ) : (
+          <>
+            Already have an account?{' '}
+            <button
+              type="button"
+              onClick={() => switchMode('login')}
+              style={linkButtonStyle}
+            >
+              Sign in
+            </button>
+          </>
+        )}
+      </p>
+    </div>
+  );
+};
+
+export default LoginScreen;
@@ -0,0 +1,3 @@
+// Login screen component exports
+export { default as LoginScreen } from './LoginScreen';
+export type { LoginScreenProps } from './LoginScreen';
@@ -1,2 +1,6 @@
 // Export all components from this index file
 export { default as BPMNEditor } from './BPMNEditor/BPMNEditor';
+export { CollaborationManager } from './CollaborationManager';
+export { DiagramLibrary } from './DiagramLibrary';
+export { LoginScreen } from './LoginScreen';
+export type { CollaborationManagerRef } from './CollaborationManager';
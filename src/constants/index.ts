@@ -9,6 +9,13 @@ export const SYNC_DEBOUNCE_MS = 100;
 export const AUTO_SAVE_INTERVAL_MS = 30000; // 30 seconds
 export const RECONNECT_ATTEMPTS = 5;
 export const RECONNECT_DELAY_MS = 1000;
+export const AWAY_TIMEOUT_MS = 60000; // 1 minute without activity
+export const CURSOR_THROTTLE_MS = 50;
+export const CURSOR_IDLE_TIMEOUT_MS = 5000; // remote cursors fade out after
+export const ELEMENT_LOCK_RENEW_MS = 10000; // server lock TTL is 30 seconds
+export const ACCESS_TOKEN_STORAGE_KEY = 'bpmn.accessToken';
+export const REFRESH_TOKEN_STORAGE_KEY = 'bpmn.refreshToken';
+export const AUTH_USER_STORAGE_KEY = 'bpmn.user';
 
 // BPMN Editor settings
 export const DEFAULT_BPMN_XML = `<?xml version="1.0" encoding="UTF-8"?>
@@ -1,2 +1,3 @@
 // Custom React hooks will be exported from here
-export {};
+export { useRoute, parseRoute, routeToPath } from './useRoute';
+export type { Route } from './useRoute';
@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from 'react';
+
+// Screens the app can show; each one has its own URL
+export type Route =
+  | { name: 'library' }
+  | { name: 'diagram'; diagramId: string };
+
+const DIAGRAM_PATH = /^\/diagrams\/([^/]+)\/?$/;
+
+export const parseRoute = (pathname: string): Route => {
+  const match = DIAGRAM_PATH.exec(pathname);
+  if (match) {
+    return { name: 'diagram', diagramId: decodeURIComponent(match[1]) };
+  }
+  return { name: 'library' };
+};
+
+export const routeToPath = (route: Route): string =>
+  route.name === 'diagram'
+    ? `/diagrams/${encodeURIComponent(route.diagramId)}`
+    : '/';
+
+// Minimal History API router: keeps the current route in sync with the URL
+// so a diagram can be shared by link and the back button works
+export const useRoute = (): [Route, (route: Route) => void] => {
+  const [route, setRoute] = useState<Route>(() =>
+    parseRoute(window.location.pathname)
+  );
+
+  useEffect(() => {
+    const handlePopState = () => {
+      setRoute(parseRoute(window.location.pathname));
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = useCallback((next: Route) => {
+    const path = routeToPath(next);
+    if (path !== window.location.pathname) {
+      window.history.pushState(null, '', path);
+    }
+    setRoute(next);
+  }, []);
+
+  return [route, navigate];
+};
@@ -0,0 +1,86 @@
+/**
+ * AuthApi - 인증 REST API 클라이언트
+ *
+ * 로그인, 회원가입, 토큰 갱신(refresh 토큰 회전)과 로그아웃을 요청합니다.
+ * 2xx가 아닌 응답은 DiagramApi와 같은 ApiError로 던집니다.
+ */
+
+import { API_BASE_URL } from '../../constants';
+import { AuthResponse, LoginRequest, RegisterRequest } from '../../types/auth';
+import { ApiError } from './DiagramApi';
+
+/**
+ * AuthApi 옵션
+ */
+export interface AuthApiOptions {
+  baseUrl?: string;
+}
+
+/**
+ * AuthApi 클래스
+ */
+export class AuthApi {
+  private options: AuthApiOptions;
+
+  constructor(options: AuthApiOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * 로그인 (username 또는 email)
+   */
+  login(credentials: LoginRequest): Promise<AuthResponse> {
+    return this.post('/api/auth/login', credentials);
+  }
+
+  /**
+   * 회원가입 (가입과 동시에 로그인)
+   */
+  register(request: RegisterRequest): Promise<AuthResponse> {
+    return this.post('/api/auth/register', request);
+  }
+
+  /**
+   * 토큰 갱신 (사용한 refresh 토큰은 폐기되고 새 토큰이 발급됨)
+   */
+  refresh(refreshToken: string): Promise<AuthResponse> {
+    return this.post('/api/auth/refresh', { refreshToken });
+  }
+
+  /**
+   * 로그아웃 (refresh 토큰 폐기)
+   */
+  async logout(refreshToken: string): Promise<void> {
+    await this.post('/api/auth/logout', { refreshToken });
+  }
+
+  private async post<T>(path: string, body: any): Promise<T> {
+    const response = await fetch(
+      `${this.options.baseUrl || API_BASE_URL}${path}`,
+      {
+        method: 'POST',
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      }
+    );
+
+    const text = await response.text();
+    let data: any = null;
+    if (text) {
+      try {
+        data = JSON.parse(text);
+      } catch (error) {
+        data = { error: text };
+      }
+    }
+
+    if (!response.ok) {
+      throw new ApiError(response.status, data);
+    }
+
+    return data as T;
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * DiagramApi 테스트
+ */
+
+import { ApiError, DiagramApi } from './DiagramApi';
+
+// fetch 응답 Mock
+const mockResponse = (status: number, body?: any) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  text: () => Promise.resolve(body === undefined ? '' : JSON.stringify(body)),
+});
+
+describe('DiagramApi', () => {
+  let fetchMock: jest.Mock;
+  let api: DiagramApi;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as any;
+    api = new DiagramApi({
+      baseUrl: 'http://api.test',
+      getToken: () => 'token-1',
+    });
+  });
+
+  it('인증 헤더와 함께 다이어그램을 조회해야 한다', async () => {
+    fetchMock.mockResolvedValue(mockResponse(200, { id: 'd1', version: 3 }));
+
+    const diagram = await api.getDiagram('d1');
+
+    expect(diagram.version).toBe(3);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://api.test/api/diagrams/d1');
+    expect(init.method).toBe('GET');
+    expect(init.headers.Authorization).toBe('Bearer token-1');
+  });
+
+  it('목록 필터를 쿼리 문자열로 전달해야 한다', async () => {
+    fetchMock.mockResolvedValue(
+      mockResponse(200, { diagrams: [], total: 0, page: 2, limit: 10 })
+    );
+
+    await api.listDiagrams({
+      q: 'order process',
+      owner: 'me',
+      isPublic: false,
+      page: 2,
+      limit: 10,
+    });
+    await api.listDiagrams({ q: '' });
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'http://api.test/api/diagrams?q=order+process&owner=me&isPublic=false&page=2&limit=10'
+    );
+    expect(fetchMock.mock.calls[1][0]).toBe('http://api.test/api/diagrams');
+  });
+
+  it('수정 요청은 JSON 본문과 keepalive 옵션을 전달해야 한다', async () => {
+    fetchMock.mockResolvedValue(mockResponse(200, { id: 'd1', version: 4 }));
+
+    await api.updateDiagram(
+      'd1',
+      { bpmnXml: '<xml/>', expectedVersion: 3 },
+      { keepalive: true }
+    );
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.method).toBe('PUT');
+    expect(init.keepalive).toBe(true);
+    expect(init.headers['Content-Type']).toBe('application/json');
+    expect(JSON.parse(init.body)).toEqual({
+      bpmnXml: '<xml/>',
+      expectedVersion: 3,
+    });
+  });
+
+  it('실패 응답은 상태 코드와 본문을 담은 ApiError로 던져야 한다', async () => {
+    fetchMock.mockResolvedValue(
+      mockResponse(409, {
+        error: 'Diagram has been modified by another user',
+        currentVersion: 5,
+      })
+    );
+
+    const error = await api
+      .updateDiagram('d1', { bpmnXml: '<xml/>', expectedVersion: 3 })
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(409);
+    expect(error.message).toBe('Diagram has been modified by another user');
+    expect(error.body.currentVersion).toBe(5);
+  });
+
+  it('401 응답이면 토큰을 갱신한 뒤 한 번 다시 요청해야 한다', async () => {
+    let token = 'expired-token';
+    const refreshToken = jest.fn(() => {
+      token = 'fresh-token';
+      return Promise.resolve(token);
+    });
+    api = new DiagramApi({
+      baseUrl: 'http://api.test',
+      getToken: () => token,
+      refreshToken,
+    });
+    fetchMock
+      .mockResolvedValueOnce(mockResponse(401, { error: 'Token expired' }))
+      .mockResolvedValueOnce(mockResponse(200, { id: 'd1', version: 3 }));
+
+    const diagram = await api.getDiagram('d1');
+
+    expect(diagram.id).toBe('d1');
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[1][1].headers.Authorization).toBe(
+      'Bearer fresh-token'
+    );
+  });
+
+  it('토큰을 갱신할 수 없으면 401 ApiError를 던져야 한다', async () => {
+    api = new DiagramApi({
+      baseUrl: 'http://api.test',
+      getToken: () => 'expired-token',
+      refreshToken: () => Promise.resolve(null),
+    });
+    fetchMock.mockResolvedValue(mockResponse(401, { error: 'Token expired' }));
+
+    const error = await api.getDiagram('d1').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(401);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
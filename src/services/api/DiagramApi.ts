@@ -0,0 +1,184 @@
+/**
+ * DiagramApi - 다이어그램 REST API 클라이언트
+ *
+ * 요청마다 getToken으로 액세스 토큰을 읽어 Authorization 헤더로 보냅니다.
+ * 401 응답을 받으면 refreshToken으로 토큰을 갱신한 뒤 한 번 다시 요청합니다.
+ * 2xx가 아닌 응답은 상태 코드와 응답 본문을 담은 ApiError로 던집니다.
+ */
+
+import { API_BASE_URL } from '../../constants';
+import {
+  CreateDiagramRequest,
+  Diagram,
+  DiagramListFilters,
+  DiagramListResponse,
+  UpdateDiagramRequest,
+} from '../../types/diagram';
+
+/**
+ * API 에러 (응답 본문의 error 메시지 사용)
+ */
+export class ApiError extends Error {
+  status: number;
+  body: any;
+
+  constructor(status: number, body: any) {
+    super(body?.error || `Request failed with status ${status}`);
+    this.name = 'ApiError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/**
+ * DiagramApi 옵션
+ */
+export interface DiagramApiOptions {
+  baseUrl?: string;
+  getToken: () => string | null;
+  // 갱신된 액세스 토큰 반환 (갱신할 수 없으면 null)
+  refreshToken?: () => Promise<string | null>;
+}
+
+/**
+ * 요청 옵션
+ */
+export interface RequestOptions {
+  // 페이지를 떠나는 중에도 요청이 끝까지 전송되도록 함
+  keepalive?: boolean;
+}
+
+/**
+ * DiagramApi 클래스
+ */
+export class DiagramApi {
+  private options: DiagramApiOptions;
+
+  constructor(options: DiagramApiOptions) {
+    this.options = options;
+  }
+
+  /**
+   * 접근 가능한 다이어그램 목록 한 페이지 (bpmnXml 제외)
+   */
+  listDiagrams(filters: DiagramListFilters = {}): Promise<DiagramListResponse> {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([name, value]) => {
+      if (value !== undefined && value !== '') {
+        params.set(name, String(value));
+      }
+    });
+
+    const query = params.toString();
+    return this.request('GET', `/api/diagrams${query ? `?${query}` : ''}`);
+  }
+
+  /**
+   * 다이어그램 생성 (소유자는 현재 사용자)
+   */
+  createDiagram(diagram: CreateDiagramRequest): Promise<Diagram> {
+    return this.request('POST', '/api/diagrams', diagram);
+  }
+
+  /**
+   * 다이어그램 조회
+   */
+  getDiagram(diagramId: string): Promise<Diagram> {
+    return this.request(
+      'GET',
+      `/api/diagrams/${encodeURIComponent(diagramId)}`
+    );
+  }
+
+  /**
+   * 다이어그램 수정 (XML 변경 시 expectedVersion 필요, 불일치하면 409 ApiError)
+   */
+  updateDiagram(
+    diagramId: string,
+    update: UpdateDiagramRequest,
+    options: RequestOptions = {}
+  ): Promise<Diagram> {
+    return this.request(
+      'PUT',
+      `/api/diagrams/${encodeURIComponent(diagramId)}`,
+      update,
+      options
+    );
+  }
+
+  /**
+   * 다이어그램 삭제 (owner만)
+   */
+  async deleteDiagram(diagramId: string): Promise<void> {
+    await this.request(
+      'DELETE',
+      `/api/diagrams/${encodeURIComponent(diagramId)}`
+    );
+  }
+
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: any,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    try {
+      return await this.send<T>(method, path, body, options);
+    } catch (error) {
+      // 액세스 토큰이 만료되었다면 갱신한 토큰으로 한 번만 다시 요청
+      if (
+        error instanceof ApiError &&
+        error.status === 401 &&
+        this.options.refreshToken &&
+        (await this.options.refreshToken())
+      ) {
+        return this.send<T>(method, path, body, options);
+      }
+      throw error;
+    }
+  }
+
+  private async send<T>(
+    method: string,
+    path: string,
+    body: any,
+    options: RequestOptions
+  ): Promise<T> {
+    const headers: { [name: string]: string } = {
+      Accept: 'application/json',
+    };
+    const token = this.options.getToken();
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    const response = await fetch(
+      `${this.options.baseUrl || API_BASE_URL}${path}`,
+      {
+        method,
+        headers,
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        keepalive: options.keepalive,
+      }
+    );
+
+    const text = await response.text();
+    let data: any = null;
+    if (text) {
+      try {
+        data = JSON.parse(text);
+      } catch (error) {
+        data = { error: text };
+      }
+    }
+
+    if (!response.ok) {
+      throw new ApiError(response.status, data);
+    }
+
+    return data as T;
+  }
+}
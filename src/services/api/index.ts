@@ -0,0 +1,5 @@
+// REST API clients
+export { DiagramApi, ApiError } from './DiagramApi';
+export type { DiagramApiOptions, RequestOptions } from './DiagramApi';
+export { AuthApi } from './AuthApi';
+export type { AuthApiOptions } from './AuthApi';
@@ -0,0 +1,99 @@
+/**
+ * AuthSession 테스트
+ */
+
+import { AuthSession } from './AuthSession';
+import { ApiError, AuthApi } from '../api';
+import {
+  ACCESS_TOKEN_STORAGE_KEY,
+  REFRESH_TOKEN_STORAGE_KEY,
+} from '../../constants';
+
+const user = { id: 'user1', username: 'alice', email: 'alice@example.com' };
+
+const authResponse = (suffix: string) => ({
+  user,
+  accessToken: `access-${suffix}`,
+  refreshToken: `refresh-${suffix}`,
+});
+
+describe('AuthSession', () => {
+  let api: {
+    [method in 'login' | 'register' | 'refresh' | 'logout']: jest.Mock;
+  };
+  let session: AuthSession;
+
+  beforeEach(() => {
+    localStorage.clear();
+    api = {
+      login: jest.fn(() => Promise.resolve(authResponse('1'))),
+      register: jest.fn(() => Promise.resolve(authResponse('1'))),
+      refresh: jest.fn(() => Promise.resolve(authResponse('2'))),
+      logout: jest.fn(() => Promise.resolve()),
+    };
+    session = new AuthSession({ api: api as unknown as AuthApi });
+  });
+
+  it('로그인하면 토큰과 사용자를 저장하고 구독자에게 알려야 한다', async () => {
+    const listener = jest.fn();
+    session.onChange(listener);
+
+    await session.login({ username: 'alice', password: 'password1' });
+
+    expect(session.getAccessToken()).toBe('access-1');
+    expect(localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY)).toBe('refresh-1');
+    expect(listener).toHaveBeenCalledWith(user);
+    expect(session.isAuthenticated()).toBe(true);
+
+    // 새로 만든 세션도 저장된 로그인 상태를 복원
+    expect(
+      new AuthSession({ api: api as unknown as AuthApi }).getUser()
+    ).toEqual(user);
+  });
+
+  it('동시에 요청한 갱신은 refresh 요청을 한 번만 보내야 한다', async () => {
+    await session.login({ username: 'alice', password: 'password1' });
+
+    const tokens = await Promise.all([session.refresh(), session.refresh()]);
+
+    expect(tokens).toEqual(['access-2', 'access-2']);
+    expect(api.refresh).toHaveBeenCalledTimes(1);
+    expect(api.refresh).toHaveBeenCalledWith('refresh-1');
+    expect(localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY)).toBe('refresh-2');
+  });
+
+  it('refresh 토큰이 거부되면 세션을 지워야 한다', async () => {
+    await session.login({ username: 'alice', password: 'password1' });
+    api.refresh.mockRejectedValue(
+      new ApiError(401, { error: 'Refresh token has been revoked' })
+    );
+    const listener = jest.fn();
+    session.onChange(listener);
+
+    await expect(session.refresh()).resolves.toBeNull();
+
+    expect(session.getUser()).toBeNull();
+    expect(localStorage.getItem(ACCESS_TOKEN_STORAGE_KEY)).toBeNull();
+    expect(listener).toHaveBeenCalledWith(null);
+  });
+
+  it('네트워크 오류로 갱신하지 못하면 세션을 유지해야 한다', async () => {
+    await session.login({ username: 'alice', password: 'password1' });
+    api.refresh.mockRejectedValue(new TypeError('Failed to fetch'));
+
+    await expect(session.refresh()).resolves.toBeNull();
+
+    expect(session.getUser()).toEqual(user);
+    expect(session.getAccessToken()).toBe('access-1');
+  });
+
+  it('로그아웃하면 refresh 토큰을 폐기하고 세션을 지워야 한다', async () => {
+    await session.login({ username: 'alice', password: 'password1' });
+
+    await session.logout();
+
+    expect(api.logout).toHaveBeenCalledWith('refresh-1');
+    expect(session.isAuthenticated()).toBe(false);
+    expect(localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY)).toBeNull();
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * AuthSession - 로그인 세션과 토큰 관리
+ *
+ * 액세스/refresh 토큰과 사용자 정보를 저장소(기본 localStorage)에 보관하고,
+ * 액세스 토큰이 만료되면 refresh 토큰으로 갱신합니다. 동시에 여러 요청이 401을 받아도
+ * refresh 토큰은 회전되므로 갱신 요청은 한 번만 보냅니다.
+ * refresh 토큰이 폐기/만료되어 갱신이 거부되면 세션을 지우고 구독자에게 알립니다.
+ */
+
+import {
+  ACCESS_TOKEN_STORAGE_KEY,
+  AUTH_USER_STORAGE_KEY,
+  REFRESH_TOKEN_STORAGE_KEY,
+} from '../../constants';
+import {
+  AuthResponse,
+  AuthUser,
+  LoginRequest,
+  RegisterRequest,
+} from '../../types/auth';
+import { ApiError, AuthApi } from '../api';
+
+/**
+ * AuthSession 옵션
+ */
+export interface AuthSessionOptions {
+  api: AuthApi;
+  storage?: Storage;
+}
+
+/**
+ * AuthSession 클래스
+ */
+export class AuthSession {
+  private api: AuthApi;
+  private storage: Storage;
+  private user: AuthUser | null;
+  private pendingRefresh: Promise<string | null> | null = null;
+  private listeners = new Set<(user: AuthUser | null) => void>();
+
+  constructor(options: AuthSessionOptions) {
+    this.api = options.api;
+    this.storage = options.storage || window.localStorage;
+    this.user = this.readUser();
+  }
+
+  // ==================== 세션 조회 ====================
+
+  getUser(): AuthUser | null {
+    return this.user;
+  }
+
+  getAccessToken(): string | null {
+    return this.storage.getItem(ACCESS_TOKEN_STORAGE_KEY);
+  }
+
+  isAuthenticated(): boolean {
+    return !!this.user && !!this.getAccessToken();
+  }
+
+  // ==================== 로그인 / 로그아웃 ====================
+
+  async login(credentials: LoginRequest): Promise<AuthUser> {
+    return this.setSession(await this.api.login(credentials));
+  }
+
+  async register(request: RegisterRequest): Promise<AuthUser> {
+    return this.setSession(await this.api.register(request));
+  }
+
+  /**
+   * 로그아웃 (서버의 refresh 토큰 폐기가 실패해도 로컬 세션은 지움)
+   */
+  async logout(): Promise<void> {
+    const refreshToken = this.storage.getItem(REFRESH_TOKEN_STORAGE_KEY);
+    this.clear();
+
+    if (refreshToken) {
+      // 폐기하지 못한 refresh 토큰은 만료 시간이 지나면 무효가 됨
+      await this.api.logout(refreshToken).catch(() => undefined);
+    }
+  }
+
+  /**
+   * 액세스 토큰 갱신 (갱신된 토큰, 갱신할 수 없으면 null 반환)
+   */
+  refresh(): Promise<string | null> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.requestRefresh().then(token => {
+        this.pendingRefresh = null;
+        return token;
+      });
+    }
+    return this.pendingRefresh;
+  }
+
+  /**
+   * 세션 변경 구독 (로그인, 로그아웃, 갱신 실패로 인한 만료)
+   */
+  onChange(listener: (user: AuthUser | null) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // ==================== 내부 ====================
+
+  private async requestRefresh(): Promise<string | null> {
+    const refreshToken = this.storage.getItem(REFRESH_TOKEN_STORAGE_KEY);
+    if (!refreshToken) {
+      return null;
+    }
+
+    try {
+      const response = await this.api.refresh(refreshToken);
+      this.setSession(response);
+      return response.accessToken;
+    } catch (error) {
+      // 폐기/만료된 refresh 토큰이면 다시 로그인해야 함 (네트워크 오류는 세션 유지)
+      if (error instanceof ApiError && error.status === 401) {
+        this.clear();
+      }
+      return null;
+    }
+  }
+
+  private setSession(response: AuthResponse): AuthUser {
+    this.storage.setItem(ACCESS_TOKEN_STORAGE_KEY, response.accessToken);
+    this.storage.setItem(REFRESH_TOKEN_STORAGE_KEY, response.refreshToken);
+    this.storage.setItem(AUTH_USER_STORAGE_KEY, JSON.stringify(response.user));
+    this.user = response.user;
+    this.notify();
+    return response.user;
+  }
+
+  private clear(): void {
+    this.storage.removeItem(ACCESS_TOKEN_STORAGE_KEY);
+    this.storage.removeItem(REFRESH_TOKEN_STORAGE_KEY);
+    this.storage.removeItem(AUTH_USER_STORAGE_KEY);
+    if (this.user) {
+      this.user = null;
+      this.notify();
+    }
+  }
+
+  private readUser(): AuthUser | null {
+    const stored = this.storage.getItem(AUTH_USER_STORAGE_KEY);
+    if (!stored) {
+      return null;
+    }
+    try {
+      return JSON.parse(stored) as AuthUser;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.user));
+  }
+}
@@ -0,0 +1,3 @@
+// Authentication services
+export { AuthSession } from './AuthSession';
+export type { AuthSessionOptions } from './AuthSession';
@@ -7,6 +7,7 @@ import {
   ChangeEvent,
 } from './CollaborationEventManager';
 import { SilentUpdateService } from './SilentUpdateService';
+import { SequencedOperation } from '../../types/collaboration';
 
 // Mock 객체들
 const mockEventBus = {
@@ -19,6 +20,10 @@ const mockSilentUpdateService = {
   updateBusinessObjectDirectly: jest.fn(),
   updateVisualPropertiesDirectly: jest.fn(),
   addElementSilently: jest.fn(),
+  addConnectionSilently: jest.fn(),
+  updateConnectionSilently: jest.fn(),
+  updateContainmentSilently: jest.fn(),
+  updateLabelSilently: jest.fn(),
   removeElementSilently: jest.fn(),
   suspendRendering: jest.fn(),
   resumeRendering: jest.fn(),
@@ -39,6 +44,14 @@ mockModeler.get.mockImplementation((service: string) => {
 describe('CollaborationEventManager', () => {
   let manager: CollaborationEventManager;
 
+  // react-scripts의 resetMocks 설정은 매 테스트 전에 모듈 수준에서 설정한 구현을
+  // 초기화하므로 같은 구현을 테스트마다 다시 설정
+  beforeEach(() => {
+    mockModeler.get.mockImplementation((service: string) =>
+      service === 'eventBus' ? mockEventBus : null
+    );
+  });
+
   beforeEach(() => {
     jest.clearAllMocks();
     manager = new CollaborationEventManager(
@@ -82,9 +95,7 @@ describe('CollaborationEventManager', () => {
 
       expect(info).toEqual({
         isProcessingRemoteEvent: false,
-        remoteEventSourcesCount: 0,
         changeTrackerSize: 0,
-        eventSourceHistorySize: 0,
         changeBufferSize: 0,
       });
     });
@@ -169,6 +180,717 @@ describe('CollaborationEventManager', () => {
     });
   });
 
+  describe('연결선 동기화', () => {
+    const findHandler = (event: string) =>
+      mockEventBus.on.mock.calls.find(call =>
+        Array.isArray(call[0]) ? call[0].includes(event) : call[0] === event
+      )[1];
+
+    const source = { id: 'Task_1' };
+    const target = { id: 'Task_2' };
+    const connection = {
+      id: 'Flow_1',
+      type: 'bpmn:SequenceFlow',
+      businessObject: { $type: 'bpmn:SequenceFlow' },
+      source,
+      target,
+      waypoints: [
+        { x: 100, y: 40, original: { x: 50, y: 40 } },
+        { x: 200, y: 40 },
+      ],
+    };
+
+    it('로컬 연결선 생성은 양 끝 요소와 waypoints를 포함해야 한다', () => {
+      const localChangeCallback = jest.fn();
+      manager.onLocalChange(localChangeCallback);
+
+      findHandler('connection.added')({ element: connection });
+
+      expect(localChangeCallback).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'connection',
+          elementId: 'Flow_1',
+          sourceId: 'Task_1',
+          targetId: 'Task_2',
+          elementData: expect.objectContaining({
+            type: 'bpmn:SequenceFlow',
+            waypoints: [
+              { x: 100, y: 40 },
+              { x: 200, y: 40 },
+            ],
+          }),
+        })
+      );
+    });
+
+    it('원격 연결선은 양 끝 요소를 만든 뒤 생성해야 한다', () => {
+      manager.applyRemoteChanges([
+        {
+          type: 'connection',
+          elementId: 'Flow_1',
+          elementData: { id: 'Flow_1', type: 'bpmn:SequenceFlow' },
+          sourceId: 'Task_1',
+          targetId: 'Task_2',
+          timestamp: Date.now(),
+        },
+        {
+          type: 'create',
+          elementId: 'Task_2',
+          elementData: { id: 'Task_2', type: 'bpmn:Task' },
+          timestamp: Date.now(),
+        },
+      ]);
+
+      expect(
+        mockSilentUpdateService.addConnectionSilently
+      ).toHaveBeenCalledWith(
+        { id: 'Flow_1', type: 'bpmn:SequenceFlow' },
+        'Task_1',
+        'Task_2'
+      );
+      expect(
+        (mockSilentUpdateService.addElementSilently as jest.Mock).mock
+          .invocationCallOrder[0]
+      ).toBeLessThan(
+        (mockSilentUpdateService.addConnectionSilently as jest.Mock).mock
+          .invocationCallOrder[0]
+      );
+    });
+
+    it('bendpoint 편집과 재연결 명령은 waypoints와 양 끝 변경으로 전송해야 한다', done => {
+      const localChangeCallback = jest.fn();
+      manager.onLocalChange(localChangeCallback);
+
+      findHandler('commandStack.connection.updateWaypoints.postExecuted')({
+        context: { connection },
+      });
+
+      setTimeout(() => {
+        expect(localChangeCallback).toHaveBeenCalledWith(
+          expect.objectContaining({
+            type: 'position',
+            elementId: 'Flow_1',
+            waypoints: [
+              { x: 100, y: 40 },
+              { x: 200, y: 40 },
+            ],
+            sourceId: 'Task_1',
+            targetId: 'Task_2',
+          })
+        );
+        done();
+      }, 150);
+    });
+
+    it('원격 waypoints 및 재연결 변경은 연결선에 직접 적용해야 한다', () => {
+      manager.applyRemoteChanges([
+        {
+          type: 'position',
+          elementId: 'Flow_1',
+          waypoints: [{ x: 0, y: 0 }],
+          targetId: 'Task_3',
+          timestamp: Date.now(),
+        },
+      ]);
+
+      expect(
+        mockSilentUpdateService.updateConnectionSilently
+      ).toHaveBeenCalledWith('Flow_1', {
+        waypoints: [{ x: 0, y: 0 }],
+        sourceId: undefined,
+        targetId: 'Task_3',
+      });
+      expect(
+        mockSilentUpdateService.updateVisualPropertiesDirectly
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('포함 관계 동기화', () => {
+    const findHandler = (event: string) =>
+      mockEventBus.on.mock.calls.find(call =>
+        Array.isArray(call[0]) ? call[0].includes(event) : call[0] === event
+      )[1];
+
+    const lane = { id: 'Lane_1' };
+    const subProcess = { id: 'Sub_1' };
+    const task = {
+      id: 'Task_1',
+      parent: subProcess,
+      businessObject: {
+        $type: 'bpmn:Task',
+        $instanceOf: (type: string) => type === 'bpmn:FlowNode',
+        lanes: [lane],
+      },
+      x: 10,
+      y: 20,
+      width: 100,
+      height: 80,
+    };
+
+    it('로컬 요소 생성은 부모와 레인을 포함해야 한다', () => {
+      const localChangeCallback = jest.fn();
+      manager.onLocalChange(localChangeCallback);
+
+      findHandler('shape.added')({ element: task });
+
+      expect(localChangeCallback).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'create',
+          elementId: 'Task_1',
+          parentId: 'Sub_1',
+          laneIds: ['Lane_1'],
+        })
+      );
+    });
+
+    it('경계 이벤트 부착 명령은 호스트를 포함한 변경으로 전송해야 한다', done => {
+      const localChangeCallback = jest.fn();
+      manager.onLocalChange(localChangeCallback);
+
+      const boundaryEvent = {
+        id: 'Boundary_1',
+        parent: subProcess,
+        host: task,
+        businessObject: { $type: 'bpmn:BoundaryEvent' },
+        x: 50,
+        y: 80,
+      };
+      findHandler('commandStack.element.updateAttachment.postExecuted')({
+        context: { shape: boundaryEvent, newHost: task },
+      });
+
+      setTimeout(() => {
+        expect(localChangeCallback).toHaveBeenCalledWith(
+          expect.objectContaining({
+            type: 'position',
+            elementId: 'Boundary_1',
+            parentId: 'Sub_1',
+            hostId: 'Task_1',
+          })
+        );
+        done();
+      }, 150);
+    });
+
+    it('원격 생성과 이동은 포함 관계를 적용해야 한다', () => {
+      manager.applyRemoteChanges([
+        {
+          type: 'create',
+          elementId: 'Task_1',
+          elementData: { id: 'Task_1', type: 'bpmn:Task' },
+          parentId: 'Sub_1',
+          laneIds: ['Lane_1'],
+          timestamp: Date.now(),
+        },
+        {
+          type: 'position',
+          elementId: 'Boundary_1',
+          x: 50,
+          y: 80,
+          hostId: 'Task_1',
+          timestamp: Date.now(),
+        },
+      ]);
+
+      expect(
+        mockSilentUpdateService.updateContainmentSilently
+      ).toHaveBeenCalledWith('Task_1', {
+        parentId: 'Sub_1',
+        hostId: undefined,
+        laneIds: ['Lane_1'],
+      });
+      expect(
+        mockSilentUpdateService.updateContainmentSilently
+      ).toHaveBeenCalledWith('Boundary_1', {
+        parentId: undefined,
+        hostId: 'Task_1',
+        laneIds: undefined,
+      });
+    });
+  });
+
+  describe('plane 동기화', () => {
+    const findHandler = (event: string) =>
+      mockEventBus.on.mock.calls.find(call =>
+        Array.isArray(call[0]) ? call[0].includes(event) : call[0] === event
+      )[1];
+
+    it('서브프로세스 plane의 요소는 BPMN 요소 ID로 부모와 루트를 보내야 한다', () => {
+      const localChangeCallback = jest.fn();
+      manager.onLocalChange(localChangeCallback);
+
+      const planeRoot = { id: 'Sub_1_plane', businessObject: { id: 'Sub_1' } };
+      findHandler('shape.added')({
+        element: {
+          id: 'Task_2',
+          parent: planeRoot,
+          businessObject: { $type: 'bpmn:Task' },
+        },
+      });
+
+      expect(localChangeCallback).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'create',
+          elementId: 'Task_2',
+          parentId: 'Sub_1',
+          rootId: 'Sub_1',
+        })
+      );
+    });
+
+    it('중첩된 요소는 최상위 plane 루트를 보내야 한다', () => {
+      const localChangeCallback = jest.fn();
+      manager.onLocalChange(localChangeCallback);
+
+      const collaboration = {
+        id: 'Collaboration_1',
+        businessObject: { id: 'Collaboration_1' },
+      };
+      const participant = {
+        id: 'Participant_1',
+        parent: collaboration,
+        businessObject: { id: 'Participant_1' },
+      };
+      findHandler('shape.added')({
+        element: {
+          id: 'Task_3',
+          parent: participant,
+          businessObject: { $type: 'bpmn:Task' },
+        },
+      });
+
+      expect(localChangeCallback).toHaveBeenCalledWith(
+        expect.objectContaining({
+          parentId: 'Participant_1',
+          rootId: 'Collaboration_1',
+        })
+      );
+    });
+
+    it('원격 생성은 지정한 plane에 적용해야 한다', () => {
+      manager.applyRemoteChanges([
+        {
+          type: 'create',
+          elementId: 'Task_2',
+          elementData: { id: 'Task_2', type: 'bpmn:Task' },
+          parentId: 'Sub_1',
+          rootId: 'Sub_1',
+          timestamp: Date.now(),
+        },
+      ]);
+
+      expect(
+        mockSilentUpdateService.updateContainmentSilently
+      ).toHaveBeenCalledWith('Task_2', {
+        parentId: 'Sub_1',
+        hostId: undefined,
+        laneIds: undefined,
+        rootId: 'Sub_1',
+      });
+    });
+  });
+
+  describe('외부 라벨 및 텍스트 주석 동기화', () => {
+    const findHandler = (event: string) =>
+      mockEventBus.on.mock.calls.find(call =>
+        Array.isArray(call[0]) ? call[0].includes(event) : call[0] === event
+      )[1];
+
+    const eventBusinessObject = { $type: 'bpmn:StartEvent', name: 'Start' };
+    const startEvent = {
+      id: 'Start_1',
+      businessObject: eventBusinessObject,
+      x: 100,
+      y: 100,
+      width: 36,
+      height: 36,
+    };
+    const label = {
+      id: 'Start_1_label',
+      labelTarget: startEvent,
+      businessObject: eventBusinessObject,
+      x: 90,
+      y: 145,
+      width: 56,
+      height: 14,
+    };
+
+    it('라벨 이동은 소유 요소의 라벨 위치 변경으로 전송해야 한다', done => {
+      const localChangeCallback = jest.fn();
+      manager.onLocalChange(localChangeCallback);
+
+      findHandler('shape.moved')({ element: label });
+
+      setTimeout(() => {
+        expect(localChangeCallback).toHaveBeenCalledTimes(1);
+        expect(localChangeCallback).toHaveBeenCalledWith(
+          expect.objectContaining({
+            type: 'position',
+            elementId: 'Start_1',
+            label: { x: 90, y: 145, width: 56, height: 14 },
+          })
+        );
+        done();
+      }, 150);
+    });
+
+    it('요소와 라벨이 함께 이동하면 하나의 위치 변경으로 합쳐야 한다', done => {
+      const localChangeCallback = jest.fn();
+      manager.onLocalChange(localChangeCallback);
+
+      findHandler('shape.moved')({ element: startEvent });
+      findHandler('shape.moved')({ element: label });
+
+      setTimeout(() => {
+        expect(localChangeCallback).toHaveBeenCalledTimes(1);
+        expect(localChangeCallback).toHaveBeenCalledWith(
+          expect.objectContaining({
+            elementId: 'Start_1',
+            x: 100,
+            y: 100,
+            label: expect.objectContaining({ x: 90, y: 145 }),
+          })
+        );
+        done();
+      }, 150);
+    });
+
+    it('라벨 추가/삭제는 별도 요소로 전송하지 않아야 한다', () => {
+      const localChangeCallback = jest.fn();
+      manager.onLocalChange(localChangeCallback);
+
+      findHandler('shape.added')({ element: label });
+      findHandler('shape.removed')({ element: label });
+
+      expect(localChangeCallback).not.toHaveBeenCalledWith(
+        expect.objectContaining({ elementId: 'Start_1_label' })
+      );
+    });
+
+    it('라벨 편집은 소유 요소의 속성 변경으로 전송해야 한다', done => {
+      const localChangeCallback = jest.fn();
+      manager.onLocalChange(localChangeCallback);
+
+      findHandler('element.changed')({ element: label });
+
+      setTimeout(() => {
+        expect(localChangeCallback).toHaveBeenCalledWith(
+          expect.objectContaining({
+            type: 'property',
+            elementId: 'Start_1',
+            properties: { name: 'Start' },
+          })
+        );
+        done();
+      }, 150);
+    });
+
+    it('텍스트 주석 내용 변경은 text 속성으로 전송해야 한다', done => {
+      const localChangeCallback = jest.fn();
+      manager.onLocalChange(localChangeCallback);
+
+      findHandler('element.changed')({
+        element: {
+          id: 'Annotation_1',
+          businessObject: { $type: 'bpmn:TextAnnotation', text: 'Note' },
+        },
+      });
+
+      setTimeout(() => {
+        expect(localChangeCallback).toHaveBeenCalledWith(
+          expect.objectContaining({
+            type: 'property',
+            elementId: 'Annotation_1',
+            properties: { text: 'Note' },
+          })
+        );
+        done();
+      }, 150);
+    });
+
+    it('원격 라벨 위치 변경은 소유 요소의 라벨에 적용해야 한다', () => {
+      manager.applyRemoteChanges([
+        {
+          type: 'position',
+          elementId: 'Start_1',
+          label: { x: 80, y: 150 },
+          timestamp: Date.now(),
+        },
+      ]);
+
+      expect(mockSilentUpdateService.updateLabelSilently).toHaveBeenCalledWith(
+        'Start_1',
+        { x: 80, y: 150 }
+      );
+      expect(
+        mockSilentUpdateService.updateVisualPropertiesDirectly
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('시퀀스 operation 처리', () => {
+    const createOperation = (
+      seq: number,
+      elementId: string
+    ): SequencedOperation => ({
+      diagramId: 'diagram1',
+      seq,
+      userId: 'user2',
+      changes: [
+        {
+          type: 'property',
+          elementId,
+          properties: { name: `Update ${seq}` },
+          timestamp: Date.now(),
+        },
+      ],
+      timestamp: new Date().toISOString(),
+    });
+
+    it('시퀀스 순서대로 operation을 적용해야 한다', () => {
+      manager.applySequencedOperations([
+        createOperation(2, 'element2'),
+        createOperation(1, 'element1'),
+      ]);
+
+      const calls = (
+        mockSilentUpdateService.updateBusinessObjectDirectly as jest.Mock
+      ).mock.calls;
+      expect(calls.map(call => call[0])).toEqual(['element1', 'element2']);
+      expect(manager.getLastAppliedSeq()).toBe(2);
+    });
+
+    it('이미 적용한 시퀀스는 무시해야 한다', () => {
+      manager.resetSequence(5);
+      manager.applySequencedOperations([createOperation(5, 'element1')]);
+
+      expect(
+        mockSilentUpdateService.updateBusinessObjectDirectly
+      ).not.toHaveBeenCalled();
+      expect(manager.getLastAppliedSeq()).toBe(5);
+    });
+
+    it('시퀀스 갭이 있으면 보류하고 갭 콜백을 호출해야 한다', () => {
+      const gapCallback = jest.fn();
+      manager.onSequenceGap(gapCallback);
+
+      manager.applySequencedOperations([createOperation(3, 'element3')]);
+
+      expect(
+        mockSilentUpdateService.updateBusinessObjectDirectly
+      ).not.toHaveBeenCalled();
+      expect(gapCallback).toHaveBeenCalledWith(0);
+
+      // 누락된 operation 수신 후 보류된 operation까지 적용
+      manager.applySequencedOperations([
+        createOperation(1, 'element1'),
+        createOperation(2, 'element2'),
+      ]);
+
+      expect(manager.getLastAppliedSeq()).toBe(3);
+      expect(
+        mockSilentUpdateService.updateBusinessObjectDirectly
+      ).toHaveBeenCalledTimes(3);
+    });
+
+    it('로컬 operation ack는 변경 없이 시퀀스만 진행해야 한다', () => {
+      manager.acknowledgeLocalOperation(1);
+      manager.applySequencedOperations([createOperation(2, 'element2')]);
+
+      expect(manager.getLastAppliedSeq()).toBe(2);
+      expect(
+        mockSilentUpdateService.updateBusinessObjectDirectly
+      ).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('CRDT 병합', () => {
+    it('로컬 변경사항에 필드별 스탬프를 붙여 전송해야 한다', () => {
+      const callback = jest.fn();
+      manager.onLocalChange(callback);
+
+      const shapeAddedHandler = mockEventBus.on.mock.calls.find(
+        call => Array.isArray(call[0]) && call[0].includes('shape.added')
+      )[1];
+
+      shapeAddedHandler({
+        element: {
+          id: 'newShape',
+          businessObject: { $type: 'bpmn:Task' },
+          x: 100,
+          y: 100,
+          width: 100,
+          height: 80,
+        },
+      });
+
+      expect(callback).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'create',
+          stamps: expect.objectContaining({
+            alive: { clock: 1, clientId: expect.any(String) },
+          }),
+        })
+      );
+    });
+
+    it('더 최신 쓰기에 밀린 원격 변경사항은 적용하지 않아야 한다', () => {
+      manager.applyRemoteChanges([
+        {
+          type: 'property',
+          elementId: 'element1',
+          properties: { name: 'Newer' },
+          timestamp: Date.now(),
+          stamps: { 'prop:name': { clock: 5, clientId: 'user3' } },
+        },
+      ]);
+
+      manager.applyRemoteChanges([
+        {
+          type: 'property',
+          elementId: 'element1',
+          properties: { name: 'Older' },
+          timestamp: Date.now(),
+          stamps: { 'prop:name': { clock: 4, clientId: 'user2' } },
+        },
+      ]);
+
+      expect(
+        mockSilentUpdateService.updateBusinessObjectDirectly
+      ).toHaveBeenCalledTimes(1);
+      expect(
+        mockSilentUpdateService.updateBusinessObjectDirectly
+      ).toHaveBeenCalledWith('element1', { name: 'Newer' });
+    });
+
+    it('스냅샷 스탬프를 로드하면 그보다 오래된 operation을 무시해야 한다', () => {
+      manager.resetElementState({
+        element1: { 'prop:name': { clock: 3, clientId: 'user2' } },
+      });
+
+      manager.applyRemoteChanges([
+        {
+          type: 'property',
+          elementId: 'element1',
+          properties: { name: 'Stale' },
+          timestamp: Date.now(),
+          stamps: { 'prop:name': { clock: 2, clientId: 'user3' } },
+        },
+      ]);
+
+      expect(
+        mockSilentUpdateService.updateBusinessObjectDirectly
+      ).not.toHaveBeenCalled();
+    });
+
+    it('코드에서 만든 로컬 변경사항은 조용히 적용하고 스탬프를 붙여 전송해야 한다', () => {
+      const callback = jest.fn();
+      const observer = { onLocalChange: jest.fn() };
+      manager.onLocalChange(callback);
+      manager.observeChanges(observer);
+
+      const [stamped] = manager.applyLocalChanges([
+        {
+          type: 'property',
+          elementId: 'element1',
+          properties: { name: 'Undone' },
+          timestamp: Date.now(),
+        },
+      ]);
+
+      expect(
+        mockSilentUpdateService.updateBusinessObjectDirectly
+      ).toHaveBeenCalledWith('element1', { name: 'Undone' });
+      expect(stamped.stamps?.['prop:name']).toEqual({
+        clock: 1,
+        clientId: expect.any(String),
+      });
+      expect(callback).toHaveBeenCalledWith(stamped);
+      expect(observer.onLocalChange).toHaveBeenCalledWith(stamped);
+    });
+
+    it('디바운스 중인 이동은 이어지는 삭제보다 먼저 전송해야 한다', () => {
+      const callback = jest.fn();
+      manager.onLocalChange(callback);
+      const findHandler = (event: string) =>
+        mockEventBus.on.mock.calls.find(call =>
+          Array.isArray(call[0]) ? call[0].includes(event) : call[0] === event
+        )[1];
+      const element = {
+        id: 'Task_1',
+        businessObject: { $type: 'bpmn:Task' },
+        x: 300,
+        y: 200,
+        width: 100,
+        height: 80,
+      };
+
+      findHandler('shape.moved')({ element });
+      findHandler('shape.removed')({ element });
+
+      expect(callback.mock.calls.map(([change]) => change.type)).toEqual([
+        'position',
+        'remove',
+      ]);
+      const [[moved], [removed]] = callback.mock.calls;
+      expect(moved.stamps.position.clock).toBeLessThan(
+        removed.stamps.alive.clock
+      );
+    });
+
+    it('오프라인 변경사항은 서버 상태에 병합하고 적용할 수 없는 변경은 반환해야 한다', () => {
+      const elementRegistry = {
+        get: jest.fn((id: string) => (id === 'element1' ? { id } : undefined)),
+      };
+      mockModeler.get.mockImplementation((service: string) =>
+        service === 'elementRegistry' ? elementRegistry : mockEventBus
+      );
+
+      // 오프라인 동안 다른 사용자가 더 나중에 이름을 변경
+      manager.resetElementState({
+        element1: { 'prop:name': { clock: 9, clientId: 'user2' } },
+      });
+
+      const offlineChanges: ChangeEvent[] = [
+        {
+          type: 'position',
+          elementId: 'element1',
+          x: 50,
+          y: 60,
+          timestamp: Date.now(),
+          stamps: { position: { clock: 3, clientId: 'user1' } },
+        },
+        {
+          type: 'property',
+          elementId: 'element1',
+          properties: { name: 'Offline' },
+          timestamp: Date.now(),
+          stamps: { 'prop:name': { clock: 4, clientId: 'user1' } },
+        },
+        {
+          type: 'property',
+          elementId: 'removedElement',
+          properties: { name: 'Gone' },
+          timestamp: Date.now(),
+          stamps: { 'prop:name': { clock: 5, clientId: 'user1' } },
+        },
+      ];
+
+      const { applied, rejected } = manager.rebaseLocalChanges(offlineChanges);
+
+      expect(applied).toHaveLength(1);
+      expect(applied[0]).toMatchObject({ type: 'position', x: 50, y: 60 });
+      expect(rejected).toEqual([offlineChanges[1], offlineChanges[2]]);
+      expect(
+        mockSilentUpdateService.updateVisualPropertiesDirectly
+      ).toHaveBeenCalledWith('element1', { x: 50, y: 60 });
+      expect(
+        mockSilentUpdateService.updateBusinessObjectDirectly
+      ).not.toHaveBeenCalled();
+    });
+  });
+
   describe('무한 루프 방지', () => {
     it('원격 이벤트 처리 중에는 로컬 이벤트를 무시해야 한다', () => {
       const localChangeCallback = jest.fn();
@@ -202,38 +924,40 @@ describe('CollaborationEventManager', () => {
       expect(localChangeCallback).not.toHaveBeenCalled();
     });
 
-    it('원격 이벤트 소스로 표시된 요소의 이벤트를 무시해야 한다', done => {
+    it('원격 변경 직후의 같은 요소 로컬 편집은 전송해야 한다', done => {
       const localChangeCallback = jest.fn();
       manager.onLocalChange(localChangeCallback);
 
-      // 원격 변경사항 적용
-      const changes: ChangeEvent[] = [
+      manager.applyRemoteChanges([
         {
           type: 'property',
           elementId: 'element1',
           properties: { name: 'Remote Update' },
           timestamp: Date.now(),
         },
-      ];
+      ]);
 
-      manager.applyRemoteChanges(changes);
+      // 원격 적용이 끝난 뒤 사용자가 같은 요소를 편집
+      const elementChangedHandler = mockEventBus.on.mock.calls.find(
+        call => call[0] === 'element.changed'
+      )[1];
+      elementChangedHandler({
+        element: {
+          id: 'element1',
+          businessObject: { name: 'Local Edit' },
+        },
+      });
 
-      // 잠시 후 로컬 이벤트 발생 시뮬레이션
       setTimeout(() => {
-        const elementChangedHandler = mockEventBus.on.mock.calls.find(
-          call => call[0] === 'element.changed'
-        )[1];
-
-        elementChangedHandler({
-          element: {
-            id: 'element1',
-            businessObject: { name: 'Remote Update' },
-          },
-        });
-
-        expect(localChangeCallback).not.toHaveBeenCalled();
+        expect(localChangeCallback).toHaveBeenCalledWith(
+          expect.objectContaining({
+            type: 'property',
+            elementId: 'element1',
+            properties: { name: 'Local Edit' },
+          })
+        );
         done();
-      }, 100);
+      }, 150);
     });
   });
 
@@ -299,6 +1023,37 @@ describe('CollaborationEventManager', () => {
         done();
       }, 150);
     });
+
+    it('마지막 동기화 이후 바뀐 속성만 보내야 한다', done => {
+      const localChangeCallback = jest.fn();
+      manager.onLocalChange(localChangeCallback);
+
+      const elementChangedHandler = mockEventBus.on.mock.calls.find(
+        call => call[0] === 'element.changed'
+      )[1];
+
+      const businessObject: any = {
+        $type: 'bpmn:Task',
+        name: 'Review',
+        formKey: 'review-form',
+      };
+      elementChangedHandler({ element: { id: 'element1', businessObject } });
+
+      setTimeout(() => {
+        businessObject.name = 'Approve';
+        delete businessObject.formKey;
+        elementChangedHandler({ element: { id: 'element1', businessObject } });
+
+        setTimeout(() => {
+          expect(localChangeCallback).toHaveBeenCalledTimes(2);
+          expect(localChangeCallback.mock.calls[1][0].properties).toEqual({
+            name: 'Approve',
+            formKey: null,
+          });
+          done();
+        }, 150);
+      }, 150);
+    });
   });
 
   describe('콜백 관리', () => {
@@ -365,52 +1120,52 @@ describe('CollaborationEventManager', () => {
       manager.onLocalChange(callback);
       manager.onRemoteChange(callback);
 
-      // 일부 상태 생성
-      manager.applyRemoteChanges([
-        {
-          type: 'property',
-          elementId: 'element1',
-          properties: { name: 'Test' },
-          timestamp: Date.now(),
-        },
-      ]);
+      // 일부 상태 생성 (디바운스 버퍼에 남은 로컬 변경)
+      const elementChangedHandler = mockEventBus.on.mock.calls.find(
+        call => call[0] === 'element.changed'
+      )[1];
+      elementChangedHandler({
+        element: { id: 'element1', businessObject: { name: 'Test' } },
+      });
 
       const infoBefore = manager.getServiceInfo();
-      expect(infoBefore.eventSourceHistorySize).toBeGreaterThan(0);
+      expect(infoBefore.changeBufferSize).toBeGreaterThan(0);
 
       manager.cleanup();
 
       const infoAfter = manager.getServiceInfo();
       expect(infoAfter).toEqual({
         isProcessingRemoteEvent: false,
-        remoteEventSourcesCount: 0,
         changeTrackerSize: 0,
-        eventSourceHistorySize: 0,
         changeBufferSize: 0,
       });
     });
 
-    it('만료된 이벤트를 자동으로 정리해야 한다', done => {
-      // 이 테스트는 실제 타이머를 사용하므로 시간이 오래 걸릴 수 있음
-      // 실제 환경에서는 더 짧은 TTL을 사용하거나 수동으로 정리 메서드를 호출할 수 있음
+    it('만료된 변경사항 추적 정보를 자동으로 정리해야 한다', () => {
+      jest.useFakeTimers();
+      try {
+        const timedManager = new CollaborationEventManager(
+          mockModeler,
+          mockSilentUpdateService
+        );
+        const elementChangedHandler = mockEventBus.on.mock.calls
+          .filter(call => call[0] === 'element.changed')
+          .pop()[1];
 
-      manager.applyRemoteChanges([
-        {
-          type: 'property',
-          elementId: 'element1',
-          properties: { name: 'Test' },
-          timestamp: Date.now() - 10000, // 10초 전
-        },
-      ]);
+        elementChangedHandler({
+          element: { id: 'element1', businessObject: { name: 'Test' } },
+        });
+        jest.advanceTimersByTime(100);
+        expect(timedManager.getServiceInfo().changeTrackerSize).toBe(1);
 
-      // 정리 로직이 실행될 때까지 대기
-      setTimeout(() => {
-        const info = manager.getServiceInfo();
-        // 만료된 이벤트가 정리되었는지 확인
-        // 실제로는 내부 정리 로직에 따라 달라질 수 있음
-        expect(info.eventSourceHistorySize).toBe(0);
-        done();
-      }, 100);
+        // 추적 TTL(10초)이 지난 뒤 정리 타이머 실행
+        jest.advanceTimersByTime(20000);
+        expect(timedManager.getServiceInfo().changeTrackerSize).toBe(0);
+
+        timedManager.cleanup();
+      } finally {
+        jest.useRealTimers();
+      }
     });
   });
 
@@ -6,40 +6,23 @@
  */
 
 import {
+  ChangeEvent,
   EventBus,
   ElementChangeEvent,
   SilentUpdateService,
 } from '../../types/bpmn';
+import { ElementStamps, SequencedOperation } from '../../types/collaboration';
+import { ElementStateCRDT } from './ElementStateCRDT';
+import {
+  PropertyMap,
+  diffProperties,
+  serializeProperties,
+} from './ModdleProperties';
 
 /**
- * 변경사항 타입 정의
- */
-export interface ChangeEvent {
-  type: 'property' | 'position' | 'create' | 'remove' | 'connection';
-  elementId: string;
-  elementType?: string;
-  properties?: any;
-  x?: number;
-  y?: number;
-  width?: number;
-  height?: number;
-  elementData?: any;
-  sourceId?: string;
-  targetId?: string;
-  timestamp: number;
-  userId?: string;
-  isRemote?: boolean;
-}
-
-/**
- * 이벤트 소스 추적 정보
+ * 변경사항 타입 정의 (클라이언트-서버 공유 계약)
  */
-interface EventSourceInfo {
-  elementId: string;
-  timestamp: number;
-  source: 'local' | 'remote';
-  processed: boolean;
-}
+export type { ChangeEvent };
 
 /**
  * 변경사항 추적 정보
@@ -51,6 +34,28 @@ interface ChangeTrackingInfo {
   lastTimestamp: number;
 }
 
+/**
+ * 연결선 경로를 바꾸는 명령 (bendpoint 편집, 재연결, 연결된 도형 이동 후 자동 레이아웃)
+ */
+const CONNECTION_COMMANDS = [
+  'connection.updateWaypoints',
+  'connection.reconnect',
+  'connection.layout',
+];
+
+/**
+ * 요소의 포함 관계를 바꾸는 명령 (경계 이벤트 부착, 레인 소속 갱신)
+ */
+const CONTAINMENT_COMMANDS = ['element.updateAttachment', 'lane.updateRefs'];
+
+/**
+ * 변경사항 관찰자 (스탬프가 붙은 로컬 변경, CRDT 병합 후 적용된 원격 변경)
+ */
+export interface ChangeObserver {
+  onLocalChange?: (change: ChangeEvent) => void;
+  onRemoteChange?: (change: ChangeEvent) => void;
+}
+
 /**
  * CollaborationEventManager 클래스
  *
@@ -63,25 +68,40 @@ export class CollaborationEventManager {
 
   // 무한 루프 방지를 위한 플래그들
   private isProcessingRemoteEvent = false;
-  private remoteEventSources = new Set<string>();
+  private isImporting = false;
   private changeTracker = new Map<string, ChangeTrackingInfo>();
+  private readonly CHANGE_TRACKING_TTL = 10000; // 10초
+
+  // 요소 상태 CRDT (동시 변경의 결정적 병합)
+  private elementState: ElementStateCRDT;
 
-  // 이벤트 소스 추적
-  private eventSourceHistory = new Map<string, EventSourceInfo>();
-  private readonly EVENT_SOURCE_TTL = 5000; // 5초
+  // 요소별 마지막으로 동기화된 비즈니스 속성 (속성 diff 기준)
+  private propertySnapshots = new Map<string, PropertyMap>();
 
-  // 변경사항 디바운싱
+  // 변경사항 디바운싱 (키: 변경 타입 + 요소 ID)
   private changeBuffer = new Map<string, ChangeEvent>();
   private debounceTimer: NodeJS.Timeout | null = null;
   private readonly DEBOUNCE_DELAY = 100; // 100ms
+  private cleanupTimer: NodeJS.Timeout | null = null;
+
+  // 서버 시퀀스 추적 (순서 보장 및 갭 감지)
+  private lastAppliedSeq = 0;
+  private pendingOperations = new Map<number, SequencedOperation>();
 
   // 이벤트 콜백들
   private onLocalChangeCallback?: (change: ChangeEvent) => void;
   private onRemoteChangeCallback?: (change: ChangeEvent) => void;
-
-  constructor(modeler: any, silentUpdateService: SilentUpdateService) {
+  private onSequenceGapCallback?: (lastAppliedSeq: number) => void;
+  private changeObservers = new Set<ChangeObserver>();
+
+  constructor(
+    modeler: any,
+    silentUpdateService: SilentUpdateService,
+    clientId: string = generateClientId()
+  ) {
     this.modeler = modeler;
     this.silentUpdateService = silentUpdateService;
+    this.elementState = new ElementStateCRDT(clientId);
 
     // EventBus 가져오기 (null 체크 포함)
     this.eventBus = modeler.get('eventBus');
@@ -99,6 +119,16 @@ export class CollaborationEventManager {
    * bpmn-js 이벤트 리스너 설정
    */
   private setupEventListeners(): void {
+    // XML import 중 발생하는 shape.added 등은 로컬 변경사항이 아님
+    this.eventBus.on('import.parse.start', () => {
+      this.isImporting = true;
+    });
+
+    this.eventBus.on('import.done', () => {
+      this.isImporting = false;
+      this.capturePropertySnapshots();
+    });
+
     // 요소 변경 이벤트 감지
     this.eventBus.on('element.changed', (event: any) => {
       if (this.shouldIgnoreEvent(event)) {
@@ -142,45 +172,47 @@ export class CollaborationEventManager {
 
       this.handleElementMoved(event);
     });
+
+    // 연결선 경로/재연결 명령 (bpmn-js CommandStack의 명령별 이벤트)
+    this.eventBus.on(
+      CONNECTION_COMMANDS.map(
+        command => `commandStack.${command}.postExecuted`
+      ),
+      (event: any) => {
+        const connection = event.context?.connection;
+        if (!connection || this.shouldIgnoreEvent({ element: connection })) {
+          return;
+        }
+
+        this.handleConnectionChanged(connection);
+      }
+    );
+
+    // 포함 관계 명령 (부착/레인 변경은 요소 이동 없이도 일어남)
+    this.eventBus.on(
+      CONTAINMENT_COMMANDS.map(
+        command => `commandStack.${command}.postExecuted`
+      ),
+      (event: any) => {
+        this.getContainmentTargets(event.context).forEach(element => {
+          if (!this.shouldIgnoreEvent({ element })) {
+            this.handleElementMoved({ element });
+          }
+        });
+      }
+    );
   }
 
   /**
    * 이벤트 무시 여부 판단
+   *
+   * 원격 변경사항은 isProcessingRemoteEvent가 켜진 동안 동기적으로 적용되므로
+   * 그 사이에 발생한 이벤트만 무시합니다. 이후의 편집은 같은 요소라도 실제
+   * 로컬 편집이며, 동시 편집은 CRDT 병합으로 정리됩니다.
    */
   private shouldIgnoreEvent(event: any): boolean {
-    // 원격 이벤트 처리 중인 경우 무시
-    if (this.isProcessingRemoteEvent) {
-      return true;
-    }
-
-    // 원격 이벤트 소스로 표시된 요소인 경우 무시
-    if (event.element && this.remoteEventSources.has(event.element.id)) {
-      this.remoteEventSources.delete(event.element.id);
-      return true;
-    }
-
-    // 최근에 원격에서 처리된 이벤트인 경우 무시
-    if (event.element && this.isRecentRemoteEvent(event.element.id)) {
-      return true;
-    }
-
-    return false;
-  }
-
-  /**
-   * 최근 원격 이벤트 여부 확인
-   */
-  private isRecentRemoteEvent(elementId: string): boolean {
-    const sourceInfo = this.eventSourceHistory.get(elementId);
-    if (!sourceInfo) {
-      return false;
-    }
-
-    const now = Date.now();
-    const isRecent = now - sourceInfo.timestamp < this.EVENT_SOURCE_TTL;
-    const isRemote = sourceInfo.source === 'remote';
-
-    return isRecent && isRemote && !sourceInfo.processed;
+    // 원격 이벤트 처리 또는 XML import 중인 경우 무시
+    return this.isProcessingRemoteEvent || this.isImporting;
   }
 
   // ==================== 로컬 이벤트 처리 ====================
@@ -189,20 +221,26 @@ export class CollaborationEventManager {
    * 요소 변경 이벤트 처리
    */
   private handleElementChanged(event: any): void {
-    const element = event.element;
+    // 외부 라벨은 소유 요소의 비즈니스 객체를 공유하므로 소유 요소의 변경으로 처리
+    const element = event.element?.labelTarget || event.element;
     if (!element || !element.id) {
       return;
     }
 
+    // 바뀐 속성이 없으면 (이동, 레이아웃 등) 보내지 않음
+    const properties = this.diffElementProperties(element);
+    if (Object.keys(properties).length === 0) {
+      return;
+    }
+
     const changeEvent: ChangeEvent = {
       type: 'property',
       elementId: element.id,
       elementType: element.businessObject?.$type,
-      properties: this.extractElementProperties(element),
+      properties,
       timestamp: Date.now(),
     };
 
-    this.trackLocalChange(changeEvent);
     this.debounceLocalChange(changeEvent);
   }
 
@@ -214,7 +252,6 @@ export class CollaborationEventManager {
     const changes = this.extractCommandStackChanges(event);
 
     changes.forEach(change => {
-      this.trackLocalChange(change);
       this.debounceLocalChange(change);
     });
   }
@@ -228,14 +265,20 @@ export class CollaborationEventManager {
       return;
     }
 
-    const changeEvent: ChangeEvent = {
-      type: 'create',
-      elementId: element.id,
-      elementType: element.businessObject?.$type,
-      elementData: this.extractElementData(element),
-      timestamp: Date.now(),
-    };
+    // 외부 라벨은 별도 요소로 만들지 않고 소유 요소의 라벨 위치로 전송
+    if (element.labelTarget) {
+      this.handleLabelChanged(element);
+      return;
+    }
+
+    const changeEvent = this.createElementChange(element);
+    this.propertySnapshots.set(
+      element.id,
+      changeEvent.elementData?.properties || {}
+    );
 
+    // 버퍼에 남은 이동/속성 변경사항이 생성보다 먼저 전송되어야 함
+    this.flushPendingChanges();
     this.trackLocalChange(changeEvent);
     this.broadcastLocalChange(changeEvent);
   }
@@ -245,7 +288,8 @@ export class CollaborationEventManager {
    */
   private handleElementRemoved(event: any): void {
     const element = event.element;
-    if (!element || !element.id) {
+    // 외부 라벨은 소유 요소와 함께 삭제됨
+    if (!element || !element.id || element.labelTarget) {
       return;
     }
 
@@ -255,7 +299,10 @@ export class CollaborationEventManager {
       elementType: element.businessObject?.$type,
       timestamp: Date.now(),
     };
+    this.propertySnapshots.delete(element.id);
 
+    // 삭제 직전의 이동/속성 변경사항이 삭제 이후에 전송되지 않도록 먼저 플러시
+    this.flushPendingChanges();
     this.trackLocalChange(changeEvent);
     this.broadcastLocalChange(changeEvent);
   }
@@ -269,6 +316,16 @@ export class CollaborationEventManager {
       return;
     }
 
+    if (element.waypoints) {
+      this.handleConnectionChanged(element);
+      return;
+    }
+
+    if (element.labelTarget) {
+      this.handleLabelChanged(element);
+      return;
+    }
+
     const changeEvent: ChangeEvent = {
       type: 'position',
       elementId: element.id,
@@ -277,10 +334,49 @@ export class CollaborationEventManager {
       y: element.y,
       width: element.width,
       height: element.height,
+      ...getContainment(element),
+      timestamp: Date.now(),
+    };
+
+    this.debounceLocalChange(changeEvent);
+  }
+
+  /**
+   * 외부 라벨 이동 처리 (라벨 ID 대신 소유 요소 ID로 전송)
+   */
+  private handleLabelChanged(label: any): void {
+    const owner = label.labelTarget;
+
+    const changeEvent: ChangeEvent = {
+      type: 'position',
+      elementId: owner.id,
+      elementType: owner.businessObject?.$type,
+      label: {
+        x: label.x,
+        y: label.y,
+        width: label.width,
+        height: label.height,
+      },
+      timestamp: Date.now(),
+    };
+
+    this.debounceLocalChange(changeEvent);
+  }
+
+  /**
+   * 연결선 경로 또는 양 끝 변경 처리
+   */
+  private handleConnectionChanged(connection: any): void {
+    const changeEvent: ChangeEvent = {
+      type: 'position',
+      elementId: connection.id,
+      elementType: connection.businessObject?.$type,
+      waypoints: copyWaypoints(connection.waypoints),
+      sourceId: connection.source?.id,
+      targetId: connection.target?.id,
       timestamp: Date.now(),
     };
 
-    this.trackLocalChange(changeEvent);
     this.debounceLocalChange(changeEvent);
   }
 
@@ -294,6 +390,51 @@ export class CollaborationEventManager {
       return;
     }
 
+    // 아직 보내지 않은 로컬 변경사항은 원격 스탬프를 관찰하기 전에 먼저 스탬프를 받아야 함
+    this.flushPendingChanges();
+
+    // CRDT 병합 - 더 최신 쓰기에 밀린 필드는 적용하지 않음
+    const mergedChanges = changes
+      .map(change => this.elementState.mergeRemoteChange(change))
+      .filter((change): change is ChangeEvent => !!change);
+
+    if (mergedChanges.length === 0) {
+      return;
+    }
+
+    this.applyChangesSilently(mergedChanges, change =>
+      this.trackRemoteChange(change)
+    );
+  }
+
+  /**
+   * 코드에서 만든 로컬 변경사항 적용 (협업 undo/redo 등)
+   *
+   * 캔버스에는 원격 변경사항과 같은 방식으로 조용히 적용하고,
+   * 일반 로컬 변경사항처럼 스탬프를 붙여 브로드캐스트합니다.
+   *
+   * @returns 스탬프가 붙은 변경사항
+   */
+  applyLocalChanges(changes: ChangeEvent[]): ChangeEvent[] {
+    if (changes.length === 0) {
+      return [];
+    }
+
+    // 버퍼에 남은 로컬 변경사항이 이 변경사항보다 먼저 스탬프를 받아야 함
+    this.flushPendingChanges();
+
+    this.applyChangesSilently(changes, change => this.trackLocalChange(change));
+
+    return changes.map(change => this.broadcastLocalChange(change));
+  }
+
+  /**
+   * 변경사항을 캔버스에 조용히 적용 (적용 중 발생하는 이벤트는 로컬 변경으로 보지 않음)
+   */
+  private applyChangesSilently(
+    changes: ChangeEvent[],
+    track: (change: ChangeEvent) => void
+  ): void {
     // 원격 이벤트 처리 플래그 설정
     this.isProcessingRemoteEvent = true;
 
@@ -305,8 +446,9 @@ export class CollaborationEventManager {
       this.silentUpdateService.suspendRendering();
 
       try {
-        // 1. 생성 작업 먼저 처리
+        // 1. 생성 작업 먼저 처리 (연결선은 양 끝 요소가 생성된 뒤에)
         this.processRemoteCreations(groupedChanges.create || []);
+        this.processRemoteConnections(groupedChanges.connection || []);
 
         // 2. 속성 변경 처리
         this.processRemotePropertyChanges(groupedChanges.property || []);
@@ -321,10 +463,10 @@ export class CollaborationEventManager {
         this.silentUpdateService.resumeRendering();
       }
 
-      // 원격 이벤트 소스 추적 정보 업데이트
+      // 속성 diff 기준 상태 갱신 및 추적
       changes.forEach(change => {
-        this.markAsRemoteEvent(change.elementId);
-        this.trackRemoteChange(change);
+        this.refreshPropertySnapshot(change.elementId);
+        track(change);
       });
     } finally {
       // 원격 이벤트 처리 플래그 해제
@@ -332,6 +474,131 @@ export class CollaborationEventManager {
     }
   }
 
+  /**
+   * 서버가 시퀀싱한 operation 적용
+   *
+   * 시퀀스 순서대로만 적용하며, 중간에 누락된 시퀀스가 있으면 이후 operation은
+   * 보류하고 갭 콜백을 호출합니다. 이미 적용한 시퀀스는 무시합니다.
+   */
+  applySequencedOperations(operations: SequencedOperation[]): void {
+    operations.forEach(operation => {
+      if (operation.seq > this.lastAppliedSeq) {
+        this.pendingOperations.set(operation.seq, operation);
+      }
+    });
+
+    while (this.pendingOperations.has(this.lastAppliedSeq + 1)) {
+      const operation = this.pendingOperations.get(this.lastAppliedSeq + 1)!;
+      this.pendingOperations.delete(operation.seq);
+      this.lastAppliedSeq = operation.seq;
+
+      // operation 단위로 적용해야 operation 간 순서(생성 → 삭제 등)가 유지됨
+      const changes = (operation.changes || []).map(change => ({
+        ...change,
+        userId: operation.userId,
+        isRemote: true,
+      }));
+      this.applyRemoteChanges(changes);
+    }
+
+    if (this.pendingOperations.size > 0 && this.onSequenceGapCallback) {
+      this.onSequenceGapCallback(this.lastAppliedSeq);
+    }
+  }
+
+  /**
+   * 로컬에서 이미 적용된 operation의 시퀀스 확인 (서버 ack 수신 시)
+   */
+  acknowledgeLocalOperation(seq: number): void {
+    if (seq <= this.lastAppliedSeq) {
+      return;
+    }
+
+    this.applySequencedOperations([
+      {
+        diagramId: '',
+        seq,
+        userId: '',
+        changes: [],
+        timestamp: new Date().toISOString(),
+      },
+    ]);
+  }
+
+  /**
+   * 스냅샷 로드 시 시퀀스 기준점 재설정
+   */
+  resetSequence(seq: number): void {
+    this.lastAppliedSeq = seq;
+    this.pendingOperations.clear();
+  }
+
+  /**
+   * 스냅샷 로드 시 CRDT 상태 재설정 (스냅샷에 반영된 필드 스탬프 로드)
+   */
+  resetElementState(stamps: ElementStamps = {}): void {
+    this.elementState.clear();
+    this.elementState.loadStamps(stamps);
+  }
+
+  /**
+   * 오프라인 동안 쌓인 로컬 변경사항을 서버 상태 위에 다시 적용
+   *
+   * 재연결 후 서버 스냅샷과 operation을 적용한 다음 호출합니다. 변경사항은 원래 스탬프로
+   * CRDT에 병합되므로, 그 사이 다른 사용자가 더 나중에 쓴 필드는 덮어쓰지 않습니다.
+   * 병합에서 모두 밀렸거나 대상 요소가 삭제된 변경사항은 rejected로 반환합니다.
+   *
+   * @returns applied: 서버로 다시 전송할 변경사항, rejected: 적용하지 못한 변경사항
+   */
+  rebaseLocalChanges(changes: ChangeEvent[]): {
+    applied: ChangeEvent[];
+    rejected: ChangeEvent[];
+  } {
+    const applied: ChangeEvent[] = [];
+    const rejected: ChangeEvent[] = [];
+    const elementRegistry = this.modeler.get('elementRegistry');
+
+    // 생성 → 수정 → 삭제 순서가 유지되도록 하나씩 적용
+    changes.forEach(change => {
+      const isCreate = change.type === 'create' || change.type === 'connection';
+      if (!isCreate && !elementRegistry?.get(change.elementId)) {
+        rejected.push(change);
+        return;
+      }
+
+      const merged = this.elementState.mergeRemoteChange(change);
+      if (!merged) {
+        rejected.push(change);
+        return;
+      }
+
+      this.applyChangesSilently([merged], mergedChange =>
+        this.trackLocalChange(mergedChange)
+      );
+      applied.push(merged);
+    });
+
+    applied.forEach(change =>
+      this.changeObservers.forEach(observer => observer.onLocalChange?.(change))
+    );
+
+    return { applied, rejected };
+  }
+
+  /**
+   * 요소 상태 CRDT 조회
+   */
+  getElementState(): ElementStateCRDT {
+    return this.elementState;
+  }
+
+  /**
+   * 마지막으로 적용한 시퀀스 번호
+   */
+  getLastAppliedSeq(): number {
+    return this.lastAppliedSeq;
+  }
+
   /**
    * 변경사항을 타입별로 그룹화
    */
@@ -357,10 +624,48 @@ export class CollaborationEventManager {
     changes.forEach(change => {
       if (change.elementData) {
         this.silentUpdateService.addElementSilently(change.elementData);
+        this.applyRemoteContainment(change);
       }
     });
   }
 
+  /**
+   * 원격 연결선 생성 처리
+   */
+  private processRemoteConnections(changes: ChangeEvent[]): void {
+    changes.forEach(change => {
+      if (change.elementData && change.sourceId && change.targetId) {
+        this.silentUpdateService.addConnectionSilently(
+          change.elementData,
+          change.sourceId,
+          change.targetId
+        );
+        this.applyRemoteContainment(change);
+      }
+    });
+  }
+
+  /**
+   * 원격 포함 관계 변경 처리 (부모, 경계 이벤트 호스트, 레인 소속)
+   */
+  private applyRemoteContainment(change: ChangeEvent): void {
+    if (
+      change.parentId === undefined &&
+      change.rootId === undefined &&
+      change.hostId === undefined &&
+      change.laneIds === undefined
+    ) {
+      return;
+    }
+
+    this.silentUpdateService.updateContainmentSilently(change.elementId, {
+      parentId: change.parentId,
+      hostId: change.hostId,
+      laneIds: change.laneIds,
+      rootId: change.rootId,
+    });
+  }
+
   /**
    * 원격 속성 변경 처리
    */
@@ -380,6 +685,25 @@ export class CollaborationEventManager {
    */
   private processRemotePositionChanges(changes: ChangeEvent[]): void {
     changes.forEach(change => {
+      this.applyRemoteContainment(change);
+
+      // 외부 라벨 위치 (이벤트, 게이트웨이, 연결선 등의 라벨)
+      if (change.label) {
+        this.silentUpdateService.updateLabelSilently(
+          change.elementId,
+          change.label
+        );
+      }
+
+      if (change.waypoints || change.sourceId || change.targetId) {
+        this.silentUpdateService.updateConnectionSilently(change.elementId, {
+          waypoints: change.waypoints,
+          sourceId: change.sourceId,
+          targetId: change.targetId,
+        });
+        return;
+      }
+
       const visualProps: any = {};
 
       if (change.x !== undefined) visualProps.x = change.x;
@@ -420,48 +744,24 @@ export class CollaborationEventManager {
     };
 
     this.changeTracker.set(change.elementId, trackingInfo);
-
-    // 이벤트 소스 히스토리 업데이트
-    this.eventSourceHistory.set(change.elementId, {
-      elementId: change.elementId,
-      timestamp: change.timestamp,
-      source: 'local',
-      processed: false,
-    });
   }
 
   /**
    * 원격 변경사항 추적
    */
   private trackRemoteChange(change: ChangeEvent): void {
-    // 이벤트 소스 히스토리 업데이트
-    this.eventSourceHistory.set(change.elementId, {
-      elementId: change.elementId,
-      timestamp: change.timestamp,
-      source: 'remote',
-      processed: true,
-    });
+    // 원격 변경 이후의 로컬 변경은 이전 로컬 변경과 같더라도 중복이 아님
+    this.changeTracker.delete(change.elementId);
 
     // 원격 변경사항 콜백 호출
     if (this.onRemoteChangeCallback) {
       this.onRemoteChangeCallback(change);
     }
+    this.changeObservers.forEach(observer => observer.onRemoteChange?.(change));
   }
 
   /**
-   * 원격 이벤트 소스로 표시
-   */
-  private markAsRemoteEvent(elementId: string): void {
-    this.remoteEventSources.add(elementId);
-
-    // 일정 시간 후 자동 제거 (메모리 누수 방지)
-    setTimeout(() => {
-      this.remoteEventSources.delete(elementId);
-    }, this.EVENT_SOURCE_TTL);
-  }
-
-  /**
-   * 중복 변경사항 감지
+   * 중복 변경사항 감지 (직전 변경사항과 타입 및 내용이 같은 경우)
    */
   private isDuplicateChange(change: ChangeEvent): boolean {
     const trackingInfo = this.changeTracker.get(change.elementId);
@@ -469,12 +769,12 @@ export class CollaborationEventManager {
       return false;
     }
 
-    // 같은 타입의 변경사항이 짧은 시간 내에 발생한 경우
-    const timeDiff = change.timestamp - trackingInfo.lastTimestamp;
-    const isSameType = trackingInfo.lastChange.type === change.type;
-    const isRecent = timeDiff < 50; // 50ms 이내
-
-    return isSameType && isRecent;
+    const lastChange: ChangeEvent = trackingInfo.lastChange;
+    return (
+      lastChange.type === change.type &&
+      JSON.stringify(getChangePayload(lastChange)) ===
+        JSON.stringify(getChangePayload(change))
+    );
   }
 
   // ==================== 디바운싱 및 배치 처리 ====================
@@ -488,8 +788,15 @@ export class CollaborationEventManager {
       return;
     }
 
-    // 버퍼에 변경사항 추가
-    this.changeBuffer.set(change.elementId, change);
+    this.trackLocalChange(change);
+
+    // 버퍼에 변경사항 추가 (같은 요소의 속성/위치 변경은 덮어쓰지 않고 합침,
+    // 예: 요소와 외부 라벨이 함께 이동)
+    const bufferKey = `${change.type}:${change.elementId}`;
+    this.changeBuffer.set(
+      bufferKey,
+      mergeBufferedChange(this.changeBuffer.get(bufferKey), change)
+    );
 
     // 기존 타이머 취소
     if (this.debounceTimer) {
@@ -502,6 +809,19 @@ export class CollaborationEventManager {
     }, this.DEBOUNCE_DELAY);
   }
 
+  /**
+   * 대기 중인 버퍼를 디바운스 없이 즉시 플러시
+   */
+  private flushPendingChanges(): void {
+    if (this.changeBuffer.size === 0) {
+      return;
+    }
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.flushChangeBuffer();
+  }
+
   /**
    * 변경사항 버퍼 플러시
    */
@@ -519,10 +839,18 @@ export class CollaborationEventManager {
   /**
    * 로컬 변경사항 브로드캐스트 (단일)
    */
-  private broadcastLocalChange(change: ChangeEvent): void {
+  private broadcastLocalChange(change: ChangeEvent): ChangeEvent {
+    // 로컬 쓰기를 CRDT에 기록하고 필드별 스탬프를 붙여 전송
+    const stampedChange = this.elementState.stampLocalChange(change);
+
+    this.changeObservers.forEach(observer =>
+      observer.onLocalChange?.(stampedChange)
+    );
     if (this.onLocalChangeCallback) {
-      this.onLocalChangeCallback(change);
+      this.onLocalChangeCallback(stampedChange);
     }
+
+    return stampedChange;
   }
 
   /**
@@ -537,33 +865,111 @@ export class CollaborationEventManager {
   // ==================== 데이터 추출 유틸리티 ====================
 
   /**
-   * 요소 속성 추출
+   * 캔버스에 있는 요소의 현재 상태를 생성 변경사항 형태로 조회
+   * (요소가 없으면 null)
    */
-  private extractElementProperties(element: any): any {
-    if (!element.businessObject) {
-      return {};
+  captureElementState(elementId: string): ChangeEvent | null {
+    const element = this.modeler.get('elementRegistry')?.get(elementId);
+    if (!element) {
+      return null;
     }
 
-    const businessObject = element.businessObject;
-    const properties: any = {};
+    return this.createElementChange(element);
+  }
 
-    // 기본 속성들
-    if (businessObject.name !== undefined)
-      properties.name = businessObject.name;
-    if (businessObject.documentation)
-      properties.documentation = businessObject.documentation;
+  /**
+   * 요소 생성 변경사항 (연결선은 양 끝 요소 ID와 waypoints 포함)
+   */
+  private createElementChange(element: any): ChangeEvent {
+    if (element.waypoints) {
+      return {
+        type: 'connection',
+        elementId: element.id,
+        elementType: element.businessObject?.$type,
+        elementData: {
+          id: element.id,
+          type: element.businessObject?.$type || element.type,
+          waypoints: copyWaypoints(element.waypoints),
+          properties: this.extractElementProperties(element),
+        },
+        sourceId: element.source?.id,
+        targetId: element.target?.id,
+        ...getContainment(element),
+        timestamp: Date.now(),
+      };
+    }
 
-    // BPMN 특화 속성들
-    if (businessObject.assignee) properties.assignee = businessObject.assignee;
-    if (businessObject.candidateUsers)
-      properties.candidateUsers = businessObject.candidateUsers;
-    if (businessObject.candidateGroups)
-      properties.candidateGroups = businessObject.candidateGroups;
-    if (businessObject.formKey) properties.formKey = businessObject.formKey;
-    if (businessObject.priority) properties.priority = businessObject.priority;
-    if (businessObject.dueDate) properties.dueDate = businessObject.dueDate;
+    return {
+      type: 'create',
+      elementId: element.id,
+      elementType: element.businessObject?.$type,
+      elementData: this.extractElementData(element),
+      ...getContainment(element),
+      timestamp: Date.now(),
+    };
+  }
 
-    return properties;
+  /**
+   * 요소 속성 추출 (moddle 디스크립터 기준 전체 속성)
+   */
+  private extractElementProperties(element: any): PropertyMap {
+    return serializeProperties(element.businessObject);
+  }
+
+  /**
+   * 마지막 동기화 이후 바뀐 속성만 추출하고 기준 상태 갱신
+   * (기준 상태가 없으면 전체 속성)
+   */
+  private diffElementProperties(element: any): PropertyMap {
+    const current = this.extractElementProperties(element);
+    const previous = this.propertySnapshots.get(element.id);
+    this.propertySnapshots.set(element.id, current);
+
+    return previous ? diffProperties(previous, current) : current;
+  }
+
+  /**
+   * 캔버스 요소의 현재 속성을 diff 기준 상태로 저장 (요소가 없으면 제거)
+   */
+  private refreshPropertySnapshot(elementId: string): void {
+    const element = this.modeler.get('elementRegistry')?.get(elementId);
+    if (element) {
+      this.propertySnapshots.set(
+        elementId,
+        this.extractElementProperties(element)
+      );
+    } else {
+      this.propertySnapshots.delete(elementId);
+    }
+  }
+
+  /**
+   * import된 모든 요소의 속성을 diff 기준 상태로 저장
+   */
+  private capturePropertySnapshots(): void {
+    this.propertySnapshots.clear();
+    this.modeler.get('elementRegistry')?.forEach((element: any) => {
+      if (!element.labelTarget) {
+        this.propertySnapshots.set(
+          element.id,
+          this.extractElementProperties(element)
+        );
+      }
+    });
+  }
+
+  /**
+   * 포함 관계 명령의 대상 요소 (부착된 경계 이벤트, 레인 소속이 바뀐 요소)
+   */
+  private getContainmentTargets(context: any): any[] {
+    if (context?.shape) {
+      return [context.shape];
+    }
+
+    const elementRegistry = this.modeler.get('elementRegistry');
+    return (context?.updates || [])
+      .map((update: any) => elementRegistry?.get(update.flowNode?.id))
+      .filter(Boolean);
   }
 
   /**
@@ -594,13 +1000,16 @@ export class CollaborationEventManager {
 
       // 속성 변경 명령
       if (event.command === 'element.updateProperties' && context.element) {
-        changes.push({
-          type: 'property',
-          elementId: context.element.id,
-          elementType: context.element.businessObject?.$type,
-          properties: context.properties || {},
-          timestamp: Date.now(),
-        });
+        const properties = this.diffElementProperties(context.element);
+        if (Object.keys(properties).length > 0) {
+          changes.push({
+            type: 'property',
+            elementId: context.element.id,
+            elementType: context.element.businessObject?.$type,
+            properties,
+            timestamp: Date.now(),
+          });
+        }
       }
 
       // 이동 명령
@@ -639,36 +1048,48 @@ export class CollaborationEventManager {
     this.onRemoteChangeCallback = callback;
   }
 
+  /**
+   * 시퀀스 갭 감지 콜백 설정 (누락된 operation 요청용)
+   */
+  onSequenceGap(callback: (lastAppliedSeq: number) => void): void {
+    this.onSequenceGapCallback = callback;
+  }
+
+  /**
+   * 변경사항 관찰자 등록 (단일 콜백과 달리 여러 개 등록 가능)
+   *
+   * @returns 등록 해제 함수
+   */
+  observeChanges(observer: ChangeObserver): () => void {
+    this.changeObservers.add(observer);
+
+    return () => {
+      this.changeObservers.delete(observer);
+    };
+  }
+
   // ==================== 정리 및 유지보수 ====================
 
   /**
    * 정리 타이머 시작
    */
   private startCleanupTimer(): void {
-    setInterval(() => {
+    this.cleanupTimer = setInterval(() => {
       this.cleanupExpiredEvents();
-    }, this.EVENT_SOURCE_TTL);
+    }, this.CHANGE_TRACKING_TTL);
   }
 
   /**
-   * 만료된 이벤트 정리
+   * 만료된 변경사항 추적 정보 정리
    */
   private cleanupExpiredEvents(): void {
     const now = Date.now();
 
-    // 만료된 이벤트 소스 히스토리 정리
-    for (const [elementId, sourceInfo] of this.eventSourceHistory.entries()) {
-      if (now - sourceInfo.timestamp > this.EVENT_SOURCE_TTL) {
-        this.eventSourceHistory.delete(elementId);
-      }
-    }
-
-    // 만료된 변경사항 추적 정보 정리
-    for (const [elementId, trackingInfo] of this.changeTracker.entries()) {
-      if (now - trackingInfo.lastTimestamp > this.EVENT_SOURCE_TTL * 2) {
+    this.changeTracker.forEach((trackingInfo, elementId) => {
+      if (now - trackingInfo.lastTimestamp > this.CHANGE_TRACKING_TTL) {
         this.changeTracker.delete(elementId);
       }
-    }
+    });
   }
 
   /**
@@ -681,15 +1102,23 @@ export class CollaborationEventManager {
       this.debounceTimer = null;
     }
 
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+
     // 버퍼 정리
     this.changeBuffer.clear();
-    this.remoteEventSources.clear();
-    this.eventSourceHistory.clear();
+    this.pendingOperations.clear();
+    this.elementState.clear();
+    this.propertySnapshots.clear();
     this.changeTracker.clear();
 
     // 콜백 정리
     this.onLocalChangeCallback = undefined;
     this.onRemoteChangeCallback = undefined;
+    this.onSequenceGapCallback = undefined;
+    this.changeObservers.clear();
   }
 
   /**
@@ -697,21 +1126,102 @@ export class CollaborationEventManager {
    */
   getServiceInfo(): {
     isProcessingRemoteEvent: boolean;
-    remoteEventSourcesCount: number;
     changeTrackerSize: number;
-    eventSourceHistorySize: number;
     changeBufferSize: number;
   } {
     return {
       isProcessingRemoteEvent: this.isProcessingRemoteEvent,
-      remoteEventSourcesCount: this.remoteEventSources.size,
       changeTrackerSize: this.changeTracker.size,
-      eventSourceHistorySize: this.eventSourceHistory.size,
       changeBufferSize: this.changeBuffer.size,
     };
   }
 }
 
+/**
+ * 클라이언트 식별자 생성 (CRDT 스탬프의 동률 판정용)
+ */
+function generateClientId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * waypoints 복사 (bpmn-js waypoint의 original 등 내부 속성 제외)
+ */
+function copyWaypoints(
+  waypoints: Array<{ x: number; y: number }> = []
+): Array<{ x: number; y: number }> {
+  return waypoints.map(point => ({ x: point.x, y: point.y }));
+}
+
+/**
+ * 요소의 포함 관계 (부모, plane 루트, 경계 이벤트 호스트, 플로우 노드의 소속 레인)
+ *
+ * 부모와 루트는 BPMN 요소 ID로 보냅니다. 펼쳐 볼 수 있는 서브프로세스 plane의
+ * 루트는 캔버스 ID(`<id>_plane`)가 BPMN 요소 ID와 다르기 때문입니다.
+ */
+function getContainment(
+  element: any
+): Pick<ChangeEvent, 'parentId' | 'rootId' | 'hostId' | 'laneIds'> {
+  const containment: Pick<
+    ChangeEvent,
+    'parentId' | 'rootId' | 'hostId' | 'laneIds'
+  > = {};
+  const businessObject = element.businessObject;
+
+  if (element.parent?.id) {
+    containment.parentId =
+      element.parent.businessObject?.id || element.parent.id;
+
+    let root = element.parent;
+    while (root.parent) {
+      root = root.parent;
+    }
+    containment.rootId = root.businessObject?.id || root.id;
+  }
+  if (element.host?.id) {
+    containment.hostId = element.host.id;
+  }
+  if (businessObject?.$instanceOf?.('bpmn:FlowNode')) {
+    containment.laneIds = (businessObject.lanes || []).map(
+      (lane: any) => lane.id
+    );
+  }
+
+  return containment;
+}
+
+/**
+ * 디바운스 버퍼의 같은 요소 변경사항과 합침 (나중 값 우선)
+ */
+function mergeBufferedChange(
+  buffered: ChangeEvent | undefined,
+  change: ChangeEvent
+): ChangeEvent {
+  if (!buffered) {
+    return change;
+  }
+
+  switch (change.type) {
+    case 'property':
+      return {
+        ...change,
+        properties: { ...buffered.properties, ...change.properties },
+      };
+    case 'position':
+      return { ...buffered, ...change };
+    default:
+      return change;
+  }
+}
+
+/**
+ * 중복 비교용 변경 내용 (타임스탬프 등 메타데이터 제외)
+ */
+function getChangePayload(change: ChangeEvent): any {
+  const { timestamp, userId, isRemote, stamps, ...payload } = change;
+  return payload;
+}
+
 /**
  * CollaborationEventManager 모듈 정의
  */
@@ -0,0 +1,326 @@
+/**
+ * CollaborativeUndoManager 테스트
+ */
+
+import { CollaborativeUndoManager } from './CollaborativeUndoManager';
+import { ChangeObserver } from './CollaborationEventManager';
+import { ElementStateCRDT } from './ElementStateCRDT';
+import { ChangeEvent } from '../../types/bpmn';
+
+// 협업 이벤트 관리자 Mock (실제 CRDT로 스탬프를 붙이고 관찰자에게 알림)
+const createMockCollaborationManager = (elements: Map<string, any>) => {
+  const elementState = new ElementStateCRDT('client-a');
+  const observers = new Set<ChangeObserver>();
+
+  const localChange = (change: ChangeEvent): ChangeEvent => {
+    const stamped = elementState.stampLocalChange(change);
+    observers.forEach(observer => observer.onLocalChange?.(stamped));
+    return stamped;
+  };
+
+  return {
+    getElementState: () => elementState,
+    observeChanges: jest.fn((observer: ChangeObserver) => {
+      observers.add(observer);
+      return () => observers.delete(observer);
+    }),
+    captureElementState: jest.fn((elementId: string) => {
+      const element = elements.get(elementId);
+      return element
+        ? {
+            type: 'create',
+            elementId,
+            elementType: element.type,
+            elementData: { ...element },
+            timestamp: Date.now(),
+          }
+        : null;
+    }),
+    applyLocalChanges: jest.fn((changes: ChangeEvent[]) =>
+      changes.map(localChange)
+    ),
+    // 사용자 편집으로 발생한 로컬 변경사항
+    localChange,
+    // 다른 사용자의 변경사항 (client-a보다 뒤에 정렬되는 클라이언트 ID)
+    remoteChange(change: ChangeEvent, clock: number): void {
+      const stamps: any = {};
+      ['position', 'size', 'alive', 'prop:name'].forEach(field => {
+        stamps[field] = { clock, clientId: 'client-b' };
+      });
+      const merged = elementState.mergeRemoteChange({ ...change, stamps });
+      if (merged) {
+        observers.forEach(observer => observer.onRemoteChange?.(merged));
+      }
+    },
+  };
+};
+
+const propertyChange = (elementId: string, properties: any): ChangeEvent => ({
+  type: 'property',
+  elementId,
+  properties,
+  timestamp: Date.now(),
+});
+
+const positionChange = (
+  elementId: string,
+  x: number,
+  y: number
+): ChangeEvent => ({
+  type: 'position',
+  elementId,
+  x,
+  y,
+  timestamp: Date.now(),
+});
+
+describe('CollaborativeUndoManager', () => {
+  let eventBus: { on: jest.Mock; off: jest.Mock };
+  let editorActions: {
+    isRegistered: jest.Mock;
+    register: jest.Mock;
+    unregister: jest.Mock;
+  };
+  let collaborationManager: ReturnType<typeof createMockCollaborationManager>;
+  let undoManager: CollaborativeUndoManager;
+
+  const task = {
+    id: 'Task_1',
+    type: 'bpmn:Task',
+    x: 100,
+    y: 100,
+    width: 100,
+    height: 80,
+    properties: { name: 'Review' },
+  };
+
+  // 묶음 시간보다 늦게 다음 동작을 수행
+  const nextAction = () => jest.advanceTimersByTime(1000);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+
+    const elements = new Map<string, any>([['Task_1', task]]);
+    collaborationManager = createMockCollaborationManager(elements);
+    eventBus = { on: jest.fn(), off: jest.fn() };
+    editorActions = {
+      isRegistered: jest.fn(() => true),
+      register: jest.fn(),
+      unregister: jest.fn(),
+    };
+
+    const services: { [name: string]: any } = {
+      eventBus,
+      editorActions,
+      elementRegistry: {
+        getAll: jest.fn(() => [
+          { id: 'Process_1' },
+          { id: 'Task_1', parent: { id: 'Process_1' } },
+          { id: 'Task_1_label', parent: {}, labelTarget: { id: 'Task_1' } },
+        ]),
+      },
+    };
+    const modeler = { get: jest.fn((name: string) => services[name]) };
+
+    undoManager = new CollaborativeUndoManager(
+      modeler,
+      collaborationManager as any
+    );
+  });
+
+  afterEach(() => {
+    undoManager.cleanup();
+    jest.useRealTimers();
+  });
+
+  it('로컬 변경을 이전 값으로 되돌리는 변경사항을 적용해야 한다', () => {
+    collaborationManager.localChange(
+      propertyChange('Task_1', { name: 'Approve' })
+    );
+    expect(undoManager.canUndo()).toBe(true);
+
+    expect(undoManager.undo()).toBe(true);
+
+    const [inverse] = collaborationManager.applyLocalChanges.mock.calls[0][0];
+    expect(inverse).toMatchObject({
+      type: 'property',
+      elementId: 'Task_1',
+      properties: { name: 'Review' },
+    });
+    expect(undoManager.canUndo()).toBe(false);
+    expect(undoManager.canRedo()).toBe(true);
+  });
+
+  it('속성과 포함 관계를 함께 바꾼 변경은 둘 다 되돌려야 한다', () => {
+    collaborationManager.localChange({
+      type: 'position',
+      elementId: 'Task_1',
+      parentId: 'Process_1',
+      timestamp: Date.now(),
+    });
+    nextAction();
+    collaborationManager.localChange({
+      type: 'property',
+      elementId: 'Task_1',
+      properties: { name: 'Approve' },
+      parentId: 'Sub_1',
+      timestamp: Date.now(),
+    });
+
+    expect(undoManager.undo()).toBe(true);
+
+    const inverse = collaborationManager.applyLocalChanges.mock.calls[0][0];
+    expect(inverse).toHaveLength(2);
+    expect(inverse[0]).toMatchObject({
+      type: 'property',
+      elementId: 'Task_1',
+      properties: { name: 'Review' },
+    });
+    expect(inverse[1]).toMatchObject({
+      type: 'position',
+      elementId: 'Task_1',
+      parentId: 'Process_1',
+    });
+  });
+
+  it('redo는 되돌린 변경을 다시 적용해야 한다', () => {
+    collaborationManager.localChange(positionChange('Task_1', 300, 200));
+    undoManager.undo();
+
+    expect(undoManager.redo()).toBe(true);
+
+    const [redo] = collaborationManager.applyLocalChanges.mock.calls[1][0];
+    expect(redo).toMatchObject({ type: 'position', x: 300, y: 200 });
+    expect(undoManager.canUndo()).toBe(true);
+    expect(undoManager.canRedo()).toBe(false);
+  });
+
+  it('원격 변경사항은 undo 스택에 기록하지 않아야 한다', () => {
+    collaborationManager.remoteChange(
+      propertyChange('Task_1', { name: 'Remote' }),
+      10
+    );
+
+    expect(undoManager.canUndo()).toBe(false);
+    expect(undoManager.undo()).toBe(false);
+    expect(collaborationManager.applyLocalChanges).not.toHaveBeenCalled();
+  });
+
+  it('다른 사용자가 이후에 덮어쓴 필드는 되돌리지 않아야 한다', () => {
+    collaborationManager.localChange(
+      propertyChange('Task_1', { name: 'Approve' })
+    );
+    nextAction();
+    collaborationManager.localChange(positionChange('Task_1', 300, 200));
+
+    // 다른 사용자가 로컬 이동 이후에 위치를 변경
+    collaborationManager.remoteChange(positionChange('Task_1', 500, 500), 10);
+
+    // 위치 변경은 원격에서 덮어썼으므로 건너뛰고 이름 변경을 되돌림
+    expect(undoManager.undo()).toBe(true);
+
+    expect(collaborationManager.applyLocalChanges).toHaveBeenCalledTimes(1);
+    const [inverse] = collaborationManager.applyLocalChanges.mock.calls[0][0];
+    expect(inverse).toMatchObject({
+      type: 'property',
+      properties: { name: 'Review' },
+    });
+  });
+
+  it('원격에서 삭제된 요소의 변경은 되돌리지 않아야 한다', () => {
+    collaborationManager.localChange(
+      propertyChange('Task_1', { name: 'Approve' })
+    );
+    collaborationManager.remoteChange(
+      { type: 'remove', elementId: 'Task_1', timestamp: Date.now() },
+      10
+    );
+
+    expect(undoManager.undo()).toBe(false);
+    expect(collaborationManager.applyLocalChanges).not.toHaveBeenCalled();
+  });
+
+  it('삭제를 되돌리면 삭제 전 상태로 다시 생성해야 한다', () => {
+    collaborationManager.localChange({
+      type: 'remove',
+      elementId: 'Task_1',
+      timestamp: Date.now(),
+    });
+
+    undoManager.undo();
+
+    const [inverse] = collaborationManager.applyLocalChanges.mock.calls[0][0];
+    expect(inverse).toMatchObject({
+      type: 'create',
+      elementId: 'Task_1',
+      elementType: 'bpmn:Task',
+      elementData: {
+        x: 100,
+        y: 100,
+        width: 100,
+        height: 80,
+        properties: { name: 'Review' },
+      },
+    });
+  });
+
+  it('생성을 되돌리면 요소를 삭제해야 한다', () => {
+    collaborationManager.localChange({
+      type: 'create',
+      elementId: 'Task_2',
+      elementType: 'bpmn:Task',
+      elementData: { type: 'bpmn:Task', x: 0, y: 0, width: 100, height: 80 },
+      timestamp: Date.now(),
+    });
+
+    undoManager.undo();
+
+    const [inverse] = collaborationManager.applyLocalChanges.mock.calls[0][0];
+    expect(inverse).toMatchObject({ type: 'remove', elementId: 'Task_2' });
+  });
+
+  it('짧은 시간 안의 연속 변경은 한 번에 되돌려야 한다', () => {
+    collaborationManager.localChange(
+      propertyChange('Task_1', { name: 'Approve' })
+    );
+    collaborationManager.localChange(positionChange('Task_1', 300, 200));
+
+    undoManager.undo();
+
+    const inverse = collaborationManager.applyLocalChanges.mock.calls[0][0];
+    expect(inverse.map((change: ChangeEvent) => change.type)).toEqual([
+      'position',
+      'property',
+    ]);
+    expect(undoManager.canUndo()).toBe(false);
+  });
+
+  it('새 로컬 변경이 생기면 redo 기록을 지워야 한다', () => {
+    const listener = jest.fn();
+    undoManager.onChange(listener);
+
+    collaborationManager.localChange(positionChange('Task_1', 300, 200));
+    undoManager.undo();
+    nextAction();
+    collaborationManager.localChange(positionChange('Task_1', 400, 200));
+
+    expect(undoManager.canRedo()).toBe(false);
+    expect(listener).toHaveBeenLastCalledWith({
+      canUndo: true,
+      canRedo: false,
+    });
+  });
+
+  it('키보드 undo/redo 동작을 교체해야 한다', () => {
+    expect(editorActions.unregister).toHaveBeenCalledWith('undo');
+    expect(editorActions.unregister).toHaveBeenCalledWith('redo');
+
+    collaborationManager.localChange(positionChange('Task_1', 300, 200));
+    const undoAction = editorActions.register.mock.calls.find(
+      ([action]) => action === 'undo'
+    )![1];
+    undoAction();
+
+    expect(undoManager.canRedo()).toBe(true);
+  });
+});
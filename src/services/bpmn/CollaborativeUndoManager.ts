@@ -0,0 +1,476 @@
+/**
+ * CollaborativeUndoManager - 협업용 사용자별 undo/redo
+ *
+ * 원격 변경사항은 SilentUpdateService로 CommandStack을 거치지 않고 적용되므로,
+ * bpmn-js 기본 undo는 다른 사용자의 변경과 충돌하는 상태로 되돌릴 수 있습니다.
+ * 이 관리자는 로컬 사용자의 변경사항만 undo 스택에 기록하고, undo 시 이전 값으로
+ * 되돌리는 역변경을 만들어 일반 로컬 변경사항처럼 적용/브로드캐스트합니다.
+ *
+ * 역변경은 그 사이 도착한 원격 변경사항에 대해 변환됩니다. 필드의 CRDT 스탬프가
+ * 기록 당시 로컬 쓰기의 스탬프와 다르면 다른 사용자가 이후에 쓴 것이므로 그 필드는
+ * 되돌리지 않습니다 (원격에서 삭제된 요소의 속성/위치도 되돌리지 않음).
+ */
+
+import { ChangeEvent } from '../../types/bpmn';
+import { CRDTStamp } from '../../types/collaboration';
+import { CollaborationEventManager } from './CollaborationEventManager';
+import { changeToFields, compareStamps } from './ElementStateCRDT';
+
+// diagram-js 타입 정의
+interface EventBus {
+  on(event: string | string[], callback: Function): void;
+  off(event: string | string[], callback?: Function): void;
+}
+
+interface ElementRegistry {
+  getAll(): any[];
+}
+
+interface EditorActions {
+  isRegistered(action: string): boolean;
+  register(action: string, listener: Function): void;
+  unregister(action: string): void;
+}
+
+type ElementFields = { [field: string]: any };
+
+/**
+ * 기록된 로컬 변경사항 (적용 전 필드 값 포함)
+ */
+interface RecordedChange {
+  change: ChangeEvent;
+  previous: ElementFields;
+  // 이전 값과 달라진 필드 (되돌릴 대상)
+  changedFields: string[];
+}
+
+/**
+ * undo/redo 단위 (하나의 사용자 동작에서 나온 변경사항 묶음)
+ */
+interface UndoEntry {
+  changes: RecordedChange[];
+  startedAt: number;
+}
+
+/**
+ * undo/redo 가능 여부
+ */
+export interface UndoState {
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+// 이 시간 안에 연속으로 발생한 로컬 변경사항은 하나의 undo 단위로 묶음
+// (로컬 변경 디바운스 100ms보다 길어야 함)
+const UNDO_GROUP_WINDOW_MS = 300;
+const UNDO_STACK_LIMIT = 100;
+const PROPERTY_FIELD_PREFIX = 'prop:';
+
+/**
+ * CollaborativeUndoManager 클래스
+ */
+export class CollaborativeUndoManager {
+  private modeler: any;
+  private eventBus: EventBus;
+  private elementRegistry: ElementRegistry;
+  private collaborationManager: CollaborationEventManager;
+
+  private undoStack: UndoEntry[] = [];
+  private redoStack: UndoEntry[] = [];
+
+  // 요소별 마지막으로 알려진 필드 값 (로컬 변경 직전 값을 알기 위해 유지)
+  private knownState = new Map<string, ElementFields>();
+
+  // undo/redo 적용 중 발생한 로컬 변경사항 (일반 기록 대신 여기로 수집)
+  private applyingChanges: RecordedChange[] | null = null;
+
+  private listeners = new Set<(state: UndoState) => void>();
+  private unobserve: () => void;
+
+  constructor(modeler: any, collaborationManager: CollaborationEventManager) {
+    this.modeler = modeler;
+    this.collaborationManager = collaborationManager;
+    this.eventBus = modeler.get('eventBus');
+    this.elementRegistry = modeler.get('elementRegistry');
+
+    this.unobserve = collaborationManager.observeChanges({
+      onLocalChange: change => this.recordLocalChange(change),
+      onRemoteChange: change => this.updateKnownState(change),
+    });
+
+    // 다이어그램을 (다시) 불러오면 이전 기록은 현재 상태와 맞지 않으므로 초기화
+    this.eventBus.on('import.done', this.handleImportDone);
+    this.captureCanvasState();
+
+    this.installEditorActions();
+  }
+
+  // ==================== undo / redo ====================
+
+  /**
+   * 마지막 로컬 변경 되돌리기
+   *
+   * 다른 사용자가 이미 덮어쓴 변경만 남은 항목은 건너뜁니다.
+   *
+   * @returns 되돌린 변경이 있으면 true
+   */
+  undo(): boolean {
+    return this.replay(this.undoStack, this.redoStack);
+  }
+
+  /**
+   * 되돌린 변경 다시 적용
+   */
+  redo(): boolean {
+    return this.replay(this.redoStack, this.undoStack);
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * undo/redo 기록 초기화
+   */
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.notify();
+  }
+
+  /**
+   * undo/redo 가능 여부 변경 구독 (구독 해제 함수 반환)
+   */
+  onChange(listener: (state: UndoState) => void): () => void {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private replay(from: UndoEntry[], to: UndoEntry[]): boolean {
+    while (from.length > 0) {
+      const entry = from.pop()!;
+      const inverse = this.buildInverseChanges(entry);
+
+      if (inverse.length === 0) {
+        continue;
+      }
+
+      const applied = this.applyChanges(inverse);
+      if (applied.length > 0) {
+        to.push({ changes: applied, startedAt: Date.now() });
+      }
+      this.notify();
+      return true;
+    }
+
+    this.notify();
+    return false;
+  }
+
+  /**
+   * 역변경 적용 - 적용 중 기록된 변경사항이 반대 방향 스택의 항목이 됨
+   */
+  private applyChanges(changes: ChangeEvent[]): RecordedChange[] {
+    const recorded: RecordedChange[] = [];
+    this.applyingChanges = recorded;
+
+    try {
+      this.collaborationManager.applyLocalChanges(changes);
+    } finally {
+      this.applyingChanges = null;
+    }
+
+    return recorded;
+  }
+
+  // ==================== 변경사항 기록 ====================
+
+  private recordLocalChange(change: ChangeEvent): void {
+    const previous = { ...(this.knownState.get(change.elementId) || {}) };
+    const fields = changeToFields(change);
+    const changedFields = Object.keys(fields).filter(
+      field => JSON.stringify(previous[field]) !== JSON.stringify(fields[field])
+    );
+
+    this.updateKnownState(change);
+
+    if (changedFields.length === 0) {
+      return;
+    }
+
+    const recorded: RecordedChange = { change, previous, changedFields };
+
+    if (this.applyingChanges) {
+      this.applyingChanges.push(recorded);
+      return;
+    }
+
+    // 새 로컬 변경이 생기면 redo 기록은 무효
+    this.redoStack = [];
+
+    const now = Date.now();
+    const last = this.undoStack[this.undoStack.length - 1];
+    if (last && now - last.startedAt <= UNDO_GROUP_WINDOW_MS) {
+      last.changes.push(recorded);
+    } else {
+      this.undoStack.push({ changes: [recorded], startedAt: now });
+      if (this.undoStack.length > UNDO_STACK_LIMIT) {
+        this.undoStack.shift();
+      }
+    }
+
+    this.notify();
+  }
+
+  /**
+   * 알려진 요소 상태에 변경사항 반영
+   */
+  private updateKnownState(change: ChangeEvent): void {
+    const fields = changeToFields(change);
+    const state =
+      change.type === 'create' || change.type === 'connection'
+        ? {}
+        : { ...(this.knownState.get(change.elementId) || {}) };
+
+    Object.keys(fields).forEach(field => {
+      state[field] = fields[field];
+    });
+    this.knownState.set(change.elementId, state);
+  }
+
+  /**
+   * 캔버스의 현재 요소 상태를 알려진 상태로 기록 (루트와 레이블 제외)
+   *
+   * 로컬 변경 이벤트는 캔버스가 바뀐 뒤에 도착하므로 변경 전 값은 미리 알고 있어야 함
+   */
+  private captureCanvasState(): void {
+    this.knownState.clear();
+
+    this.elementRegistry.getAll().forEach(element => {
+      if (!element.parent || element.labelTarget) {
+        return;
+      }
+
+      const snapshot = this.collaborationManager.captureElementState(
+        element.id
+      );
+      if (snapshot) {
+        this.knownState.set(element.id, changeToFields(snapshot));
+      }
+    });
+  }
+
+  // ==================== 역변경 생성 ====================
+
+  /**
+   * 항목의 역변경 생성 (나중에 적용된 변경부터 역순으로, 원격에서 덮어쓴 필드는 제외)
+   */
+  private buildInverseChanges(entry: UndoEntry): ChangeEvent[] {
+    const inverse: ChangeEvent[] = [];
+
+    entry.changes
+      .slice()
+      .reverse()
+      .forEach(recorded => {
+        inverse.push(...this.buildRecordedInverse(recorded));
+      });
+
+    return inverse;
+  }
+
+  private buildRecordedInverse(recorded: RecordedChange): ChangeEvent[] {
+    const { change, previous } = recorded;
+    const fields = recorded.changedFields.filter(field =>
+      this.isStillOwnWrite(change, field)
+    );
+
+    if (fields.length === 0) {
+      return [];
+    }
+
+    const base = {
+      elementId: change.elementId,
+      elementType: change.elementType,
+      timestamp: Date.now(),
+    };
+
+    // 생성/삭제는 존재 여부를 되돌림
+    if (fields.indexOf('alive') !== -1) {
+      return [
+        previous.alive === false || previous.alive === undefined
+          ? { ...base, type: 'remove' }
+          : this.buildRecreateChange(change.elementId, previous),
+      ];
+    }
+
+    const elementState = this.collaborationManager.getElementState();
+    if (elementState.isRemoved(change.elementId)) {
+      return [];
+    }
+
+    const properties: any = {};
+    const geometry: Partial<ChangeEvent> = {};
+
+    fields.forEach(field => {
+      if (field.indexOf(PROPERTY_FIELD_PREFIX) === 0) {
+        // JSON으로 전송되므로 없던 속성은 null로 되돌림
+        const value = previous[field];
+        properties[field.slice(PROPERTY_FIELD_PREFIX.length)] =
+          value === undefined ? null : value;
+      } else if (field === 'position' && previous.position) {
+        geometry.x = previous.position.x;
+        geometry.y = previous.position.y;
+      } else if (field === 'size' && previous.size) {
+        geometry.width = previous.size.width;
+        geometry.height = previous.size.height;
+      } else if (field === 'waypoints' && previous.waypoints) {
+        geometry.waypoints = previous.waypoints;
+      } else if (field === 'label' && previous.label) {
+        geometry.label = previous.label;
+      } else if (field === 'source' && previous.source) {
+        geometry.sourceId = previous.source;
+      } else if (field === 'target' && previous.target) {
+        geometry.targetId = previous.target;
+      } else if (field === 'parent' && previous.parent) {
+        geometry.parentId = previous.parent;
+      } else if (field === 'root' && previous.root) {
+        geometry.rootId = previous.root;
+      } else if (field === 'host' && previous.host) {
+        geometry.hostId = previous.host;
+      } else if (field === 'lanes' && previous.lanes) {
+        geometry.laneIds = previous.lanes;
+      }
+    });
+
+    // 속성과 위치/포함 관계를 함께 바꾼 변경사항은 두 변경사항으로 되돌림
+    const inverse: ChangeEvent[] = [];
+    if (Object.keys(properties).length > 0) {
+      inverse.push({ ...base, type: 'property', properties });
+    }
+    if (Object.keys(geometry).length > 0) {
+      inverse.push({ ...base, ...geometry, type: 'position' });
+    }
+    return inverse;
+  }
+
+  /**
+   * 삭제된 요소를 삭제 전 상태로 다시 생성하는 변경사항
+   */
+  private buildRecreateChange(
+    elementId: string,
+    previous: ElementFields
+  ): ChangeEvent {
+    const properties: any = {};
+    Object.keys(previous).forEach(field => {
+      if (field.indexOf(PROPERTY_FIELD_PREFIX) === 0) {
+        properties[field.slice(PROPERTY_FIELD_PREFIX.length)] = previous[field];
+      }
+    });
+
+    if (previous.waypoints) {
+      return {
+        type: 'connection',
+        elementId,
+        elementType: previous.type,
+        elementData: {
+          id: elementId,
+          type: previous.type,
+          waypoints: previous.waypoints,
+          properties,
+        },
+        sourceId: previous.source,
+        targetId: previous.target,
+        parentId: previous.parent,
+        rootId: previous.root,
+        timestamp: Date.now(),
+      };
+    }
+
+    return {
+      type: 'create',
+      elementId,
+      elementType: previous.type,
+      elementData: {
+        id: elementId,
+        type: previous.type,
+        x: previous.position?.x,
+        y: previous.position?.y,
+        width: previous.size?.width,
+        height: previous.size?.height,
+        properties,
+      },
+      parentId: previous.parent,
+      rootId: previous.root,
+      hostId: previous.host,
+      laneIds: previous.lanes,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * 필드의 마지막 쓰기가 여전히 기록된 로컬 쓰기인지 확인
+   */
+  private isStillOwnWrite(change: ChangeEvent, field: string): boolean {
+    const recordedStamp: CRDTStamp | undefined = change.stamps?.[field];
+    const currentStamp = this.collaborationManager
+      .getElementState()
+      .getStamps(change.elementId)[field];
+
+    return (
+      !!recordedStamp &&
+      !!currentStamp &&
+      compareStamps(recordedStamp, currentStamp) === 0
+    );
+  }
+
+  // ==================== 에디터 연동 ====================
+
+  /**
+   * 키보드 단축키(Ctrl+Z / Ctrl+Y)가 기본 CommandStack 대신 이 관리자를 사용하도록 교체
+   */
+  private installEditorActions(): void {
+    const editorActions: EditorActions | null = this.modeler.get(
+      'editorActions',
+      false
+    );
+    if (!editorActions) {
+      return;
+    }
+
+    (['undo', 'redo'] as const).forEach(action => {
+      if (editorActions.isRegistered(action)) {
+        editorActions.unregister(action);
+      }
+      editorActions.register(action, () => this[action]());
+    });
+  }
+
+  private handleImportDone = () => {
+    this.captureCanvasState();
+    this.clear();
+  };
+
+  private notify(): void {
+    const state = { canUndo: this.canUndo(), canRedo: this.canRedo() };
+    this.listeners.forEach(listener => listener(state));
+  }
+
+  /**
+   * 리소스 정리
+   */
+  cleanup(): void {
+    this.unobserve();
+    this.eventBus.off('import.done', this.handleImportDone);
+    this.listeners.clear();
+    this.undoStack = [];
+    this.redoStack = [];
+    this.knownState.clear();
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * ElementLocks 테스트
+ */
+
+import { ElementLocks, RemoteElementLock } from './ElementLocks';
+
+// 이벤트 버스 Mock (등록된 핸들러를 직접 호출)
+const createMockEventBus = () => {
+  const handlers = new Map<string, Function[]>();
+
+  return {
+    on: jest.fn((event: string, callback: Function) => {
+      handlers.set(event, [...(handlers.get(event) || []), callback]);
+    }),
+    off: jest.fn(),
+    fire(event: string, payload?: any) {
+      (handlers.get(event) || []).forEach(handler => handler(payload));
+    },
+  };
+};
+
+describe('ElementLocks', () => {
+  const task = { id: 'Task_1' };
+  const label = { id: 'Task_1_label', labelTarget: task };
+
+  let eventBus: ReturnType<typeof createMockEventBus>;
+  let overlays: { add: jest.Mock; remove: jest.Mock };
+  let directEditing: { active: any; isActive: jest.Mock; cancel: jest.Mock };
+  let elementLocks: ElementLocks;
+
+  const remoteLock = (
+    overrides: Partial<RemoteElementLock> = {}
+  ): RemoteElementLock => ({
+    elementId: 'Task_1',
+    userId: 'user2',
+    name: 'bob',
+    color: '#FF6B6B',
+    expiresAt: new Date(Date.now() + 30000).toISOString(),
+    ...overrides,
+  });
+
+  // 직접 편집 시작/종료 시뮬레이션
+  const activateDirectEditing = (element: any) => {
+    directEditing.active = { element };
+    eventBus.fire('directEditing.activate', { active: { element } });
+  };
+
+  const deactivateDirectEditing = () => {
+    const active = directEditing.active;
+    directEditing.active = null;
+    eventBus.fire('directEditing.deactivate', { active });
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+
+    eventBus = createMockEventBus();
+    overlays = { add: jest.fn(() => 'overlay_1'), remove: jest.fn() };
+    directEditing = {
+      active: null,
+      isActive: jest.fn(
+        (element?: any) =>
+          !!directEditing.active &&
+          (!element || directEditing.active.element === element)
+      ),
+      cancel: jest.fn(() => deactivateDirectEditing()),
+    };
+
+    const elementRegistry = {
+      get: jest.fn((id: string) => (id === 'Task_1' ? task : undefined)),
+    };
+    const injector = { get: jest.fn(() => directEditing) };
+
+    elementLocks = new ElementLocks(
+      eventBus,
+      overlays,
+      elementRegistry,
+      injector
+    );
+  });
+
+  afterEach(() => {
+    elementLocks.destroy();
+    jest.useRealTimers();
+  });
+
+  describe('로컬 편집', () => {
+    it('직접 편집 동안 잠금을 요청하고 종료 시 해제해야 한다', () => {
+      const callbacks = { acquire: jest.fn(), release: jest.fn() };
+      elementLocks.trackLocalEditing(callbacks, 10000);
+
+      activateDirectEditing(task);
+      expect(callbacks.acquire).toHaveBeenCalledWith('Task_1');
+      expect(elementLocks.getHeldLocks()).toEqual(['Task_1']);
+
+      deactivateDirectEditing();
+      expect(callbacks.release).toHaveBeenCalledWith('Task_1');
+      expect(elementLocks.getHeldLocks()).toEqual([]);
+    });
+
+    it('레이블 편집은 소유 요소를 잠가야 한다', () => {
+      const callbacks = { acquire: jest.fn(), release: jest.fn() };
+      elementLocks.trackLocalEditing(callbacks, 10000);
+
+      activateDirectEditing(label);
+
+      expect(callbacks.acquire).toHaveBeenCalledWith('Task_1');
+    });
+
+    it('편집 중에는 주기적으로 잠금을 갱신해야 한다', () => {
+      const callbacks = { acquire: jest.fn(), release: jest.fn() };
+      elementLocks.trackLocalEditing(callbacks, 10000);
+
+      elementLocks.beginEditing('Task_1');
+      jest.advanceTimersByTime(20000);
+
+      expect(callbacks.acquire).toHaveBeenCalledTimes(3);
+
+      elementLocks.endEditing('Task_1');
+      jest.advanceTimersByTime(20000);
+
+      expect(callbacks.acquire).toHaveBeenCalledTimes(3);
+    });
+
+    it('다른 사용자가 잠근 요소는 편집을 취소해야 한다', () => {
+      const callbacks = { acquire: jest.fn(), release: jest.fn() };
+      elementLocks.trackLocalEditing(callbacks, 10000);
+      elementLocks.setLock(remoteLock());
+
+      activateDirectEditing(task);
+
+      expect(directEditing.cancel).toHaveBeenCalled();
+      expect(callbacks.acquire).not.toHaveBeenCalled();
+      expect(callbacks.release).not.toHaveBeenCalled();
+      expect(elementLocks.beginEditing('Task_1')).toBe(false);
+    });
+
+    it('잠금이 거부되면 편집을 취소하고 보유자를 표시해야 한다', () => {
+      const callbacks = { acquire: jest.fn(), release: jest.fn() };
+      elementLocks.trackLocalEditing(callbacks, 10000);
+      activateDirectEditing(task);
+
+      elementLocks.handleLockDenied(remoteLock());
+
+      expect(directEditing.cancel).toHaveBeenCalled();
+      expect(elementLocks.getHeldLocks()).toEqual([]);
+      expect(callbacks.release).not.toHaveBeenCalled();
+      expect(elementLocks.getLock('Task_1')?.name).toBe('bob');
+    });
+  });
+
+  describe('원격 잠금', () => {
+    it('보유자 이름을 사용자 색상 오버레이로 표시해야 한다', () => {
+      elementLocks.setLock(remoteLock());
+
+      const [element, type, overlay] = overlays.add.mock.calls[0];
+      expect(element).toBe(task);
+      expect(type).toBe('remote-lock');
+      expect(overlay.html.textContent).toBe('bob is editing');
+      expect(overlay.html.style.backgroundColor).toBe('rgb(255, 107, 107)');
+      expect(elementLocks.isLocked('Task_1')).toBe(true);
+    });
+
+    it('잠금이 해제되면 오버레이를 제거해야 한다', () => {
+      elementLocks.setLock(remoteLock());
+      overlays.remove.mockClear();
+
+      elementLocks.removeLock('Task_1');
+
+      expect(overlays.remove).toHaveBeenCalledWith({
+        element: task,
+        type: 'remote-lock',
+      });
+      expect(elementLocks.isLocked('Task_1')).toBe(false);
+    });
+
+    it('갱신되지 않은 잠금은 만료 후 제거해야 한다', () => {
+      elementLocks.setLock(
+        remoteLock({ expiresAt: new Date(Date.now() + 3000).toISOString() })
+      );
+
+      jest.advanceTimersByTime(2000);
+      expect(elementLocks.isLocked('Task_1')).toBe(true);
+
+      jest.advanceTimersByTime(2000);
+      expect(elementLocks.isLocked('Task_1')).toBe(false);
+      expect(overlays.remove).toHaveBeenCalledTimes(2);
+    });
+
+    it('다이어그램을 다시 불러오면 오버레이를 다시 표시해야 한다', () => {
+      elementLocks.setLock(remoteLock());
+      overlays.add.mockClear();
+
+      eventBus.fire('import.done');
+
+      expect(overlays.add).toHaveBeenCalledTimes(1);
+    });
+  });
+});
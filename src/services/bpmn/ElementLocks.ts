@@ -0,0 +1,327 @@
+/**
+ * ElementLocks - 요소 소프트 잠금
+ *
+ * 로컬 사용자가 요소를 직접 편집(또는 속성 패널에서 편집)하는 동안 잠금을 요청하고,
+ * 편집을 마치면 해제합니다. 잠금은 서버에서 TTL로 관리되므로 편집 중에는 주기적으로 갱신합니다.
+ * 다른 사용자가 잠근 요소에는 보유자 이름을 사용자 색상의 오버레이로 표시하고,
+ * 해당 요소의 직접 편집은 시작되지 않도록 취소합니다.
+ */
+
+// diagram-js 타입 정의
+interface EventBus {
+  on(event: string | string[], callback: Function): void;
+  off(event: string | string[], callback?: Function): void;
+}
+
+interface Overlays {
+  add(element: any, type: string, overlay: any): string;
+  remove(filter: { element?: any; type?: string }): void;
+}
+
+interface ElementRegistry {
+  get(id: string): any;
+}
+
+interface DirectEditing {
+  isActive(element?: any): boolean;
+  cancel(): void;
+}
+
+interface Injector {
+  get(name: string, strict?: boolean): any;
+}
+
+/**
+ * 원격 잠금 정보
+ */
+export interface RemoteElementLock {
+  elementId: string;
+  userId: string;
+  name: string;
+  color: string;
+  expiresAt: string;
+}
+
+/**
+ * 로컬 잠금 요청/해제 콜백
+ */
+export interface LocalLockCallbacks {
+  acquire: (elementId: string) => void;
+  release: (elementId: string) => void;
+}
+
+const OVERLAY_TYPE = 'remote-lock';
+const EXPIRY_CHECK_INTERVAL_MS = 1000;
+
+/**
+ * 레이블은 소유 요소 기준으로 잠금 (변경사항도 소유 요소 ID로 전송됨)
+ */
+function getLockTarget(element: any): any {
+  return element.labelTarget || element;
+}
+
+/**
+ * ElementLocks 클래스
+ */
+export class ElementLocks {
+  static $inject = ['eventBus', 'overlays', 'elementRegistry', 'injector'];
+
+  private eventBus: EventBus;
+  private overlays: Overlays;
+  private elementRegistry: ElementRegistry;
+  private directEditing: DirectEditing | null;
+
+  // elementId -> 다른 사용자의 잠금
+  private remoteLocks = new Map<string, RemoteElementLock>();
+  // 로컬 사용자가 편집 중인 요소
+  private heldLocks = new Set<string>();
+  private localCallbacks: LocalLockCallbacks | null = null;
+  private renewTimer: ReturnType<typeof setInterval> | null = null;
+  private expiryTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    eventBus: EventBus,
+    overlays: Overlays,
+    elementRegistry: ElementRegistry,
+    injector: Injector
+  ) {
+    this.eventBus = eventBus;
+    this.overlays = overlays;
+    this.elementRegistry = elementRegistry;
+    // Viewer 등 직접 편집 모듈이 없는 환경도 지원
+    this.directEditing = injector.get('directEditing', false);
+
+    eventBus.on('directEditing.activate', (event: any) => {
+      const elementId = getLockTarget(event.active.element).id;
+
+      if (this.isLocked(elementId)) {
+        this.directEditing?.cancel();
+        return;
+      }
+
+      this.beginEditing(elementId);
+    });
+
+    // complete/cancel 모두 deactivate로 끝남
+    eventBus.on('directEditing.deactivate', (event: any) => {
+      this.endEditing(getLockTarget(event.active.element).id);
+    });
+
+    // 다이어그램을 다시 불러오면 오버레이가 지워지므로 다시 표시
+    eventBus.on('import.done', () => {
+      this.remoteLocks.forEach(lock => this.renderLock(lock.elementId));
+    });
+
+    eventBus.on('diagram.destroy', () => this.destroy());
+
+    this.expiryTimer = setInterval(
+      () => this.removeExpiredLocks(),
+      EXPIRY_CHECK_INTERVAL_MS
+    );
+  }
+
+  // ==================== 원격 잠금 ====================
+
+  /**
+   * 다른 사용자의 잠금 설정 또는 갱신
+   */
+  setLock(lock: RemoteElementLock): void {
+    this.remoteLocks.set(lock.elementId, { ...lock });
+    this.renderLock(lock.elementId);
+
+    // 잠금이 늦게 도착한 경우 진행 중인 로컬 편집을 중단
+    this.cancelDirectEditing(lock.elementId);
+  }
+
+  /**
+   * 다른 사용자의 잠금 해제
+   */
+  removeLock(elementId: string): void {
+    if (this.remoteLocks.delete(elementId)) {
+      this.renderLock(elementId);
+    }
+  }
+
+  /**
+   * 모든 원격 잠금 제거
+   */
+  clear(): void {
+    const elementIds = Array.from(this.remoteLocks.keys());
+    this.remoteLocks.clear();
+    elementIds.forEach(elementId => this.renderLock(elementId));
+  }
+
+  /**
+   * 다른 사용자가 잠근 요소인지 확인 (만료된 잠금은 제외)
+   */
+  isLocked(elementId: string): boolean {
+    const lock = this.remoteLocks.get(elementId);
+    return !!lock && new Date(lock.expiresAt).getTime() > Date.now();
+  }
+
+  getLock(elementId: string): RemoteElementLock | null {
+    return this.isLocked(elementId) ? this.remoteLocks.get(elementId)! : null;
+  }
+
+  // ==================== 로컬 잠금 ====================
+
+  /**
+   * 로컬 잠금 요청/해제를 서버로 전달 (편집 중에는 renewMs마다 갱신)
+   *
+   * @return 추적 해제 함수
+   */
+  trackLocalEditing(
+    callbacks: LocalLockCallbacks,
+    renewMs: number
+  ): () => void {
+    this.localCallbacks = callbacks;
+    this.renewTimer = setInterval(() => {
+      this.heldLocks.forEach(elementId => callbacks.acquire(elementId));
+    }, renewMs);
+
+    return () => {
+      if (this.renewTimer) {
+        clearInterval(this.renewTimer);
+        this.renewTimer = null;
+      }
+      if (this.localCallbacks === callbacks) {
+        this.localCallbacks = null;
+      }
+    };
+  }
+
+  /**
+   * 편집 시작 (직접 편집 외에 속성 패널 등에서도 호출)
+   *
+   * @return 다른 사용자가 잠근 요소이면 false
+   */
+  beginEditing(elementId: string): boolean {
+    if (this.isLocked(elementId)) {
+      return false;
+    }
+
+    this.heldLocks.add(elementId);
+    this.localCallbacks?.acquire(elementId);
+    return true;
+  }
+
+  /**
+   * 편집 종료
+   */
+  endEditing(elementId: string): void {
+    if (!this.heldLocks.delete(elementId)) {
+      return;
+    }
+
+    this.localCallbacks?.release(elementId);
+  }
+
+  /**
+   * 서버가 잠금 요청을 거부한 경우 (다른 사용자가 먼저 잠금)
+   */
+  handleLockDenied(lock: RemoteElementLock): void {
+    this.heldLocks.delete(lock.elementId);
+    this.setLock(lock);
+  }
+
+  /**
+   * 로컬 사용자가 편집 중인 요소 (재연결 후 다시 요청할 때 사용)
+   */
+  getHeldLocks(): string[] {
+    return Array.from(this.heldLocks);
+  }
+
+  // ==================== 렌더링 ====================
+
+  private cancelDirectEditing(elementId: string): void {
+    const element = this.elementRegistry.get(elementId);
+    if (!element || !this.directEditing?.isActive()) {
+      return;
+    }
+
+    const label = element.label;
+    if (
+      this.directEditing.isActive(element) ||
+      (label && this.directEditing.isActive(label))
+    ) {
+      this.directEditing.cancel();
+    }
+  }
+
+  /**
+   * 요소의 잠금 오버레이 다시 그리기
+   */
+  private renderLock(elementId: string): void {
+    const element = this.elementRegistry.get(elementId);
+    if (!element) {
+      return;
+    }
+
+    this.overlays.remove({ element, type: OVERLAY_TYPE });
+
+    const lock = this.remoteLocks.get(elementId);
+    if (!lock) {
+      return;
+    }
+
+    const badge = document.createElement('div');
+    badge.className = 'remote-lock-badge';
+    badge.textContent = `${lock.name} is editing`;
+    badge.title = `Locked by ${lock.name}`;
+    Object.assign(badge.style, {
+      backgroundColor: lock.color,
+      color: '#fff',
+      fontSize: '11px',
+      padding: '1px 6px',
+      borderRadius: '3px',
+      whiteSpace: 'nowrap',
+      pointerEvents: 'none',
+    });
+
+    this.overlays.add(element, OVERLAY_TYPE, {
+      position: { top: -22, left: 0 },
+      html: badge,
+    });
+  }
+
+  /**
+   * 갱신되지 않아 만료된 원격 잠금 제거 (보유자 연결이 끊긴 경우 등)
+   */
+  private removeExpiredLocks(): void {
+    const now = Date.now();
+    const expired: string[] = [];
+
+    this.remoteLocks.forEach(lock => {
+      if (new Date(lock.expiresAt).getTime() <= now) {
+        expired.push(lock.elementId);
+      }
+    });
+
+    expired.forEach(elementId => this.removeLock(elementId));
+  }
+
+  /**
+   * 리소스 정리
+   */
+  destroy(): void {
+    if (this.expiryTimer) {
+      clearInterval(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+    if (this.renewTimer) {
+      clearInterval(this.renewTimer);
+      this.renewTimer = null;
+    }
+    this.localCallbacks = null;
+    this.heldLocks.clear();
+    this.remoteLocks.clear();
+  }
+}
+
+/**
+ * ElementLocks 모듈 정의
+ */
+export const ElementLocksModule = {
+  __init__: ['elementLocks'],
+  elementLocks: ['type', ElementLocks],
+};
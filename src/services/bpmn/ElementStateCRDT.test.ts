@@ -0,0 +1,275 @@
+/**
+ * ElementStateCRDT 테스트
+ */
+
+import {
+  ElementStateCRDT,
+  changeToFields,
+  compareStamps,
+} from './ElementStateCRDT';
+import { ChangeEvent } from '../../types/bpmn';
+
+const propertyChange = (elementId: string, properties: any): ChangeEvent => ({
+  type: 'property',
+  elementId,
+  properties,
+  timestamp: Date.now(),
+});
+
+describe('ElementStateCRDT', () => {
+  describe('스탬프 비교', () => {
+    it('Lamport 시계가 큰 스탬프가 더 최신이어야 한다', () => {
+      expect(
+        compareStamps({ clock: 2, clientId: 'a' }, { clock: 1, clientId: 'b' })
+      ).toBeGreaterThan(0);
+    });
+
+    it('시계가 같으면 클라이언트 ID로 순서를 정해야 한다', () => {
+      expect(
+        compareStamps({ clock: 1, clientId: 'a' }, { clock: 1, clientId: 'b' })
+      ).toBeLessThan(0);
+      expect(
+        compareStamps({ clock: 1, clientId: 'a' }, { clock: 1, clientId: 'a' })
+      ).toBe(0);
+    });
+  });
+
+  describe('필드 변환', () => {
+    it('생성 변경사항을 존재 여부, 타입, 위치, 크기, 속성 필드로 변환해야 한다', () => {
+      const fields = changeToFields({
+        type: 'create',
+        elementId: 'Task_1',
+        elementData: {
+          type: 'bpmn:Task',
+          x: 10,
+          y: 20,
+          width: 100,
+          height: 80,
+          properties: { name: 'Task' },
+        },
+        parentId: 'Process_1',
+        timestamp: Date.now(),
+      });
+
+      expect(fields).toEqual({
+        alive: true,
+        type: 'bpmn:Task',
+        position: { x: 10, y: 20 },
+        size: { width: 100, height: 80 },
+        'prop:name': 'Task',
+        parent: 'Process_1',
+      });
+    });
+
+    it('연결 변경사항은 source, target, waypoint를 포함해야 한다', () => {
+      const fields = changeToFields({
+        type: 'connection',
+        elementId: 'Flow_1',
+        elementType: 'bpmn:SequenceFlow',
+        elementData: { waypoints: [{ x: 0, y: 0 }] },
+        sourceId: 'A',
+        targetId: 'B',
+        timestamp: Date.now(),
+      });
+
+      expect(fields).toMatchObject({
+        alive: true,
+        type: 'bpmn:SequenceFlow',
+        source: 'A',
+        target: 'B',
+        waypoints: [{ x: 0, y: 0 }],
+      });
+    });
+
+    it('이동 변경사항은 부모, 호스트, 레인 소속을 포함해야 한다', () => {
+      const fields = changeToFields({
+        type: 'position',
+        elementId: 'Boundary_1',
+        x: 10,
+        y: 20,
+        parentId: 'Participant_1',
+        hostId: 'Task_1',
+        laneIds: ['Lane_1'],
+        timestamp: Date.now(),
+      });
+
+      expect(fields).toEqual({
+        position: { x: 10, y: 20 },
+        parent: 'Participant_1',
+        host: 'Task_1',
+        lanes: ['Lane_1'],
+      });
+    });
+
+    it('plane 루트는 부모와 별도 필드로 변환해야 한다', () => {
+      const fields = changeToFields({
+        type: 'position',
+        elementId: 'Task_2',
+        parentId: 'Sub_1',
+        rootId: 'Sub_1',
+        timestamp: Date.now(),
+      });
+
+      expect(fields).toEqual({ parent: 'Sub_1', root: 'Sub_1' });
+    });
+
+    it('라벨 위치만 바뀐 변경사항은 label 필드만 가져야 한다', () => {
+      const fields = changeToFields({
+        type: 'position',
+        elementId: 'Start_1',
+        label: { x: 80, y: 150, width: 56, height: 14 },
+        timestamp: Date.now(),
+      });
+
+      expect(fields).toEqual({
+        label: { x: 80, y: 150, width: 56, height: 14 },
+      });
+    });
+  });
+
+  describe('로컬 변경사항', () => {
+    it('로컬 변경사항마다 시계를 증가시키고 필드별 스탬프를 붙여야 한다', () => {
+      const crdt = new ElementStateCRDT('client-a');
+
+      const first = crdt.stampLocalChange(
+        propertyChange('Task_1', { name: 'A' })
+      );
+      const second = crdt.stampLocalChange(
+        propertyChange('Task_1', { name: 'B' })
+      );
+
+      expect(first.stamps).toEqual({
+        'prop:name': { clock: 1, clientId: 'client-a' },
+      });
+      expect(second.stamps?.['prop:name'].clock).toBe(2);
+      expect(crdt.getElementState('Task_1')).toEqual({ 'prop:name': 'B' });
+    });
+  });
+
+  describe('원격 변경사항 병합', () => {
+    it('적용 순서와 무관하게 같은 상태로 수렴해야 한다', () => {
+      const clientA = new ElementStateCRDT('client-a');
+      const clientB = new ElementStateCRDT('client-b');
+
+      // 같은 요소의 같은 필드를 동시에 변경
+      const changeA = clientA.stampLocalChange(
+        propertyChange('Task_1', { name: 'From A' })
+      );
+      const changeB = clientB.stampLocalChange(
+        propertyChange('Task_1', { name: 'From B' })
+      );
+
+      const resultOnA = clientA.mergeRemoteChange(changeB);
+      const resultOnB = clientB.mergeRemoteChange(changeA);
+
+      // 시계가 같으므로 클라이언트 ID가 큰 B의 쓰기가 이김
+      expect(resultOnA?.properties).toEqual({ name: 'From B' });
+      expect(resultOnB).toBeNull();
+      expect(clientA.getElementState('Task_1')).toEqual(
+        clientB.getElementState('Task_1')
+      );
+    });
+
+    it('서로 다른 필드의 동시 변경은 모두 보존해야 한다', () => {
+      const clientA = new ElementStateCRDT('client-a');
+      const clientB = new ElementStateCRDT('client-b');
+
+      const changeA = clientA.stampLocalChange(
+        propertyChange('Task_1', { name: 'Renamed' })
+      );
+      const changeB = clientB.stampLocalChange({
+        type: 'position',
+        elementId: 'Task_1',
+        x: 300,
+        y: 200,
+        timestamp: Date.now(),
+      });
+
+      expect(clientA.mergeRemoteChange(changeB)).toMatchObject({
+        x: 300,
+        y: 200,
+      });
+      expect(clientB.mergeRemoteChange(changeA)?.properties).toEqual({
+        name: 'Renamed',
+      });
+      expect(clientA.getElementState('Task_1')).toEqual(
+        clientB.getElementState('Task_1')
+      );
+    });
+
+    it('일부 필드만 이긴 경우 이긴 필드만 남겨야 한다', () => {
+      const crdt = new ElementStateCRDT('client-a');
+      crdt.mergeRemoteChange({
+        ...propertyChange('Task_1', { name: 'Newer' }),
+        stamps: { 'prop:name': { clock: 5, clientId: 'client-c' } },
+      });
+
+      const result = crdt.mergeRemoteChange({
+        ...propertyChange('Task_1', { name: 'Older', assignee: 'kim' }),
+        stamps: {
+          'prop:name': { clock: 3, clientId: 'client-b' },
+          'prop:assignee': { clock: 3, clientId: 'client-b' },
+        },
+      });
+
+      expect(result?.properties).toEqual({ assignee: 'kim' });
+      expect(crdt.getElementState('Task_1')).toEqual({
+        'prop:name': 'Newer',
+        'prop:assignee': 'kim',
+      });
+    });
+
+    it('삭제 이후 더 오래된 생성은 적용하지 않아야 한다', () => {
+      const crdt = new ElementStateCRDT('client-a');
+      crdt.mergeRemoteChange({
+        type: 'remove',
+        elementId: 'Task_1',
+        timestamp: Date.now(),
+        stamps: { alive: { clock: 4, clientId: 'client-b' } },
+      });
+
+      const result = crdt.mergeRemoteChange({
+        type: 'create',
+        elementId: 'Task_1',
+        elementData: { id: 'Task_1', type: 'bpmn:Task' },
+        timestamp: Date.now(),
+        stamps: {
+          alive: { clock: 2, clientId: 'client-c' },
+          type: { clock: 2, clientId: 'client-c' },
+        },
+      });
+
+      expect(result).toBeNull();
+      expect(crdt.isRemoved('Task_1')).toBe(true);
+    });
+
+    it('원격 스탬프를 관찰하면 로컬 시계가 그 이후로 진행해야 한다', () => {
+      const crdt = new ElementStateCRDT('client-a');
+      crdt.mergeRemoteChange({
+        ...propertyChange('Task_1', { name: 'Remote' }),
+        stamps: { 'prop:name': { clock: 10, clientId: 'client-b' } },
+      });
+
+      const local = crdt.stampLocalChange(
+        propertyChange('Task_1', { name: 'Local' })
+      );
+
+      expect(local.stamps?.['prop:name'].clock).toBe(11);
+    });
+
+    it('스냅샷 스탬프보다 오래된 변경사항은 무시해야 한다', () => {
+      const crdt = new ElementStateCRDT('client-a');
+      crdt.loadStamps({
+        Task_1: { 'prop:name': { clock: 7, clientId: 'client-b' } },
+      });
+
+      const result = crdt.mergeRemoteChange({
+        ...propertyChange('Task_1', { name: 'Stale' }),
+        stamps: { 'prop:name': { clock: 6, clientId: 'client-c' } },
+      });
+
+      expect(result).toBeNull();
+      expect(crdt.getClock()).toBe(7);
+    });
+  });
+});
@@ -0,0 +1,346 @@
+/**
+ * ElementStateCRDT - BPMN 요소 상태 CRDT
+ *
+ * 요소의 존재 여부, 타입, 위치, 크기, waypoint, 외부 라벨 위치, 부모, plane 루트, 호스트, 레인, 비즈니스 속성을
+ * 필드 단위의 LWW(Last-Writer-Wins) 레지스터로 관리합니다.
+ * 모든 쓰기에는 Lamport 시계와 클라이언트 ID로 구성된 스탬프가 붙고,
+ * 동시 변경은 스탬프 비교로 결정되므로 적용 순서와 무관하게 모든 클라이언트가
+ * 같은 상태로 수렴합니다.
+ */
+
+import { ChangeEvent } from '../../types/bpmn';
+import {
+  CRDTStamp,
+  CRDTStamps,
+  ElementStamps,
+} from '../../types/collaboration';
+
+/**
+ * 필드 레지스터 (값이 없으면 스냅샷 XML에 반영된 값)
+ */
+interface FieldRegister {
+  value?: any;
+  stamp: CRDTStamp;
+}
+
+// 스탬프가 없는 변경사항에 사용하는 스탬프 (어떤 스탬프된 쓰기보다도 앞섬)
+const ZERO_STAMP: CRDTStamp = { clock: 0, clientId: '' };
+
+// 비즈니스 속성 필드 접두사
+const PROPERTY_FIELD_PREFIX = 'prop:';
+
+/**
+ * 두 스탬프 비교 (Lamport 시계 우선, 같으면 클라이언트 ID)
+ */
+export function compareStamps(a: CRDTStamp, b: CRDTStamp): number {
+  if (a.clock !== b.clock) {
+    return a.clock - b.clock;
+  }
+  if (a.clientId === b.clientId) {
+    return 0;
+  }
+  return a.clientId < b.clientId ? -1 : 1;
+}
+
+/**
+ * 변경사항을 CRDT 필드 값으로 변환
+ */
+export function changeToFields(change: ChangeEvent): { [field: string]: any } {
+  const fields: { [field: string]: any } = {};
+  const data = change.elementData || {};
+
+  const addProperties = (properties: any) => {
+    Object.keys(properties || {}).forEach(key => {
+      fields[PROPERTY_FIELD_PREFIX + key] = properties[key];
+    });
+  };
+
+  const addGeometry = (source: any) => {
+    if (source.x !== undefined || source.y !== undefined) {
+      fields.position = { x: source.x, y: source.y };
+    }
+    if (source.width !== undefined || source.height !== undefined) {
+      fields.size = { width: source.width, height: source.height };
+    }
+    if (source.waypoints !== undefined) {
+      fields.waypoints = source.waypoints;
+    }
+    if (source.label !== undefined) {
+      fields.label = source.label;
+    }
+  };
+
+  // 연결선의 양 끝 (생성 시 또는 재연결 시)
+  const addEnds = () => {
+    if (change.sourceId !== undefined) fields.source = change.sourceId;
+    if (change.targetId !== undefined) fields.target = change.targetId;
+  };
+
+  switch (change.type) {
+    case 'create':
+    case 'connection':
+      fields.alive = true;
+      fields.type = change.elementType || data.type;
+      addGeometry(data);
+      addProperties(data.properties);
+      addEnds();
+      break;
+    case 'remove':
+      fields.alive = false;
+      break;
+    case 'property':
+      addProperties(change.properties);
+      break;
+    case 'position':
+      addGeometry(change);
+      addEnds();
+      break;
+  }
+
+  // 포함 관계 (부모, 경계 이벤트 호스트, 레인 소속)
+  if (change.parentId !== undefined) {
+    fields.parent = change.parentId;
+  }
+  if (change.rootId !== undefined) {
+    fields.root = change.rootId;
+  }
+  if (change.hostId !== undefined) {
+    fields.host = change.hostId;
+  }
+  if (change.laneIds !== undefined) {
+    fields.lanes = change.laneIds;
+  }
+
+  return fields;
+}
+
+/**
+ * 원본 변경사항에서 병합에 이긴 필드만 남긴 변경사항 생성
+ * (적용할 내용이 없으면 null)
+ */
+function filterChangeByFields(
+  change: ChangeEvent,
+  winners: Set<string>,
+  stamps: CRDTStamps
+): ChangeEvent | null {
+  const filtered: ChangeEvent = { ...change, stamps };
+
+  if (change.parentId !== undefined && !winners.has('parent')) {
+    delete filtered.parentId;
+  }
+  if (change.rootId !== undefined && !winners.has('root')) {
+    delete filtered.rootId;
+  }
+  if (change.hostId !== undefined && !winners.has('host')) {
+    delete filtered.hostId;
+  }
+  if (change.laneIds !== undefined && !winners.has('lanes')) {
+    delete filtered.laneIds;
+  }
+
+  switch (change.type) {
+    case 'create':
+    case 'connection':
+    case 'remove':
+      // 생성/삭제는 존재 여부 레지스터가 이긴 경우에만 적용
+      return winners.has('alive') ? filtered : null;
+    case 'property': {
+      const properties: any = {};
+      Object.keys(change.properties || {}).forEach(key => {
+        if (winners.has(PROPERTY_FIELD_PREFIX + key)) {
+          properties[key] = change.properties[key];
+        }
+      });
+      filtered.properties = properties;
+      return Object.keys(properties).length > 0 ||
+        filtered.parentId !== undefined
+        ? filtered
+        : null;
+    }
+    case 'position':
+      if (!winners.has('position')) {
+        delete filtered.x;
+        delete filtered.y;
+      }
+      if (!winners.has('size')) {
+        delete filtered.width;
+        delete filtered.height;
+      }
+      if (!winners.has('waypoints')) {
+        delete filtered.waypoints;
+      }
+      if (!winners.has('label')) {
+        delete filtered.label;
+      }
+      if (!winners.has('source')) {
+        delete filtered.sourceId;
+      }
+      if (!winners.has('target')) {
+        delete filtered.targetId;
+      }
+      return winners.size > 0 ? filtered : null;
+    default:
+      return filtered;
+  }
+}
+
+/**
+ * ElementStateCRDT 클래스
+ */
+export class ElementStateCRDT {
+  private clientId: string;
+  private clock = 0;
+  private elements = new Map<string, Map<string, FieldRegister>>();
+
+  constructor(clientId: string) {
+    this.clientId = clientId;
+  }
+
+  /**
+   * 로컬 변경사항에 새 스탬프를 붙이고 상태에 반영
+   */
+  stampLocalChange(change: ChangeEvent): ChangeEvent {
+    this.clock += 1;
+    const stamp: CRDTStamp = { clock: this.clock, clientId: this.clientId };
+    const fields = changeToFields(change);
+    const stamps: CRDTStamps = {};
+
+    Object.keys(fields).forEach(field => {
+      this.getRegisters(change.elementId).set(field, {
+        value: fields[field],
+        stamp,
+      });
+      stamps[field] = stamp;
+    });
+
+    return { ...change, stamps };
+  }
+
+  /**
+   * 원격 변경사항 병합
+   *
+   * 현재 레지스터보다 새로운(또는 같은) 스탬프의 필드만 반영하고,
+   * 화면에 적용해야 할 필드만 남긴 변경사항을 반환합니다.
+   * 스탬프가 없는 변경사항은 아직 쓰기가 없는 필드에만 반영됩니다.
+   */
+  mergeRemoteChange(change: ChangeEvent): ChangeEvent | null {
+    if (!change || !change.elementId) {
+      return change;
+    }
+
+    const fields = changeToFields(change);
+    const registers = this.getRegisters(change.elementId);
+    const winners = new Set<string>();
+    const stamps: CRDTStamps = {};
+
+    Object.keys(fields).forEach(field => {
+      const stamp = change.stamps?.[field] || ZERO_STAMP;
+      this.observeClock(stamp.clock);
+
+      const current = registers.get(field);
+      if (current && compareStamps(stamp, current.stamp) < 0) {
+        return;
+      }
+
+      registers.set(field, { value: fields[field], stamp });
+      winners.add(field);
+      stamps[field] = stamp;
+    });
+
+    if (Object.keys(fields).length === 0) {
+      return change;
+    }
+
+    return filterChangeByFields(change, winners, stamps);
+  }
+
+  /**
+   * 스냅샷에 반영된 필드 스탬프 로드 (값은 스냅샷 XML에 있음)
+   */
+  loadStamps(elementStamps: ElementStamps): void {
+    Object.keys(elementStamps).forEach(elementId => {
+      const stamps = elementStamps[elementId];
+      const registers = this.getRegisters(elementId);
+
+      Object.keys(stamps).forEach(field => {
+        const current = registers.get(field);
+        if (!current || compareStamps(stamps[field], current.stamp) > 0) {
+          registers.set(field, { stamp: stamps[field] });
+        }
+        this.observeClock(stamps[field].clock);
+      });
+    });
+  }
+
+  /**
+   * 요소의 현재 필드 값 조회 (스냅샷에만 있는 값은 제외)
+   */
+  getElementState(elementId: string): { [field: string]: any } | undefined {
+    const registers = this.elements.get(elementId);
+    if (!registers) {
+      return undefined;
+    }
+
+    const state: { [field: string]: any } = {};
+    registers.forEach((register, field) => {
+      if (register.value !== undefined) {
+        state[field] = register.value;
+      }
+    });
+    return state;
+  }
+
+  /**
+   * 요소의 필드별 스탬프 조회
+   */
+  getStamps(elementId: string): CRDTStamps {
+    const stamps: CRDTStamps = {};
+    this.elements.get(elementId)?.forEach((register, field) => {
+      stamps[field] = register.stamp;
+    });
+    return stamps;
+  }
+
+  /**
+   * 요소가 삭제되었는지 확인 (존재 여부 레지스터가 false)
+   */
+  isRemoved(elementId: string): boolean {
+    return this.elements.get(elementId)?.get('alive')?.value === false;
+  }
+
+  /**
+   * 현재 Lamport 시계 값
+   */
+  getClock(): number {
+    return this.clock;
+  }
+
+  /**
+   * 추적 중인 요소 수
+   */
+  getElementCount(): number {
+    return this.elements.size;
+  }
+
+  /**
+   * 상태 초기화 (스냅샷 재로드 시)
+   */
+  clear(): void {
+    this.elements.clear();
+  }
+
+  private getRegisters(elementId: string): Map<string, FieldRegister> {
+    let registers = this.elements.get(elementId);
+    if (!registers) {
+      registers = new Map();
+      this.elements.set(elementId, registers);
+    }
+    return registers;
+  }
+
+  private observeClock(clock: number): void {
+    if (clock > this.clock) {
+      this.clock = clock;
+    }
+  }
+}
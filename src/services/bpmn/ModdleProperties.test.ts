@@ -0,0 +1,236 @@
+/**
+ * ModdleProperties 테스트
+ */
+
+import BpmnModdle from 'bpmn-moddle';
+import {
+  applyProperties,
+  deserializeProperties,
+  diffProperties,
+  serializeProperties,
+} from './ModdleProperties';
+
+const CUSTOM_NS = 'http://example.com/custom';
+
+const createDefinitions = (moddle: any) =>
+  moddle.create('bpmn:Definitions', { rootElements: [] });
+
+// 루트 요소를 definitions에 추가 ($parent 포함)
+const addRootElement = (definitions: any, element: any) => {
+  definitions.get('rootElements').push(element);
+  element.$parent = definitions;
+  return element;
+};
+
+describe('ModdleProperties', () => {
+  let moddle: any;
+
+  beforeEach(() => {
+    moddle = new BpmnModdle();
+  });
+
+  describe('직렬화', () => {
+    it('설정된 속성, 하위 요소, 확장 속성을 직렬화해야 한다', () => {
+      const task = moddle.create('bpmn:UserTask', {
+        id: 'Task_1',
+        name: 'Review',
+        documentation: [
+          moddle.create('bpmn:Documentation', { text: 'Check the order' }),
+        ],
+      });
+      task.$attrs['custom:priority'] = 'high';
+
+      expect(serializeProperties(task)).toEqual({
+        name: 'Review',
+        documentation: [
+          { $type: 'bpmn:Documentation', text: 'Check the order' },
+        ],
+        'custom:priority': 'high',
+      });
+    });
+
+    it('참조는 ID로, 루트 요소 참조는 요소 전체와 함께 직렬화해야 한다', () => {
+      const definitions = createDefinitions(moddle);
+      const message = addRootElement(
+        definitions,
+        moddle.create('bpmn:Message', { id: 'Message_1', name: 'Order' })
+      );
+      const process = addRootElement(
+        definitions,
+        moddle.create('bpmn:Process', { id: 'Process_1' })
+      );
+      const flow = moddle.create('bpmn:SequenceFlow', { id: 'Flow_1' });
+      flow.$parent = process;
+
+      const event = moddle.create('bpmn:StartEvent', {
+        id: 'Start_1',
+        eventDefinitions: [
+          moddle.create('bpmn:MessageEventDefinition', {
+            id: 'Def_1',
+            messageRef: message,
+          }),
+        ],
+      });
+      const gateway = moddle.create('bpmn:ExclusiveGateway', {
+        id: 'Gateway_1',
+        default: flow,
+      });
+
+      expect(serializeProperties(event)).toEqual({
+        eventDefinitions: [
+          {
+            $type: 'bpmn:MessageEventDefinition',
+            id: 'Def_1',
+            messageRef: {
+              $ref: 'Message_1',
+              $root: { $type: 'bpmn:Message', id: 'Message_1', name: 'Order' },
+            },
+          },
+        ],
+      });
+      expect(serializeProperties(gateway)).toEqual({
+        default: { $ref: 'Flow_1' },
+      });
+    });
+
+    it('등록되지 않은 확장 요소는 네임스페이스와 함께 직렬화해야 한다', () => {
+      const task = moddle.create('bpmn:Task', {
+        extensionElements: moddle.create('bpmn:ExtensionElements', {
+          values: [
+            moddle.createAny('custom:config', CUSTOM_NS, { retries: '3' }),
+          ],
+        }),
+      });
+
+      expect(serializeProperties(task)).toEqual({
+        extensionElements: {
+          $type: 'bpmn:ExtensionElements',
+          values: [{ $type: 'custom:config', $ns: CUSTOM_NS, retries: '3' }],
+        },
+      });
+    });
+
+    it('구조 속성(id, incoming, outgoing 등)은 제외해야 한다', () => {
+      const task = moddle.create('bpmn:Task', { id: 'Task_1', name: 'A' });
+      task.get('incoming').push(moddle.create('bpmn:SequenceFlow'));
+
+      expect(serializeProperties(task)).toEqual({ name: 'A' });
+    });
+  });
+
+  describe('diff', () => {
+    it('바뀐 속성만 포함하고 삭제된 속성은 null이어야 한다', () => {
+      expect(
+        diffProperties(
+          { name: 'A', 'custom:priority': 'high', formKey: 'form' },
+          { name: 'B', formKey: 'form' }
+        )
+      ).toEqual({ name: 'B', 'custom:priority': null });
+    });
+
+    it('하위 요소의 내용이 바뀌면 해당 속성을 포함해야 한다', () => {
+      const previous = {
+        conditionExpression: { $type: 'bpmn:FormalExpression', body: 'a' },
+      };
+      const current = {
+        conditionExpression: { $type: 'bpmn:FormalExpression', body: 'b' },
+      };
+
+      expect(diffProperties(previous, previous)).toEqual({});
+      expect(diffProperties(previous, current)).toEqual(current);
+    });
+  });
+
+  describe('적용', () => {
+    it('직렬화한 속성을 다른 모델에 그대로 복원해야 한다', () => {
+      const source = new BpmnModdle();
+      const sourceDefinitions = createDefinitions(source);
+      const message = addRootElement(
+        sourceDefinitions,
+        source.create('bpmn:Message', { id: 'Message_1', name: 'Order' })
+      );
+      const event = source.create('bpmn:StartEvent', {
+        name: 'Start',
+        eventDefinitions: [
+          source.create('bpmn:MessageEventDefinition', {
+            id: 'Def_1',
+            messageRef: message,
+          }),
+        ],
+        extensionElements: source.create('bpmn:ExtensionElements', {
+          values: [
+            source.createAny('custom:config', CUSTOM_NS, { retries: '3' }),
+          ],
+        }),
+      });
+      event.$attrs['custom:priority'] = 'high';
+      const serialized = serializeProperties(event);
+
+      const definitions = createDefinitions(moddle);
+      const target = moddle.create('bpmn:StartEvent', { id: 'Start_1' });
+      applyProperties(target, serialized, {
+        moddle,
+        definitions,
+        resolveReference: () => undefined,
+      });
+
+      expect(serializeProperties(target)).toEqual(serialized);
+      // 없던 Message는 definitions에 추가됨
+      expect(definitions.get('rootElements')).toHaveLength(1);
+      expect(target.eventDefinitions[0].messageRef).toBe(
+        definitions.get('rootElements')[0]
+      );
+      expect(target.eventDefinitions[0].$parent).toBe(target);
+    });
+
+    it('이미 있는 요소는 ID로 참조를 연결해야 한다', () => {
+      const flow = moddle.create('bpmn:SequenceFlow', { id: 'Flow_1' });
+      const gateway = moddle.create('bpmn:ExclusiveGateway', {
+        id: 'Gateway_1',
+      });
+
+      applyProperties(
+        gateway,
+        { default: { $ref: 'Flow_1' } },
+        { moddle, resolveReference: id => (id === 'Flow_1' ? flow : undefined) }
+      );
+
+      expect(gateway.default).toBe(flow);
+    });
+
+    it('찾을 수 없는 참조는 적용하지 않아야 한다', () => {
+      const gateway = moddle.create('bpmn:ExclusiveGateway', { name: 'A' });
+
+      applyProperties(
+        gateway,
+        { default: { $ref: 'Missing' }, name: 'B' },
+        { moddle, resolveReference: () => undefined }
+      );
+
+      expect(gateway.default).toBeUndefined();
+      expect(gateway.name).toBe('B');
+    });
+
+    it('null 값은 속성을 삭제해야 한다', () => {
+      const task = moddle.create('bpmn:Task', { name: 'A' });
+      task.$attrs['custom:priority'] = 'high';
+
+      applyProperties(
+        task,
+        { name: null, 'custom:priority': null },
+        { moddle, resolveReference: () => undefined }
+      );
+
+      expect(serializeProperties(task)).toEqual({});
+    });
+
+    it('요소 생성용 변환은 삭제 표시를 제외해야 한다', () => {
+      expect(
+        deserializeProperties(
+          { name: 'Flow', documentation: null },
+          { moddle, resolveReference: () => undefined }
+        )
+      ).toEqual({ name: 'Flow' });
+    });
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * ModdleProperties - BPMN 비즈니스 속성 직렬화/비교/적용
+ *
+ * 요소의 moddle 디스크립터를 따라 모든 속성(확장 속성 $attrs 포함)을 JSON으로 직렬화하고,
+ * 이전 상태와 비교한 속성 단위 diff를 만들며, 받은 diff를 다시 moddle 값으로 적용합니다.
+ *
+ * 직렬화 형식 (ChangeEvent.properties):
+ * - 기본 값: 그대로
+ * - 하위 요소 (조건식, 타이머 정의, extensionElements 등): { $type, ...속성 }
+ *   (moddle에 등록되지 않은 확장 요소는 네임스페이스 URI를 $ns로 함께 보냄)
+ * - 참조: { $ref: id } (Message, Signal 등 루트 요소 참조는 $root에 요소 전체 포함)
+ * - 삭제된 속성: null
+ */
+
+/**
+ * 속성 이름 → 직렬화된 값
+ */
+export type PropertyMap = { [name: string]: any };
+
+/**
+ * diff 적용 컨텍스트
+ */
+export interface PropertyApplyContext {
+  // 하위 요소 생성용 (없으면 일반 객체로 생성)
+  moddle?: any;
+  // 루트 요소 참조를 추가할 bpmn:Definitions
+  definitions?: any;
+  // ID로 참조 대상 비즈니스 객체 조회
+  resolveReference(id: string): any | undefined;
+}
+
+// 요소 구조로 동기화되는 속성 (요소 생성/삭제, 연결선 양 끝, 부모 변경으로 처리)
+const STRUCTURAL_PROPERTIES = [
+  'id',
+  'flowElements',
+  'artifacts',
+  'laneSets',
+  'lanes',
+  'childLaneSet',
+  'flowNodeRef',
+  'incoming',
+  'outgoing',
+  'sourceRef',
+  'targetRef',
+  'attachedToRef',
+  'participants',
+  'messageFlows',
+  'processRef',
+  'dataInputAssociations',
+  'dataOutputAssociations',
+  'rootElements',
+  'diagrams',
+];
+
+/**
+ * 요소의 비즈니스 속성 전체 직렬화 (구조 속성 제외)
+ */
+export function serializeProperties(businessObject: any): PropertyMap {
+  if (!businessObject) {
+    return {};
+  }
+
+  return collectProperties(businessObject, false);
+}
+
+/**
+ * 두 직렬화 결과의 속성 단위 diff (삭제된 속성은 null)
+ */
+export function diffProperties(
+  previous: PropertyMap,
+  current: PropertyMap
+): PropertyMap {
+  const diff: PropertyMap = {};
+
+  Object.keys(current).forEach(name => {
+    if (JSON.stringify(previous[name]) !== JSON.stringify(current[name])) {
+      diff[name] = current[name];
+    }
+  });
+  Object.keys(previous).forEach(name => {
+    if (!(name in current)) {
+      diff[name] = null;
+    }
+  });
+
+  return diff;
+}
+
+/**
+ * 비즈니스 객체에 직렬화된 속성 적용 (null은 속성 삭제)
+ *
+ * 참조 대상을 찾을 수 없는 속성은 적용하지 않습니다.
+ */
+export function applyProperties(
+  businessObject: any,
+  properties: PropertyMap,
+  context: PropertyApplyContext
+): void {
+  Object.keys(properties || {}).forEach(name => {
+    if (STRUCTURAL_PROPERTIES.indexOf(name) !== -1) {
+      return;
+    }
+
+    const serialized = properties[name];
+    const value = deserializeValue(serialized, context, businessObject);
+    if (value === undefined && serialized !== null) {
+      return;
+    }
+
+    setProperty(businessObject, name, value);
+  });
+}
+
+/**
+ * 요소 생성용 속성 변환 (삭제 표시와 찾을 수 없는 참조는 제외)
+ */
+export function deserializeProperties(
+  properties: PropertyMap,
+  context: PropertyApplyContext
+): PropertyMap {
+  const result: PropertyMap = {};
+
+  Object.keys(properties || {}).forEach(name => {
+    if (STRUCTURAL_PROPERTIES.indexOf(name) !== -1) {
+      return;
+    }
+
+    const value = deserializeValue(properties[name], context);
+    if (value !== undefined) {
+      result[name] = value;
+    }
+  });
+
+  return result;
+}
+
+// ==================== 직렬화 ====================
+
+function collectProperties(element: any, includeId: boolean): PropertyMap {
+  const properties: PropertyMap = {};
+  const descriptor = element.$descriptor;
+
+  if (descriptor && !descriptor.isGeneric && descriptor.properties) {
+    // 기본값이 아닌, 실제로 설정된 속성만 (기본값은 프로토타입에 정의됨)
+    descriptor.properties.forEach((property: any) => {
+      if (!Object.prototype.hasOwnProperty.call(element, property.name)) {
+        return;
+      }
+      addProperty(properties, property.name, element[property.name], property);
+    });
+
+    // moddle에 등록되지 않은 네임스페이스 속성 (예: camunda:asyncBefore)
+    Object.keys(element.$attrs || {}).forEach(name => {
+      if (name.indexOf('xmlns') !== 0) {
+        properties[name] = element.$attrs[name];
+      }
+    });
+  } else {
+    // 일반(generic) 확장 요소 또는 디스크립터가 없는 객체
+    Object.keys(element).forEach(name => {
+      if (name.charAt(0) !== '$' || name === '$body' || name === '$children') {
+        addProperty(properties, name, element[name]);
+      }
+    });
+  }
+
+  if (!includeId) {
+    STRUCTURAL_PROPERTIES.forEach(name => {
+      delete properties[name];
+    });
+  }
+
+  return properties;
+}
+
+function addProperty(
+  properties: PropertyMap,
+  name: string,
+  value: any,
+  property?: any
+): void {
+  const serialized = serializeValue(value, property);
+  if (serialized !== undefined) {
+    properties[name] = serialized;
+  }
+}
+
+function serializeValue(value: any, property?: any): any {
+  if (value === undefined || value === null || typeof value === 'function') {
+    return undefined;
+  }
+
+  if (Array.isArray(value)) {
+    return value
+      .map(item => serializeValue(item, property))
+      .filter(item => item !== undefined);
+  }
+
+  if (property?.isReference) {
+    return serializeReference(value);
+  }
+
+  if (typeof value === 'object' && typeof value.$type === 'string') {
+    return serializeElement(value);
+  }
+
+  return value;
+}
+
+function serializeElement(element: any): any {
+  const serialized: any = { $type: element.$type };
+
+  if (element.$descriptor?.isGeneric && element.$descriptor.ns?.uri) {
+    serialized.$ns = element.$descriptor.ns.uri;
+  }
+
+  return { ...serialized, ...collectProperties(element, true) };
+}
+
+function serializeReference(target: any): any {
+  if (!target || !target.id) {
+    return undefined;
+  }
+
+  const reference: any = { $ref: target.id };
+
+  // 루트 요소(Message, Signal, Error 등)는 상대방에게 없을 수 있으므로 함께 보냄
+  if (target.$parent?.$type === 'bpmn:Definitions') {
+    reference.$root = serializeElement(target);
+  }
+
+  return reference;
+}
+
+// ==================== 역직렬화 ====================
+
+function deserializeValue(
+  value: any,
+  context: PropertyApplyContext,
+  parent?: any
+): any {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+
+  if (Array.isArray(value)) {
+    return value
+      .map(item => deserializeValue(item, context, parent))
+      .filter(item => item !== undefined);
+  }
+
+  if (typeof value !== 'object') {
+    return value;
+  }
+
+  if (typeof value.$ref === 'string') {
+    return resolveReference(value, context);
+  }
+
+  if (typeof value.$type === 'string') {
+    return createElement(value, context, parent);
+  }
+
+  return value;
+}
+
+function createElement(
+  value: any,
+  context: PropertyApplyContext,
+  parent?: any
+): any {
+  const { $type, $ns, ...properties } = value;
+  const { moddle } = context;
+
+  let element: any;
+  if (!moddle) {
+    element = { $type };
+  } else if ($ns) {
+    element = moddle.createAny($type, $ns);
+  } else {
+    element = moddle.create($type);
+  }
+
+  if (properties.id !== undefined) {
+    setProperty(element, 'id', properties.id);
+  }
+  applyProperties(element, properties, context);
+
+  if (parent) {
+    element.$parent = parent;
+  }
+
+  return element;
+}
+
+function resolveReference(value: any, context: PropertyApplyContext): any {
+  const existing = context.resolveReference(value.$ref);
+  if (existing || !value.$root || !context.definitions) {
+    return existing;
+  }
+
+  // 아직 없는 루트 요소는 definitions에 추가
+  const rootElement = createElement(value.$root, context, context.definitions);
+  const rootElements = context.definitions.get
+    ? context.definitions.get('rootElements')
+    : context.definitions.rootElements;
+  rootElements?.push(rootElement);
+
+  return rootElement;
+}
+
+function setProperty(target: any, name: string, value: any): void {
+  if (typeof target.set === 'function') {
+    target.set(name, value);
+  } else if (value === undefined) {
+    delete target[name];
+  } else {
+    target[name] = value;
+  }
+}
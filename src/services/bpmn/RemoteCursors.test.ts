@@ -0,0 +1,218 @@
+/**
+ * RemoteCursors 테스트
+ */
+
+import { RemoteCursors } from './RemoteCursors';
+import { CURSOR_IDLE_TIMEOUT_MS } from '../../constants';
+
+// 이벤트 버스 Mock (등록된 핸들러를 직접 호출)
+const createMockEventBus = () => {
+  const handlers = new Map<string, Function[]>();
+
+  return {
+    on: jest.fn((event: string, callback: Function) => {
+      handlers.set(event, [...(handlers.get(event) || []), callback]);
+    }),
+    off: jest.fn((event: string, callback?: Function) => {
+      handlers.set(
+        event,
+        (handlers.get(event) || []).filter(h => callback && h !== callback)
+      );
+    }),
+    fire(event: string, payload?: any) {
+      (handlers.get(event) || []).forEach(handler => handler(payload));
+    },
+  };
+};
+
+describe('RemoteCursors', () => {
+  let layer: SVGGElement;
+  let container: HTMLElement;
+  let viewbox: { x: number; y: number; scale: number };
+  let rootElement: any;
+  let eventBus: ReturnType<typeof createMockEventBus>;
+  let remoteCursors: RemoteCursors;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+
+    layer = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+    container = document.createElement('div');
+    container.getBoundingClientRect = () =>
+      ({ left: 100, top: 50, width: 800, height: 600 }) as DOMRect;
+    viewbox = { x: 0, y: 0, scale: 1 };
+    rootElement = { id: 'Process_1', businessObject: { id: 'Process_1' } };
+    eventBus = createMockEventBus();
+
+    const canvas = {
+      getLayer: jest.fn(() => layer),
+      getRootElement: () => rootElement,
+      getContainer: () => container,
+      viewbox: () => viewbox,
+    };
+
+    remoteCursors = new RemoteCursors(canvas, eventBus);
+  });
+
+  afterEach(() => {
+    remoteCursors.destroy();
+    jest.useRealTimers();
+  });
+
+  const cursorUpdate = (overrides = {}) => ({
+    userId: 'user2',
+    name: 'bob',
+    color: '#FF6B6B',
+    x: 200,
+    y: 120,
+    ...overrides,
+  });
+
+  describe('원격 커서', () => {
+    it('사용자 색상과 이름으로 커서를 그려야 한다', () => {
+      remoteCursors.updateCursor(cursorUpdate());
+
+      const gfx = layer.querySelector('.remote-cursor')!;
+      expect(gfx).not.toBeNull();
+      expect(gfx.querySelector('path')!.getAttribute('fill')).toBe('#FF6B6B');
+      expect(gfx.querySelector('rect')!.getAttribute('fill')).toBe('#FF6B6B');
+      expect(gfx.querySelector('text')!.textContent).toBe('bob');
+      expect(gfx.getAttribute('transform')).toBe(
+        'translate(200, 120) scale(1)'
+      );
+      expect(remoteCursors.getCursorUserIds()).toEqual(['user2']);
+    });
+
+    it('같은 사용자의 커서는 새로 만들지 않고 이동해야 한다', () => {
+      remoteCursors.updateCursor(cursorUpdate());
+      remoteCursors.updateCursor(cursorUpdate({ x: 300, y: 40 }));
+
+      const cursors = layer.querySelectorAll('.remote-cursor');
+      expect(cursors).toHaveLength(1);
+      expect(cursors[0].getAttribute('transform')).toBe(
+        'translate(300, 40) scale(1)'
+      );
+    });
+
+    it('확대 시 다이어그램 좌표는 유지하고 크기만 보정해야 한다', () => {
+      remoteCursors.updateCursor(cursorUpdate());
+
+      viewbox = { x: 50, y: 20, scale: 2 };
+      eventBus.fire('canvas.viewbox.changed', { viewbox });
+
+      expect(
+        layer.querySelector('.remote-cursor')!.getAttribute('transform')
+      ).toBe('translate(200, 120) scale(0.5)');
+    });
+
+    it('사용자가 떠나면 커서를 제거해야 한다', () => {
+      remoteCursors.updateCursor(cursorUpdate());
+      remoteCursors.updateCursor(cursorUpdate({ userId: 'user3' }));
+
+      remoteCursors.removeCursor('user2');
+
+      expect(layer.querySelectorAll('.remote-cursor')).toHaveLength(1);
+      expect(remoteCursors.getCursorUserIds()).toEqual(['user3']);
+    });
+  });
+
+  describe('plane', () => {
+    it('다른 plane을 보고 있는 사용자의 커서는 숨겨야 한다', () => {
+      remoteCursors.updateCursor(cursorUpdate({ rootId: 'Sub_1' }));
+      const gfx = layer.querySelector('.remote-cursor') as SVGGElement;
+
+      expect(gfx.style.display).toBe('none');
+
+      // 같은 plane으로 전환하면 표시
+      rootElement = { id: 'Sub_1_plane', businessObject: { id: 'Sub_1' } };
+      eventBus.fire('root.set', { element: rootElement });
+      expect(gfx.style.display).toBe('');
+    });
+
+    it('plane 정보가 없는 커서는 항상 표시해야 한다', () => {
+      remoteCursors.updateCursor(cursorUpdate());
+      const gfx = layer.querySelector('.remote-cursor') as SVGGElement;
+
+      expect(gfx.style.display).toBe('');
+    });
+  });
+
+  describe('유휴 커서', () => {
+    it('움직임이 없는 커서는 사라지고 다시 움직이면 표시되어야 한다', () => {
+      remoteCursors.updateCursor(cursorUpdate());
+      const gfx = layer.querySelector('.remote-cursor') as SVGGElement;
+
+      jest.advanceTimersByTime(CURSOR_IDLE_TIMEOUT_MS - 1000);
+      expect(gfx.style.opacity).toBe('1');
+
+      jest.advanceTimersByTime(1000);
+      expect(gfx.style.opacity).toBe('0');
+
+      remoteCursors.updateCursor(cursorUpdate({ x: 210 }));
+      expect(gfx.style.opacity).toBe('1');
+    });
+  });
+
+  describe('로컬 커서', () => {
+    it('포인터 위치를 다이어그램 좌표로 변환해야 한다', () => {
+      const callback = jest.fn();
+      viewbox = { x: 40, y: 10, scale: 2 };
+      remoteCursors.trackLocalCursor(callback, 0);
+
+      eventBus.fire('element.hover', {
+        element: { id: 'Task_1', parent: { id: 'Process_1' } },
+      });
+      container.dispatchEvent(
+        new MouseEvent('mousemove', { clientX: 300, clientY: 250 })
+      );
+
+      expect(callback).toHaveBeenCalledWith({
+        x: 140,
+        y: 110,
+        elementId: 'Task_1',
+        rootId: 'Process_1',
+      });
+    });
+
+    it('plane을 전환하면 마지막 위치와 새 plane을 바로 전달해야 한다', () => {
+      const callback = jest.fn();
+      remoteCursors.trackLocalCursor(callback, 0);
+
+      container.dispatchEvent(
+        new MouseEvent('mousemove', { clientX: 300, clientY: 250 })
+      );
+      rootElement = { id: 'Sub_1_plane', businessObject: { id: 'Sub_1' } };
+      eventBus.fire('root.set', { element: rootElement });
+
+      expect(callback).toHaveBeenLastCalledWith({
+        x: 200,
+        y: 200,
+        rootId: 'Sub_1',
+      });
+    });
+
+    it('throttle 간격 내의 이동은 전달하지 않아야 한다', () => {
+      const callback = jest.fn();
+      remoteCursors.trackLocalCursor(callback, 50);
+
+      jest.setSystemTime(1000);
+      container.dispatchEvent(new MouseEvent('mousemove', { clientX: 150 }));
+      jest.setSystemTime(1020);
+      container.dispatchEvent(new MouseEvent('mousemove', { clientX: 160 }));
+      jest.setSystemTime(1060);
+      container.dispatchEvent(new MouseEvent('mousemove', { clientX: 170 }));
+
+      expect(callback).toHaveBeenCalledTimes(2);
+    });
+
+    it('추적 해제 후에는 전달하지 않아야 한다', () => {
+      const callback = jest.fn();
+      const stopTracking = remoteCursors.trackLocalCursor(callback, 0);
+
+      stopTracking();
+      container.dispatchEvent(new MouseEvent('mousemove', { clientX: 150 }));
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,362 @@
+/**
+ * RemoteCursors - 원격 사용자 커서 오버레이
+ *
+ * 다른 사용자의 포인터와 이름 레이블을 사용자 색상으로 캔버스 레이어에 그립니다.
+ * 레이어가 캔버스 viewport 안에 있으므로 커서는 다이어그램 좌표로 배치되어
+ * 확대/스크롤 시에도 같은 위치를 가리키고, 크기만 화면 기준으로 유지합니다.
+ * 일정 시간 움직임이 없는 커서는 서서히 사라집니다.
+ * 다른 plane(서브프로세스 drill-down 등)을 보고 있는 사용자의 커서는 숨깁니다.
+ */
+
+import { CURSOR_IDLE_TIMEOUT_MS } from '../../constants';
+
+// diagram-js 타입 정의
+interface Canvas {
+  getLayer(name: string, index?: number): SVGGElement;
+  getRootElement(): any;
+  getContainer(): HTMLElement;
+  viewbox(): { x: number; y: number; scale: number };
+}
+
+interface EventBus {
+  on(event: string | string[], callback: Function): void;
+  off(event: string | string[], callback?: Function): void;
+}
+
+/**
+ * 원격 커서 업데이트 정보 (다이어그램 좌표)
+ */
+export interface RemoteCursorUpdate {
+  userId: string;
+  name: string;
+  color: string;
+  x: number;
+  y: number;
+  elementId?: string;
+  // 사용자가 보고 있는 plane의 루트 BPMN 요소 ID
+  rootId?: string;
+}
+
+/**
+ * 로컬 커서 위치 (다이어그램 좌표)
+ */
+export interface LocalCursorPosition {
+  x: number;
+  y: number;
+  elementId?: string;
+  rootId?: string;
+}
+
+interface CursorEntry {
+  gfx: SVGGElement;
+  x: number;
+  y: number;
+  rootId?: string;
+  lastUpdate: number;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const CURSOR_LAYER = 'remote-cursors';
+const CURSOR_LAYER_INDEX = 1000;
+const FADE_CHECK_INTERVAL_MS = 1000;
+const CURSOR_PATH = 'M0,0 L0,17 L4.5,12.5 L8,20 L10.5,19 L7,11.5 L13,11.5 Z';
+
+function createSvgElement<K extends keyof SVGElementTagNameMap>(
+  tagName: K,
+  attrs: { [name: string]: string | number }
+): SVGElementTagNameMap[K] {
+  const element = document.createElementNS(SVG_NS, tagName);
+  Object.keys(attrs).forEach(name => {
+    element.setAttribute(name, String(attrs[name]));
+  });
+  return element;
+}
+
+/**
+ * RemoteCursors 클래스
+ */
+export class RemoteCursors {
+  static $inject = ['canvas', 'eventBus'];
+
+  private canvas: Canvas;
+  private eventBus: EventBus;
+  private layer: SVGGElement;
+  private cursors = new Map<string, CursorEntry>();
+  private fadeTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(canvas: Canvas, eventBus: EventBus) {
+    this.canvas = canvas;
+    this.eventBus = eventBus;
+    this.layer = canvas.getLayer(CURSOR_LAYER, CURSOR_LAYER_INDEX);
+    this.layer.setAttribute('pointer-events', 'none');
+
+    // 확대/축소 시 커서 크기를 화면 기준으로 유지
+    eventBus.on('canvas.viewbox.changed', this.handleViewboxChanged);
+    // 표시 중인 plane이 바뀌면 해당 plane의 커서만 표시
+    eventBus.on('root.set', this.handleRootChanged);
+    eventBus.on('diagram.destroy', () => this.destroy());
+
+    this.fadeTimer = setInterval(
+      () => this.fadeIdleCursors(),
+      FADE_CHECK_INTERVAL_MS
+    );
+  }
+
+  // ==================== 원격 커서 ====================
+
+  /**
+   * 원격 사용자 커서 추가 또는 이동
+   */
+  updateCursor(update: RemoteCursorUpdate): void {
+    let entry = this.cursors.get(update.userId);
+
+    if (!entry) {
+      entry = {
+        gfx: this.createCursorGraphics(update),
+        x: update.x,
+        y: update.y,
+        lastUpdate: Date.now(),
+      };
+      this.cursors.set(update.userId, entry);
+      this.layer.appendChild(entry.gfx);
+    }
+
+    entry.x = update.x;
+    entry.y = update.y;
+    entry.rootId = update.rootId;
+    entry.lastUpdate = Date.now();
+
+    this.updateCursorGraphics(entry, update);
+  }
+
+  /**
+   * 원격 사용자 커서 제거 (사용자가 떠난 경우)
+   */
+  removeCursor(userId: string): void {
+    const entry = this.cursors.get(userId);
+    if (!entry) {
+      return;
+    }
+
+    entry.gfx.remove();
+    this.cursors.delete(userId);
+  }
+
+  /**
+   * 모든 원격 커서 제거
+   */
+  clear(): void {
+    this.cursors.forEach(entry => entry.gfx.remove());
+    this.cursors.clear();
+  }
+
+  /**
+   * 표시 중인 커서의 사용자 ID 목록
+   */
+  getCursorUserIds(): string[] {
+    return Array.from(this.cursors.keys());
+  }
+
+  // ==================== 로컬 커서 ====================
+
+  /**
+   * 로컬 포인터 이동을 다이어그램 좌표로 변환하여 전달 (throttle 적용)
+   *
+   * @return 추적 해제 함수
+   */
+  trackLocalCursor(
+    callback: (position: LocalCursorPosition) => void,
+    throttleMs: number
+  ): () => void {
+    const container = this.canvas.getContainer();
+    let hoveredElementId: string | undefined;
+    let lastPosition: LocalCursorPosition | null = null;
+    let lastSent = 0;
+
+    const handleHover = (event: any) => {
+      const element = event.element;
+      // 루트(프로세스/협업) 요소 위는 특정 요소로 보지 않음
+      hoveredElementId =
+        element && element.parent ? (element.id as string) : undefined;
+    };
+
+    const handleOut = () => {
+      hoveredElementId = undefined;
+    };
+
+    const handleMouseMove = (event: MouseEvent) => {
+      const now = Date.now();
+      if (now - lastSent < throttleMs) {
+        return;
+      }
+      lastSent = now;
+
+      const rect = container.getBoundingClientRect();
+      const viewbox = this.canvas.viewbox();
+
+      lastPosition = {
+        x: viewbox.x + (event.clientX - rect.left) / viewbox.scale,
+        y: viewbox.y + (event.clientY - rect.top) / viewbox.scale,
+        elementId: hoveredElementId,
+        rootId: this.getCurrentRootId(),
+      };
+      callback(lastPosition);
+    };
+
+    // plane을 전환하면 포인터가 움직이지 않아도 바로 알림
+    const handleRootSet = () => {
+      hoveredElementId = undefined;
+      if (lastPosition) {
+        lastPosition = {
+          x: lastPosition.x,
+          y: lastPosition.y,
+          rootId: this.getCurrentRootId(),
+        };
+        callback(lastPosition);
+      }
+    };
+
+    this.eventBus.on('element.hover', handleHover);
+    this.eventBus.on('element.out', handleOut);
+    this.eventBus.on('root.set', handleRootSet);
+    container.addEventListener('mousemove', handleMouseMove);
+
+    return () => {
+      this.eventBus.off('element.hover', handleHover);
+      this.eventBus.off('element.out', handleOut);
+      this.eventBus.off('root.set', handleRootSet);
+      container.removeEventListener('mousemove', handleMouseMove);
+    };
+  }
+
+  /**
+   * 현재 표시 중인 plane의 루트 BPMN 요소 ID
+   */
+  getCurrentRootId(): string | undefined {
+    const root = this.canvas.getRootElement();
+    return root?.businessObject?.id || root?.id;
+  }
+
+  // ==================== 렌더링 ====================
+
+  /**
+   * 커서 그래픽 생성 (포인터 + 이름 레이블)
+   */
+  private createCursorGraphics(update: RemoteCursorUpdate): SVGGElement {
+    const gfx = createSvgElement('g', { class: 'remote-cursor' });
+    gfx.style.transition = 'opacity 0.6s ease';
+
+    gfx.appendChild(
+      createSvgElement('path', {
+        class: 'remote-cursor-pointer',
+        d: CURSOR_PATH,
+        stroke: '#fff',
+        'stroke-width': 1,
+      })
+    );
+
+    const label = createSvgElement('g', {
+      class: 'remote-cursor-label',
+      transform: 'translate(14, 18)',
+    });
+    label.appendChild(
+      createSvgElement('rect', { rx: 3, ry: 3, height: 18, y: 0 })
+    );
+    label.appendChild(
+      createSvgElement('text', {
+        x: 5,
+        y: 13,
+        fill: '#fff',
+        'font-size': 11,
+        'font-family': 'Arial, sans-serif',
+      })
+    );
+    gfx.appendChild(label);
+
+    return gfx;
+  }
+
+  /**
+   * 커서 색상, 이름, 위치 반영
+   */
+  private updateCursorGraphics(
+    entry: CursorEntry,
+    update: RemoteCursorUpdate
+  ): void {
+    const pointer = entry.gfx.querySelector('path')!;
+    const rect = entry.gfx.querySelector('rect')!;
+    const text = entry.gfx.querySelector('text')!;
+
+    pointer.setAttribute('fill', update.color);
+    rect.setAttribute('fill', update.color);
+
+    if (text.textContent !== update.name) {
+      text.textContent = update.name;
+      // 레이아웃 전에는 텍스트 폭을 알 수 없으므로 글자 수로 추정
+      rect.setAttribute('width', String(update.name.length * 6.5 + 10));
+    }
+
+    entry.gfx.style.opacity = '1';
+    this.positionCursor(entry);
+    this.updateCursorVisibility(entry);
+  }
+
+  /**
+   * 같은 plane을 보고 있는 사용자의 커서만 표시 (plane을 모르면 표시)
+   */
+  private updateCursorVisibility(entry: CursorEntry): void {
+    const visible = !entry.rootId || entry.rootId === this.getCurrentRootId();
+    entry.gfx.style.display = visible ? '' : 'none';
+  }
+
+  private positionCursor(entry: CursorEntry): void {
+    const scale = this.canvas.viewbox().scale || 1;
+    entry.gfx.setAttribute(
+      'transform',
+      `translate(${entry.x}, ${entry.y}) scale(${1 / scale})`
+    );
+  }
+
+  private handleViewboxChanged = () => {
+    this.cursors.forEach(entry => this.positionCursor(entry));
+  };
+
+  private handleRootChanged = () => {
+    this.cursors.forEach(entry => this.updateCursorVisibility(entry));
+  };
+
+  /**
+   * 일정 시간 움직이지 않은 커서 숨김 (다시 움직이면 표시)
+   */
+  private fadeIdleCursors(): void {
+    const now = Date.now();
+
+    this.cursors.forEach(entry => {
+      if (now - entry.lastUpdate >= CURSOR_IDLE_TIMEOUT_MS) {
+        entry.gfx.style.opacity = '0';
+      }
+    });
+  }
+
+  /**
+   * 리소스 정리
+   */
+  destroy(): void {
+    if (this.fadeTimer) {
+      clearInterval(this.fadeTimer);
+      this.fadeTimer = null;
+    }
+
+    this.eventBus.off('canvas.viewbox.changed', this.handleViewboxChanged);
+    this.eventBus.off('root.set', this.handleRootChanged);
+    this.clear();
+  }
+}
+
+/**
+ * RemoteCursors 모듈 정의
+ */
+export const RemoteCursorsModule = {
+  __init__: ['remoteCursors'],
+  remoteCursors: ['type', RemoteCursors],
+};
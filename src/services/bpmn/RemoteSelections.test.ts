@@ -0,0 +1,211 @@
+/**
+ * RemoteSelections 테스트
+ */
+
+import { RemoteSelections } from './RemoteSelections';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// 이벤트 버스 Mock (등록된 핸들러를 직접 호출)
+const createMockEventBus = () => {
+  const handlers = new Map<string, Function[]>();
+
+  return {
+    on: jest.fn((event: string, callback: Function) => {
+      handlers.set(event, [...(handlers.get(event) || []), callback]);
+    }),
+    off: jest.fn((event: string, callback?: Function) => {
+      handlers.set(
+        event,
+        (handlers.get(event) || []).filter(h => callback && h !== callback)
+      );
+    }),
+    fire(event: string, payload?: any) {
+      (handlers.get(event) || []).forEach(handler => handler(payload));
+    },
+  };
+};
+
+// 요소와 그래픽을 함께 관리하는 ElementRegistry Mock
+const createMockElementRegistry = (elements: any[]) => {
+  const graphics = new Map<string, SVGGElement>();
+  elements.forEach(element => {
+    graphics.set(element.id, document.createElementNS(SVG_NS, 'g'));
+  });
+
+  return {
+    get: jest.fn((id: string) => elements.find(element => element.id === id)),
+    getGraphics: jest.fn((element: any) => graphics.get(element.id)),
+    gfx: (id: string) => graphics.get(id)!,
+  };
+};
+
+describe('RemoteSelections', () => {
+  let eventBus: ReturnType<typeof createMockEventBus>;
+  let elementRegistry: ReturnType<typeof createMockElementRegistry>;
+  let remoteSelections: RemoteSelections;
+
+  const outlines = (elementId: string) =>
+    Array.from(
+      elementRegistry.gfx(elementId).querySelectorAll('.remote-selection')
+    );
+
+  beforeEach(() => {
+    eventBus = createMockEventBus();
+    elementRegistry = createMockElementRegistry([
+      { id: 'Task_1', x: 100, y: 100, width: 100, height: 80 },
+      { id: 'Task_2', x: 300, y: 100, width: 100, height: 80 },
+      {
+        id: 'Flow_1',
+        waypoints: [
+          { x: 200, y: 140 },
+          { x: 300, y: 140 },
+        ],
+      },
+    ]);
+
+    remoteSelections = new RemoteSelections(eventBus, elementRegistry);
+  });
+
+  describe('원격 선택', () => {
+    it('선택한 모든 요소에 사용자 색상 외곽선을 그려야 한다', () => {
+      remoteSelections.setSelection({
+        userId: 'user2',
+        name: 'bob',
+        color: '#FF6B6B',
+        elementIds: ['Task_1', 'Flow_1'],
+      });
+
+      const [taskOutline] = outlines('Task_1');
+      expect(taskOutline.tagName).toBe('rect');
+      expect(taskOutline.getAttribute('stroke')).toBe('#FF6B6B');
+      expect(taskOutline.getAttribute('width')).toBe('112');
+      expect(taskOutline.textContent).toBe('bob');
+
+      const [flowOutline] = outlines('Flow_1');
+      expect(flowOutline.tagName).toBe('polyline');
+      expect(flowOutline.getAttribute('points')).toBe('200,140 300,140');
+      expect(outlines('Task_2')).toHaveLength(0);
+    });
+
+    it('선택이 바뀌면 이전 요소의 외곽선을 제거해야 한다', () => {
+      const selection = { userId: 'user2', name: 'bob', color: '#FF6B6B' };
+      remoteSelections.setSelection({ ...selection, elementIds: ['Task_1'] });
+      remoteSelections.setSelection({ ...selection, elementIds: ['Task_2'] });
+
+      expect(outlines('Task_1')).toHaveLength(0);
+      expect(outlines('Task_2')).toHaveLength(1);
+      expect(remoteSelections.getSelections().get('user2')).toEqual(['Task_2']);
+    });
+
+    it('빈 선택은 선택 해제로 처리해야 한다', () => {
+      const selection = { userId: 'user2', name: 'bob', color: '#FF6B6B' };
+      remoteSelections.setSelection({ ...selection, elementIds: ['Task_1'] });
+      remoteSelections.setSelection({ ...selection, elementIds: [] });
+
+      expect(outlines('Task_1')).toHaveLength(0);
+      expect(remoteSelections.getSelections().size).toBe(0);
+    });
+
+    it('여러 사용자가 같은 요소를 선택하면 외곽선을 겹치지 않게 그려야 한다', () => {
+      remoteSelections.setSelection({
+        userId: 'user2',
+        name: 'bob',
+        color: '#FF6B6B',
+        elementIds: ['Task_1'],
+      });
+      remoteSelections.setSelection({
+        userId: 'user3',
+        name: 'carol',
+        color: '#4ECDC4',
+        elementIds: ['Task_1'],
+      });
+
+      const [first, second] = outlines('Task_1');
+      expect(first.getAttribute('x')).toBe('-6');
+      expect(second.getAttribute('x')).toBe('-10');
+      expect(second.getAttribute('stroke')).toBe('#4ECDC4');
+      expect(remoteSelections.getUsersSelecting('Task_1')).toEqual([
+        'user2',
+        'user3',
+      ]);
+    });
+
+    it('사용자가 떠나면 해당 사용자의 외곽선만 제거해야 한다', () => {
+      remoteSelections.setSelection({
+        userId: 'user2',
+        name: 'bob',
+        color: '#FF6B6B',
+        elementIds: ['Task_1'],
+      });
+      remoteSelections.setSelection({
+        userId: 'user3',
+        name: 'carol',
+        color: '#4ECDC4',
+        elementIds: ['Task_1'],
+      });
+
+      remoteSelections.removeSelection('user2');
+
+      const remaining = outlines('Task_1');
+      expect(remaining).toHaveLength(1);
+      expect(remaining[0].getAttribute('data-user-id')).toBe('user3');
+    });
+
+    it('요소가 변경되면 외곽선을 다시 그려야 한다', () => {
+      remoteSelections.setSelection({
+        userId: 'user2',
+        name: 'bob',
+        color: '#FF6B6B',
+        elementIds: ['Task_1'],
+      });
+
+      const task = elementRegistry.get('Task_1');
+      task.width = 200;
+      eventBus.fire('element.changed', { element: task });
+
+      const taskOutlines = outlines('Task_1');
+      expect(taskOutlines).toHaveLength(1);
+      expect(taskOutlines[0].getAttribute('width')).toBe('212');
+    });
+
+    it('존재하지 않는 요소는 무시해야 한다', () => {
+      expect(() =>
+        remoteSelections.setSelection({
+          userId: 'user2',
+          name: 'bob',
+          color: '#FF6B6B',
+          elementIds: ['Missing_1'],
+        })
+      ).not.toThrow();
+      expect(remoteSelections.getUsersSelecting('Missing_1')).toEqual([
+        'user2',
+      ]);
+    });
+  });
+
+  describe('로컬 선택', () => {
+    it('다중 선택을 요소 ID 목록으로 전달해야 한다', () => {
+      const callback = jest.fn();
+      remoteSelections.trackLocalSelection(callback);
+
+      eventBus.fire('selection.changed', {
+        newSelection: [{ id: 'Task_1' }, { id: 'Task_2' }],
+      });
+      eventBus.fire('selection.changed', { newSelection: [] });
+
+      expect(callback).toHaveBeenNthCalledWith(1, ['Task_1', 'Task_2']);
+      expect(callback).toHaveBeenNthCalledWith(2, []);
+    });
+
+    it('추적 해제 후에는 전달하지 않아야 한다', () => {
+      const callback = jest.fn();
+      const stopTracking = remoteSelections.trackLocalSelection(callback);
+
+      stopTracking();
+      eventBus.fire('selection.changed', { newSelection: [{ id: 'Task_1' }] });
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * RemoteSelections - 원격 사용자 선택 표시
+ *
+ * 다른 사용자가 선택한 요소에 사용자 색상의 외곽선을 그립니다.
+ * 외곽선은 요소 그래픽 안에 그려지므로 요소와 함께 이동하며,
+ * 요소가 변경되거나 다이어그램을 다시 불러오면 다시 그립니다.
+ * 여러 사용자가 같은 요소를 선택하면 외곽선을 겹치지 않게 바깥쪽으로 넓힙니다.
+ */
+
+// diagram-js 타입 정의
+interface EventBus {
+  on(event: string | string[], callback: Function): void;
+  off(event: string | string[], callback?: Function): void;
+}
+
+interface ElementRegistry {
+  get(id: string): any;
+  getGraphics(element: any): SVGGElement | undefined;
+}
+
+/**
+ * 원격 선택 업데이트 정보
+ */
+export interface RemoteSelectionUpdate {
+  userId: string;
+  name: string;
+  color: string;
+  elementIds: string[];
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const OUTLINE_CLASS = 'remote-selection';
+const OUTLINE_PADDING = 6;
+const OUTLINE_SPACING = 4;
+
+/**
+ * RemoteSelections 클래스
+ */
+export class RemoteSelections {
+  static $inject = ['eventBus', 'elementRegistry'];
+
+  private eventBus: EventBus;
+  private elementRegistry: ElementRegistry;
+
+  // userId -> 선택 정보 (등록 순서대로 외곽선 안쪽부터 그림)
+  private selections = new Map<string, RemoteSelectionUpdate>();
+
+  constructor(eventBus: EventBus, elementRegistry: ElementRegistry) {
+    this.eventBus = eventBus;
+    this.elementRegistry = elementRegistry;
+
+    // 요소가 다시 그려지거나 이동/크기 변경되면 외곽선 갱신
+    eventBus.on('element.changed', (event: any) => {
+      this.renderElement(event.element.id);
+    });
+
+    // 다이어그램을 다시 불러오면 새 그래픽에 다시 그림
+    eventBus.on('import.done', () => this.renderAll());
+  }
+
+  // ==================== 원격 선택 ====================
+
+  /**
+   * 원격 사용자 선택 설정 (빈 배열이면 선택 해제)
+   */
+  setSelection(update: RemoteSelectionUpdate): void {
+    const previous = this.selections.get(update.userId);
+
+    if (update.elementIds.length === 0) {
+      this.selections.delete(update.userId);
+    } else {
+      this.selections.set(update.userId, {
+        ...update,
+        elementIds: update.elementIds.slice(),
+      });
+    }
+
+    const affected = new Set<string>(update.elementIds);
+    if (previous) {
+      previous.elementIds.forEach(elementId => affected.add(elementId));
+    }
+    affected.forEach(elementId => this.renderElement(elementId));
+  }
+
+  /**
+   * 원격 사용자 선택 제거 (사용자가 떠난 경우)
+   */
+  removeSelection(userId: string): void {
+    const previous = this.selections.get(userId);
+    if (!previous) {
+      return;
+    }
+
+    this.selections.delete(userId);
+    previous.elementIds.forEach(elementId => this.renderElement(elementId));
+  }
+
+  /**
+   * 모든 원격 선택 제거
+   */
+  clear(): void {
+    const elementIds = this.getSelectedElementIds();
+    this.selections.clear();
+    elementIds.forEach(elementId => this.renderElement(elementId));
+  }
+
+  /**
+   * 사용자별 선택 요소 (userId -> elementIds)
+   */
+  getSelections(): Map<string, string[]> {
+    const result = new Map<string, string[]>();
+    this.selections.forEach((selection, userId) => {
+      result.set(userId, selection.elementIds.slice());
+    });
+    return result;
+  }
+
+  /**
+   * 특정 요소를 선택한 사용자 ID 목록
+   */
+  getUsersSelecting(elementId: string): string[] {
+    const userIds: string[] = [];
+    this.selections.forEach((selection, userId) => {
+      if (selection.elementIds.indexOf(elementId) !== -1) {
+        userIds.push(userId);
+      }
+    });
+    return userIds;
+  }
+
+  // ==================== 로컬 선택 ====================
+
+  /**
+   * 로컬 선택 변경을 요소 ID 목록으로 전달
+   *
+   * @return 추적 해제 함수
+   */
+  trackLocalSelection(callback: (elementIds: string[]) => void): () => void {
+    const handleSelectionChanged = (event: any) => {
+      callback(
+        (event.newSelection || []).map((element: any) => element.id as string)
+      );
+    };
+
+    this.eventBus.on('selection.changed', handleSelectionChanged);
+
+    return () => {
+      this.eventBus.off('selection.changed', handleSelectionChanged);
+    };
+  }
+
+  // ==================== 렌더링 ====================
+
+  private getSelectedElementIds(): string[] {
+    const elementIds = new Set<string>();
+    this.selections.forEach(selection => {
+      selection.elementIds.forEach(elementId => elementIds.add(elementId));
+    });
+    return Array.from(elementIds);
+  }
+
+  private renderAll(): void {
+    this.getSelectedElementIds().forEach(elementId =>
+      this.renderElement(elementId)
+    );
+  }
+
+  /**
+   * 요소의 원격 선택 외곽선 다시 그리기
+   */
+  private renderElement(elementId: string): void {
+    const element = this.elementRegistry.get(elementId);
+    const gfx: SVGGElement | undefined =
+      element && this.elementRegistry.getGraphics(element);
+    if (!gfx) {
+      return;
+    }
+
+    gfx
+      .querySelectorAll<SVGElement>(`.${OUTLINE_CLASS}`)
+      .forEach(outline => outline.remove());
+
+    this.getUsersSelecting(elementId).forEach((userId, index) => {
+      const selection = this.selections.get(userId)!;
+      gfx.appendChild(this.createOutline(element, selection, index));
+    });
+  }
+
+  /**
+   * 사용자 색상 외곽선 생성 (연결선은 경로를 따라, 도형은 경계 사각형)
+   */
+  private createOutline(
+    element: any,
+    selection: RemoteSelectionUpdate,
+    index: number
+  ): SVGElement {
+    const padding = OUTLINE_PADDING + index * OUTLINE_SPACING;
+    let outline: SVGElement;
+
+    if (element.waypoints) {
+      outline = document.createElementNS(SVG_NS, 'polyline');
+      outline.setAttribute(
+        'points',
+        element.waypoints
+          .map((point: { x: number; y: number }) => `${point.x},${point.y}`)
+          .join(' ')
+      );
+      outline.setAttribute('stroke-width', String(padding));
+      outline.setAttribute('stroke-opacity', '0.35');
+      outline.setAttribute('stroke-linecap', 'round');
+      outline.setAttribute('stroke-linejoin', 'round');
+    } else {
+      // 도형 그래픽은 요소 위치로 이동되어 있으므로 로컬 좌표로 그림
+      outline = document.createElementNS(SVG_NS, 'rect');
+      outline.setAttribute('x', String(-padding));
+      outline.setAttribute('y', String(-padding));
+      outline.setAttribute('width', String(element.width + padding * 2));
+      outline.setAttribute('height', String(element.height + padding * 2));
+      outline.setAttribute('rx', '4');
+      outline.setAttribute('stroke-width', '2');
+    }
+
+    outline.setAttribute('class', OUTLINE_CLASS);
+    outline.setAttribute('data-user-id', selection.userId);
+    outline.setAttribute('stroke', selection.color);
+    outline.setAttribute('fill', 'none');
+    outline.setAttribute('pointer-events', 'none');
+
+    const title = document.createElementNS(SVG_NS, 'title');
+    title.textContent = selection.name;
+    outline.appendChild(title);
+
+    return outline;
+  }
+}
+
+/**
+ * RemoteSelections 모듈 정의
+ */
+export const RemoteSelectionsModule = {
+  __init__: ['remoteSelections'],
+  remoteSelections: ['type', RemoteSelections],
+};
@@ -168,4 +168,150 @@ describe('SilentCommandStack', () => {
       expect((silentCommandStack as any)._silentMode).toBe(false); // Should restore original state
     });
   });
+
+  describe('Undo / Redo', () => {
+    let state: { value: number };
+
+    beforeEach(() => {
+      state = { value: 0 };
+
+      // 값을 더하는 revert 가능한 핸들러
+      silentCommandStack.registerHandler('add', {
+        execute: (context: { amount: number }) => {
+          state.value += context.amount;
+          return state.value;
+        },
+        revert: (context: { amount: number }) => {
+          state.value -= context.amount;
+        },
+      });
+    });
+
+    test('undo should revert the last command and redo should re-execute it', () => {
+      silentCommandStack.execute('add', { amount: 1 });
+      silentCommandStack.execute('add', { amount: 2 });
+
+      silentCommandStack.undo();
+      expect(state.value).toBe(1);
+      expect(silentCommandStack.canRedo()).toBe(true);
+
+      silentCommandStack.redo();
+      expect(state.value).toBe(3);
+      expect(silentCommandStack.canRedo()).toBe(false);
+    });
+
+    test('canUndo / canRedo should reflect the stack position', () => {
+      expect(silentCommandStack.canUndo()).toBe(false);
+      expect(silentCommandStack.canRedo()).toBe(false);
+
+      silentCommandStack.execute('add', { amount: 1 });
+      expect(silentCommandStack.canUndo()).toBe(true);
+
+      silentCommandStack.undo();
+      expect(silentCommandStack.canUndo()).toBe(false);
+      expect(silentCommandStack.canRedo()).toBe(true);
+    });
+
+    test('executing a new command should discard the redo history', () => {
+      silentCommandStack.execute('add', { amount: 1 });
+      silentCommandStack.undo();
+
+      silentCommandStack.execute('add', { amount: 5 });
+
+      expect(silentCommandStack.canRedo()).toBe(false);
+      silentCommandStack.redo();
+      expect(state.value).toBe(5);
+    });
+
+    test('a silent batch should be undone as one atomic unit', () => {
+      silentCommandStack.executeBatchSilently([
+        { command: 'add', context: { amount: 1 } },
+        { command: 'add', context: { amount: 2 } },
+        { command: 'add', context: { amount: 3 } },
+      ]);
+      expect(state.value).toBe(6);
+
+      silentCommandStack.undo();
+      expect(state.value).toBe(0);
+      expect(silentCommandStack.canUndo()).toBe(false);
+
+      silentCommandStack.redo();
+      expect(state.value).toBe(6);
+    });
+
+    test('a failing batch should roll back the commands it already executed', () => {
+      silentCommandStack.registerHandler('fail', () => {
+        throw new Error('Test error');
+      });
+
+      expect(() =>
+        silentCommandStack.executeBatchSilently([
+          { command: 'add', context: { amount: 1 } },
+          { command: 'fail' },
+        ])
+      ).toThrow('Test error');
+
+      expect(state.value).toBe(0);
+      expect(silentCommandStack.canUndo()).toBe(false);
+    });
+
+    test('undo should not emit events for silent commands', () => {
+      silentCommandStack.executeSilently('add', { amount: 1 });
+      silentCommandStack.undo();
+
+      expect(state.value).toBe(0);
+      expect(eventsFired).not.toContain('commandStack.changed');
+    });
+
+    test('silent commands can be excluded from the undo history', () => {
+      silentCommandStack.setExcludeSilentFromHistory(true);
+
+      silentCommandStack.execute('add', { amount: 1 });
+      silentCommandStack.executeSilently('add', { amount: 2 });
+      silentCommandStack.executeBatchSilently([
+        { command: 'add', context: { amount: 3 } },
+      ]);
+
+      silentCommandStack.undo();
+      expect(state.value).toBe(5);
+      expect(silentCommandStack.canUndo()).toBe(false);
+    });
+
+    test('a command without revert should clear the undo history', () => {
+      silentCommandStack.registerHandler('log', () => undefined);
+
+      silentCommandStack.execute('add', { amount: 1 });
+      silentCommandStack.executeBatchSilently([
+        { command: 'add', context: { amount: 2 } },
+        { command: 'log' },
+      ]);
+
+      expect(silentCommandStack.canUndo()).toBe(false);
+      expect(() => silentCommandStack.undo()).not.toThrow();
+      expect(state.value).toBe(3);
+    });
+
+    test('commands after a non-revertible command should be undoable', () => {
+      silentCommandStack.registerHandler('log', () => undefined);
+
+      silentCommandStack.execute('log');
+      silentCommandStack.execute('add', { amount: 4 });
+
+      silentCommandStack.undo();
+
+      expect(state.value).toBe(0);
+      expect(silentCommandStack.canUndo()).toBe(false);
+      expect(silentCommandStack.canRedo()).toBe(true);
+    });
+
+    test('clear should reset the undo history', () => {
+      silentCommandStack.execute('add', { amount: 1 });
+      silentCommandStack.undo();
+
+      silentCommandStack.clear();
+
+      expect(silentCommandStack.canUndo()).toBe(false);
+      expect(silentCommandStack.canRedo()).toBe(false);
+    });
+  });
 });
@@ -5,17 +5,42 @@ interface EventBus {
   fire(event: string, data?: any): any;
 }
 
+/**
+ * 실행된 명령 (redo 시 다시 실행, undo 시 revert)
+ */
+interface ExecutedAction {
+  command: string;
+  context?: any;
+  result?: any;
+}
+
+/**
+ * undo/redo 단위 (배치는 여러 명령이 하나의 단위)
+ */
+interface StackEntry {
+  actions: ExecutedAction[];
+  silent: boolean;
+}
+
 /**
  * Silent CommandStack Module
  * 협업용 별도 CommandStack으로, 원격 변경사항 적용 시 이벤트를 발생시키지 않음
+ *
+ * 핸들러는 함수 또는 { execute, revert } 객체입니다.
+ * revert가 없는 핸들러로 실행한 명령은 되돌릴 수 없으므로, 그 이전의 기록도
+ * 더 이상 undo할 수 없게 되어 undo/redo 기록을 초기화합니다.
  */
 export class SilentCommandStack {
   private _silentMode: boolean = false;
   private eventBus: EventBus;
   private injector: any;
-  private _stack: any[] = [];
+  private _stack: StackEntry[] = [];
   private _stackIdx: number = -1;
   private _handlers: Map<string, any> = new Map();
+  // 배치 실행 중 기록되는 명령 (배치가 끝나면 하나의 항목으로 스택에 추가)
+  private _currentBatch: ExecutedAction[] | null = null;
+  // true이면 Silent 명령은 undo 기록에 남기지 않음 (사용자에게 보이는 기록에서 제외)
+  private _excludeSilentFromHistory: boolean = false;
 
   constructor(eventBus: EventBus, injector: any) {
     this.eventBus = eventBus;
@@ -29,6 +54,13 @@ export class SilentCommandStack {
     this._silentMode = silent;
   }
 
+  /**
+   * Silent 명령을 undo 기록에서 제외할지 설정
+   */
+  setExcludeSilentFromHistory(exclude: boolean): void {
+    this._excludeSilentFromHistory = exclude;
+  }
+
   /**
    * 명령 핸들러 등록
    */
@@ -40,20 +72,156 @@ export class SilentCommandStack {
    * 명령 실행
    */
   execute(command: string, context?: any): any {
+    const result = this.invoke(command, context);
+    const action: ExecutedAction = { command, context, result };
+
+    if (this._currentBatch) {
+      this._currentBatch.push(action);
+    } else {
+      this.pushEntry({ actions: [action], silent: this._silentMode });
+    }
+
+    if (!this._silentMode) {
+      this.fire('commandStack.changed', {
+        trigger: 'execute',
+        command,
+        context,
+        result,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * 마지막 명령(또는 배치)을 되돌림
+   */
+  undo(): void {
+    if (!this.canUndo()) {
+      return;
+    }
+
+    const entry = this._stack[this._stackIdx];
+
+    // 일부만 되돌리지 않도록 먼저 모든 명령이 revert 가능한지 확인
+    entry.actions.forEach(({ command }) => this.getRevertibleHandler(command));
+
+    this.runWithSilentMode(entry.silent, () => {
+      entry.actions
+        .slice()
+        .reverse()
+        .forEach(action => {
+          this.getRevertibleHandler(action.command).revert(
+            action.context,
+            action.result
+          );
+        });
+    });
+
+    this._stackIdx--;
+    this.fireStackChanged('undo', entry);
+  }
+
+  /**
+   * 되돌린 명령(또는 배치)을 다시 실행
+   */
+  redo(): void {
+    if (!this.canRedo()) {
+      return;
+    }
+
+    const entry = this._stack[this._stackIdx + 1];
+
+    this.runWithSilentMode(entry.silent, () => {
+      entry.actions.forEach(action => {
+        action.result = this.invoke(action.command, action.context);
+      });
+    });
+
+    this._stackIdx++;
+    this.fireStackChanged('redo', entry);
+  }
+
+  canUndo(): boolean {
+    return this._stackIdx >= 0;
+  }
+
+  canRedo(): boolean {
+    return this._stackIdx < this._stack.length - 1;
+  }
+
+  /**
+   * undo/redo 기록 초기화
+   */
+  clear(): void {
+    this._stack = [];
+    this._stackIdx = -1;
+    this.fire('commandStack.changed', { trigger: 'clear' });
+  }
+
+  /**
+   * 핸들러로 명령 실행 (스택에 기록하지 않음)
+   */
+  private invoke(command: string, context?: any): any {
     const handler = this._handlers.get(command);
     if (!handler) {
       throw new Error(`No handler registered for command: ${command}`);
     }
 
-    const result = handler.execute
-      ? handler.execute(context)
-      : handler(context);
+    return handler.execute ? handler.execute(context) : handler(context);
+  }
 
-    if (!this._silentMode) {
-      this.fire('commandStack.changed', { command, context, result });
+  private isRevertible(command: string): boolean {
+    const handler = this._handlers.get(command);
+    return !!handler && typeof handler.revert === 'function';
+  }
+
+  private getRevertibleHandler(command: string): any {
+    const handler = this._handlers.get(command);
+    if (!handler || typeof handler.revert !== 'function') {
+      throw new Error(`Command is not revertible: ${command}`);
     }
+    return handler;
+  }
 
-    return result;
+  /**
+   * 스택에 항목 추가 (되돌린 이후의 redo 기록은 버림)
+   */
+  private pushEntry(entry: StackEntry): void {
+    if (entry.actions.length === 0) {
+      return;
+    }
+    if (entry.silent && this._excludeSilentFromHistory) {
+      return;
+    }
+
+    // 되돌릴 수 없는 명령 이전 상태로는 돌아갈 수 없으므로 기록을 비움
+    if (!entry.actions.every(({ command }) => this.isRevertible(command))) {
+      this._stack = [];
+      this._stackIdx = -1;
+      return;
+    }
+
+    this._stack.splice(this._stackIdx + 1);
+    this._stack.push(entry);
+    this._stackIdx = this._stack.length - 1;
+  }
+
+  private runWithSilentMode(silent: boolean, fn: () => void): void {
+    const wasSilent = this._silentMode;
+    this._silentMode = silent;
+
+    try {
+      fn();
+    } finally {
+      this._silentMode = wasSilent;
+    }
+  }
+
+  private fireStackChanged(trigger: string, entry: StackEntry): void {
+    if (!entry.silent) {
+      this.fire('commandStack.changed', { trigger });
+    }
   }
 
   /**
@@ -82,21 +250,55 @@ export class SilentCommandStack {
 
   /**
    * Silent 모드에서 여러 명령을 배치 실행
+   *
+   * 배치는 하나의 undo 단위로 기록되며, 중간에 실패하면 이미 실행한 명령을
+   * (revert 가능한 경우) 되돌리고 에러를 다시 던집니다.
    */
   executeBatchSilently(
     commands: Array<{ command: string; context?: any }>
   ): any[] {
     const wasSilent = this._silentMode;
+    const outerBatch = this._currentBatch;
+    const batch: ExecutedAction[] = [];
     this._silentMode = true;
+    this._currentBatch = batch;
 
     try {
-      return commands.map(({ command, context }) =>
+      const results = commands.map(({ command, context }) =>
         this.execute(command, context)
       );
+
+      if (outerBatch) {
+        outerBatch.push(...batch);
+      } else {
+        this.pushEntry({ actions: batch, silent: true });
+      }
+
+      return results;
+    } catch (error) {
+      this.rollback(batch);
+      throw error;
     } finally {
       this._silentMode = wasSilent;
+      this._currentBatch = outerBatch;
     }
   }
+
+  /**
+   * 실패한 배치에서 이미 실행된 명령 되돌리기
+   */
+  private rollback(actions: ExecutedAction[]): void {
+    actions
+      .slice()
+      .reverse()
+      .forEach(action => {
+        if (this.isRevertible(action.command)) {
+          this._handlers
+            .get(action.command)
+            .revert(action.context, action.result);
+        }
+      });
+  }
 }
 
 /**
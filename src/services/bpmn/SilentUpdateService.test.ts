@@ -10,6 +10,8 @@ import {
 // Mock 객체들
 const mockCanvas = {
   getRootElement: jest.fn(() => ({ id: 'root' })),
+  getRootElements: jest.fn(),
+  addRoot: jest.fn(),
   getContainer: jest.fn(() => document.createElement('div')),
   _addElement: jest.fn(),
   _removeElement: jest.fn(),
@@ -50,6 +52,7 @@ const mockElementFactory = {
     target: attrs.target,
     waypoints: attrs.waypoints || [],
   })),
+  createRoot: jest.fn(),
 };
 
 const mockModeler = {
@@ -294,6 +297,261 @@ describe('SilentUpdateService', () => {
       expect(mockElement.x).toBe(150);
       expect(mockElement.y).toBe(200);
     });
+
+    test('updateConnectionSilently - waypoints 및 재연결', () => {
+      // Arrange
+      const oldTarget: any = { id: 'old-target', incoming: [] };
+      const newTarget: any = {
+        id: 'new-target',
+        businessObject: { id: 'new-target' },
+      };
+      const connection: any = {
+        id: 'flow',
+        businessObject: { $type: 'bpmn:SequenceFlow' },
+        target: oldTarget,
+        waypoints: [{ x: 0, y: 0 }],
+      };
+      oldTarget.incoming.push(connection);
+      const elements: { [id: string]: any } = {
+        flow: connection,
+        'new-target': newTarget,
+      };
+      mockElementRegistry.get.mockImplementation((id: string) => elements[id]);
+      mockElementRegistry.getGraphics.mockReturnValue({ id: 'mock-gfx' });
+
+      // Act
+      const result = service.updateConnectionSilently('flow', {
+        waypoints: [
+          { x: 10, y: 10 },
+          { x: 50, y: 10 },
+        ],
+        targetId: 'new-target',
+      });
+
+      // Assert
+      expect(result).toBe(connection);
+      expect(connection.waypoints).toEqual([
+        { x: 10, y: 10 },
+        { x: 50, y: 10 },
+      ]);
+      expect(connection.target).toBe(newTarget);
+      expect(connection.businessObject.targetRef).toBe(
+        newTarget.businessObject
+      );
+      expect(oldTarget.incoming).toEqual([]);
+      expect(newTarget.incoming).toEqual([connection]);
+      expect(mockGraphicsFactory.update).toHaveBeenCalledWith(
+        'connection',
+        connection,
+        { id: 'mock-gfx' }
+      );
+    });
+
+    test('updateContainmentSilently - 부모 및 레인 변경', () => {
+      // Arrange
+      const instanceOf =
+        (...types: string[]) =>
+        (type: string) =>
+          types.includes(type);
+      const processBo: any = {
+        id: 'Process_1',
+        $instanceOf: instanceOf('bpmn:Process'),
+        flowElements: [],
+      };
+      const subProcessBo: any = {
+        id: 'Sub_1',
+        $instanceOf: instanceOf('bpmn:SubProcess', 'bpmn:FlowNode'),
+        flowElements: [],
+      };
+      const taskBo: any = {
+        id: 'Task_1',
+        $instanceOf: instanceOf('bpmn:Task', 'bpmn:FlowNode'),
+        $parent: subProcessBo,
+      };
+      subProcessBo.flowElements.push(taskBo);
+      const oldLaneBo: any = { id: 'Lane_1', flowNodeRef: [taskBo] };
+      const newLaneBo: any = { id: 'Lane_2', flowNodeRef: [] };
+      taskBo.lanes = [oldLaneBo];
+
+      const subProcess: any = { id: 'Sub_1', businessObject: subProcessBo };
+      const participant: any = {
+        id: 'Participant_1',
+        businessObject: {
+          $instanceOf: instanceOf('bpmn:Participant'),
+          processRef: processBo,
+        },
+        children: [],
+      };
+      const task: any = {
+        id: 'Task_1',
+        businessObject: taskBo,
+        parent: subProcess,
+      };
+      subProcess.children = [task];
+      const elements: { [id: string]: any } = {
+        Task_1: task,
+        Participant_1: participant,
+        Lane_2: { id: 'Lane_2', businessObject: newLaneBo },
+      };
+      mockElementRegistry.get.mockImplementation((id: string) => elements[id]);
+
+      // Act
+      const result = service.updateContainmentSilently('Task_1', {
+        parentId: 'Participant_1',
+        laneIds: ['Lane_2'],
+      });
+
+      // Assert
+      expect(result).toBe(task);
+      expect(task.parent).toBe(participant);
+      expect(subProcess.children).toEqual([]);
+      expect(participant.children).toEqual([task]);
+      // Participant의 의미상 컨테이너는 processRef
+      expect(taskBo.$parent).toBe(processBo);
+      expect(subProcessBo.flowElements).toEqual([]);
+      expect(processBo.flowElements).toEqual([taskBo]);
+      expect(oldLaneBo.flowNodeRef).toEqual([]);
+      expect(newLaneBo.flowNodeRef).toEqual([taskBo]);
+      expect(taskBo.lanes).toEqual([newLaneBo]);
+    });
+
+    test('updateLabelSilently - 기존 라벨 이동 및 DI 갱신', () => {
+      // Arrange
+      const labelBounds: any = { x: 0, y: 0, width: 50, height: 14 };
+      const owner: any = {
+        id: 'Start_1',
+        di: { label: { bounds: labelBounds } },
+      };
+      const label: any = { id: 'Start_1_label', x: 0, y: 0, width: 50 };
+      owner.label = label;
+      mockElementRegistry.get.mockReturnValue(owner);
+      mockElementRegistry.getGraphics.mockReturnValue({ id: 'mock-gfx' });
+      (service as any).moddle = { create: jest.fn() };
+
+      // Act
+      const result = service.updateLabelSilently('Start_1', { x: 80, y: 150 });
+
+      // Assert
+      expect(result).toBe(label);
+      expect(label).toMatchObject({ x: 80, y: 150, width: 50 });
+      expect(labelBounds).toMatchObject({ x: 80, y: 150, width: 50 });
+      expect(mockGraphicsFactory.update).toHaveBeenCalledWith('shape', label, {
+        id: 'mock-gfx',
+      });
+    });
+
+    test('updateContainmentSilently - 경계 이벤트 부착', () => {
+      // Arrange
+      const host: any = { id: 'Task_1', businessObject: { id: 'Task_1' } };
+      const boundaryEvent: any = {
+        id: 'Boundary_1',
+        businessObject: { id: 'Boundary_1' },
+      };
+      const elements: { [id: string]: any } = {
+        Task_1: host,
+        Boundary_1: boundaryEvent,
+      };
+      mockElementRegistry.get.mockImplementation((id: string) => elements[id]);
+
+      // Act
+      service.updateContainmentSilently('Boundary_1', { hostId: 'Task_1' });
+
+      // Assert
+      expect(boundaryEvent.host).toBe(host);
+      expect(host.attachers).toEqual([boundaryEvent]);
+      expect(boundaryEvent.businessObject.attachedToRef).toBe(
+        host.businessObject
+      );
+    });
+  });
+
+  describe('plane (다이어그램 루트)', () => {
+    test('updateContainmentSilently - 서브프로세스 plane 루트로 이동', () => {
+      // Arrange
+      const subProcessBo: any = { id: 'Sub_1', flowElements: [] };
+      const planeRoot: any = {
+        id: 'Sub_1_plane',
+        businessObject: subProcessBo,
+        children: [],
+      };
+      const processRoot: any = {
+        id: 'Process_1',
+        businessObject: { id: 'Process_1' },
+        children: [],
+      };
+      const task: any = {
+        id: 'Task_2',
+        parent: processRoot,
+        businessObject: { id: 'Task_2' },
+      };
+      processRoot.children.push(task);
+      const elements: { [id: string]: any } = {
+        Process_1: processRoot,
+        Sub_1: { id: 'Sub_1', businessObject: subProcessBo },
+        Task_2: task,
+      };
+      mockElementRegistry.get.mockImplementation((id: string) => elements[id]);
+      mockCanvas.getRootElements.mockReturnValue([processRoot, planeRoot]);
+
+      // Act
+      service.updateContainmentSilently('Task_2', {
+        parentId: 'Sub_1',
+        rootId: 'Sub_1',
+      });
+
+      // Assert - 접힌 서브프로세스 도형이 아니라 plane 루트로 이동
+      expect(task.parent).toBe(planeRoot);
+      expect(planeRoot.children).toEqual([task]);
+      expect(processRoot.children).toEqual([]);
+      expect(task.businessObject.$parent).toBe(subProcessBo);
+      expect(subProcessBo.flowElements).toEqual([task.businessObject]);
+    });
+
+    test('updateContainmentSilently - plane이 없으면 서브프로세스 plane 생성', () => {
+      // Arrange
+      const definitions: any = {
+        $instanceOf: (type: string) => type === 'bpmn:Definitions',
+        diagrams: [],
+      };
+      const subProcessBo: any = {
+        id: 'Sub_1',
+        $type: 'bpmn:SubProcess',
+        $parent: definitions,
+        $instanceOf: (type: string) => type === 'bpmn:SubProcess',
+      };
+      const task: any = { id: 'Task_2', businessObject: { id: 'Task_2' } };
+      const elements: { [id: string]: any } = {
+        Sub_1: { id: 'Sub_1', businessObject: subProcessBo },
+        Task_2: task,
+      };
+      mockElementRegistry.get.mockImplementation((id: string) => elements[id]);
+      mockCanvas.getRootElements.mockReturnValue([]);
+      mockBpmnFactory.create.mockImplementation((type, attrs) => ({
+        $type: type,
+        ...attrs,
+      }));
+      mockElementFactory.createRoot.mockImplementation((attrs: any) => ({
+        ...attrs,
+        children: [],
+      }));
+
+      // Act
+      service.updateContainmentSilently('Task_2', {
+        parentId: 'Sub_1',
+        rootId: 'Sub_1',
+      });
+
+      // Assert
+      expect(mockCanvas.addRoot).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'Sub_1_plane',
+          businessObject: subProcessBo,
+        })
+      );
+      expect(task.parent.id).toBe('Sub_1_plane');
+      expect(definitions.diagrams).toHaveLength(1);
+      expect(definitions.diagrams[0].plane.bpmnElement).toBe(subProcessBo);
+    });
   });
 
   describe('렌더링 제어', () => {
@@ -5,9 +5,18 @@
  * commandStack이나 element 이벤트를 발생시키지 않는 "Silent Update" 메커니즘을 제공합니다.
  */
 
+import {
+  PropertyApplyContext,
+  applyProperties,
+  deserializeProperties,
+} from './ModdleProperties';
+
 // bpmn-js 및 diagram-js 타입 정의
 interface Canvas {
   getRootElement(): any;
+  getRootElements?(): any[];
+  addRoot?(root: any): any;
+  removeRoot?(root: any): any;
   getContainer(): HTMLElement;
   _addElement(element: any, parent?: any): void;
   _removeElement(element: any): void;
@@ -33,6 +42,8 @@ interface BpmnFactory {
 interface ElementFactory {
   createShape(attrs: any): any;
   createConnection(attrs: any): any;
+  createLabel(attrs: any): any;
+  createRoot?(attrs: any): any;
 }
 
 interface BpmnModeler {
@@ -48,6 +59,90 @@ export interface SilentUpdateOperation {
   data?: any;
 }
 
+const isType = (businessObject: any, type: string): boolean =>
+  !!businessObject?.$instanceOf?.(type);
+
+/**
+ * 컬렉션에서 항목 제거
+ */
+function removeFromCollection(collection: any[] | undefined, item: any): void {
+  const index = collection ? collection.indexOf(item) : -1;
+  if (index !== -1) {
+    collection!.splice(index, 1);
+  }
+}
+
+/**
+ * BusinessObject의 컬렉션 속성 조회 (없으면 생성)
+ */
+function getCollection(businessObject: any, name: string): any[] {
+  if (typeof businessObject.get === 'function') {
+    return businessObject.get(name);
+  }
+  if (!businessObject[name]) {
+    businessObject[name] = [];
+  }
+  return businessObject[name];
+}
+
+/**
+ * BusinessObject가 속한 bpmn:Definitions
+ */
+function getDefinitions(businessObject: any): any {
+  let current = businessObject;
+  while (current && !isType(current, 'bpmn:Definitions')) {
+    current = current.$parent;
+  }
+  return current;
+}
+
+/**
+ * plane 루트 요소의 ID (plane이 가리키는 BPMN 요소 ID)
+ *
+ * 펼쳐 볼 수 있는 서브프로세스의 루트는 캔버스 ID(`<id>_plane`)와
+ * BPMN 요소 ID가 다르므로 BusinessObject ID를 기준으로 합니다.
+ */
+function getRootId(root: any): string | undefined {
+  return root?.businessObject?.id || root?.id;
+}
+
+/**
+ * 요소가 들어갈 의미상 컨테이너와 컬렉션 이름
+ */
+function getSemanticContainment(
+  businessObject: any,
+  parent: any
+): { container: any; collection: string } {
+  let container = parent;
+
+  if (isType(businessObject, 'bpmn:Artifact')) {
+    while (
+      container &&
+      !isType(container, 'bpmn:Process') &&
+      !isType(container, 'bpmn:SubProcess') &&
+      !isType(container, 'bpmn:Collaboration')
+    ) {
+      container = isType(container, 'bpmn:Participant')
+        ? container.processRef
+        : container.$parent;
+    }
+    return { container, collection: 'artifacts' };
+  }
+
+  if (isType(businessObject, 'bpmn:MessageFlow')) {
+    return { container, collection: 'messageFlows' };
+  }
+
+  // FlowElement (레인은 LaneSet을 거쳐 상위 컨테이너로)
+  if (isType(container, 'bpmn:Participant')) {
+    container = container.processRef;
+  }
+  while (isType(container, 'bpmn:Lane')) {
+    container = container.$parent?.$parent;
+  }
+  return { container, collection: 'flowElements' };
+}
+
 /**
  * SilentUpdateService 클래스
  *
@@ -59,6 +154,7 @@ export class SilentUpdateService {
   private graphicsFactory: GraphicsFactory;
   private bpmnFactory: BpmnFactory;
   private elementFactory: ElementFactory;
+  private moddle: any;
   private modeler: BpmnModeler;
 
   constructor(modeler: BpmnModeler) {
@@ -68,6 +164,7 @@ export class SilentUpdateService {
     this.graphicsFactory = modeler.get('graphicsFactory');
     this.bpmnFactory = modeler.get('bpmnFactory');
     this.elementFactory = modeler.get('elementFactory');
+    this.moddle = modeler.get('moddle');
   }
 
   // ==================== BusinessObject 직접 조작 메서드 ====================
@@ -75,8 +172,11 @@ export class SilentUpdateService {
   /**
    * BusinessObject 직접 업데이트 (이벤트 없음)
    *
+   * 하위 요소와 참조는 ModdleProperties 직렬화 형식으로 받아 moddle 값으로 복원하고,
+   * null 값은 속성 삭제로 처리합니다.
+   *
    * @param elementId 업데이트할 요소의 ID
-   * @param properties 업데이트할 속성들
+   * @param properties 업데이트할 속성들 (직렬화된 속성 diff)
    * @returns 업데이트된 요소 또는 null
    */
   updateBusinessObjectDirectly(elementId: string, properties: any): any | null {
@@ -89,10 +189,17 @@ export class SilentUpdateService {
     }
 
     // BusinessObject 직접 수정
-    Object.assign(element.businessObject, properties);
+    applyProperties(
+      element.businessObject,
+      properties,
+      this.getPropertyContext()
+    );
 
-    // 그래픽스 업데이트 (이벤트 없음)
+    // 그래픽스 업데이트 (이벤트 없음, 이름을 표시하는 외부 라벨 포함)
     this.updateGraphicsSilently(element);
+    if (element.label) {
+      this.updateGraphicsSilently(element.label);
+    }
 
     return element;
   }
@@ -136,6 +243,9 @@ export class SilentUpdateService {
   /**
    * BusinessObject 트리 구조 직접 설정
    *
+   * bpmn-js BpmnUpdater와 같은 규칙으로 실제 의미상 컨테이너를 찾습니다
+   * (Participant는 processRef, Lane은 상위 프로세스/서브프로세스).
+   *
    * @param elementId 요소 ID
    * @param parentElementId 부모 요소 ID
    */
@@ -152,18 +262,28 @@ export class SilentUpdateService {
       return false;
     }
 
+    const businessObject = element.businessObject;
+    const { container, collection } = getSemanticContainment(
+      businessObject,
+      parentElement.businessObject
+    );
+    if (!container) {
+      return false;
+    }
+
+    // 이전 컨테이너의 컬렉션에서 제거
+    const oldContainer = businessObject.$parent;
+    if (oldContainer && oldContainer !== container) {
+      removeFromCollection(oldContainer[collection], businessObject);
+    }
+
     // 부모-자식 관계 직접 설정
-    element.businessObject.$parent = parentElement.businessObject;
-
-    // 부모의 children 배열에 추가 (존재하는 경우)
-    if (parentElement.businessObject.flowElements) {
-      if (
-        !parentElement.businessObject.flowElements.includes(
-          element.businessObject
-        )
-      ) {
-        parentElement.businessObject.flowElements.push(element.businessObject);
-      }
+    businessObject.$parent = container;
+
+    // 부모의 children 배열에 추가
+    const children = getCollection(container, collection);
+    if (!children.includes(businessObject)) {
+      children.push(businessObject);
     }
 
     return true;
@@ -182,7 +302,10 @@ export class SilentUpdateService {
     // BusinessObject 생성
     const businessObject = this.bpmnFactory.create(
       elementData.type,
-      elementData.properties || {}
+      deserializeProperties(
+        elementData.properties || {},
+        this.getPropertyContext()
+      )
     );
 
     // 요소 생성
@@ -227,6 +350,9 @@ export class SilentUpdateService {
       return false;
     }
 
+    // 펼쳐 볼 수 있는 서브프로세스의 plane도 함께 제거
+    this.removeRootElement(elementId);
+
     // 연결된 요소들도 함께 제거 (incoming/outgoing connections)
     const connections = [
       ...(element.incoming || []),
@@ -238,6 +364,12 @@ export class SilentUpdateService {
       }
     });
 
+    // 연결 요소인 경우 소스/타겟의 연결 정보에서 제거
+    if (element.waypoints) {
+      this.detachConnectionEnd(element, 'source');
+      this.detachConnectionEnd(element, 'target');
+    }
+
     // Canvas에서 직접 제거
     (this.canvas as any)._removeElement(element);
 
@@ -273,7 +405,10 @@ export class SilentUpdateService {
     // BusinessObject 생성
     const businessObject = this.bpmnFactory.create(
       connectionData.type,
-      connectionData.properties || {}
+      deserializeProperties(
+        connectionData.properties || {},
+        this.getPropertyContext()
+      )
     );
 
     // 연결 요소 생성
@@ -318,6 +453,324 @@ export class SilentUpdateService {
     return connection;
   }
 
+  /**
+   * 연결 요소의 경로와 양 끝을 직접 변경 (bendpoint 편집, 재연결)
+   *
+   * @param connectionId 연결 요소 ID
+   * @param update 새 waypoints 및 소스/타겟 요소 ID (생략한 항목은 유지)
+   * @returns 업데이트된 연결 요소 또는 null
+   */
+  updateConnectionSilently(
+    connectionId: string,
+    update: {
+      waypoints?: Array<{ x: number; y: number }>;
+      sourceId?: string;
+      targetId?: string;
+    }
+  ): any | null {
+    const connection = this.elementRegistry.get(connectionId);
+    if (!connection || !connection.waypoints) {
+      return null;
+    }
+
+    if (update.sourceId && update.sourceId !== connection.source?.id) {
+      this.reconnectEnd(connection, 'source', update.sourceId);
+    }
+    if (update.targetId && update.targetId !== connection.target?.id) {
+      this.reconnectEnd(connection, 'target', update.targetId);
+    }
+
+    if (update.waypoints) {
+      connection.waypoints = update.waypoints.map(point => ({
+        x: point.x,
+        y: point.y,
+      }));
+    }
+
+    this.updateGraphicsSilently(connection);
+    return connection;
+  }
+
+  /**
+   * 요소의 부모, 호스트(경계 이벤트), 레인 소속을 직접 변경
+   *
+   * @param elementId 요소 ID
+   * @param containment 새 부모/호스트 요소 ID와 레인 ID 목록 (생략한 항목은 유지),
+   *   부모가 plane 루트인 경우 plane 루트 ID
+   * @returns 업데이트된 요소 또는 null
+   */
+  updateContainmentSilently(
+    elementId: string,
+    containment: {
+      parentId?: string;
+      hostId?: string;
+      laneIds?: string[];
+      rootId?: string;
+    }
+  ): any | null {
+    const element = this.elementRegistry.get(elementId);
+    if (!element) {
+      return null;
+    }
+
+    if (containment.parentId) {
+      this.setElementParent(element, containment.parentId, containment.rootId);
+    }
+    if (containment.hostId) {
+      this.setElementHost(element, containment.hostId);
+    }
+    if (containment.laneIds) {
+      this.setElementLanes(element, containment.laneIds);
+    }
+
+    return element;
+  }
+
+  /**
+   * diagram-js 부모 변경 (children 목록과 SVG 그룹 이동) 후 BusinessObject 부모 갱신
+   *
+   * 부모 ID가 plane 루트 ID와 같으면 같은 ID의 캔버스 요소(접힌 서브프로세스 도형)가
+   * 아니라 해당 plane의 루트 요소로 옮깁니다.
+   */
+  private setElementParent(
+    element: any,
+    parentId: string,
+    rootId?: string
+  ): void {
+    const newParent =
+      rootId && parentId === rootId
+        ? this.ensureRootElement(rootId)
+        : this.elementRegistry.get(parentId);
+    if (!newParent) {
+      return;
+    }
+
+    if (element.parent !== newParent) {
+      removeFromCollection(element.parent?.children, element);
+      if (!newParent.children) newParent.children = [];
+      newParent.children.push(element);
+      element.parent = newParent;
+
+      // 그래픽스를 새 부모의 children 그룹으로 이동
+      const gfx = this.elementRegistry.getGraphics(element);
+      const container = (this.graphicsFactory as any)._getChildrenContainer?.(
+        newParent
+      );
+      if (gfx?.parentNode && container) {
+        container.appendChild(gfx.parentNode);
+      }
+    }
+
+    this.setBusinessObjectParent(element.id, parentId);
+  }
+
+  /**
+   * 경계 이벤트를 호스트 요소에 부착 (attachers와 attachedToRef 갱신)
+   */
+  private setElementHost(element: any, hostId: string): void {
+    const newHost = this.elementRegistry.get(hostId);
+    if (!newHost || element.host === newHost) {
+      return;
+    }
+
+    removeFromCollection(element.host?.attachers, element);
+    if (!newHost.attachers) newHost.attachers = [];
+    newHost.attachers.push(element);
+    element.host = newHost;
+
+    if (element.businessObject) {
+      element.businessObject.attachedToRef = newHost.businessObject;
+    }
+  }
+
+  /**
+   * 레인 소속 변경 (레인의 flowNodeRef와 요소의 lanes 갱신)
+   */
+  private setElementLanes(element: any, laneIds: string[]): void {
+    const businessObject = element.businessObject;
+    if (!businessObject) {
+      return;
+    }
+
+    const newLanes = laneIds
+      .map(laneId => this.elementRegistry.get(laneId)?.businessObject)
+      .filter(Boolean);
+
+    const lanes = getCollection(businessObject, 'lanes');
+    lanes.forEach((lane: any) => {
+      removeFromCollection(lane.flowNodeRef, businessObject);
+    });
+    lanes.length = 0;
+
+    newLanes.forEach((lane: any) => {
+      getCollection(lane, 'flowNodeRef').push(businessObject);
+      lanes.push(lane);
+    });
+  }
+
+  /**
+   * 연결 요소의 한쪽 끝을 다른 요소로 변경
+   */
+  private reconnectEnd(
+    connection: any,
+    end: 'source' | 'target',
+    elementId: string
+  ): void {
+    // 새 끝 요소가 (아직) 없으면 기존 연결 유지
+    const newEnd = this.elementRegistry.get(elementId);
+    if (!newEnd) {
+      return;
+    }
+
+    this.detachConnectionEnd(connection, end);
+
+    const collection = end === 'source' ? 'outgoing' : 'incoming';
+    if (!newEnd[collection]) newEnd[collection] = [];
+    newEnd[collection].push(connection);
+    connection[end] = newEnd;
+
+    if (connection.businessObject) {
+      connection.businessObject[end === 'source' ? 'sourceRef' : 'targetRef'] =
+        newEnd.businessObject;
+    }
+  }
+
+  /**
+   * 연결 요소를 소스 또는 타겟의 연결 목록에서 제거
+   */
+  private detachConnectionEnd(connection: any, end: 'source' | 'target'): void {
+    const element = connection[end];
+    const collection =
+      element?.[end === 'source' ? 'outgoing' : 'incoming'] || [];
+    const index = collection.indexOf(connection);
+    if (index !== -1) {
+      collection.splice(index, 1);
+    }
+  }
+
+  /**
+   * 라벨 위치를 DI(BPMNLabel bounds)에 반영 (XML 내보내기용)
+   */
+  private updateLabelBounds(owner: any, label: any): void {
+    const di = owner.di;
+    if (!di || !this.moddle) {
+      return;
+    }
+
+    const bounds = {
+      x: label.x,
+      y: label.y,
+      width: label.width,
+      height: label.height,
+    };
+    if (di.label?.bounds) {
+      Object.assign(di.label.bounds, bounds);
+    } else {
+      di.label = this.moddle.create('bpmndi:BPMNLabel', {
+        bounds: this.moddle.create('dc:Bounds', bounds),
+      });
+      di.label.$parent = di;
+    }
+  }
+
+  // ==================== plane (다이어그램 루트) ====================
+
+  /**
+   * plane 루트 요소 조회
+   *
+   * @param rootId plane이 가리키는 BPMN 요소 ID (프로세스/협업, 펼쳐 볼 수 있는 서브프로세스).
+   *   생략하면 현재 표시 중인 루트
+   * @returns 루트 요소 또는 null
+   */
+  getRootElement(rootId?: string): any | null {
+    if (!rootId) {
+      return this.canvas.getRootElement();
+    }
+
+    const roots = this.canvas.getRootElements?.() || [
+      this.canvas.getRootElement(),
+    ];
+    return roots.find(root => getRootId(root) === rootId) || null;
+  }
+
+  /**
+   * plane 루트 요소 조회 (펼쳐 볼 수 있는 서브프로세스의 plane이 아직 없으면 생성)
+   *
+   * 원격에서 접힌 서브프로세스를 만들면 bpmn-js의 plane 생성 명령이 실행되지 않으므로
+   * SubProcessPlaneBehavior와 같은 방식으로 BPMNDiagram과 루트 요소를 직접 만듭니다.
+   */
+  private ensureRootElement(rootId: string): any | null {
+    const existing = this.getRootElement(rootId);
+    if (existing) {
+      return existing;
+    }
+
+    const businessObject = this.elementRegistry.get(rootId)?.businessObject;
+    const definitions = getDefinitions(businessObject);
+    if (
+      !isType(businessObject, 'bpmn:SubProcess') ||
+      !definitions ||
+      !this.elementFactory.createRoot ||
+      !this.canvas.addRoot
+    ) {
+      return null;
+    }
+
+    const plane = this.bpmnFactory.create('bpmndi:BPMNPlane', {
+      bpmnElement: businessObject,
+    });
+    const diagram = this.bpmnFactory.create('bpmndi:BPMNDiagram', { plane });
+    plane.$parent = diagram;
+    diagram.$parent = definitions;
+    getCollection(definitions, 'diagrams').push(diagram);
+
+    const root = this.elementFactory.createRoot({
+      id: `${rootId}_plane`,
+      type: businessObject.$type,
+      di: plane,
+      businessObject,
+      collapsed: true,
+    });
+    this.canvas.addRoot(root);
+
+    return root;
+  }
+
+  /**
+   * 요소가 가리키는 plane 루트와 BPMNDiagram 제거 (없으면 무시)
+   */
+  private removeRootElement(elementId: string): void {
+    const element = this.elementRegistry.get(elementId);
+    const root = this.getRootElement(elementId);
+    if (!root || root === element || !this.canvas.removeRoot) {
+      return;
+    }
+
+    const diagram = root.di?.$parent;
+    removeFromCollection(getDefinitions(diagram)?.diagrams, diagram);
+    this.canvas.removeRoot(root);
+  }
+
+  /**
+   * 직렬화된 속성 복원 컨텍스트 (참조는 캔버스 요소, 없으면 루트 요소에서 조회)
+   */
+  private getPropertyContext(): PropertyApplyContext {
+    // 서브프로세스 plane을 보고 있으면 루트의 $parent가 Definitions가 아님
+    const definitions = getDefinitions(
+      this.canvas.getRootElement()?.businessObject
+    );
+
+    return {
+      moddle: this.moddle,
+      definitions,
+      resolveReference: (id: string) =>
+        this.elementRegistry.get(id)?.businessObject ||
+        (definitions?.rootElements || []).find(
+          (rootElement: any) => rootElement.id === id
+        ),
+    };
+  }
+
   // ==================== 시각적 속성 직접 업데이트 ====================
 
   /**
@@ -346,6 +799,58 @@ export class SilentUpdateService {
     return element;
   }
 
+  /**
+   * 외부 라벨 위치 직접 설정 (라벨이 없으면 생성)
+   *
+   * @param elementId 라벨을 가진 요소(이벤트, 게이트웨이, 연결선 등)의 ID
+   * @param bounds 라벨 위치와 크기
+   * @returns 라벨 요소 또는 null
+   */
+  updateLabelSilently(
+    elementId: string,
+    bounds: { x: number; y: number; width?: number; height?: number }
+  ): any | null {
+    const owner = this.elementRegistry.get(elementId);
+    if (!owner) {
+      return null;
+    }
+
+    let label = owner.label;
+    if (label) {
+      Object.assign(label, bounds);
+      this.updateGraphicsSilently(label);
+    } else {
+      label = this.elementFactory.createLabel({
+        id: `${owner.id}_label`,
+        type: 'label',
+        labelTarget: owner,
+        businessObject: owner.businessObject,
+        di: owner.di,
+        x: bounds.x,
+        y: bounds.y,
+        // bpmn-js 기본 라벨 크기
+        width: bounds.width ?? 90,
+        height: bounds.height ?? 20,
+      });
+      owner.label = label;
+
+      // Canvas에 직접 추가 (소유 요소와 같은 부모)
+      (this.canvas as any)._addElement(
+        label,
+        owner.parent || this.canvas.getRootElement()
+      );
+      const gfx = this.graphicsFactory.create('shape', label);
+      (this.elementRegistry as any)._elements[label.id] = {
+        element: label,
+        gfx: gfx,
+      };
+    }
+
+    this.updateLabelBounds(owner, label);
+
+    return label;
+  }
+
   /**
    * 요소 위치 직접 설정
    *
@@ -14,6 +14,27 @@ export {
   CollaborationEventManagerModule,
   ChangeEvent,
 } from './CollaborationEventManager';
+export { RemoteCursors, RemoteCursorsModule } from './RemoteCursors';
+export type { RemoteCursorUpdate, LocalCursorPosition } from './RemoteCursors';
+export { RemoteSelections, RemoteSelectionsModule } from './RemoteSelections';
+export { ElementLocks, ElementLocksModule } from './ElementLocks';
+export type { RemoteElementLock, LocalLockCallbacks } from './ElementLocks';
+export type { RemoteSelectionUpdate } from './RemoteSelections';
+export { CollaborativeUndoManager } from './CollaborativeUndoManager';
+export type { UndoState } from './CollaborativeUndoManager';
+export type { ChangeObserver } from './CollaborationEventManager';
+export {
+  ElementStateCRDT,
+  compareStamps,
+  changeToFields,
+} from './ElementStateCRDT';
+export {
+  serializeProperties,
+  diffProperties,
+  applyProperties,
+  deserializeProperties,
+} from './ModdleProperties';
+export type { PropertyMap, PropertyApplyContext } from './ModdleProperties';
 
 // 통합 모듈 정의
 export const SilentCollaborationModule = {
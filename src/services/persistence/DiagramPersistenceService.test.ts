@@ -0,0 +1,310 @@
+/**
+ * DiagramPersistenceService 테스트
+ */
+
+import { DiagramPersistenceService } from './DiagramPersistenceService';
+import { ApiError, DiagramApi } from '../api';
+
+describe('DiagramPersistenceService', () => {
+  let api: { getDiagram: jest.Mock; updateDiagram: jest.Mock };
+  let exportXML: jest.Mock;
+  let canOverwrite: boolean;
+  let shouldAutoSave: boolean;
+  let persistence: DiagramPersistenceService;
+  let xml: string;
+  let serverVersion: number;
+
+  const conflictError = (currentVersion: number) =>
+    new ApiError(409, {
+      error: 'Diagram has been modified by another user',
+      expectedVersion: currentVersion - 1,
+      currentVersion,
+      bpmnXml: '<theirs/>',
+      lastModified: new Date().toISOString(),
+    });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+
+    xml = '<v1/>';
+    serverVersion = 1;
+    canOverwrite = false;
+    shouldAutoSave = true;
+    api = {
+      getDiagram: jest.fn(() => Promise.resolve({ version: serverVersion })),
+      updateDiagram: jest.fn((id: string, update: any) => {
+        if (update.expectedVersion !== serverVersion) {
+          return Promise.reject(conflictError(serverVersion));
+        }
+        serverVersion += 1;
+        return Promise.resolve({ version: serverVersion });
+      }),
+    };
+    exportXML = jest.fn(() => Promise.resolve(xml));
+
+    persistence = new DiagramPersistenceService({
+      diagramId: 'd1',
+      api: api as unknown as DiagramApi,
+      exportXML,
+      getSnapshotSeq: () => 7,
+      canOverwriteOnConflict: () => canOverwrite,
+      shouldAutoSave: () => shouldAutoSave,
+      intervalMs: 1000,
+    });
+  });
+
+  afterEach(() => {
+    persistence.destroy();
+    jest.useRealTimers();
+  });
+
+  it('변경이 없으면 저장하지 않아야 한다', async () => {
+    expect(await persistence.save()).toBe(true);
+
+    expect(exportXML).not.toHaveBeenCalled();
+    expect(api.updateDiagram).not.toHaveBeenCalled();
+    expect(persistence.getStatus()).toBe('saved');
+  });
+
+  it('변경된 XML을 현재 version 기준으로 저장해야 한다', async () => {
+    const statuses: string[] = [];
+    persistence.onStatusChange(status => statuses.push(status));
+    persistence.setVersion(1);
+
+    persistence.markDirty();
+    xml = '<v2/>';
+    expect(await persistence.save()).toBe(true);
+
+    expect(api.updateDiagram).toHaveBeenCalledWith(
+      'd1',
+      { bpmnXml: '<v2/>', expectedVersion: 1, snapshotSeq: 7 },
+      { keepalive: undefined }
+    );
+    expect(persistence.getVersion()).toBe(2);
+    expect(statuses).toEqual(['unsaved', 'saving', 'saved']);
+  });
+
+  it('version을 모르면 먼저 조회해야 한다', async () => {
+    persistence.markDirty();
+    await persistence.save();
+
+    expect(api.getDiagram).toHaveBeenCalledWith('d1');
+    expect(api.updateDiagram.mock.calls[0][1].expectedVersion).toBe(1);
+  });
+
+  it('마지막 저장과 XML이 같으면 요청하지 않아야 한다', async () => {
+    persistence.setVersion(1);
+    persistence.markDirty();
+    await persistence.save();
+
+    persistence.markDirty();
+    await persistence.save();
+
+    expect(api.updateDiagram).toHaveBeenCalledTimes(1);
+    expect(persistence.getStatus()).toBe('saved');
+  });
+
+  it('내용을 통째로 바꾸면 즉시 replace 요청으로 저장해야 한다', async () => {
+    persistence.setVersion(1);
+    xml = '<imported/>';
+
+    expect(await persistence.replace()).toBe(true);
+
+    expect(api.updateDiagram.mock.calls[0][1]).toMatchObject({
+      bpmnXml: '<imported/>',
+      replace: true,
+    });
+    expect(persistence.getStatus()).toBe('saved');
+
+    // 이후의 일반 저장은 replace 없이 전송
+    persistence.markDirty();
+    xml = '<edited/>';
+    await persistence.save();
+
+    expect(api.updateDiagram.mock.calls[1][1].replace).toBeUndefined();
+  });
+
+  it('저장 간격마다 변경된 다이어그램을 저장해야 한다', async () => {
+    persistence.setVersion(1);
+    persistence.start();
+    persistence.markDirty();
+
+    jest.advanceTimersByTime(1000);
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(exportXML).toHaveBeenCalled();
+    expect(api.updateDiagram.mock.calls[0][1].autosave).toBe(true);
+  });
+
+  it('다른 경로로 저장되는 동안에는 자동 저장하지 않아야 한다', async () => {
+    shouldAutoSave = false;
+    persistence.setVersion(1);
+    persistence.start();
+    persistence.markDirty();
+    xml = '<v2/>';
+
+    jest.advanceTimersByTime(1000);
+    window.dispatchEvent(new Event('pagehide'));
+    expect(await persistence.flush(Promise.resolve(xml))).toBe(true);
+
+    expect(exportXML).not.toHaveBeenCalled();
+    expect(api.updateDiagram).not.toHaveBeenCalled();
+    expect(persistence.getStatus()).toBe('saved');
+  });
+
+  it('다른 경로로 저장되는 동안에도 가져온 내용은 저장해야 한다', async () => {
+    shouldAutoSave = false;
+    persistence.setVersion(1);
+    xml = '<imported/>';
+
+    expect(await persistence.replace()).toBe(true);
+
+    expect(api.updateDiagram.mock.calls[0][1]).toEqual(
+      expect.objectContaining({ bpmnXml: '<imported/>', replace: true })
+    );
+    expect(api.updateDiagram.mock.calls[0][1].autosave).toBeUndefined();
+  });
+
+  it('페이지를 떠날 때 keepalive 요청으로 저장해야 한다', async () => {
+    persistence.setVersion(1);
+    persistence.start();
+    persistence.markDirty();
+    xml = '<v2/>';
+
+    window.dispatchEvent(new Event('pagehide'));
+    await persistence.save();
+
+    expect(api.updateDiagram.mock.calls[0][1].autosave).toBe(true);
+    expect(api.updateDiagram.mock.calls[0][2]).toEqual({ keepalive: true });
+  });
+
+  it('마지막 저장은 호출할 때 내보낸 XML과 덮어쓰기 여부를 사용해야 한다', async () => {
+    persistence.setVersion(1);
+    serverVersion = 3;
+    canOverwrite = true;
+    persistence.markDirty();
+
+    const saved = persistence.flush(Promise.resolve('<v2/>'));
+    // 이후 편집기와 실시간 연결이 정리됨
+    canOverwrite = false;
+    exportXML.mockImplementation(() =>
+      Promise.reject(new Error('Editor is not ready'))
+    );
+
+    expect(await saved).toBe(true);
+    expect(api.updateDiagram).toHaveBeenCalledTimes(2);
+    expect(api.updateDiagram.mock.calls[1][1]).toEqual(
+      expect.objectContaining({ bpmnXml: '<v2/>', expectedVersion: 3 })
+    );
+    expect(persistence.getStatus()).toBe('saved');
+  });
+
+  it('마지막 저장은 진행 중인 저장이 끝난 뒤 이어서 저장해야 한다', async () => {
+    persistence.setVersion(1);
+    persistence.markDirty();
+    xml = '<v2/>';
+    const saving = persistence.save();
+
+    persistence.markDirty();
+    const flushed = persistence.flush(Promise.resolve('<v3/>'));
+
+    expect(await saving).toBe(true);
+    expect(await flushed).toBe(true);
+    expect(
+      api.updateDiagram.mock.calls.map(([, update]) => update.bpmnXml)
+    ).toEqual(['<v2/>', '<v3/>']);
+    expect(persistence.hasUnsavedChanges()).toBe(false);
+  });
+
+  it('정리한 뒤에도 진행 중이던 저장의 실패를 알려야 한다', async () => {
+    const onError = jest.fn();
+    persistence.onError(onError);
+    persistence.setVersion(1);
+    api.updateDiagram.mockImplementation(() =>
+      Promise.reject(new ApiError(500, { error: 'Failed to update diagram' }))
+    );
+    persistence.markDirty();
+
+    const flushed = persistence.flush(Promise.resolve('<v2/>'));
+    persistence.destroy();
+
+    expect(await flushed).toBe(false);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('version이 충돌하면 conflict 상태가 되어야 한다', async () => {
+    persistence.setVersion(1);
+    serverVersion = 3;
+    persistence.markDirty();
+    xml = '<v2/>';
+
+    expect(await persistence.save()).toBe(false);
+
+    expect(persistence.getStatus()).toBe('conflict');
+    expect(persistence.getConflict()?.currentVersion).toBe(3);
+
+    // 해결 전에는 자동 저장하지 않음
+    persistence.markDirty();
+    await persistence.save();
+    expect(api.updateDiagram).toHaveBeenCalledTimes(1);
+  });
+
+  it('덮어쓰기를 선택하면 최신 version으로 다시 저장해야 한다', async () => {
+    persistence.setVersion(1);
+    serverVersion = 3;
+    persistence.markDirty();
+    xml = '<v2/>';
+    await persistence.save();
+
+    expect(await persistence.overwrite()).toBe(true);
+
+    expect(api.updateDiagram.mock.calls[1][1].expectedVersion).toBe(3);
+    expect(persistence.getStatus()).toBe('saved');
+  });
+
+  it('로컬 변경을 버리면 서버 XML을 반환하고 saved 상태가 되어야 한다', async () => {
+    persistence.setVersion(1);
+    serverVersion = 3;
+    persistence.markDirty();
+    await persistence.save();
+
+    const conflict = persistence.discardLocalChanges();
+
+    expect(conflict?.bpmnXml).toBe('<theirs/>');
+    expect(persistence.getVersion()).toBe(3);
+    expect(persistence.getStatus()).toBe('saved');
+    expect(persistence.hasUnsavedChanges()).toBe(false);
+  });
+
+  it('실시간으로 동기화된 상태에서는 충돌 시 자동으로 다시 저장해야 한다', async () => {
+    persistence.setVersion(1);
+    serverVersion = 3;
+    canOverwrite = true;
+    persistence.markDirty();
+    xml = '<v2/>';
+
+    expect(await persistence.save()).toBe(true);
+
+    expect(api.updateDiagram).toHaveBeenCalledTimes(2);
+    expect(persistence.getVersion()).toBe(4);
+    expect(persistence.getStatus()).toBe('saved');
+  });
+
+  it('저장에 실패하면 unsaved 상태로 두고 에러를 알려야 한다', async () => {
+    const onError = jest.fn();
+    persistence.onError(onError);
+    persistence.setVersion(1);
+    api.updateDiagram.mockImplementation(() =>
+      Promise.reject(new ApiError(500, { error: 'Failed to update diagram' }))
+    );
+    persistence.markDirty();
+
+    expect(await persistence.save()).toBe(false);
+
+    expect(persistence.getStatus()).toBe('unsaved');
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'Failed to update diagram' })
+    );
+  });
+});
@@ -0,0 +1,414 @@
+/**
+ * DiagramPersistenceService - 다이어그램 자동 저장
+ *
+ * 로컬 변경이 있으면 일정 간격마다, 그리고 페이지를 떠날 때 다이어그램 API로 XML을 저장합니다.
+ * 저장은 낙관적 동시성 제어(expectedVersion)를 사용하며, 다른 사용자가 먼저 저장해
+ * 409가 반환되면 conflict 상태가 됩니다. 실시간 협업으로 동기화된 상태라면
+ * (canOverwriteOnConflict) 현재 XML이 서버의 변경을 이미 포함하므로 최신 version으로 다시 저장합니다.
+ * 실시간 세션이 변경을 operation 로그로 저장하는 동안(shouldAutoSave가 false)은 자동 저장하지 않습니다.
+ */
+
+import { AUTO_SAVE_INTERVAL_MS } from '../../constants';
+import { DiagramConflict, SaveStatus } from '../../types/diagram';
+import { ApiError, DiagramApi } from '../api';
+
+/**
+ * DiagramPersistenceService 옵션
+ */
+export interface DiagramPersistenceOptions {
+  diagramId: string;
+  api: DiagramApi;
+  exportXML: () => Promise<string>;
+  // XML에 반영된 마지막 operation 시퀀스 (서버 스냅샷 기준점)
+  getSnapshotSeq?: () => number;
+  // true를 반환하면 version 충돌 시 최신 version으로 다시 저장
+  canOverwriteOnConflict?: () => boolean;
+  // false를 반환하면 변경이 이미 다른 경로로 저장되므로 자동 저장 생략
+  shouldAutoSave?: () => boolean;
+  intervalMs?: number;
+}
+
+// 한 번의 저장에 사용할 XML과 충돌 처리 방식
+interface SaveRequest {
+  keepalive?: boolean;
+  // 서버가 버전 히스토리에 기록하지 않는 자동 저장
+  autosave?: boolean;
+  exportXML: () => Promise<string>;
+  canOverwriteOnConflict: () => boolean;
+}
+
+/**
+ * DiagramPersistenceService 클래스
+ */
+export class DiagramPersistenceService {
+  private options: DiagramPersistenceOptions;
+  private status: SaveStatus = 'saved';
+  private version: number | null = null;
+  private conflict: DiagramConflict | null = null;
+  private lastSavedXml: string | null = null;
+  // 다음 저장이 세션 상태를 통째로 바꾸는지 여부 (가져오기)
+  private replaceOnSave = false;
+
+  // 저장 중에 발생한 변경을 구분하기 위한 변경 카운터
+  private changeCounter = 0;
+  private savedChangeCounter = 0;
+  private pendingSave: Promise<boolean> | null = null;
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private statusListeners = new Set<(status: SaveStatus) => void>();
+  private errorListeners = new Set<(error: Error) => void>();
+
+  constructor(options: DiagramPersistenceOptions) {
+    this.options = options;
+  }
+
+  // ==================== 수명 주기 ====================
+
+  /**
+   * 자동 저장 시작
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.autoSave();
+    }, this.options.intervalMs ?? AUTO_SAVE_INTERVAL_MS);
+
+    window.addEventListener('pagehide', this.handlePageUnload);
+    window.addEventListener('beforeunload', this.handlePageUnload);
+  }
+
+  /**
+   * 자동 저장 중지
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    window.removeEventListener('pagehide', this.handlePageUnload);
+    window.removeEventListener('beforeunload', this.handlePageUnload);
+  }
+
+  // ==================== 상태 ====================
+
+  /**
+   * 로컬 변경 발생 (다음 자동 저장 대상)
+   */
+  markDirty(): void {
+    this.changeCounter += 1;
+    if (this.status === 'saved') {
+      this.setStatus('unsaved');
+    }
+  }
+
+  /**
+   * 서버가 알려준 현재 version 반영 (join/재동기화 시 diagram_state)
+   */
+  setVersion(version: number): void {
+    if (this.version === null || version > this.version) {
+      this.version = version;
+    }
+  }
+
+  getVersion(): number | null {
+    return this.version;
+  }
+
+  getStatus(): SaveStatus {
+    return this.status;
+  }
+
+  hasUnsavedChanges(): boolean {
+    return this.changeCounter !== this.savedChangeCounter;
+  }
+
+  /**
+   * 마지막 version 충돌 정보 (conflict 상태일 때만)
+   */
+  getConflict(): DiagramConflict | null {
+    return this.conflict;
+  }
+
+  // ==================== 저장 ====================
+
+  /**
+   * 변경이 있으면 저장 (저장 중이면 진행 중인 저장을 기다림)
+   *
+   * @returns 저장할 내용이 없거나 저장에 성공하면 true
+   */
+  save(
+    options: { keepalive?: boolean; autosave?: boolean } = {}
+  ): Promise<boolean> {
+    if (this.pendingSave) {
+      return this.pendingSave;
+    }
+    if (!this.hasUnsavedChanges() || this.status === 'conflict') {
+      return Promise.resolve(this.status !== 'conflict');
+    }
+
+    return this.track(
+      this.performSave({
+        ...options,
+        exportXML: this.options.exportXML,
+        canOverwriteOnConflict: () =>
+          this.options.canOverwriteOnConflict?.() ?? false,
+      })
+    );
+  }
+
+  /**
+   * 편집기가 정리되기 전에 내보낸 XML로 마지막 저장 (다이어그램 전환/언마운트)
+   *
+   * 저장이 끝나기 전에 편집기와 실시간 연결이 정리되므로, XML과 충돌 시 덮어쓰기 여부는
+   * 호출 시점의 값을 사용합니다. 진행 중인 저장이 있으면 끝난 뒤 이어서 저장합니다.
+   */
+  flush(bpmnXml: Promise<string>): Promise<boolean> {
+    // 앞선 저장을 기다리는 동안 거부되어도 처리되지 않은 rejection으로 남지 않도록
+    bpmnXml.catch(() => {});
+    if (this.isPersistedElsewhere()) {
+      return Promise.resolve(true);
+    }
+
+    const canOverwrite = this.options.canOverwriteOnConflict?.() ?? false;
+    const request: SaveRequest = {
+      autosave: true,
+      exportXML: () => bpmnXml,
+      canOverwriteOnConflict: () => canOverwrite,
+    };
+
+    return this.track(
+      (this.pendingSave || Promise.resolve(true)).then(() =>
+        this.hasUnsavedChanges() && this.status !== 'conflict'
+          ? this.performSave(request)
+          : this.status !== 'conflict'
+      )
+    );
+  }
+
+  // 주기적 저장/페이지 이탈 시 저장
+  private autoSave(keepalive?: boolean): Promise<boolean> {
+    if (this.isPersistedElsewhere()) {
+      // 실시간 세션으로 보낸 변경은 서버에 저장된 것으로 간주
+      if (!this.pendingSave && this.status === 'unsaved') {
+        this.markSaved(this.changeCounter);
+      }
+      return Promise.resolve(true);
+    }
+
+    return this.save({ keepalive, autosave: true });
+  }
+
+  // 가져오기(replace)는 operation으로 전달되지 않으므로 항상 XML로 저장
+  private isPersistedElsewhere(): boolean {
+    return !this.replaceOnSave && this.options.shouldAutoSave?.() === false;
+  }
+
+  // 진행 중인 저장으로 기록 (이어지는 저장이 기록을 덮어써도 먼저 끝난 저장이 지우지 않도록)
+  private track(save: Promise<boolean>): Promise<boolean> {
+    const pendingSave = save.finally(() => {
+      if (this.pendingSave === pendingSave) {
+        this.pendingSave = null;
+      }
+    });
+    this.pendingSave = pendingSave;
+    return pendingSave;
+  }
+
+  /**
+   * 가져오기 등으로 내용을 통째로 바꾼 뒤 즉시 저장
+   *
+   * 서버는 이전 operation을 버리고 열려 있는 다른 편집기에 새 상태를 다시 불러오게 합니다.
+   */
+  replace(): Promise<boolean> {
+    this.replaceOnSave = true;
+    this.markDirty();
+    // 진행 중인 저장이 있으면 끝난 뒤 이어서 저장
+    return (this.pendingSave || Promise.resolve(true)).then(() => this.save());
+  }
+
+  /**
+   * 충돌을 무시하고 서버의 최신 version 위에 현재 XML 저장
+   */
+  overwrite(): Promise<boolean> {
+    if (this.conflict) {
+      this.version = this.conflict.currentVersion;
+      this.conflict = null;
+    }
+    this.setStatus(this.hasUnsavedChanges() ? 'unsaved' : 'saved');
+
+    return this.save();
+  }
+
+  /**
+   * 로컬 변경을 버리고 서버 상태를 채택 (호출자가 반환된 XML을 다시 불러옴)
+   */
+  discardLocalChanges(): DiagramConflict | null {
+    const conflict = this.conflict;
+    if (conflict) {
+      this.version = conflict.currentVersion;
+      this.lastSavedXml = conflict.bpmnXml;
+    }
+
+    this.conflict = null;
+    this.replaceOnSave = false;
+    this.savedChangeCounter = this.changeCounter;
+    this.setStatus('saved');
+    return conflict;
+  }
+
+  private async performSave(request: SaveRequest): Promise<boolean> {
+    const changeCounter = this.changeCounter;
+
+    try {
+      const bpmnXml = await request.exportXML();
+
+      // 되돌리기 등으로 마지막 저장 상태와 같아진 경우
+      if (bpmnXml === this.lastSavedXml) {
+        this.replaceOnSave = false;
+        this.markSaved(changeCounter);
+        return true;
+      }
+
+      if (this.version === null) {
+        const diagram = await this.options.api.getDiagram(
+          this.options.diagramId
+        );
+        this.setVersion(diagram.version);
+      }
+
+      this.setStatus('saving');
+      await this.putXML(bpmnXml, request);
+      this.lastSavedXml = bpmnXml;
+      this.markSaved(changeCounter);
+      return true;
+    } catch (error: any) {
+      if (error instanceof ApiError && error.status === 409) {
+        return this.handleConflict(
+          error.body as DiagramConflict,
+          changeCounter,
+          request
+        );
+      }
+
+      this.setStatus('unsaved');
+      this.notifyError(error);
+      return false;
+    }
+  }
+
+  private async handleConflict(
+    conflict: DiagramConflict,
+    changeCounter: number,
+    request: SaveRequest
+  ): Promise<boolean> {
+    if (request.canOverwriteOnConflict()) {
+      // 실시간으로 동기화된 상태이므로 서버의 변경은 이미 현재 XML에 반영됨
+      this.version = conflict.currentVersion;
+      try {
+        const bpmnXml = await request.exportXML();
+        await this.putXML(bpmnXml, { autosave: request.autosave });
+        this.lastSavedXml = bpmnXml;
+        this.markSaved(changeCounter);
+        return true;
+      } catch (error: any) {
+        if (!(error instanceof ApiError && error.status === 409)) {
+          this.setStatus('unsaved');
+          this.notifyError(error);
+          return false;
+        }
+        conflict = error.body as DiagramConflict;
+      }
+    }
+
+    this.conflict = conflict;
+    this.setStatus('conflict');
+    return false;
+  }
+
+  private async putXML(
+    bpmnXml: string,
+    { keepalive, autosave }: Pick<SaveRequest, 'keepalive' | 'autosave'>
+  ): Promise<void> {
+    const diagram = await this.options.api.updateDiagram(
+      this.options.diagramId,
+      {
+        bpmnXml,
+        expectedVersion: this.version!,
+        snapshotSeq: this.options.getSnapshotSeq?.(),
+        replace: this.replaceOnSave || undefined,
+        // 가져오기는 자동 저장 중에 이어서 저장되더라도 버전으로 기록
+        autosave: (autosave && !this.replaceOnSave) || undefined,
+      },
+      { keepalive }
+    );
+    this.version = diagram.version;
+    this.replaceOnSave = false;
+  }
+
+  private markSaved(changeCounter: number): void {
+    this.savedChangeCounter = changeCounter;
+    // 저장 중에 새 변경이 생겼으면 다음 저장 대상
+    this.setStatus(this.hasUnsavedChanges() ? 'unsaved' : 'saved');
+  }
+
+  // ==================== 페이지 이탈 ====================
+
+  // 모바일 브라우저는 beforeunload 없이 pagehide만 발생시키기도 하므로 둘 다 처리
+  // (진행 중인 저장이 있으면 save가 중복 요청하지 않음)
+  private handlePageUnload = () => {
+    this.autoSave(true);
+  };
+
+  // ==================== 이벤트 구독 ====================
+
+  /**
+   * 저장 상태 변경 구독 (구독 해제 함수 반환)
+   */
+  onStatusChange(listener: (status: SaveStatus) => void): () => void {
+    this.statusListeners.add(listener);
+
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  /**
+   * 저장 실패 구독 (구독 해제 함수 반환)
+   */
+  onError(listener: (error: Error) => void): () => void {
+    this.errorListeners.add(listener);
+
+    return () => {
+      this.errorListeners.delete(listener);
+    };
+  }
+
+  private setStatus(status: SaveStatus): void {
+    if (this.status === status) {
+      return;
+    }
+
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+
+  private notifyError(error: Error): void {
+    this.errorListeners.forEach(listener => listener(error));
+  }
+
+  /**
+   * 리소스 정리
+   */
+  destroy(): void {
+    this.stop();
+    this.statusListeners.clear();
+    // 마지막 저장이 진행 중이면 실패를 알릴 수 있도록 끝난 뒤 정리
+    (this.pendingSave || Promise.resolve(true)).finally(() => {
+      this.errorListeners.clear();
+    });
+  }
+}
@@ -0,0 +1,3 @@
+// Diagram persistence services
+export { DiagramPersistenceService } from './DiagramPersistenceService';
+export type { DiagramPersistenceOptions } from './DiagramPersistenceService';
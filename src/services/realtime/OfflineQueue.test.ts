@@ -0,0 +1,60 @@
+/**
+ * OfflineQueue 테스트 (jsdom에는 IndexedDB가 없으므로 메모리 저장소 사용)
+ */
+
+import { OfflineQueue } from './OfflineQueue';
+import { ChangeEvent } from '../../types/bpmn';
+
+const propertyChange = (elementId: string, name: string): ChangeEvent => ({
+  type: 'property',
+  elementId,
+  properties: { name },
+  timestamp: Date.now(),
+});
+
+describe('OfflineQueue', () => {
+  let queue: OfflineQueue;
+
+  beforeEach(() => {
+    queue = new OfflineQueue({ persistent: false });
+  });
+
+  afterEach(async () => {
+    await queue.close();
+  });
+
+  it('추가한 순서대로 변경사항을 반환해야 한다', async () => {
+    await queue.enqueue('diagram1', [propertyChange('Task_1', 'A')]);
+    await queue.enqueue('diagram1', [
+      propertyChange('Task_2', 'B'),
+      propertyChange('Task_1', 'C'),
+    ]);
+
+    const changes = await queue.getAll('diagram1');
+
+    expect(changes.map(change => change.properties.name)).toEqual([
+      'A',
+      'B',
+      'C',
+    ]);
+    expect(await queue.count('diagram1')).toBe(3);
+  });
+
+  it('다이어그램별로 변경사항을 분리해야 한다', async () => {
+    await queue.enqueue('diagram1', [propertyChange('Task_1', 'A')]);
+    await queue.enqueue('diagram2', [propertyChange('Task_1', 'B')]);
+
+    await queue.clear('diagram1');
+
+    expect(await queue.getAll('diagram1')).toEqual([]);
+    expect(await queue.count('diagram2')).toBe(1);
+  });
+
+  it('IndexedDB가 없으면 메모리에 보관해야 한다', async () => {
+    const fallbackQueue = new OfflineQueue();
+
+    await fallbackQueue.enqueue('diagram1', [propertyChange('Task_1', 'A')]);
+
+    expect(await fallbackQueue.count('diagram1')).toBe(1);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * OfflineQueue - 연결이 끊긴 동안의 로컬 변경사항 큐
+ *
+ * 서버로 보내지 못한 변경사항을 다이어그램별로 IndexedDB에 저장하므로
+ * 오프라인 상태에서 페이지를 새로 고쳐도 재연결 후 다시 전송할 수 있습니다.
+ * IndexedDB를 사용할 수 없는 환경(비공개 모드, 테스트 등)에서는 메모리에 보관합니다.
+ */
+
+import { ChangeEvent } from '../../types/bpmn';
+
+/**
+ * 큐에 저장되는 변경사항
+ */
+interface QueuedChange {
+  id?: number;
+  diagramId: string;
+  change: ChangeEvent;
+  queuedAt: number;
+}
+
+/**
+ * OfflineQueue 옵션
+ */
+export interface OfflineQueueOptions {
+  databaseName?: string;
+  // false이면 IndexedDB를 사용하지 않고 메모리에만 보관
+  persistent?: boolean;
+}
+
+const DEFAULT_DATABASE_NAME = 'bpmn-collaboration';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'offlineChanges';
+const DIAGRAM_INDEX = 'diagramId';
+
+/**
+ * IndexedDB 요청을 Promise로 변환
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * OfflineQueue 클래스
+ */
+export class OfflineQueue {
+  private options: OfflineQueueOptions;
+  private database: Promise<IDBDatabase | null> | null = null;
+
+  // IndexedDB를 사용할 수 없거나 저장에 실패한 변경사항
+  private memoryQueue = new Map<string, QueuedChange[]>();
+
+  constructor(options: OfflineQueueOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * 변경사항 추가 (저장 순서대로 다시 전송됨)
+   */
+  async enqueue(diagramId: string, changes: ChangeEvent[]): Promise<void> {
+    const entries = changes.map(change => ({
+      diagramId,
+      change,
+      queuedAt: Date.now(),
+    }));
+    if (entries.length === 0) {
+      return;
+    }
+
+    const database = await this.getDatabase();
+    if (database) {
+      try {
+        const transaction = database.transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        await Promise.all(
+          entries.map(entry => promisifyRequest(store.add(entry)))
+        );
+        return;
+      } catch (error) {
+        // 저장 공간 부족 등으로 실패하면 메모리에 보관 (새로 고치면 유실됨)
+      }
+    }
+
+    const queue = this.memoryQueue.get(diagramId) || [];
+    queue.push(...entries);
+    this.memoryQueue.set(diagramId, queue);
+  }
+
+  /**
+   * 다이어그램의 대기 중인 변경사항 (추가된 순서)
+   */
+  async getAll(diagramId: string): Promise<ChangeEvent[]> {
+    const stored = await this.readStored(diagramId);
+    const inMemory = this.memoryQueue.get(diagramId) || [];
+
+    return stored.concat(inMemory).map(entry => entry.change);
+  }
+
+  /**
+   * 다이어그램의 대기 중인 변경사항 수
+   */
+  async count(diagramId: string): Promise<number> {
+    const changes = await this.getAll(diagramId);
+    return changes.length;
+  }
+
+  /**
+   * 다이어그램의 대기 중인 변경사항 삭제 (다시 전송한 뒤 호출)
+   */
+  async clear(diagramId: string): Promise<void> {
+    this.memoryQueue.delete(diagramId);
+
+    const database = await this.getDatabase();
+    if (!database) {
+      return;
+    }
+
+    const transaction = database.transaction(STORE_NAME, 'readwrite');
+    const index = transaction.objectStore(STORE_NAME).index(DIAGRAM_INDEX);
+    const keys = await promisifyRequest(
+      index.getAllKeys(IDBKeyRange.only(diagramId))
+    );
+    const store = transaction.objectStore(STORE_NAME);
+    await Promise.all(keys.map(key => promisifyRequest(store.delete(key))));
+  }
+
+  /**
+   * 데이터베이스 연결 종료
+   */
+  async close(): Promise<void> {
+    const database = await this.database;
+    database?.close();
+    this.database = null;
+  }
+
+  private async readStored(diagramId: string): Promise<QueuedChange[]> {
+    const database = await this.getDatabase();
+    if (!database) {
+      return [];
+    }
+
+    const index = database
+      .transaction(STORE_NAME, 'readonly')
+      .objectStore(STORE_NAME)
+      .index(DIAGRAM_INDEX);
+    const entries = await promisifyRequest(
+      index.getAll(IDBKeyRange.only(diagramId))
+    );
+
+    // 인덱스는 자동 증가 키 순서를 보장하지 않으므로 다시 정렬
+    return (entries as QueuedChange[]).sort((a, b) => a.id! - b.id!);
+  }
+
+  /**
+   * IndexedDB 연결 (사용할 수 없으면 null)
+   */
+  private getDatabase(): Promise<IDBDatabase | null> {
+    if (!this.database) {
+      this.database = this.openDatabase();
+    }
+    return this.database;
+  }
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (this.options.persistent === false || typeof indexedDB === 'undefined') {
+      return Promise.resolve(null);
+    }
+
+    return new Promise(resolve => {
+      let request: IDBOpenDBRequest;
+      try {
+        request = indexedDB.open(
+          this.options.databaseName || DEFAULT_DATABASE_NAME,
+          DATABASE_VERSION
+        );
+      } catch (error) {
+        // 보안 설정으로 IndexedDB 접근이 막힌 경우
+        resolve(null);
+        return;
+      }
+
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, {
+          keyPath: 'id',
+          autoIncrement: true,
+        });
+        store.createIndex(DIAGRAM_INDEX, 'diagramId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+    });
+  }
+}
@@ -0,0 +1,354 @@
+/**
+ * RealtimeClient 테스트
+ */
+
+import { io } from 'socket.io-client';
+import { RealtimeClient } from './RealtimeClient';
+import { RECONNECT_ATTEMPTS, RECONNECT_DELAY_MS } from '../../constants';
+
+jest.mock('socket.io-client', () => ({
+  io: jest.fn(),
+}));
+
+// 등록된 핸들러를 직접 호출할 수 있는 Mock 소켓
+const createMockSocket = () => {
+  const handlers = new Map<string, Array<(...args: any[]) => void>>();
+  const managerHandlers = new Map<string, (...args: any[]) => void>();
+  let anyHandler: ((event: string, payload: any) => void) | null = null;
+
+  const socket = {
+    on: jest.fn((event: string, handler: (...args: any[]) => void) => {
+      handlers.set(event, [...(handlers.get(event) || []), handler]);
+    }),
+    off: jest.fn((event: string, handler: (...args: any[]) => void) => {
+      handlers.set(
+        event,
+        (handlers.get(event) || []).filter(h => h !== handler)
+      );
+    }),
+    onAny: jest.fn((handler: (event: string, payload: any) => void) => {
+      anyHandler = handler;
+    }),
+    emit: jest.fn(),
+    connect: jest.fn(),
+    disconnect: jest.fn(),
+    removeAllListeners: jest.fn(),
+    io: {
+      on: jest.fn((event: string, handler: (...args: any[]) => void) => {
+        managerHandlers.set(event, handler);
+      }),
+      removeAllListeners: jest.fn(),
+    },
+    // 서버에서 이벤트가 도착한 것처럼 시뮬레이션
+    trigger(event: string, payload?: any) {
+      (handlers.get(event) || []).forEach(handler => handler(payload));
+      if (anyHandler && event !== 'connect' && event !== 'disconnect') {
+        anyHandler(event, payload);
+      }
+    },
+    triggerManager(event: string) {
+      managerHandlers.get(event)?.();
+    },
+  };
+
+  return socket;
+};
+
+describe('RealtimeClient', () => {
+  let mockSocket: ReturnType<typeof createMockSocket>;
+  let client: RealtimeClient;
+
+  const connectAndAuthenticate = async () => {
+    const connected = client.connect();
+    mockSocket.trigger('connect');
+    mockSocket.trigger('authenticated', {
+      message: 'Authentication successful',
+      userId: 'user1',
+      username: 'alice',
+    });
+    return connected;
+  };
+
+  beforeEach(() => {
+    mockSocket = createMockSocket();
+    (io as jest.Mock).mockImplementation(() => mockSocket);
+    client = new RealtimeClient({
+      url: 'http://localhost:3001',
+      getToken: () => 'access-token',
+    });
+  });
+
+  afterEach(() => {
+    client.cleanup();
+  });
+
+  describe('연결', () => {
+    it('재연결 설정과 토큰 핸드셰이크로 소켓을 생성해야 한다', () => {
+      client.connect();
+
+      const [url, options] = (io as jest.Mock).mock.calls[0];
+      expect(url).toBe('http://localhost:3001');
+      expect(options).toMatchObject({
+        autoConnect: false,
+        reconnectionAttempts: RECONNECT_ATTEMPTS,
+        reconnectionDelay: RECONNECT_DELAY_MS,
+      });
+
+      const authCallback = jest.fn();
+      options.auth(authCallback);
+      expect(authCallback).toHaveBeenCalledWith({ token: 'access-token' });
+      expect(mockSocket.connect).toHaveBeenCalled();
+      expect(client.getConnectionState()).toBe('connecting');
+    });
+
+    it('연결되면 authenticate를 보내고 인증 완료 시 resolve해야 한다', async () => {
+      const user = await connectAndAuthenticate();
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('authenticate', {});
+      expect(user).toEqual({ userId: 'user1', username: 'alice' });
+      expect(client.isConnected()).toBe(true);
+      expect(client.getConnectionState()).toBe('connected');
+    });
+
+    it('인증 실패 시 reject해야 한다', async () => {
+      const connected = client.connect();
+      mockSocket.trigger('connect');
+      mockSocket.trigger('auth_error', { message: 'User not authenticated' });
+
+      await expect(connected).rejects.toThrow('User not authenticated');
+      expect(client.isConnected()).toBe(false);
+    });
+
+    it('핸드셰이크 토큰 오류 시 연결을 종료하고 reject해야 한다', async () => {
+      const connected = client.connect();
+      const error = Object.assign(new Error('Access token expired'), {
+        data: { code: 'TOKEN_EXPIRED' },
+      });
+      mockSocket.trigger('connect_error', error);
+
+      await expect(connected).rejects.toThrow('Access token expired');
+      expect(mockSocket.disconnect).toHaveBeenCalled();
+      expect(client.getConnectionState()).toBe('disconnected');
+    });
+
+    it('만료된 토큰은 갱신한 토큰으로 다시 연결해야 한다', async () => {
+      let token = 'expired-token';
+      const refreshToken = jest.fn(() => {
+        token = 'fresh-token';
+        return Promise.resolve(token);
+      });
+      client = new RealtimeClient({ getToken: () => token, refreshToken });
+
+      const connected = client.connect();
+      mockSocket.trigger(
+        'connect_error',
+        Object.assign(new Error('Access token expired'), {
+          data: { code: 'TOKEN_EXPIRED' },
+        })
+      );
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+      expect(mockSocket.connect).toHaveBeenCalledTimes(2);
+
+      const authCallback = jest.fn();
+      (io as jest.Mock).mock.calls[0][1].auth(authCallback);
+      expect(authCallback).toHaveBeenCalledWith({ token: 'fresh-token' });
+
+      mockSocket.trigger('connect');
+      mockSocket.trigger('authenticated', { userId: 'user1' });
+      await expect(connected).resolves.toEqual({
+        userId: 'user1',
+        username: undefined,
+      });
+    });
+
+    it('토큰을 갱신할 수 없으면 연결을 종료하고 reject해야 한다', async () => {
+      client = new RealtimeClient({
+        getToken: () => 'expired-token',
+        refreshToken: () => Promise.resolve(null),
+      });
+
+      const connected = client.connect();
+      mockSocket.trigger(
+        'connect_error',
+        Object.assign(new Error('Access token expired'), {
+          data: { code: 'TOKEN_EXPIRED' },
+        })
+      );
+
+      await expect(connected).rejects.toThrow('Access token expired');
+      expect(mockSocket.connect).toHaveBeenCalledTimes(1);
+      expect(client.getConnectionState()).toBe('disconnected');
+    });
+
+    it('연결 상태 변경을 알려야 한다', async () => {
+      const listener = jest.fn();
+      client.onConnectionStateChange(listener);
+
+      await connectAndAuthenticate();
+      mockSocket.trigger('disconnect', 'transport close');
+
+      expect(listener.mock.calls.map(call => call[0])).toEqual([
+        'connecting',
+        'connected',
+        'reconnecting',
+      ]);
+    });
+  });
+
+  describe('다이어그램 룸', () => {
+    it('연결 전에 요청한 참여는 인증 후 전송해야 한다', async () => {
+      client.joinDiagram('diagram1');
+      expect(mockSocket.emit).not.toHaveBeenCalledWith(
+        'join_diagram',
+        expect.anything()
+      );
+
+      await connectAndAuthenticate();
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('join_diagram', {
+        diagramId: 'diagram1',
+      });
+    });
+
+    it('재연결 후 참여 중이던 룸에 다시 참여해야 한다', async () => {
+      await connectAndAuthenticate();
+      client.joinDiagram('diagram1');
+      mockSocket.emit.mockClear();
+
+      mockSocket.trigger('disconnect', 'transport close');
+      mockSocket.trigger('connect');
+      mockSocket.trigger('authenticated', {
+        message: 'Authentication successful',
+        userId: 'user1',
+      });
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('authenticate', {});
+      expect(mockSocket.emit).toHaveBeenCalledWith('join_diagram', {
+        diagramId: 'diagram1',
+      });
+    });
+
+    it('떠난 룸에는 재참여하지 않아야 한다', async () => {
+      await connectAndAuthenticate();
+      client.joinDiagram('diagram1');
+      client.leaveDiagram('diagram1');
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('leave_diagram', {
+        diagramId: 'diagram1',
+      });
+      expect(client.getJoinedDiagrams()).toEqual([]);
+    });
+  });
+
+  describe('이벤트 전송', () => {
+    it('변경사항을 clientOpId와 함께 전송해야 한다', async () => {
+      await connectAndAuthenticate();
+
+      const clientOpId = client.sendChanges(
+        'diagram1',
+        [{ type: 'remove', elementId: 'Task_1', timestamp: 1 }],
+        3
+      );
+
+      expect(clientOpId).toEqual(expect.any(String));
+      expect(mockSocket.emit).toHaveBeenCalledWith('diagram_change', {
+        diagramId: 'diagram1',
+        changes: [{ type: 'remove', elementId: 'Task_1', timestamp: 1 }],
+        clientOpId,
+        baseSeq: 3,
+      });
+    });
+
+    it('연결되지 않았으면 변경사항을 전송하지 않아야 한다', () => {
+      const clientOpId = client.sendChanges('diagram1', [
+        { type: 'remove', elementId: 'Task_1', timestamp: 1 },
+      ]);
+
+      expect(clientOpId).toBeNull();
+    });
+
+    it('커서 위치, operation 요청과 상태 재요청을 전송해야 한다', async () => {
+      await connectAndAuthenticate();
+
+      client.moveCursor('diagram1', 10, 20, 'Task_1', 'Sub_1');
+      client.requestOperations('diagram1', 5);
+      client.requestDiagramState('diagram1');
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('cursor_move', {
+        diagramId: 'diagram1',
+        x: 10,
+        y: 20,
+        elementId: 'Task_1',
+        rootId: 'Sub_1',
+      });
+      expect(mockSocket.emit).toHaveBeenCalledWith('request_operations', {
+        diagramId: 'diagram1',
+        sinceSeq: 5,
+      });
+      expect(mockSocket.emit).toHaveBeenCalledWith('request_diagram_state', {
+        diagramId: 'diagram1',
+      });
+    });
+
+    it('선택한 요소 목록을 전송해야 한다', async () => {
+      await connectAndAuthenticate();
+
+      client.selectElements('diagram1', ['Task_1', 'Flow_1']);
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('element_select', {
+        diagramId: 'diagram1',
+        elementIds: ['Task_1', 'Flow_1'],
+      });
+    });
+
+    it('요소 잠금과 해제를 전송해야 한다', async () => {
+      await connectAndAuthenticate();
+
+      client.lockElement('diagram1', 'Task_1');
+      client.unlockElement('diagram1', 'Task_1');
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('element_lock', {
+        diagramId: 'diagram1',
+        elementId: 'Task_1',
+      });
+      expect(mockSocket.emit).toHaveBeenCalledWith('element_unlock', {
+        diagramId: 'diagram1',
+        elementId: 'Task_1',
+      });
+    });
+  });
+
+  describe('이벤트 구독', () => {
+    it('서버 이벤트를 구독자에게 전달해야 한다', async () => {
+      const listener = jest.fn();
+      client.on('user_joined', listener);
+
+      await connectAndAuthenticate();
+      mockSocket.trigger('user_joined', {
+        userId: 'user2',
+        username: 'bob',
+        timestamp: '2024-01-01T00:00:00.000Z',
+      });
+
+      expect(listener).toHaveBeenCalledWith({
+        userId: 'user2',
+        username: 'bob',
+        timestamp: '2024-01-01T00:00:00.000Z',
+      });
+    });
+
+    it('구독 해제 후에는 이벤트를 전달하지 않아야 한다', async () => {
+      const listener = jest.fn();
+      const unsubscribe = client.on('participants_updated', listener);
+
+      await connectAndAuthenticate();
+      unsubscribe();
+      mockSocket.trigger('participants_updated', { participants: [] });
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+});
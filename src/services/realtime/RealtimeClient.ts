@@ -0,0 +1,442 @@
+/**
+ * RealtimeClient - 협업 서버 Socket.IO 클라이언트
+ *
+ * 서버 연결, JWT 핸드셰이크와 `authenticate` 인증, 다이어그램 룸 참여를 관리하고
+ * 협업 이벤트를 타입이 지정된 메서드와 리스너로 노출합니다.
+ * 재연결 시에는 다시 인증한 뒤 참여 중이던 다이어그램 룸에 자동으로 재참여합니다.
+ * 핸드셰이크에서 토큰이 만료되었다고 거부되면 refreshToken으로 갱신한 뒤 한 번 다시 연결합니다.
+ */
+
+import { io, Socket } from 'socket.io-client';
+import {
+  RECONNECT_ATTEMPTS,
+  RECONNECT_DELAY_MS,
+  SOCKET_URL,
+} from '../../constants';
+import { ChangeEvent } from '../../types/bpmn';
+import {
+  ClientToServerEvents,
+  ServerToClientEvents,
+} from '../../types/collaboration';
+
+/**
+ * 연결 상태
+ */
+export type ConnectionState =
+  | 'disconnected'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting';
+
+/**
+ * 인증 완료 정보
+ */
+export interface AuthenticatedUser {
+  userId: string;
+  username?: string;
+}
+
+/**
+ * RealtimeClient 옵션
+ */
+export interface RealtimeClientOptions {
+  url?: string;
+  // 핸드셰이크마다 호출되므로 재연결 시 갱신된 토큰이 사용됨
+  getToken: () => string | null;
+  // 갱신된 액세스 토큰 반환 (갱신할 수 없으면 null)
+  refreshToken?: () => Promise<string | null>;
+  reconnectAttempts?: number;
+  reconnectDelayMs?: number;
+}
+
+type ServerEventName = keyof ServerToClientEvents;
+
+/**
+ * RealtimeClient 클래스
+ */
+export class RealtimeClient {
+  private socket: Socket<ServerToClientEvents, ClientToServerEvents> | null =
+    null;
+  private options: RealtimeClientOptions;
+  private connectionState: ConnectionState = 'disconnected';
+  private user: AuthenticatedUser | null = null;
+
+  // 재연결 시 다시 참여할 다이어그램
+  private joinedDiagrams = new Set<string>();
+
+  // 소켓 생성 전에 등록된 리스너도 유지하기 위해 직접 관리
+  private listeners = new Map<ServerEventName, Set<(payload: any) => void>>();
+  private connectionStateListeners = new Set<
+    (state: ConnectionState) => void
+  >();
+  private authFailureListeners = new Set<(error: Error) => void>();
+
+  // 만료된 토큰으로 거부된 뒤 갱신한 토큰으로 이미 재시도했는지 여부
+  private hasRetriedWithRefreshedToken = false;
+
+  private clientOpCounter = 0;
+
+  constructor(options: RealtimeClientOptions) {
+    this.options = options;
+  }
+
+  // ==================== 연결 관리 ====================
+
+  /**
+   * 서버에 연결하고 인증 완료까지 대기
+   */
+  connect(): Promise<AuthenticatedUser> {
+    if (this.socket) {
+      return this.user
+        ? Promise.resolve(this.user)
+        : this.waitForAuthentication();
+    }
+
+    this.socket = io(this.options.url || SOCKET_URL, {
+      autoConnect: false,
+      transports: ['websocket', 'polling'],
+      reconnection: true,
+      reconnectionAttempts:
+        this.options.reconnectAttempts ?? RECONNECT_ATTEMPTS,
+      reconnectionDelay: this.options.reconnectDelayMs ?? RECONNECT_DELAY_MS,
+      auth: callback => callback({ token: this.options.getToken() }),
+    });
+
+    this.setupSocketListeners(this.socket);
+
+    const authenticated = this.waitForAuthentication();
+    this.setConnectionState('connecting');
+    this.socket.connect();
+
+    return authenticated;
+  }
+
+  /**
+   * 연결 종료 (참여 중인 다이어그램 정보도 초기화)
+   */
+  disconnect(): void {
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.io.removeAllListeners();
+      this.socket.disconnect();
+      this.socket = null;
+    }
+
+    this.user = null;
+    this.hasRetriedWithRefreshedToken = false;
+    this.joinedDiagrams.clear();
+    this.setConnectionState('disconnected');
+  }
+
+  /**
+   * 인증까지 완료된 연결 여부
+   */
+  isConnected(): boolean {
+    return this.connectionState === 'connected' && !!this.user;
+  }
+
+  getConnectionState(): ConnectionState {
+    return this.connectionState;
+  }
+
+  getUser(): AuthenticatedUser | null {
+    return this.user;
+  }
+
+  /**
+   * 소켓 수준 이벤트 처리
+   */
+  private setupSocketListeners(
+    socket: Socket<ServerToClientEvents, ClientToServerEvents>
+  ): void {
+    // 최초 연결과 재연결 모두 인증부터 다시 수행
+    socket.on('connect', () => {
+      socket.emit('authenticate', {});
+    });
+
+    socket.on('authenticated', payload => {
+      this.user = { userId: payload.userId, username: payload.username };
+      this.hasRetriedWithRefreshedToken = false;
+      this.setConnectionState('connected');
+
+      // 재연결 후 참여 중이던 룸에 재참여 (서버가 diagram_state를 다시 보냄)
+      this.joinedDiagrams.forEach(diagramId => {
+        socket.emit('join_diagram', { diagramId });
+      });
+    });
+
+    socket.on('disconnect', reason => {
+      this.user = null;
+      // 클라이언트가 직접 끊은 경우가 아니면 socket.io가 자동 재연결을 시도함
+      this.setConnectionState(
+        reason === 'io client disconnect' ? 'disconnected' : 'reconnecting'
+      );
+    });
+
+    socket.io.on('reconnect_attempt', () => {
+      this.setConnectionState('reconnecting');
+    });
+
+    socket.io.on('reconnect_failed', () => {
+      this.setConnectionState('disconnected');
+    });
+
+    // 핸드셰이크 단계의 인증 실패(토큰 누락/만료)는 socket.io가 재시도하지 않으므로
+    // 만료된 토큰이면 갱신 후 한 번 다시 연결하고, 그 외에는 연결 종료
+    socket.on(
+      'connect_error',
+      (error: Error & { data?: { code?: string } }) => {
+        if (!error.data?.code) {
+          return;
+        }
+
+        if (
+          error.data.code === 'TOKEN_EXPIRED' &&
+          this.options.refreshToken &&
+          !this.hasRetriedWithRefreshedToken
+        ) {
+          this.hasRetriedWithRefreshedToken = true;
+          this.options
+            .refreshToken()
+            .catch(() => null)
+            .then(token => {
+              if (this.socket !== socket) {
+                return;
+              }
+              if (token) {
+                socket.connect();
+              } else {
+                this.failAuthentication(error);
+              }
+            });
+          return;
+        }
+
+        this.failAuthentication(error);
+      }
+    );
+
+    // 등록된 서버 이벤트 리스너로 전달
+    socket.onAny((event: string, payload: any) => {
+      this.listeners
+        .get(event as ServerEventName)
+        ?.forEach(listener => listener(payload));
+    });
+  }
+
+  /**
+   * authenticated 또는 인증 실패까지 대기
+   */
+  private waitForAuthentication(): Promise<AuthenticatedUser> {
+    return new Promise((resolve, reject) => {
+      const socket = this.socket!;
+
+      const cleanup = () => {
+        socket.off('authenticated', onAuthenticated);
+        socket.off('auth_error', onAuthError);
+        this.authFailureListeners.delete(onAuthFailure);
+      };
+
+      const onAuthenticated = (payload: {
+        userId: string;
+        username?: string;
+      }) => {
+        cleanup();
+        resolve({ userId: payload.userId, username: payload.username });
+      };
+
+      const onAuthError = (payload: { message: string }) => {
+        cleanup();
+        reject(new Error(payload.message));
+      };
+
+      const onAuthFailure = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+
+      socket.on('authenticated', onAuthenticated);
+      socket.on('auth_error', onAuthError);
+      this.authFailureListeners.add(onAuthFailure);
+    });
+  }
+
+  /**
+   * 핸드셰이크 인증 실패 - 연결을 종료하고 인증 대기 중인 connect()를 reject
+   */
+  private failAuthentication(error: Error): void {
+    this.disconnect();
+    this.authFailureListeners.forEach(listener => listener(error));
+  }
+
+  private setConnectionState(state: ConnectionState): void {
+    if (this.connectionState === state) {
+      return;
+    }
+
+    this.connectionState = state;
+    this.connectionStateListeners.forEach(listener => listener(state));
+  }
+
+  // ==================== 다이어그램 룸 ====================
+
+  /**
+   * 다이어그램 룸 참여 (연결 전이면 인증 후 참여)
+   */
+  joinDiagram(diagramId: string): void {
+    this.joinedDiagrams.add(diagramId);
+
+    if (this.isConnected()) {
+      this.socket!.emit('join_diagram', { diagramId });
+    }
+  }
+
+  /**
+   * 다이어그램 룸 떠나기
+   */
+  leaveDiagram(diagramId: string): void {
+    this.joinedDiagrams.delete(diagramId);
+
+    if (this.isConnected()) {
+      this.socket!.emit('leave_diagram', { diagramId });
+    }
+  }
+
+  getJoinedDiagrams(): string[] {
+    return Array.from(this.joinedDiagrams);
+  }
+
+  // ==================== 협업 이벤트 전송 ====================
+
+  /**
+   * 변경사항 전송 (서버 ack와 매칭할 clientOpId 반환)
+   */
+  sendChanges(
+    diagramId: string,
+    changes: ChangeEvent[],
+    baseSeq?: number
+  ): string | null {
+    if (!this.isConnected() || changes.length === 0) {
+      return null;
+    }
+
+    const clientOpId = this.createClientOpId();
+    this.socket!.emit('diagram_change', {
+      diagramId,
+      changes,
+      clientOpId,
+      baseSeq,
+    });
+
+    return clientOpId;
+  }
+
+  /**
+   * 특정 시퀀스 이후의 operation 요청 (시퀀스 갭 복구)
+   */
+  requestOperations(diagramId: string, sinceSeq: number): void {
+    if (this.isConnected()) {
+      this.socket!.emit('request_operations', { diagramId, sinceSeq });
+    }
+  }
+
+  /**
+   * 다이어그램 전체 상태 재요청 (거부된 로컬 변경사항을 서버 상태로 되돌릴 때)
+   */
+  requestDiagramState(diagramId: string): void {
+    if (this.isConnected()) {
+      this.socket!.emit('request_diagram_state', { diagramId });
+    }
+  }
+
+  /**
+   * 커서 위치 전송 (다이어그램 좌표, 포인터 아래 요소, 보고 있는 plane)
+   */
+  moveCursor(
+    diagramId: string,
+    x: number,
+    y: number,
+    elementId?: string,
+    rootId?: string
+  ): void {
+    if (this.isConnected()) {
+      this.socket!.emit('cursor_move', { diagramId, x, y, elementId, rootId });
+    }
+  }
+
+  /**
+   * 선택한 요소 전송 (빈 배열이면 선택 해제)
+   */
+  selectElements(diagramId: string, elementIds: string[]): void {
+    if (this.isConnected()) {
+      this.socket!.emit('element_select', { diagramId, elementIds });
+    }
+  }
+
+  /**
+   * 요소 잠금 획득 또는 갱신 요청
+   */
+  lockElement(diagramId: string, elementId: string): void {
+    if (this.isConnected()) {
+      this.socket!.emit('element_lock', { diagramId, elementId });
+    }
+  }
+
+  /**
+   * 요소 잠금 해제
+   */
+  unlockElement(diagramId: string, elementId: string): void {
+    if (this.isConnected()) {
+      this.socket!.emit('element_unlock', { diagramId, elementId });
+    }
+  }
+
+  private createClientOpId(): string {
+    this.clientOpCounter += 1;
+    return `${this.user?.userId || 'anonymous'}-${Date.now().toString(
+      36
+    )}-${this.clientOpCounter}`;
+  }
+
+  // ==================== 이벤트 구독 ====================
+
+  /**
+   * 서버 이벤트 구독 (구독 해제 함수 반환)
+   */
+  on<E extends ServerEventName>(
+    event: E,
+    listener: ServerToClientEvents[E]
+  ): () => void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    const listeners = this.listeners.get(event)!;
+    listeners.add(listener as (payload: any) => void);
+
+    return () => {
+      listeners.delete(listener as (payload: any) => void);
+    };
+  }
+
+  /**
+   * 연결 상태 변경 구독 (구독 해제 함수 반환)
+   */
+  onConnectionStateChange(
+    listener: (state: ConnectionState) => void
+  ): () => void {
+    this.connectionStateListeners.add(listener);
+
+    return () => {
+      this.connectionStateListeners.delete(listener);
+    };
+  }
+
+  /**
+   * 리소스 정리
+   */
+  cleanup(): void {
+    this.disconnect();
+    this.listeners.clear();
+    this.connectionStateListeners.clear();
+  }
+}
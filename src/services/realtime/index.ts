@@ -1,2 +1,9 @@
-// Real-time communication services will be exported from here
-export {};
+// Real-time communication services
+export { RealtimeClient } from './RealtimeClient';
+export { OfflineQueue } from './OfflineQueue';
+export type { OfflineQueueOptions } from './OfflineQueue';
+export type {
+  AuthenticatedUser,
+  ConnectionState,
+  RealtimeClientOptions,
+} from './RealtimeClient';
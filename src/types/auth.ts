@@ -0,0 +1,30 @@
+// Authentication REST API type definitions
+
+// /api/auth 응답의 사용자 (비밀번호 제외)
+export interface AuthUser {
+  id: string;
+  username: string;
+  email: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface LoginRequest {
+  // username 또는 email 중 하나
+  username?: string;
+  email?: string;
+  password: string;
+}
+
+export interface RegisterRequest {
+  username: string;
+  email: string;
+  password: string;
+}
+
+// login / register / refresh 응답
+export interface AuthResponse {
+  user: AuthUser;
+  accessToken: string;
+  refreshToken: string;
+}
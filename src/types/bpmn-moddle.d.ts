@@ -0,0 +1,8 @@
+// bpmn-moddle은 타입 정의를 제공하지 않으므로 클라이언트에서 사용하는 부분만 선언
+declare module 'bpmn-moddle' {
+  export default class BpmnModdle {
+    constructor(packages?: any, options?: any);
+    create(type: string, attrs?: any): any;
+    createAny(name: string, nsUri: string, properties?: any): any;
+  }
+}
@@ -1,4 +1,12 @@
 // BPMN related type definitions
+import type { ChangeEvent } from '../../shared/socketEvents';
+import {
+  DiagramStateSnapshot,
+  ElementStamps,
+  SequencedOperation,
+} from './collaboration';
+import { SaveStatus } from './diagram';
+
 export interface BPMNElement {
   id: string;
   x: number;
@@ -44,6 +52,14 @@ export interface BPMNEditorProps {
   initialXML?: string;
   onElementChange: (event: ElementChangeEvent) => void;
   onSelectionChange: (elementId: string) => void;
+  // Offline indicator shown in the toolbar
+  offlineStatus?: {
+    isOffline: boolean;
+    queuedChanges: number;
+  };
+  // Autosave status shown in the toolbar
+  saveStatus?: SaveStatus;
+  onResolveSaveConflict?: (resolution: 'overwrite' | 'reload') => void;
 }
 
 export interface BPMNEditorRef {
@@ -57,6 +73,9 @@ export interface BPMNEditorRef {
   applySilentBatchUpdates: (changeEvents: ElementChangeEvent[]) => void;
   getSilentCommandStack: () => SilentCommandStack | null;
   getSilentModeling: () => SilentModeling | null;
+  getCollaborationEventManager: () => CollaborationEventManager | null;
+  getCollaborativeUndoManager: () => CollaborativeUndoManager | null;
+  loadDiagramState: (state: DiagramStateSnapshot) => Promise<void>;
 }
 
 // Silent CommandStack 타입 정의
@@ -66,6 +85,12 @@ export interface SilentCommandStack {
   executeBatchSilently(
     commands: Array<{ command: string; context?: any }>
   ): any[];
+  setExcludeSilentFromHistory(exclude: boolean): void;
+  undo(): void;
+  redo(): void;
+  canUndo(): boolean;
+  canRedo(): boolean;
+  clear(): void;
 }
 
 // Silent Modeling 타입 정의
@@ -104,6 +129,27 @@ export interface SilentUpdateService {
     sourceId: string,
     targetId: string
   ): any;
+  updateConnectionSilently(
+    connectionId: string,
+    update: {
+      waypoints?: Array<{ x: number; y: number }>;
+      sourceId?: string;
+      targetId?: string;
+    }
+  ): any | null;
+  updateContainmentSilently(
+    elementId: string,
+    containment: {
+      parentId?: string;
+      hostId?: string;
+      laneIds?: string[];
+      rootId?: string;
+    }
+  ): any | null;
+  updateLabelSilently(
+    elementId: string,
+    bounds: { x: number; y: number; width?: number; height?: number }
+  ): any | null;
   updateVisualPropertiesDirectly(
     elementId: string,
     visualProps: any
@@ -112,6 +158,7 @@ export interface SilentUpdateService {
   setElementSize(elementId: string, width: number, height: number): boolean;
   refreshElementGraphics(elementId: string): boolean;
   refreshAllGraphics(): void;
+  getRootElement(rootId?: string): any | null;
   suspendRendering(): void;
   resumeRendering(): void;
   isRenderingSuspended(): boolean;
@@ -151,33 +198,45 @@ export interface DiagramData {
 }
 
 // CollaborationEventManager 관련 타입 정의
-export interface ChangeEvent {
-  type: 'property' | 'position' | 'create' | 'remove' | 'connection';
-  elementId: string;
-  elementType?: string;
-  properties?: any;
-  x?: number;
-  y?: number;
-  width?: number;
-  height?: number;
-  elementData?: any;
-  sourceId?: string;
-  targetId?: string;
-  timestamp: number;
-  userId?: string;
-  isRemote?: boolean;
-}
+export type { ChangeEvent };
 
 export interface CollaborationEventManager {
   applyRemoteChanges(changes: ChangeEvent[]): void;
+  applyLocalChanges(changes: ChangeEvent[]): ChangeEvent[];
+  rebaseLocalChanges(changes: ChangeEvent[]): {
+    applied: ChangeEvent[];
+    rejected: ChangeEvent[];
+  };
+  applySequencedOperations(operations: SequencedOperation[]): void;
+  acknowledgeLocalOperation(seq: number): void;
+  resetSequence(seq: number): void;
+  resetElementState(stamps?: ElementStamps): void;
+  getLastAppliedSeq(): number;
   onLocalChange(callback: (change: ChangeEvent) => void): void;
   onRemoteChange(callback: (change: ChangeEvent) => void): void;
+  onSequenceGap(callback: (lastAppliedSeq: number) => void): void;
+  observeChanges(observer: {
+    onLocalChange?: (change: ChangeEvent) => void;
+    onRemoteChange?: (change: ChangeEvent) => void;
+  }): () => void;
+  captureElementState(elementId: string): ChangeEvent | null;
   cleanup(): void;
   getServiceInfo(): {
     isProcessingRemoteEvent: boolean;
-    remoteEventSourcesCount: number;
     changeTrackerSize: number;
-    eventSourceHistorySize: number;
     changeBufferSize: number;
   };
 }
+
+// 협업 Undo 관리자 타입 정의 (로컬 사용자의 변경사항만 되돌림)
+export interface CollaborativeUndoManager {
+  undo(): boolean;
+  redo(): boolean;
+  canUndo(): boolean;
+  canRedo(): boolean;
+  clear(): void;
+  onChange(
+    listener: (state: { canUndo: boolean; canRedo: boolean }) => void
+  ): () => void;
+  cleanup(): void;
+}
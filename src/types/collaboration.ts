@@ -1,21 +1,25 @@
 // Collaboration related type definitions
+
 export interface User {
   id: string;
   name: string;
   color: string;
   isActive: boolean;
+  // 보고 있는 plane의 루트 BPMN 요소 ID (서브프로세스 drill-down 등)
+  rootId?: string;
 }
 
 export interface CursorPosition {
   x: number;
   y: number;
   elementId?: string;
+  rootId?: string;
 }
 
 export interface CollaborationState {
   connectedUsers: User[];
   userCursors: Map<string, CursorPosition>;
-  selectedElements: Map<string, string>; // userId -> elementId
+  selectedElements: Map<string, string[]>; // userId -> elementIds
 }
 
 export interface UserSession {
@@ -24,7 +28,7 @@ export interface UserSession {
   userName: string;
   joinedAt: Date;
   lastSeen: Date;
-  currentSelection?: string;
+  currentSelection?: string[];
   cursorPosition?: CursorPosition;
 }
 
@@ -35,10 +39,26 @@ export interface CollaborationSession {
   changeBuffer: any[];
 }
 
-export interface SocketEvents {
-  'join-diagram': (diagramId: string) => void;
-  'leave-diagram': (diagramId: string) => void;
-  'element-change': (change: any) => void;
-  'cursor-move': (position: CursorPosition) => void;
-  'element-select': (elementId: string) => void;
-}
+// 클라이언트-서버 공유 소켓 이벤트 계약
+export type {
+  AuthenticatedPayload,
+  ChangeAckPayload,
+  ChangeRejectedPayload,
+  ClientToServerEvents,
+  CRDTStamp,
+  CRDTStamps,
+  CursorUpdateEvent,
+  DiagramChangePayload,
+  DiagramRole,
+  DiagramStateSnapshot,
+  ElementStamps,
+  OperationsPayload,
+  Participant,
+  PresenceEvent,
+  SelectionUpdateEvent,
+  SequencedOperation,
+  ServerToClientEvents,
+  SnapshotCreatedPayload,
+  ValidationErrorPayload,
+  ValidationIssue,
+} from '../../shared/socketEvents';
@@ -0,0 +1,87 @@
+// Diagram REST API type definitions
+
+import type { DiagramRole } from '../../shared/socketEvents';
+
+export interface DiagramCollaborator {
+  userId: string;
+  role: Exclude<DiagramRole, 'owner'>;
+  addedAt: string;
+}
+
+// GET /api/diagrams/:id 응답 (목록 조회에서는 bpmnXml 제외)
+export interface Diagram {
+  id: string;
+  title: string;
+  description?: string;
+  bpmnXml?: string;
+  owner: string;
+  collaborators: DiagramCollaborator[];
+  isPublic: boolean;
+  version: number;
+  lastSeq: number;
+  snapshotSeq: number;
+  snapshotAt?: string;
+  lastModified: string;
+  createdAt: string;
+  updatedAt: string;
+  role?: DiagramRole;
+}
+
+export type DiagramListSort =
+  | '-lastModified'
+  | 'lastModified'
+  | '-createdAt'
+  | 'createdAt'
+  | 'title'
+  | '-title'
+  | 'relevance';
+
+// GET /api/diagrams 쿼리 (owner: 'me'는 현재 사용자, relevance 정렬은 q 필요)
+export interface DiagramListFilters {
+  q?: string;
+  owner?: string;
+  isPublic?: boolean;
+  sort?: DiagramListSort;
+  page?: number;
+  limit?: number;
+}
+
+// GET /api/diagrams 응답 (한 페이지)
+export interface DiagramListResponse {
+  diagrams: Diagram[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface CreateDiagramRequest {
+  title: string;
+  description?: string;
+  bpmnXml: string;
+  isPublic?: boolean;
+}
+
+export interface UpdateDiagramRequest {
+  title?: string;
+  description?: string;
+  bpmnXml?: string;
+  isPublic?: boolean;
+  expectedVersion?: number;
+  snapshotSeq?: number;
+  // The XML replaces the live session state (import): open editors reload it
+  replace?: boolean;
+  // Periodic/unload save: not recorded in the version history
+  autosave?: boolean;
+  versionLabel?: string;
+}
+
+// PUT /api/diagrams/:id 409 응답 (다른 사용자가 먼저 저장함)
+export interface DiagramConflict {
+  expectedVersion: number | null;
+  currentVersion: number;
+  bpmnXml: string;
+  lastModified: string;
+}
+
+export type SaveStatus = 'saved' | 'saving' | 'unsaved' | 'conflict';
@@ -1,2 +1,5 @@
 // Export all types from this index file
+export * from './auth';
 export * from './bpmn';
+export * from './collaboration';
+export * from './diagram';
@@ -1,2 +1,2 @@
 // Utility functions will be exported from here
-export {};
+export { getUserColor } from './userColors';
@@ -0,0 +1,10 @@
+import { USER_COLORS } from '../constants';
+
+// Pick a stable color for a user so every client shows the same color
+export const getUserColor = (userId: string): string => {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return USER_COLORS[Math.abs(hash) % USER_COLORS.length];
+};